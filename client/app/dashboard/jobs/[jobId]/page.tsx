@@ -5,6 +5,7 @@ import { useParams, useRouter } from "next/navigation";
 import Guard from "@/components/Guard";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import { jobService, Job, Proposal, UpdateJobData } from "@/services/jobService";
+import { fromCents, toCents } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -66,7 +67,7 @@ const JobDetailsPage = () => {
           setEditForm({
             title: jobResponse.job.title,
             description: jobResponse.job.description,
-            budget: jobResponse.job.budget,
+            budget: fromCents(jobResponse.job.budget),
             category: jobResponse.job.category,
           });
           
@@ -97,7 +98,7 @@ const JobDetailsPage = () => {
       const { title, description, budget, category } = editForm;
       const updatedData: UpdateJobData = { title, description, budget: Number(budget), category };
       await jobService.updateJob(jobId as string, updatedData);
-      setJob(prev => (prev ? { ...prev, ...updatedData } : null));
+      setJob(prev => (prev ? { ...prev, ...updatedData, budget: toCents(Number(budget)) } : null));
       setIsEditing(false);
     } catch (error) {
       console.error("Failed to save changes", error);
@@ -239,7 +240,7 @@ const JobDetailsPage = () => {
                             onChange={handleInputChange}
                           />
                         ) : (
-                          <span className="font-medium">${job.budget}</span>
+                          <span className="font-medium">${fromCents(job.budget)}</span>
                         )}
                       </div>
                       <div className="flex items-center">
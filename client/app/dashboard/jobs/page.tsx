@@ -6,6 +6,7 @@ import Guard from "@/components/Guard";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import CreateJobForm from "@/components/jobs/CreateJobForm";
 import { jobService, Job, JobStats } from "@/services/jobService";
+import { fromCents } from "@/lib/utils";
 
 const JobsPage = () => {
   const router = useRouter();
@@ -200,7 +201,7 @@ const JobsPage = () => {
                               {formatStatus(job.status)}
                             </span>
                             <span>{job._count.proposals} proposals</span>
-                            <span>${job.budget}</span>
+                            <span>${fromCents(job.budget)}</span>
                             <span>Posted {new Date(job.createdAt).toLocaleDateString()}</span>
                           </div>
                         </div>
@@ -3,6 +3,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useEffect, useState } from "react";
 import { useAuth } from "@/stores/useAuth";
 import { clientService, ClientStats } from "@/services/clientService";
+import { fromCents } from "@/lib/utils";
 
 export function DashboardStats() {
   const { user } = useAuth();
@@ -34,7 +35,7 @@ export function DashboardStats() {
     },
     {
       name: "Total Spent",
-      value: `$${(stats?.totalSpent ?? 0).toLocaleString()}`,
+      value: `$${fromCents(stats?.totalSpent ?? 0).toLocaleString()}`,
       icon: DollarSign,
     },
   ];
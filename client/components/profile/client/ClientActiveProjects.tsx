@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Calendar, DollarSign, Users, Eye } from "lucide-react";
 import { useEffect, useState } from "react";
 import { clientService, Job } from "@/services/clientService";
+import { fromCents } from "@/lib/utils";
 
 interface ClientActiveProjectsProps {
   clientId: string;
@@ -66,7 +67,7 @@ export const ClientActiveProjects = ({ clientId }: ClientActiveProjectsProps) =>
               <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mb-3">
                 <div className="flex items-center">
                   <DollarSign className="h-4 w-4 mr-1" />
-                  ${project.budget.toLocaleString()}
+                  ${fromCents(project.budget).toLocaleString()}
                 </div>
                 <div className="flex items-center">
                   <Users className="h-4 w-4 mr-1" />
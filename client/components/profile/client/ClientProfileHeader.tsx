@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Briefcase, Calendar, DollarSign, Star, CheckCircle, Edit, MapPin } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { ClientProfile, ClientStats } from "@/services/clientService";
+import { fromCents } from "@/lib/utils";
 
 interface ClientProfileHeaderProps {
   client: ClientProfile;
@@ -65,7 +66,7 @@ export const ClientProfileHeader = ({ client, stats }: ClientProfileHeaderProps)
             <p className="text-sm text-muted-foreground">Jobs Posted</p>
           </div>
           <div className="space-y-1">
-            <p className="text-2xl font-bold">${stats?.totalSpent ? (stats.totalSpent / 1000).toFixed(1) + 'k' : '0'}</p>
+            <p className="text-2xl font-bold">${stats?.totalSpent ? (fromCents(stats.totalSpent) / 1000).toFixed(1) + 'k' : '0'}</p>
             <p className="text-sm text-muted-foreground">Total Spent</p>
           </div>
         </div>
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useEffect, useState } from "react";
 import { clientService, CompletedProject, Review } from "@/services/clientService";
+import { fromCents } from "@/lib/utils";
 
 interface ClientWorkHistoryProps {
   clientId: string;
@@ -100,7 +101,7 @@ export const ClientWorkHistory = ({ clientId }: ClientWorkHistoryProps) => {
                   <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mb-3">
                     <div className="flex items-center">
                       <DollarSign className="h-4 w-4 mr-1" />
-                      ${project.budget.toLocaleString()}
+                      ${fromCents(project.budget).toLocaleString()}
                     </div>
                     <div className="flex items-center">
                       <Calendar className="h-4 w-4 mr-1" />
@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// API money amounts are integers in cents; forms and labels use dollars
+export function fromCents(cents: number) {
+  return cents / 100
+}
+
+export function toCents(dollars: number) {
+  return Math.round(dollars * 100)
+}
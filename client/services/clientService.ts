@@ -23,7 +23,7 @@ export interface Job {
   clientId: string;
   title: string;
   description: string;
-  budget: number;
+  budget: number; // cents
   category: string;
   status: "OPEN" | "IN_PROGRESS" | "COMPLETED" | "CANCELED";
   createdAt: string;
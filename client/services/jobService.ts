@@ -5,7 +5,7 @@ export interface Job {
   id: string;
   title: string;
   description: string;
-  budget: number;
+  budget: number; // cents
   category: string;
   status: 'OPEN' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELED';
   createdAt: string;
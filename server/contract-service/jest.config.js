@@ -0,0 +1,21 @@
+/** @type {import("jest").Config} */
+export default {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.spec.ts"],
+  transform: {
+    "^.+\\.ts$": [
+      "ts-jest",
+      {
+        // compiled as CommonJS so jest.mock works with the .ts import paths
+        tsconfig: {
+          module: "CommonJS",
+          moduleResolution: "Node",
+          target: "ES2022",
+          esModuleInterop: true,
+          isolatedModules: true,
+        },
+      },
+    ],
+  },
+};
@@ -0,0 +1,137 @@
+import { DomainError, SERVICE_TOKEN_HEADER } from "@rizlax/common-middleware";
+
+export interface EscrowOperationResult {
+  escrowTransaction: { id: string; amount: number; type: string };
+  // false when escrow-wallet-service already had this transaction (a retry)
+  created: boolean;
+}
+
+export interface EscrowAccountResult {
+  escrowAccount: { id: string; contractId: string };
+  created: boolean;
+}
+
+export interface DisputeSettlementResult {
+  // null when nothing was held in escrow for the dispute
+  settlement: {
+    id: string;
+    type: string;
+    releaseAmount: number;
+    refundAmount: number;
+  } | null;
+  created: boolean;
+}
+
+export interface AmendmentAdjustmentResult {
+  // top-ups and refunds of funded milestones, amounts in USD cents
+  movements: {
+    milestoneId: string;
+    type: "DEPOSIT" | "REFUND";
+    amount: number;
+    escrowTransactionId: string;
+  }[];
+  created: boolean;
+}
+
+// internal routes answer { success, data } or { success: false, error };
+// ServiceGuard rejections answer { message }
+interface EscrowResponse<T> {
+  success?: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * HTTP client for the internal escrow endpoints of escrow-wallet-service.
+ * Every call is safe to retry: the escrow side returns the existing
+ * transaction instead of moving money twice for the same milestone or timesheet.
+ */
+class EscrowClient {
+  private baseUrl: string;
+  private serviceToken: string;
+
+  constructor(baseUrl: string, serviceToken: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.serviceToken = serviceToken;
+  }
+
+  private async post<T>(path: string): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/internal/escrow${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [SERVICE_TOKEN_HEADER]: this.serviceToken,
+        },
+        signal: AbortSignal.timeout(15000),
+      });
+    } catch {
+      throw new DomainError(
+        "Escrow service is unavailable",
+        "ESCROW_UNAVAILABLE",
+        503
+      );
+    }
+
+    const body = (await response
+      .json()
+      .catch(() => null)) as EscrowResponse<T> | null;
+
+    if (!response.ok || !body?.success) {
+      // business errors (e.g. insufficient balance) go back to the user as-is,
+      // anything else (bad service token, 5xx) is a gateway failure
+      const isBusinessError =
+        response.status >= 400 &&
+        response.status < 500 &&
+        response.status !== 401 &&
+        response.status !== 403;
+      throw new DomainError(
+        body?.error ?? body?.message ?? "Escrow service request failed",
+        "ESCROW_OPERATION_FAILED",
+        isBusinessError ? response.status : 502
+      );
+    }
+
+    return body.data as T;
+  }
+
+  // opens the (empty) escrow account of a new contract
+  public openEscrowAccount(contractId: string): Promise<EscrowAccountResult> {
+    return this.post(`/contracts/${contractId}/account`);
+  }
+
+  // executes an admin's dispute outcome on the held escrow funds
+  public settleDispute(disputeId: string): Promise<DisputeSettlementResult> {
+    return this.post(`/disputes/${disputeId}/settle`);
+  }
+
+  // tops up or refunds the funded milestones an accepted amendment changes
+  public applyAmendment(
+    amendmentId: string
+  ): Promise<AmendmentAdjustmentResult> {
+    return this.post(`/amendments/${amendmentId}/apply`);
+  }
+
+  public fundMilestone(milestoneId: string): Promise<EscrowOperationResult> {
+    return this.post(`/milestones/${milestoneId}/fund`);
+  }
+
+  public releaseMilestone(milestoneId: string): Promise<EscrowOperationResult> {
+    return this.post(`/milestones/${milestoneId}/release`);
+  }
+
+  public refundMilestone(
+    milestoneId: string
+  ): Promise<EscrowOperationResult | null> {
+    return this.post(`/milestones/${milestoneId}/refund`);
+  }
+
+  // charges the client wallet for a billed week and releases it to the freelancer
+  public billTimesheet(timesheetId: string): Promise<EscrowOperationResult> {
+    return this.post(`/timesheets/${timesheetId}/bill`);
+  }
+}
+
+export default EscrowClient;
@@ -0,0 +1,112 @@
+import type { Request, Response } from "express";
+import z from "zod";
+import { DomainError } from "@rizlax/common-middleware";
+import type { ContractAgreement, ContractSignature } from "@prisma/client";
+import type {
+  AgreementWithSignatures,
+  SignatureContext,
+} from "../services/Agreement.ts";
+import { signAgreementSchema } from "../validators/Agreement.ts";
+import logger from "@rizlax/logs";
+
+type AuthReq = Request & { userId: string; userRole?: string };
+
+interface IAgreementService {
+  getAgreement: (
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ) => Promise<AgreementWithSignatures>;
+  getAgreementPdf: (
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ) => Promise<{ agreement: ContractAgreement; pdf: Buffer }>;
+  signAgreement: (
+    contractId: string,
+    userId: string,
+    documentHash: string,
+    context: SignatureContext
+  ) => Promise<ContractSignature>;
+}
+
+class AgreementController {
+  private agreementService: IAgreementService;
+
+  constructor(agreementService: IAgreementService) {
+    this.agreementService = agreementService;
+  }
+
+  private handleError(err: unknown, req: AuthReq, res: Response) {
+    if (err instanceof DomainError) {
+      return res
+        .status(err.statusCode)
+        .json({ message: err.message, code: err.code });
+    }
+
+    if (err instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid request data", issues: err.issues });
+    }
+
+    logger.error(`[AgreementController] ${req.method} ${req.url}`, err);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  public getAgreement = async (req: AuthReq, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const agreement = await this.agreementService.getAgreement(
+        contractId,
+        req.userId,
+        req.userRole
+      );
+      return res.status(200).json({ success: true, data: agreement });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getAgreementPdf = async (req: AuthReq, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const { agreement, pdf } = await this.agreementService.getAgreementPdf(
+        contractId,
+        req.userId,
+        req.userRole
+      );
+      return res
+        .status(200)
+        .type("application/pdf")
+        .attachment(`agreement-${contractId}-v${agreement.version}.pdf`)
+        .send(pdf);
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public signAgreement = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[AgreementController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { contractId } = req.params;
+      const { documentHash } = signAgreementSchema.parse(req.body);
+      const signature = await this.agreementService.signAgreement(
+        contractId,
+        req.userId,
+        documentHash,
+        {
+          ipAddress: req.ip ?? req.socket.remoteAddress ?? "unknown",
+          userAgent: req.get("user-agent"),
+        }
+      );
+      return res.status(201).json({ success: true, data: signature });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+}
+
+export default AgreementController;
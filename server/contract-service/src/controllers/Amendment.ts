@@ -0,0 +1,166 @@
+import type { Request, Response } from "express";
+import z from "zod";
+import { DomainError } from "@rizlax/common-middleware";
+import type { ContractAmendment } from "@prisma/client";
+import type { ProposeAmendmentDTO } from "../services/Amendment.ts";
+import {
+  amendmentResponseSchema,
+  proposeAmendmentSchema,
+} from "../validators/Amendment.ts";
+import logger from "@rizlax/logs";
+
+type AuthReq = Request & { userId: string; userRole?: string };
+
+interface IAmendmentService {
+  proposeAmendment: (
+    userId: string,
+    data: ProposeAmendmentDTO
+  ) => Promise<ContractAmendment>;
+  acceptAmendment: (
+    amendmentId: string,
+    userId: string,
+    note?: string
+  ) => Promise<ContractAmendment>;
+  rejectAmendment: (
+    amendmentId: string,
+    userId: string,
+    note?: string
+  ) => Promise<ContractAmendment>;
+  cancelAmendment: (
+    amendmentId: string,
+    userId: string
+  ) => Promise<ContractAmendment>;
+  getAmendment: (
+    amendmentId: string,
+    userId: string,
+    userRole?: string
+  ) => Promise<ContractAmendment>;
+  getContractAmendments: (
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ) => Promise<ContractAmendment[]>;
+}
+
+class AmendmentController {
+  private amendmentService: IAmendmentService;
+
+  constructor(amendmentService: IAmendmentService) {
+    this.amendmentService = amendmentService;
+  }
+
+  private handleError(err: unknown, req: AuthReq, res: Response) {
+    if (err instanceof DomainError) {
+      return res
+        .status(err.statusCode)
+        .json({ message: err.message, code: err.code });
+    }
+
+    if (err instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid request data", issues: err.issues });
+    }
+
+    logger.error(`[AmendmentController] ${req.method} ${req.url}`, err);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  public proposeAmendment = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[AmendmentController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const data = proposeAmendmentSchema.parse(req.body);
+      const amendment = await this.amendmentService.proposeAmendment(
+        req.userId,
+        data
+      );
+      return res.status(201).json({ success: true, data: amendment });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getAmendment = async (req: AuthReq, res: Response) => {
+    try {
+      const { amendmentId } = req.params;
+      const amendment = await this.amendmentService.getAmendment(
+        amendmentId,
+        req.userId,
+        req.userRole
+      );
+      return res.status(200).json({ success: true, data: amendment });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getContractAmendments = async (req: AuthReq, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const amendments = await this.amendmentService.getContractAmendments(
+        contractId,
+        req.userId,
+        req.userRole
+      );
+      return res.status(200).json({ success: true, data: amendments });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public acceptAmendment = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[AmendmentController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { amendmentId } = req.params;
+      const { note } = amendmentResponseSchema.parse(req.body ?? {});
+      const amendment = await this.amendmentService.acceptAmendment(
+        amendmentId,
+        req.userId,
+        note
+      );
+      return res.status(200).json({ success: true, data: amendment });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public rejectAmendment = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[AmendmentController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { amendmentId } = req.params;
+      const { note } = amendmentResponseSchema.parse(req.body ?? {});
+      const amendment = await this.amendmentService.rejectAmendment(
+        amendmentId,
+        req.userId,
+        note
+      );
+      return res.status(200).json({ success: true, data: amendment });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public cancelAmendment = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[AmendmentController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { amendmentId } = req.params;
+      const amendment = await this.amendmentService.cancelAmendment(
+        amendmentId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: amendment });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+}
+
+export default AmendmentController;
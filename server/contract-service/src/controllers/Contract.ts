@@ -1,41 +1,131 @@
 import type { Request, Response } from "express";
 import z from "zod";
-import {DomainError} from "@rizlax/common-middleware";
+import { DomainError } from "@rizlax/common-middleware";
 import type { Contract } from "@prisma/client"
 import type { CreateContractDTO } from "../services/Contract.ts"
+import type {
+  TimelineDetails,
+  TimelineQuery,
+  TimelineResponse,
+} from "../services/Timeline.ts";
+import {
+  timelineDetailsSchema,
+  timelineQuerySchema,
+} from "../validators/Timeline.ts";
 import logger from "@rizlax/logs";
-
-const createContractSchema = z.object({
-  clientId: z.string().uuid(),
-  freelancerId: z.string().uuid(),
-  jobId: z.string().uuid(),
-  amount: z.number().min(50),
-  startDate: z.string().transform((d) => new Date(d)),
-  endDate: z
-    .string()
-    .optional()
-    .transform((d) => (d ? new Date(d) : undefined)),
+import {
+  currencySchema,
+  DEFAULT_CURRENCY,
+  hasValidPrecision,
+  toMinorUnits,
+} from "@rizlax/money";
+
+const createContractSchema = z
+  .object({
+    clientId: z.string().uuid(),
+    freelancerId: z.string().uuid(),
+    jobId: z.string().uuid(),
+    type: z.enum(["FIXED", "HOURLY"]).default("FIXED"),
+    currency: currencySchema.default(DEFAULT_CURRENCY),
+    // amounts come in major units and are stored in minor units
+    amount: z.number().min(50).optional(),
+    // hourly contracts are billed weekly from logged time
+    hourlyRate: z.number().min(1).optional(),
+    weeklyHourCap: z.number().int().min(1).max(168).optional(),
+    // days the client has to review submitted work before it is auto-approved
+    autoApprovalDays: z.number().int().min(1).max(60).optional(),
+    startDate: z.string().transform((d) => new Date(d)),
+    endDate: z
+      .string()
+      .optional()
+      .transform((d) => (d ? new Date(d) : undefined)),
+  })
+  .refine((data) => data.type === "HOURLY" || data.amount !== undefined, {
+    message: "Fixed-price contracts require an amount",
+    path: ["amount"],
+  })
+  .refine((data) => data.type === "FIXED" || data.hourlyRate !== undefined, {
+    message: "Hourly contracts require an hourly rate",
+    path: ["hourlyRate"],
+  })
+  .superRefine((data, ctx) => {
+    for (const field of ["amount", "hourlyRate"] as const) {
+      const value = data[field];
+      if (value !== undefined && !hasValidPrecision(value, data.currency)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Too many decimals for ${data.currency}`,
+          path: [field],
+        });
+      }
+    }
+  })
+  .transform((data) =>
+    data.type === "HOURLY"
+      ? {
+          ...data,
+          amount: toMinorUnits(data.amount ?? 0, data.currency),
+          hourlyRate: toMinorUnits(data.hourlyRate as number, data.currency),
+        }
+      : {
+          ...data,
+          amount: toMinorUnits(data.amount as number, data.currency),
+          hourlyRate: undefined,
+          weeklyHourCap: undefined,
+        }
+  );
+
+const pauseContractSchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
 });
 
-type AuthReq = Request & { userId: string };
+type AuthReq = Request & { userId: string; userRole?: string };
+
+type ContractTransition = (
+  contractId: string,
+  actorId: string,
+  details?: TimelineDetails
+) => Promise<Contract | null>;
 
 export interface IContractService {
   getContractById: (contractId: string) => Promise<Contract | null>;
-  createContract: (data: CreateContractDTO) => Promise<Contract>;
-  startContract: (contractId: string) => Promise<Contract | null>;
-  submitWork: (contractId: string) => Promise<Contract | null>;
-  completeContract: (contractId: string) => Promise<Contract | null>;
-  disputeContract: (contractId: string) => Promise<Contract | null>;
-  terminateContract: (contractId: string) => Promise<Contract | null>;
+  createContract: (
+    data: CreateContractDTO,
+    details?: TimelineDetails
+  ) => Promise<Contract>;
+  startContract: ContractTransition;
+  submitWork: ContractTransition;
+  completeContract: ContractTransition;
+  terminateContract: ContractTransition;
+  pauseContract: (
+    contractId: string,
+    actorId: string,
+    reason: string
+  ) => Promise<Contract | null>;
+  resumeContract: ContractTransition;
+}
+
+export interface ITimelineService {
+  getContractTimeline: (
+    contractId: string,
+    userId: string,
+    userRole: string | undefined,
+    query: TimelineQuery
+  ) => Promise<TimelineResponse>;
 }
 
 
 class ContractController {
 
     private contractService: IContractService;
+    private timelineService: ITimelineService;
 
-  constructor(contractService: IContractService) {
+  constructor(
+    contractService: IContractService,
+    timelineService: ITimelineService
+  ) {
     this.contractService = contractService;
+    this.timelineService = timelineService;
   }
 
   private handleError(err: unknown, res: Response) {
@@ -135,6 +225,24 @@ class ContractController {
     }
   };
 
+  public getTimeline = async (req: AuthReq, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const query = timelineQuerySchema.parse(req.query);
+
+      const timeline = await this.timelineService.getContractTimeline(
+        contractId,
+        req.userId,
+        req.userRole,
+        query
+      );
+
+      return res.status(200).json(timeline);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
   public getContractById = async (req: AuthReq, res: Response) => {
     try {
       const { contractId } = req.params;
@@ -150,6 +258,7 @@ class ContractController {
   public startContract = async (req: AuthReq, res: Response) => {
     try {
       const { contractId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
 
       const contract = await this.validateClientAccess(contractId, req.userId);
 
@@ -163,7 +272,9 @@ class ContractController {
       }
 
       const startedContract = await this.contractService.startContract(
-        contractId
+        contractId,
+        req.userId,
+        details
       );
       return res.status(200).json(startedContract);
     } catch (error) {
@@ -174,6 +285,7 @@ class ContractController {
   public submitWork = async (req: AuthReq, res: Response) => {
     try {
       const { contractId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
 
       const contract = await this.validateFreelancerAccess(
         contractId,
@@ -190,7 +302,9 @@ class ContractController {
       }
 
       const submittedContract = await this.contractService.submitWork(
-        contractId
+        contractId,
+        req.userId,
+        details
       );
       return res.status(200).json(submittedContract);
     } catch (error) {
@@ -201,6 +315,7 @@ class ContractController {
   public completeContract = async (req: AuthReq, res: Response) => {
     try {
       const { contractId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
 
       const contract = await this.validateClientAccess(contractId, req.userId);
 
@@ -214,7 +329,9 @@ class ContractController {
       }
 
       const completedContract = await this.contractService.completeContract(
-        contractId
+        contractId,
+        req.userId,
+        details
       );
       return res.status(200).json(completedContract);
     } catch (error) {
@@ -222,25 +339,53 @@ class ContractController {
     }
   };
 
-  public disputeContract = async (req: AuthReq, res: Response) => {
+  public pauseContract = async (req: AuthReq, res: Response) => {
     try {
       const { contractId } = req.params;
+      const { reason } = pauseContractSchema.parse(req.body);
+      const contract = await this.validateUserAccess(contractId, req.userId);
 
-      const contract = await this.validateClientAccess(contractId, req.userId);
+      // Ensure the contract is in ACTIVE status
+      if (contract.status !== "ACTIVE") {
+        throw new DomainError(
+          "Only active contracts can be paused",
+          "INVALID_CONTRACT_STATUS",
+          400
+        );
+      }
 
-      // Ensure the contract is in REVIEW_PENDING status
-      if (contract.status !== "REVIEW_PENDING") {
+      const pausedContract = await this.contractService.pauseContract(
+        contractId,
+        req.userId,
+        reason
+      );
+      return res.status(200).json(pausedContract);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  public resumeContract = async (req: AuthReq, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
+      const contract = await this.validateUserAccess(contractId, req.userId);
+
+      // Ensure the contract is in PAUSED status
+      if (contract.status !== "PAUSED") {
         throw new DomainError(
-          "Only contracts pending review can be completed",
+          "Only paused contracts can be resumed",
           "INVALID_CONTRACT_STATUS",
           400
         );
       }
 
-      const disputedContract = await this.contractService.disputeContract(
-        contractId
+      const resumedContract = await this.contractService.resumeContract(
+        contractId,
+        req.userId,
+        details
       );
-      return res.status(200).json(disputedContract);
+      return res.status(200).json(resumedContract);
     } catch (error) {
       this.handleError(error, res);
     }
@@ -249,6 +394,7 @@ class ContractController {
   public terminateContract = async (req: AuthReq, res: Response) => {
     try {
       const { contractId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
       const contract = await this.validateUserAccess(contractId, req.userId);
 
       // Ensure the contract is not already completed or terminated
@@ -261,7 +407,9 @@ class ContractController {
       }
 
       const terminatedContract = await this.contractService.terminateContract(
-        contractId
+        contractId,
+        req.userId,
+        details
       );
       return res.status(200).json(terminatedContract);
     } catch (error) {
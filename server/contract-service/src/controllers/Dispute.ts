@@ -0,0 +1,179 @@
+import type { Request, Response } from "express";
+import z from "zod";
+import { DomainError } from "@rizlax/common-middleware";
+import type { Dispute, DisputeEvidence } from "@prisma/client";
+import type {
+  DisputeEvidenceDTO,
+  DisputeQueueQuery,
+  DisputeWithEvidence,
+  OpenDisputeDTO,
+  ResolveDisputeDTO,
+} from "../services/Dispute.ts";
+import {
+  disputeEvidenceSchema,
+  disputeQueueQuerySchema,
+  openDisputeSchema,
+  resolveDisputeSchema,
+} from "../validators/Dispute.ts";
+import logger from "@rizlax/logs";
+
+type AuthReq = Request & { userId: string; userRole?: string };
+
+interface IDisputeService {
+  openDispute: (userId: string, data: OpenDisputeDTO) => Promise<Dispute>;
+  addEvidence: (
+    disputeId: string,
+    userId: string,
+    userRole: string | undefined,
+    data: DisputeEvidenceDTO
+  ) => Promise<DisputeEvidence[]>;
+  getDispute: (
+    disputeId: string,
+    userId: string,
+    userRole?: string
+  ) => Promise<DisputeWithEvidence>;
+  getContractDisputes: (
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ) => Promise<Dispute[]>;
+  withdrawDispute: (disputeId: string, userId: string) => Promise<Dispute>;
+  getArbitrationQueue: (query: DisputeQueueQuery) => Promise<unknown>;
+  resolveDispute: (
+    disputeId: string,
+    adminId: string,
+    data: ResolveDisputeDTO
+  ) => Promise<Dispute>;
+}
+
+class DisputeController {
+  private disputeService: IDisputeService;
+
+  constructor(disputeService: IDisputeService) {
+    this.disputeService = disputeService;
+  }
+
+  private handleError(err: unknown, req: AuthReq, res: Response) {
+    if (err instanceof DomainError) {
+      return res
+        .status(err.statusCode)
+        .json({ message: err.message, code: err.code });
+    }
+
+    if (err instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid request data", issues: err.issues });
+    }
+
+    logger.error(`[DisputeController] ${req.method} ${req.url}`, err);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  public openDispute = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[DisputeController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const data = openDisputeSchema.parse(req.body);
+      const dispute = await this.disputeService.openDispute(req.userId, data);
+      return res.status(201).json({ success: true, data: dispute });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public addEvidence = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[DisputeController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { disputeId } = req.params;
+      const { message } = disputeEvidenceSchema.parse(req.body ?? {});
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const evidence = await this.disputeService.addEvidence(
+        disputeId,
+        req.userId,
+        req.userRole,
+        { message, files }
+      );
+      return res.status(201).json({ success: true, data: evidence });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getDispute = async (req: AuthReq, res: Response) => {
+    try {
+      const { disputeId } = req.params;
+      const dispute = await this.disputeService.getDispute(
+        disputeId,
+        req.userId,
+        req.userRole
+      );
+      return res.status(200).json({ success: true, data: dispute });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getContractDisputes = async (req: AuthReq, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const disputes = await this.disputeService.getContractDisputes(
+        contractId,
+        req.userId,
+        req.userRole
+      );
+      return res.status(200).json({ success: true, data: disputes });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public withdrawDispute = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[DisputeController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { disputeId } = req.params;
+      const dispute = await this.disputeService.withdrawDispute(
+        disputeId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: dispute });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getArbitrationQueue = async (req: AuthReq, res: Response) => {
+    try {
+      const query = disputeQueueQuerySchema.parse(req.query);
+      const queue = await this.disputeService.getArbitrationQueue(query);
+      return res.status(200).json({ success: true, data: queue });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public resolveDispute = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[DisputeController] ${req.method} ${req.url} by admin ${req.userId}`
+    );
+    try {
+      const { disputeId } = req.params;
+      const data = resolveDisputeSchema.parse(req.body);
+      const dispute = await this.disputeService.resolveDispute(
+        disputeId,
+        req.userId,
+        data
+      );
+      return res.status(200).json({ success: true, data: dispute });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+}
+
+export default DisputeController;
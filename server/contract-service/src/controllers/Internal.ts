@@ -0,0 +1,55 @@
+import type { Request, Response } from "express";
+import { DomainError } from "@rizlax/common-middleware";
+import logger from "@rizlax/logs";
+import type { ProposalContractResult } from "../services/Contract.ts";
+
+export interface IInternalContractService {
+  createContractFromProposal: (
+    proposalId: string
+  ) => Promise<ProposalContractResult>;
+}
+
+/**
+ * Contract operations called by other services (behind ServiceGuard).
+ * Responses are { success, data } or { success: false, error }.
+ */
+class InternalController {
+  private contractService: IInternalContractService;
+
+  constructor(contractService: IInternalContractService) {
+    this.contractService = contractService;
+  }
+
+  private handleError(err: unknown, res: Response) {
+    if (err instanceof DomainError) {
+      return res
+        .status(err.statusCode)
+        .json({ success: false, error: err.message, code: err.code });
+    }
+
+    logger.error("Unexpected error in InternalController", err);
+    return res
+      .status(500)
+      .json({ success: false, error: "Internal server error" });
+  }
+
+  // POST /api/internal/contracts/proposals/:proposalId
+  public createContractFromProposal = async (req: Request, res: Response) => {
+    try {
+      const { proposalId } = req.params;
+      const result = await this.contractService.createContractFromProposal(
+        proposalId
+      );
+      logger.info(
+        `Contract ${result.contract.id} ready for proposal ${proposalId}`
+      );
+      return res
+        .status(result.created ? 201 : 200)
+        .json({ success: true, data: result });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+}
+
+export default InternalController;
@@ -1,9 +1,15 @@
 import type { Request, Response } from "express";
 import z, { success } from "zod";
-import DomainError from "common-middleware/src/DomainError.ts";
-import type { Milestone } from "@prisma/client";
-import type { MilestoneDTO } from "../types/MilestoneDTO.ts";
+import { DomainError } from "@rizlax/common-middleware";
+import type { Milestone, MilestoneSubmission } from "@prisma/client";
+import type {
+  MilestoneDTO,
+  MilestoneSubmissionDTO,
+} from "../types/MilestoneDTO.ts";
 import logger from "logs/index.ts";
+import type { TimelineDetails } from "../services/Timeline.ts";
+import { timelineDetailsSchema } from "../validators/Timeline.ts";
+import { MAX_REVISION_LIMIT } from "../validators/Milestone.ts";
 
 const createMilestoneSchema = z.object({
   contractId: z.string().uuid(),
@@ -15,12 +21,46 @@ const createMilestoneSchema = z.object({
     if (isNaN(parsed.getTime())) throw new Error("Invalid date format");
     return parsed;
   }),
+  revisionLimit: z.number().int().min(0).max(MAX_REVISION_LIMIT).optional(),
+});
+
+// a whole plan for one contract, created in one go
+const milestonePlanSchema = z.object({
+  contractId: z.string().uuid(),
+  milestones: z
+    .array(createMilestoneSchema.omit({ contractId: true }))
+    .min(1)
+    .max(50),
+});
+
+// multipart form: "files", a "note" and one or more "links" fields
+const submissionSchema = z.object({
+  note: z.string().trim().min(1).max(5000).optional(),
+  links: z.preprocess(
+    (v) => (v === undefined ? [] : Array.isArray(v) ? v : [v]),
+    z.array(z.string().url()).max(10)
+  ),
+});
+
+const revisionRequestSchema = z.object({
+  comment: z.string().trim().min(1).max(5000),
 });
 
 type AuthReq = Request & { userId: string };
 
+type MilestoneTransition = (
+  milestoneId: string,
+  userId: string,
+  details?: TimelineDetails
+) => Promise<Milestone | null>;
+
 interface IMilestoneService {
   createMilestone: (data: MilestoneDTO, userId: string) => Promise<Milestone>;
+  createMilestonePlan: (
+    contractId: string,
+    userId: string,
+    milestones: Omit<MilestoneDTO, "contractId">[]
+  ) => Promise<Milestone[]>;
   getMilestones: (contractId: string, userId: string) => Promise<Milestone[]>;
   getMilestoneById: (milestoneId: string) => Promise<Milestone | null>;
   updateMilestone: (
@@ -28,34 +68,25 @@ interface IMilestoneService {
     userId: string,
     data: Partial<MilestoneDTO>
   ) => Promise<Milestone | null>;
-  markMilestoneAsApprovedByFreelancer: (
-    milestoneId: string,
-    userId: string
-  ) => Promise<Milestone | null>;
-  rejectMilestone: (
-    milestoneId: string,
-    userId: string
-  ) => Promise<Milestone | null>;
+  rejectMilestone: MilestoneTransition;
   submitMilestone: (
     milestoneId: string,
-    userId: string
-  ) => Promise<Milestone | null>;
-  disputeMilestone: (
-    milestoneId: string,
-    userId: string
-  ) => Promise<Milestone | null>;
-  approveWorkByClient: (
-    milestoneId: string,
-    userId: string
-  ) => Promise<Milestone | null>;
-  requestDeletion: (
+    userId: string,
+    data: MilestoneSubmissionDTO
+  ) => Promise<MilestoneSubmission>;
+  requestRevision: (
     milestoneId: string,
-    userId: string
-  ) => Promise<Milestone | null>;
-  acceptRequestDeletion: (
+    userId: string,
+    comment: string
+  ) => Promise<Milestone>;
+  getSubmissions: (
     milestoneId: string,
     userId: string
-  ) => Promise<Milestone | null>;
+  ) => Promise<MilestoneSubmission[]>;
+  startMilestone: MilestoneTransition;
+  approveWorkByClient: MilestoneTransition;
+  requestDeletion: MilestoneTransition;
+  acceptRequestDeletion: MilestoneTransition;
 }
 
 class MilestoneController {
@@ -95,6 +126,7 @@ class MilestoneController {
           description: parsedData.description || "",
           amount: parsedData.amount,
           dueDate: parsedData.dueDate,
+          revisionLimit: parsedData.revisionLimit,
         },
         req.userId
       );
@@ -104,6 +136,26 @@ class MilestoneController {
     }
   };
 
+  public createMilestonePlan = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[MilestoneController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { contractId, milestones } = milestonePlanSchema.parse(req.body);
+      const created = await this.milestoneService.createMilestonePlan(
+        contractId,
+        req.userId,
+        milestones.map((milestone) => ({
+          ...milestone,
+          description: milestone.description || "",
+        }))
+      );
+      return res.status(201).json({ success: true, data: created });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
   public getMilestones = async (req: AuthReq, res: Response) => {
     logger.info(
       `[MilestoneController] ${req.method} ${req.url} by user ${req.userId}`
@@ -163,24 +215,22 @@ class MilestoneController {
     }
   };
 
-  public markMilestoneAsApprovedByFreelancer = async (
-    req: AuthReq,
-    res: Response
-  ) => {
+  public rejectMilestone = async (req: AuthReq, res: Response) => {
     logger.info(
       `[MilestoneController] ${req.method} ${req.url} by user ${req.userId}`
     );
     try {
       const { milestoneId } = req.params;
-      const milestone =
-        await this.milestoneService.markMilestoneAsApprovedByFreelancer(
-          milestoneId,
-          req.userId
-        );
+      const details = timelineDetailsSchema.parse(req.body);
+      const milestone = await this.milestoneService.rejectMilestone(
+        milestoneId,
+        req.userId,
+        details
+      );
       if (!milestone) {
         return res.status(404).json({
           success: false,
-          message: "Milestone not found or not approved",
+          message: "Milestone not found or not rejected",
         });
       }
       return res.status(200).json({ success: true, data: milestone });
@@ -189,64 +239,72 @@ class MilestoneController {
     }
   };
 
-  public rejectMilestone = async (req: AuthReq, res: Response) => {
+  public submitMilestone = async (req: AuthReq, res: Response) => {
     logger.info(
       `[MilestoneController] ${req.method} ${req.url} by user ${req.userId}`
     );
     try {
       const { milestoneId } = req.params;
-      const milestone = await this.milestoneService.rejectMilestone(
+      const { note, links } = submissionSchema.parse(req.body ?? {});
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const submission = await this.milestoneService.submitMilestone(
         milestoneId,
-        req.userId
+        req.userId,
+        { note, links, files }
       );
-      if (!milestone) {
-        return res.status(404).json({
-          success: false,
-          message: "Milestone not found or not rejected",
-        });
-      }
-      return res.status(200).json({ success: true, data: milestone });
+      return res.status(201).json({ success: true, data: submission });
     } catch (err) {
       return this.handleError(err, req, res);
     }
   };
 
-  public submitMilestone = async (req: AuthReq, res: Response) => {
+  public requestRevision = async (req: AuthReq, res: Response) => {
     logger.info(
       `[MilestoneController] ${req.method} ${req.url} by user ${req.userId}`
     );
     try {
       const { milestoneId } = req.params;
-      const milestone = await this.milestoneService.submitMilestone(
+      const { comment } = revisionRequestSchema.parse(req.body);
+      const milestone = await this.milestoneService.requestRevision(
         milestoneId,
-        req.userId
+        req.userId,
+        comment
       );
-      if (!milestone) {
-        return res.status(404).json({
-          success: false,
-          message: "Milestone not found or not submitted",
-        });
-      }
       return res.status(200).json({ success: true, data: milestone });
     } catch (err) {
       return this.handleError(err, req, res);
     }
   };
 
-  public disputeMilestone = async (req: AuthReq, res: Response) => {
+  public getSubmissions = async (req: AuthReq, res: Response) => {
+    try {
+      const { milestoneId } = req.params;
+      const submissions = await this.milestoneService.getSubmissions(
+        milestoneId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: submissions });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public startMilestone = async (req: AuthReq, res: Response) => {
     logger.info(
       `[MilestoneController] ${req.method} ${req.url} by user ${req.userId}`
     );
     try {
       const { milestoneId } = req.params;
-      const milestone = await this.milestoneService.disputeMilestone(
+      const details = timelineDetailsSchema.parse(req.body);
+      const milestone = await this.milestoneService.startMilestone(
         milestoneId,
-        req.userId
+        req.userId,
+        details
       );
       if (!milestone) {
         return res.status(404).json({
           success: false,
-          message: "Milestone not found or not disputed",
+          message: "Milestone not found or not started",
         });
       }
       return res.status(200).json({ success: true, data: milestone });
@@ -261,9 +319,11 @@ class MilestoneController {
     );
     try {
       const { milestoneId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
       const milestone = await this.milestoneService.approveWorkByClient(
         milestoneId,
-        req.userId
+        req.userId,
+        details
       );
       if (!milestone) {
         return res.status(404).json({
@@ -283,9 +343,11 @@ class MilestoneController {
     );
     try {
       const { milestoneId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
       const milestone = await this.milestoneService.requestDeletion(
         milestoneId,
-        req.userId
+        req.userId,
+        details
       );
       if (!milestone) {
         return res.status(404).json({
@@ -305,9 +367,11 @@ class MilestoneController {
     );
     try {
       const { milestoneId } = req.params;
+      const details = timelineDetailsSchema.parse(req.body);
       const milestone = await this.milestoneService.acceptRequestDeletion(
         milestoneId,
-        req.userId
+        req.userId,
+        details
       );
       if (!milestone) {
         return res.status(404).json({
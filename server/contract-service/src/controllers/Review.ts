@@ -0,0 +1,124 @@
+import type { Request, Response } from "express";
+import z from "zod";
+import { DomainError } from "@rizlax/common-middleware";
+import type { Review } from "@prisma/client";
+import type {
+  ReviewList,
+  ReviewListQuery,
+  SubmitReviewDTO,
+} from "../services/Review.ts";
+import {
+  reviewListQuerySchema,
+  submitReviewSchema,
+} from "../validators/Review.ts";
+import logger from "@rizlax/logs";
+
+type AuthReq = Request & { userId: string; userRole?: string };
+
+interface IReviewService {
+  submitReview: (
+    contractId: string,
+    userId: string,
+    data: SubmitReviewDTO
+  ) => Promise<Review>;
+  getContractReviews: (
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ) => Promise<Review[]>;
+  getFreelancerReviews: (
+    freelancerId: string,
+    query: ReviewListQuery
+  ) => Promise<ReviewList>;
+  getClientReviews: (
+    clientId: string,
+    query: ReviewListQuery
+  ) => Promise<ReviewList>;
+}
+
+class ReviewController {
+  private reviewService: IReviewService;
+
+  constructor(reviewService: IReviewService) {
+    this.reviewService = reviewService;
+  }
+
+  private handleError(err: unknown, req: AuthReq, res: Response) {
+    if (err instanceof DomainError) {
+      return res
+        .status(err.statusCode)
+        .json({ message: err.message, code: err.code });
+    }
+
+    if (err instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid request data", issues: err.issues });
+    }
+
+    logger.error(`[ReviewController] ${req.method} ${req.url}`, err);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  public submitReview = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[ReviewController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { contractId } = req.params;
+      const data = submitReviewSchema.parse(req.body);
+      const review = await this.reviewService.submitReview(
+        contractId,
+        req.userId,
+        data
+      );
+      return res.status(201).json({ success: true, data: review });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getContractReviews = async (req: AuthReq, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const reviews = await this.reviewService.getContractReviews(
+        contractId,
+        req.userId,
+        req.userRole
+      );
+      return res.status(200).json({ success: true, data: reviews });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getFreelancerReviews = async (req: AuthReq, res: Response) => {
+    try {
+      const { freelancerId } = req.params;
+      const query = reviewListQuerySchema.parse(req.query);
+      const reviews = await this.reviewService.getFreelancerReviews(
+        freelancerId,
+        query
+      );
+      return res.status(200).json({ success: true, data: reviews });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getClientReviews = async (req: AuthReq, res: Response) => {
+    try {
+      const { clientId } = req.params;
+      const query = reviewListQuerySchema.parse(req.query);
+      const reviews = await this.reviewService.getClientReviews(
+        clientId,
+        query
+      );
+      return res.status(200).json({ success: true, data: reviews });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+}
+
+export default ReviewController;
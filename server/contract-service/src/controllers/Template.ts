@@ -0,0 +1,150 @@
+import type { Request, Response } from "express";
+import z from "zod";
+import { DomainError } from "@rizlax/common-middleware";
+import type { Milestone } from "@prisma/client";
+import type {
+  ApplyTemplateDTO,
+  TemplateDTO,
+  TemplateWithMilestones,
+} from "../services/Template.ts";
+import { applyTemplateSchema, templateSchema } from "../validators/Template.ts";
+import logger from "@rizlax/logs";
+
+type AuthReq = Request & { userId: string };
+
+interface ITemplateService {
+  createTemplate: (
+    userId: string,
+    data: TemplateDTO
+  ) => Promise<TemplateWithMilestones>;
+  getTemplates: (userId: string) => Promise<TemplateWithMilestones[]>;
+  getTemplate: (
+    templateId: string,
+    userId: string
+  ) => Promise<TemplateWithMilestones>;
+  updateTemplate: (
+    templateId: string,
+    userId: string,
+    data: TemplateDTO
+  ) => Promise<TemplateWithMilestones>;
+  deleteTemplate: (templateId: string, userId: string) => Promise<void>;
+  applyTemplate: (
+    templateId: string,
+    userId: string,
+    data: ApplyTemplateDTO
+  ) => Promise<Milestone[]>;
+}
+
+class TemplateController {
+  private templateService: ITemplateService;
+
+  constructor(templateService: ITemplateService) {
+    this.templateService = templateService;
+  }
+
+  private handleError(err: unknown, req: AuthReq, res: Response) {
+    if (err instanceof DomainError) {
+      return res
+        .status(err.statusCode)
+        .json({ message: err.message, code: err.code });
+    }
+
+    if (err instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid request data", issues: err.issues });
+    }
+
+    logger.error(`[TemplateController] ${req.method} ${req.url}`, err);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  public createTemplate = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TemplateController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const data = templateSchema.parse(req.body);
+      const template = await this.templateService.createTemplate(
+        req.userId,
+        data
+      );
+      return res.status(201).json({ success: true, data: template });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getTemplates = async (req: AuthReq, res: Response) => {
+    try {
+      const templates = await this.templateService.getTemplates(req.userId);
+      return res.status(200).json({ success: true, data: templates });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getTemplate = async (req: AuthReq, res: Response) => {
+    try {
+      const { templateId } = req.params;
+      const template = await this.templateService.getTemplate(
+        templateId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: template });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public updateTemplate = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TemplateController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { templateId } = req.params;
+      const data = templateSchema.parse(req.body);
+      const template = await this.templateService.updateTemplate(
+        templateId,
+        req.userId,
+        data
+      );
+      return res.status(200).json({ success: true, data: template });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public deleteTemplate = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TemplateController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { templateId } = req.params;
+      await this.templateService.deleteTemplate(templateId, req.userId);
+      return res.status(204).send();
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public applyTemplate = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TemplateController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { templateId } = req.params;
+      const data = applyTemplateSchema.parse(req.body);
+      const milestones = await this.templateService.applyTemplate(
+        templateId,
+        req.userId,
+        data
+      );
+      return res.status(201).json({ success: true, data: milestones });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+}
+
+export default TemplateController;
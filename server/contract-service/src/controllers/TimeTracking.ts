@@ -0,0 +1,233 @@
+import type { Request, Response } from "express";
+import z from "zod";
+import { DomainError } from "@rizlax/common-middleware";
+import type { TimeEntry, Timesheet } from "@prisma/client";
+import type {
+  ManualEntryDTO,
+  ReviewEntryDTO,
+  UpdateEntryDTO,
+} from "../services/TimeTracking.ts";
+import logger from "@rizlax/logs";
+
+const dateSchema = z.string().transform((d, ctx) => {
+  const parsed = new Date(d);
+  if (isNaN(parsed.getTime())) {
+    ctx.addIssue({ code: "custom", message: "Invalid date format" });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const manualEntrySchema = z.object({
+  startedAt: dateSchema,
+  minutes: z.number().int().min(1).max(24 * 60),
+  description: z.string().max(1000).optional(),
+});
+
+const updateEntrySchema = manualEntrySchema.partial();
+
+const startTimerSchema = z.object({
+  description: z.string().max(1000).optional(),
+});
+
+const reviewEntrySchema = z
+  .object({
+    approve: z.boolean(),
+    reason: z.string().min(1).max(1000).optional(),
+  })
+  .refine((data) => data.approve || data.reason, {
+    message: "A reason is required when rejecting a time entry",
+    path: ["reason"],
+  });
+
+type AuthReq = Request & { userId: string };
+
+interface ITimeTrackingService {
+  logManualEntry: (
+    contractId: string,
+    userId: string,
+    data: ManualEntryDTO
+  ) => Promise<TimeEntry>;
+  startTimer: (
+    contractId: string,
+    userId: string,
+    description?: string
+  ) => Promise<TimeEntry>;
+  stopTimer: (contractId: string, userId: string) => Promise<TimeEntry>;
+  updateEntry: (
+    entryId: string,
+    userId: string,
+    data: UpdateEntryDTO
+  ) => Promise<TimeEntry>;
+  deleteEntry: (entryId: string, userId: string) => Promise<TimeEntry>;
+  getTimesheets: (contractId: string, userId: string) => Promise<Timesheet[]>;
+  reviewEntry: (
+    entryId: string,
+    userId: string,
+    data: ReviewEntryDTO
+  ) => Promise<TimeEntry>;
+  approveTimesheet: (timesheetId: string, userId: string) => Promise<Timesheet>;
+}
+
+class TimeTrackingController {
+  private timeTrackingService: ITimeTrackingService;
+
+  constructor(timeTrackingService: ITimeTrackingService) {
+    this.timeTrackingService = timeTrackingService;
+  }
+
+  private handleError(err: unknown, req: AuthReq, res: Response) {
+    if (err instanceof DomainError) {
+      return res
+        .status(err.statusCode)
+        .json({ message: err.message, code: err.code });
+    }
+
+    if (err instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid request data", issues: err.issues });
+    }
+
+    logger.error(`[TimeTrackingController] ${req.method} ${req.url}`, err);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  public logManualEntry = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { contractId } = req.params;
+      const data = manualEntrySchema.parse(req.body);
+      const entry = await this.timeTrackingService.logManualEntry(
+        contractId,
+        req.userId,
+        data
+      );
+      return res.status(201).json({ success: true, data: entry });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public startTimer = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { contractId } = req.params;
+      const { description } = startTimerSchema.parse(req.body ?? {});
+      const entry = await this.timeTrackingService.startTimer(
+        contractId,
+        req.userId,
+        description
+      );
+      return res.status(201).json({ success: true, data: entry });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public stopTimer = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { contractId } = req.params;
+      const entry = await this.timeTrackingService.stopTimer(
+        contractId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: entry });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public updateEntry = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { entryId } = req.params;
+      const data = updateEntrySchema.parse(req.body);
+      const entry = await this.timeTrackingService.updateEntry(
+        entryId,
+        req.userId,
+        data
+      );
+      return res.status(200).json({ success: true, data: entry });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public deleteEntry = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { entryId } = req.params;
+      const entry = await this.timeTrackingService.deleteEntry(
+        entryId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: entry });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public getTimesheets = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { contractId } = req.params;
+      const timesheets = await this.timeTrackingService.getTimesheets(
+        contractId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: timesheets });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public reviewEntry = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { entryId } = req.params;
+      const data = reviewEntrySchema.parse(req.body);
+      const entry = await this.timeTrackingService.reviewEntry(
+        entryId,
+        req.userId,
+        data
+      );
+      return res.status(200).json({ success: true, data: entry });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+
+  public approveTimesheet = async (req: AuthReq, res: Response) => {
+    logger.info(
+      `[TimeTrackingController] ${req.method} ${req.url} by user ${req.userId}`
+    );
+    try {
+      const { timesheetId } = req.params;
+      const timesheet = await this.timeTrackingService.approveTimesheet(
+        timesheetId,
+        req.userId
+      );
+      return res.status(200).json({ success: true, data: timesheet });
+    } catch (err) {
+      return this.handleError(err, req, res);
+    }
+  };
+}
+
+export default TimeTrackingController;
@@ -3,11 +3,38 @@ import App from "./core/App.ts";
 import { connectDB } from "@rizlax/db-client";
 import logger from "@rizlax/logs";
 import ContractService from "./services/Contract.ts";
+import TimelineService from "./services/Timeline.ts";
 import ContractController from "./controllers/Contract.ts";
 import { createContractRouter } from "./routes/Contract.ts";
 import MilestoneService from "./services/Milstone.ts";
 import MilestoneController from "./controllers/Milestone.ts";
 import { createMilestoneRouter } from "./routes/Milestone.ts";
+import TimeTrackingService from "./services/TimeTracking.ts";
+import TimeTrackingController from "./controllers/TimeTracking.ts";
+import { createTimeTrackingRouter } from "./routes/TimeTracking.ts";
+import HourlyBillingWorker from "./workers/HourlyBillingWorker.ts";
+import EscrowClient from "./clients/Escrow.ts";
+import InternalController from "./controllers/Internal.ts";
+import { createInternalRouter } from "./routes/Internal.ts";
+import DisputeService from "./services/Dispute.ts";
+import DisputeController from "./controllers/Dispute.ts";
+import { createDisputeRouter } from "./routes/Dispute.ts";
+import DisputeDeadlineWorker from "./workers/DisputeDeadlineWorker.ts";
+import AutoApprovalService from "./services/AutoApproval.ts";
+import AutoApprovalWorker from "./workers/AutoApprovalWorker.ts";
+import AmendmentService from "./services/Amendment.ts";
+import AmendmentController from "./controllers/Amendment.ts";
+import { createAmendmentRouter } from "./routes/Amendment.ts";
+import AgreementService from "./services/Agreement.ts";
+import AgreementController from "./controllers/Agreement.ts";
+import { createAgreementRouter } from "./routes/Agreement.ts";
+import TemplateService from "./services/Template.ts";
+import TemplateController from "./controllers/Template.ts";
+import { createTemplateRouter } from "./routes/Template.ts";
+import ReviewService from "./services/Review.ts";
+import ReviewController from "./controllers/Review.ts";
+import { createReviewRouter } from "./routes/Review.ts";
+import ReviewPublicationWorker from "./workers/ReviewPublicationWorker.ts";
 
 dotenv.config({ path: "../../.env" });
 
@@ -17,19 +44,77 @@ async function startServer() {
   try {
     console.log("Starting Contract Service Setup...");
 
+    // client initialization
+    const escrowClient = new EscrowClient(
+      process.env.ESCROW_SERVICE_URL ||
+        `http://localhost:${process.env.ESCROW_WALLET_PORT}`,
+      process.env.INTERNAL_SERVICE_TOKEN as string
+    );
     // service initialization
-    const contractService = new ContractService();
-    const milestoneService = new MilestoneService(contractService);
+    const timelineService = new TimelineService();
+    const agreementService = new AgreementService(timelineService);
+    const contractService = new ContractService(
+      timelineService,
+      escrowClient,
+      agreementService
+    );
+    const milestoneService = new MilestoneService(
+      contractService,
+      escrowClient,
+      timelineService
+    );
+    const timeTrackingService = new TimeTrackingService(
+      contractService,
+      escrowClient
+    );
+    const disputeService = new DisputeService(escrowClient, timelineService);
+    const autoApprovalService = new AutoApprovalService(
+      contractService,
+      milestoneService,
+      timelineService
+    );
+    const amendmentService = new AmendmentService(
+      escrowClient,
+      timelineService
+    );
+    const templateService = new TemplateService(milestoneService);
+    const reviewService = new ReviewService(timelineService);
     // controller initialization
-    const contractController = new ContractController(contractService);
+    const contractController = new ContractController(
+      contractService,
+      timelineService
+    );
     const milestoneController = new MilestoneController(milestoneService);
+    const timeTrackingController = new TimeTrackingController(
+      timeTrackingService
+    );
+    const internalController = new InternalController(contractService);
+    const disputeController = new DisputeController(disputeService);
+    const amendmentController = new AmendmentController(amendmentService);
+    const agreementController = new AgreementController(agreementService);
+    const templateController = new TemplateController(templateService);
+    const reviewController = new ReviewController(reviewService);
     // router initialization
     const contractRouter = createContractRouter(contractController);
     const milestoneRouter = createMilestoneRouter(milestoneController);
+    const timeTrackingRouter = createTimeTrackingRouter(timeTrackingController);
+    const internalRouter = createInternalRouter(internalController);
+    const disputeRouter = createDisputeRouter(disputeController);
+    const amendmentRouter = createAmendmentRouter(amendmentController);
+    const agreementRouter = createAgreementRouter(agreementController);
+    const templateRouter = createTemplateRouter(templateController);
+    const reviewRouter = createReviewRouter(reviewController);
 
     const routers = [
       { path: "/api/contract", router: contractRouter },
       { path: "/api/milestone", router: milestoneRouter },
+      { path: "/api/time-tracking", router: timeTrackingRouter },
+      { path: "/api/disputes", router: disputeRouter },
+      { path: "/api/amendments", router: amendmentRouter },
+      { path: "/api/agreements", router: agreementRouter },
+      { path: "/api/templates", router: templateRouter },
+      { path: "/api/reviews", router: reviewRouter },
+      { path: "/api/internal", router: internalRouter },
     ];
 
     console.log("Connecting to database...");
@@ -46,6 +131,11 @@ async function startServer() {
 
     const server = new App(PORT, routers);
     server.listen();
+
+    new HourlyBillingWorker(timeTrackingService).start();
+    new DisputeDeadlineWorker(disputeService).start();
+    new AutoApprovalWorker(autoApprovalService).start();
+    new ReviewPublicationWorker(reviewService).start();
   } catch (error) {
     logger.error("Contract Service failed to start:", { error });
     console.log("Contract Service failed to start:", error);
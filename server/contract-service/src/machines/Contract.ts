@@ -0,0 +1,66 @@
+import { ContractActorRole, ContractStatus } from "@prisma/client";
+import type { Contract } from "@prisma/client";
+import { createStateMachine } from "@rizlax/state-machine";
+import logger from "@rizlax/logs";
+
+const { CLIENT, FREELANCER, ADMIN, SYSTEM } = ContractActorRole;
+const PARTIES = [CLIENT, FREELANCER];
+
+export const contractStateMachine = createStateMachine<
+  ContractStatus,
+  ContractActorRole,
+  Contract
+>({
+  name: "contract",
+  states: Object.values(ContractStatus),
+  transitions: [
+    // both parties have signed the agreement
+    { from: ContractStatus.PENDING, to: ContractStatus.ACTIVE, roles: [CLIENT] },
+    {
+      from: ContractStatus.ACTIVE,
+      to: ContractStatus.REVIEW_PENDING,
+      roles: [FREELANCER],
+    },
+    // either party halts the work for a while, and either can resume it
+    { from: ContractStatus.ACTIVE, to: ContractStatus.PAUSED, roles: PARTIES },
+    { from: ContractStatus.PAUSED, to: ContractStatus.ACTIVE, roles: PARTIES },
+    // the client accepts the work, or the auto-approval window ran out
+    {
+      from: ContractStatus.REVIEW_PENDING,
+      to: ContractStatus.COMPLETED,
+      roles: [CLIENT, SYSTEM],
+    },
+    {
+      from: [ContractStatus.ACTIVE, ContractStatus.REVIEW_PENDING],
+      to: ContractStatus.DISPUTED,
+      roles: PARTIES,
+    },
+    {
+      from: [
+        ContractStatus.PENDING,
+        ContractStatus.ACTIVE,
+        ContractStatus.PAUSED,
+        ContractStatus.REVIEW_PENDING,
+      ],
+      to: ContractStatus.TERMINATED,
+      roles: PARTIES,
+    },
+    // left through DisputeService: withdrawn (back) or resolved
+    {
+      from: ContractStatus.DISPUTED,
+      to: [ContractStatus.ACTIVE, ContractStatus.REVIEW_PENDING],
+      roles: PARTIES,
+    },
+    {
+      from: ContractStatus.DISPUTED,
+      to: [ContractStatus.COMPLETED, ContractStatus.TERMINATED],
+      roles: [ADMIN],
+    },
+  ],
+});
+
+contractStateMachine.on(({ from, to, role, context }) => {
+  logger.info(
+    `[ContractStateMachine] contract ${context.id} ${from} -> ${to} by ${role}`
+  );
+});
@@ -0,0 +1,101 @@
+import { ContractActorRole, MilestoneStatus } from "@prisma/client";
+import type { Milestone } from "@prisma/client";
+import { createStateMachine } from "@rizlax/state-machine";
+import logger from "@rizlax/logs";
+
+const { CLIENT, FREELANCER, ADMIN, SYSTEM } = ContractActorRole;
+const PARTIES = [CLIENT, FREELANCER];
+
+// Compensations of failed escrow calls (e.g. APPROVED back to SUBMITTED) are
+// not transitions and are written directly by the saga that made the claim.
+export const milestoneStateMachine = createStateMachine<
+  MilestoneStatus,
+  ContractActorRole,
+  Milestone
+>({
+  name: "milestone",
+  states: Object.values(MilestoneStatus),
+  transitions: [
+    // funded from the client's wallet on start
+    {
+      from: [MilestoneStatus.PENDING, MilestoneStatus.REJECTED],
+      to: MilestoneStatus.IN_PROGRESS,
+      roles: [CLIENT],
+    },
+    {
+      from: [MilestoneStatus.IN_PROGRESS, MilestoneStatus.REVISION_REQUESTED],
+      to: MilestoneStatus.SUBMITTED,
+      roles: [FREELANCER],
+    },
+    // client approval, or auto-approval once the client's review window ends
+    {
+      from: MilestoneStatus.SUBMITTED,
+      to: MilestoneStatus.APPROVED,
+      roles: [CLIENT, SYSTEM],
+    },
+    {
+      from: MilestoneStatus.SUBMITTED,
+      to: MilestoneStatus.REVISION_REQUESTED,
+      roles: [CLIENT],
+    },
+    {
+      from: MilestoneStatus.SUBMITTED,
+      to: MilestoneStatus.REJECTED,
+      roles: [FREELANCER],
+    },
+    // the escrow release of an approved milestone
+    {
+      from: MilestoneStatus.APPROVED,
+      to: MilestoneStatus.PAID,
+      roles: [CLIENT, SYSTEM],
+    },
+    // closed by the client once paid, or by the system when the contract ends
+    {
+      from: MilestoneStatus.PAID,
+      to: MilestoneStatus.COMPLETED,
+      roles: [CLIENT, SYSTEM],
+    },
+    // not from APPROVED: its release is settled by the release retry
+    {
+      from: [MilestoneStatus.SUBMITTED, MilestoneStatus.REVISION_REQUESTED],
+      to: MilestoneStatus.DISPUTED,
+      roles: PARTIES,
+    },
+    // removed from the plan by an amendment
+    {
+      from: [
+        MilestoneStatus.PENDING,
+        MilestoneStatus.IN_PROGRESS,
+        MilestoneStatus.REJECTED,
+      ],
+      to: MilestoneStatus.CANCELED,
+      roles: PARTIES,
+    },
+    // left through DisputeService: withdrawn (back, APPROVED only for disputes
+    // opened before approved milestones stopped being disputable) or resolved
+    {
+      from: MilestoneStatus.DISPUTED,
+      to: [
+        MilestoneStatus.SUBMITTED,
+        MilestoneStatus.REVISION_REQUESTED,
+        MilestoneStatus.APPROVED,
+      ],
+      roles: PARTIES,
+    },
+    {
+      from: MilestoneStatus.DISPUTED,
+      to: [
+        MilestoneStatus.REJECTED,
+        MilestoneStatus.PAID,
+        MilestoneStatus.CANCELED,
+      ],
+      roles: [ADMIN],
+    },
+  ],
+});
+
+milestoneStateMachine.on(({ from, to, role, context }) => {
+  logger.info(
+    `[MilestoneStateMachine] milestone ${context.id} ${from} -> ${to} by ${role}`
+  );
+});
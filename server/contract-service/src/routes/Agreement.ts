@@ -0,0 +1,28 @@
+import { Router } from "express";
+import AgreementController from "../controllers/Agreement.ts";
+import { AuthGuard } from "@rizlax/common-middleware";
+
+export const createAgreementRouter = (
+  agreementController: AgreementController
+): Router => {
+  const router = Router();
+
+  router.use(AuthGuard);
+
+  const bindHandler = (handler: Function) => handler.bind(agreementController);
+
+  router.get(
+    "/contract/:contractId",
+    bindHandler(agreementController.getAgreement)
+  );
+  router.get(
+    "/contract/:contractId/pdf",
+    bindHandler(agreementController.getAgreementPdf)
+  );
+  router.post(
+    "/contract/:contractId/sign",
+    bindHandler(agreementController.signAgreement)
+  );
+
+  return router;
+};
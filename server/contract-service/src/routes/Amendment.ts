@@ -0,0 +1,34 @@
+import { Router } from "express";
+import AmendmentController from "../controllers/Amendment.ts";
+import { AuthGuard } from "@rizlax/common-middleware";
+
+export const createAmendmentRouter = (
+  amendmentController: AmendmentController
+): Router => {
+  const router = Router();
+
+  router.use(AuthGuard);
+
+  const bindHandler = (handler: Function) => handler.bind(amendmentController);
+
+  router.post("/", bindHandler(amendmentController.proposeAmendment));
+  router.get(
+    "/contract/:contractId",
+    bindHandler(amendmentController.getContractAmendments)
+  );
+  router.get("/:amendmentId", bindHandler(amendmentController.getAmendment));
+  router.post(
+    "/:amendmentId/accept",
+    bindHandler(amendmentController.acceptAmendment)
+  );
+  router.post(
+    "/:amendmentId/reject",
+    bindHandler(amendmentController.rejectAmendment)
+  );
+  router.post(
+    "/:amendmentId/cancel",
+    bindHandler(amendmentController.cancelAmendment)
+  );
+
+  return router;
+};
@@ -13,6 +13,10 @@ export const createContractRouter = (
 
   router.post("/", bindHandler(contractController.createContract));
   router.get("/:contractId", bindHandler(contractController.getContractById));
+  router.get(
+    "/:contractId/timeline",
+    bindHandler(contractController.getTimeline)
+  );
 
   router.post(
     "/:contractId/start",
@@ -30,8 +34,13 @@ export const createContractRouter = (
   );
 
   router.post(
-    "/:contractId/dispute",
-    bindHandler(contractController.disputeContract)
+    "/:contractId/pause",
+    bindHandler(contractController.pauseContract)
+  );
+
+  router.post(
+    "/:contractId/resume",
+    bindHandler(contractController.resumeContract)
   );
 
   router.post(
@@ -0,0 +1,45 @@
+import { Router } from "express";
+import DisputeController from "../controllers/Dispute.ts";
+import { AuthGuard, RoleGuard } from "@rizlax/common-middleware";
+import { uploadFiles } from "../utils/upload.ts";
+
+export const createDisputeRouter = (
+  disputeController: DisputeController
+): Router => {
+  const router = Router();
+
+  router.use(AuthGuard);
+
+  const bindHandler = (handler: Function) => handler.bind(disputeController);
+
+  router.post("/", bindHandler(disputeController.openDispute));
+
+  // arbitration
+  router.get(
+    "/admin/queue",
+    RoleGuard("ADMIN"),
+    bindHandler(disputeController.getArbitrationQueue)
+  );
+  router.post(
+    "/admin/:disputeId/resolve",
+    RoleGuard("ADMIN"),
+    bindHandler(disputeController.resolveDispute)
+  );
+
+  router.get(
+    "/contract/:contractId",
+    bindHandler(disputeController.getContractDisputes)
+  );
+  router.get("/:disputeId", bindHandler(disputeController.getDispute));
+  router.post(
+    "/:disputeId/evidence",
+    uploadFiles("files", 5),
+    bindHandler(disputeController.addEvidence)
+  );
+  router.post(
+    "/:disputeId/withdraw",
+    bindHandler(disputeController.withdrawDispute)
+  );
+
+  return router;
+};
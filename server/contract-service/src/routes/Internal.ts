@@ -0,0 +1,21 @@
+import { Router } from "express";
+import InternalController from "../controllers/Internal.ts";
+import { ServiceGuard } from "@rizlax/common-middleware";
+
+// service-to-service routes: no AuthGuard, the shared service token instead
+export const createInternalRouter = (
+  internalController: InternalController
+): Router => {
+  const router = Router();
+
+  router.use(ServiceGuard);
+
+  const bindHandler = (handler: Function) => handler.bind(internalController);
+
+  router.post(
+    "/contracts/proposals/:proposalId",
+    bindHandler(internalController.createContractFromProposal)
+  );
+
+  return router;
+};
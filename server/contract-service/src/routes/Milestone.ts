@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import MilestoneController from '../controllers/Milestone.ts';
 import { AuthGuard } from 'common-middleware/src/AuthGuard.ts';
+import { uploadFiles } from '../utils/upload.ts';
 
 export const createMilestoneRouter = (
   milestoneController: MilestoneController
@@ -12,13 +13,15 @@ export const createMilestoneRouter = (
   const bindHandler = (handler: Function) => handler.bind(milestoneController);
 
   router.post('/', bindHandler(milestoneController.createMilestone));
+  router.post('/bulk', bindHandler(milestoneController.createMilestonePlan));
   router.get('/:contractId', bindHandler(milestoneController.getMilestones));
   router.get('/:milestoneId/detail', bindHandler(milestoneController.getMilestoneById));
   router.put('/:milestoneId', bindHandler(milestoneController.updateMilestone));
-  router.post('/:milestoneId/approve-by-freelancer', bindHandler(milestoneController.markMilestoneAsApprovedByFreelancer));
+  router.post('/:milestoneId/start', bindHandler(milestoneController.startMilestone));
   router.post('/:milestoneId/reject', bindHandler(milestoneController.rejectMilestone));
-  router.post('/:milestoneId/submit', bindHandler(milestoneController.submitMilestone));
-  router.post('/:milestoneId/dispute', bindHandler(milestoneController.disputeMilestone));
+  router.post('/:milestoneId/submit', uploadFiles('files', 10), bindHandler(milestoneController.submitMilestone));
+  router.post('/:milestoneId/request-revision', bindHandler(milestoneController.requestRevision));
+  router.get('/:milestoneId/submissions', bindHandler(milestoneController.getSubmissions));
   router.post('/:milestoneId/approve-by-client', bindHandler(milestoneController.approveWorkByClient));
   router.post('/:milestoneId/request-deletion', bindHandler(milestoneController.requestDeletion));
   router.post('/:milestoneId/accept-deletion', bindHandler(milestoneController.acceptRequestDeletion));
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import ReviewController from "../controllers/Review.ts";
+import { AuthGuard } from "@rizlax/common-middleware";
+
+export const createReviewRouter = (
+  reviewController: ReviewController
+): Router => {
+  const router = Router();
+
+  router.use(AuthGuard);
+
+  const bindHandler = (handler: Function) => handler.bind(reviewController);
+
+  router.post(
+    "/contract/:contractId",
+    bindHandler(reviewController.submitReview)
+  );
+  router.get(
+    "/contract/:contractId",
+    bindHandler(reviewController.getContractReviews)
+  );
+  router.get(
+    "/freelancer/:freelancerId",
+    bindHandler(reviewController.getFreelancerReviews)
+  );
+  router.get("/client/:clientId", bindHandler(reviewController.getClientReviews));
+
+  return router;
+};
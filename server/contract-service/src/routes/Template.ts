@@ -0,0 +1,25 @@
+import { Router } from "express";
+import TemplateController from "../controllers/Template.ts";
+import { AuthGuard, RoleGuard } from "@rizlax/common-middleware";
+
+export const createTemplateRouter = (
+  templateController: TemplateController
+): Router => {
+  const router = Router();
+
+  router.use(AuthGuard, RoleGuard("CLIENT"));
+
+  const bindHandler = (handler: Function) => handler.bind(templateController);
+
+  router.post("/", bindHandler(templateController.createTemplate));
+  router.get("/", bindHandler(templateController.getTemplates));
+  router.get("/:templateId", bindHandler(templateController.getTemplate));
+  router.put("/:templateId", bindHandler(templateController.updateTemplate));
+  router.delete("/:templateId", bindHandler(templateController.deleteTemplate));
+  router.post(
+    "/:templateId/apply",
+    bindHandler(templateController.applyTemplate)
+  );
+
+  return router;
+};
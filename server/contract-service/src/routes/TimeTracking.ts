@@ -0,0 +1,51 @@
+import { Router } from "express";
+import TimeTrackingController from "../controllers/TimeTracking.ts";
+import { AuthGuard } from "@rizlax/common-middleware";
+
+export const createTimeTrackingRouter = (
+  timeTrackingController: TimeTrackingController
+): Router => {
+  const router = Router();
+
+  router.use(AuthGuard);
+
+  const bindHandler = (handler: Function) =>
+    handler.bind(timeTrackingController);
+
+  router.put(
+    "/entries/:entryId",
+    bindHandler(timeTrackingController.updateEntry)
+  );
+  router.delete(
+    "/entries/:entryId",
+    bindHandler(timeTrackingController.deleteEntry)
+  );
+  router.post(
+    "/entries/:entryId/review",
+    bindHandler(timeTrackingController.reviewEntry)
+  );
+
+  router.post(
+    "/timesheets/:timesheetId/approve",
+    bindHandler(timeTrackingController.approveTimesheet)
+  );
+
+  router.post(
+    "/:contractId/entries",
+    bindHandler(timeTrackingController.logManualEntry)
+  );
+  router.get(
+    "/:contractId/timesheets",
+    bindHandler(timeTrackingController.getTimesheets)
+  );
+  router.post(
+    "/:contractId/timer/start",
+    bindHandler(timeTrackingController.startTimer)
+  );
+  router.post(
+    "/:contractId/timer/stop",
+    bindHandler(timeTrackingController.stopTimer)
+  );
+
+  return router;
+};
@@ -0,0 +1,454 @@
+import { prisma } from "@rizlax/db-client";
+import {
+  ContractActorRole,
+  ContractEventType,
+  ContractStatus,
+  ContractType,
+  MilestoneStatus,
+  Prisma,
+} from "@prisma/client";
+import type {
+  Contract,
+  ContractAgreement,
+  ContractSignature,
+} from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import { deleteFromR2, downloadFromR2, uploadToR2 } from "@rizlax/R2";
+import { formatMoney, money } from "@rizlax/money";
+import { renderPdf, wrapText } from "@rizlax/pdf";
+import type { PdfLine } from "@rizlax/pdf";
+import logger from "@rizlax/logs";
+import crypto from "crypto";
+import type TimelineService from "./Timeline.ts";
+
+// Everything the agreement document is built from; amounts in minor units.
+// A type rather than an interface so it is stored as JSON as-is
+export type AgreementTerms = {
+  contractId: string;
+  type: ContractType;
+  currency: string;
+  amount: number;
+  hourlyRate: number | null;
+  weeklyHourCap: number | null;
+  endDate: string | null;
+  autoApprovalDays: number;
+  client: { id: string; name: string };
+  freelancer: { id: string; name: string };
+  job: { title: string; description: string };
+  proposal: { coverLetter: string } | null;
+  milestones: {
+    sequence: number;
+    title: string;
+    description: string | null;
+    amount: number;
+    dueDate: string | null;
+  }[];
+};
+
+export interface SignatureContext {
+  ipAddress: string;
+  userAgent?: string;
+}
+
+export type AgreementWithSignatures = ContractAgreement & {
+  signatures: ContractSignature[];
+};
+
+const sha256 = (data: string | Buffer): string =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const formatDate = (date: string): string => date.slice(0, 10);
+
+/**
+ * Contract agreements: a PDF built from the contract's terms (scope from the
+ * job and proposal, amount, milestones, payment and IP terms) that both
+ * parties accept with click-to-sign. While the contract is PENDING the
+ * document follows the terms: when they change a new version is generated
+ * and earlier signatures no longer count. The contract can only be started
+ * once the client and the freelancer have signed the current version.
+ */
+class AgreementService {
+  private timelineService: TimelineService;
+
+  constructor(timelineService: TimelineService) {
+    this.timelineService = timelineService;
+  }
+
+  private async getContract(contractId: string): Promise<Contract> {
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+    });
+    if (!contract) {
+      throw new DomainError("Contract not found", "CONTRACT_NOT_FOUND", 404);
+    }
+    return contract;
+  }
+
+  // Parties see their contract's agreement, admins see any
+  private validateAccess(contract: Contract, userId: string, userRole?: string) {
+    const isParty =
+      contract.clientId === userId || contract.freelancerId === userId;
+    if (!isParty && userRole !== "ADMIN") {
+      throw new DomainError("Access denied", "ACCESS_DENIED", 403);
+    }
+  }
+
+  private async buildTerms(contractId: string): Promise<AgreementTerms> {
+    const contract = await prisma.contract.findUniqueOrThrow({
+      where: { id: contractId },
+      include: {
+        client: { select: { fullName: true, companyName: true } },
+        freelancer: { select: { fullName: true } },
+        job: { select: { title: true, description: true } },
+        proposal: { select: { coverLetter: true } },
+        milestones: {
+          where: { status: { not: MilestoneStatus.CANCELED } },
+          orderBy: { sequence: "asc" },
+        },
+      },
+    });
+
+    return {
+      contractId: contract.id,
+      type: contract.type,
+      currency: contract.currency,
+      amount: contract.amount,
+      hourlyRate: contract.hourlyRate,
+      weeklyHourCap: contract.weeklyHourCap,
+      endDate: contract.endDate?.toISOString() ?? null,
+      autoApprovalDays: contract.autoApprovalDays,
+      client: {
+        id: contract.clientId,
+        name: contract.client.companyName
+          ? `${contract.client.fullName} (${contract.client.companyName})`
+          : contract.client.fullName,
+      },
+      freelancer: {
+        id: contract.freelancerId,
+        name: contract.freelancer.fullName,
+      },
+      job: contract.job,
+      proposal: contract.proposal,
+      milestones: contract.milestones.map((milestone) => ({
+        sequence: milestone.sequence,
+        title: milestone.title,
+        description: milestone.description,
+        amount: milestone.amount,
+        dueDate: milestone.dueDate?.toISOString() ?? null,
+      })),
+    };
+  }
+
+  // Deterministic: the same terms and version always give the same bytes
+  public toPdf(terms: AgreementTerms, version: number): Buffer {
+    const amount = (minor: number) => formatMoney(money(minor, terms.currency));
+    const heading = (text: string): PdfLine => ({
+      text,
+      bold: true,
+      size: 12,
+      spaceBefore: 12,
+    });
+    const paragraph = (text: string): PdfLine[] =>
+      wrapText(text).map((line) => ({ text: line }));
+
+    const lines: PdfLine[] = [
+      { text: "Rizlax - Contract Agreement", size: 16, bold: true },
+      { text: `Contract: ${terms.contractId}`, spaceBefore: 6 },
+      { text: `Agreement version: ${version}` },
+      heading("Parties"),
+      { text: `Client: ${terms.client.name} (${terms.client.id})` },
+      {
+        text: `Freelancer: ${terms.freelancer.name} (${terms.freelancer.id})`,
+      },
+      heading("Scope of work"),
+      { text: terms.job.title, bold: true },
+      ...paragraph(terms.job.description),
+    ];
+
+    if (terms.proposal) {
+      lines.push(
+        heading("Freelancer proposal"),
+        ...paragraph(terms.proposal.coverLetter)
+      );
+    }
+
+    lines.push(heading("Compensation"));
+    if (terms.type === ContractType.HOURLY) {
+      lines.push(
+        {
+          text: `Hourly rate: ${amount(terms.hourlyRate ?? 0)} per hour`,
+        },
+        ...(terms.weeklyHourCap
+          ? [{ text: `Weekly limit: ${terms.weeklyHourCap} hours` }]
+          : [])
+      );
+    } else {
+      lines.push({ text: `Fixed price: ${amount(terms.amount)}` });
+    }
+    if (terms.endDate) {
+      lines.push({ text: `End date: ${formatDate(terms.endDate)}` });
+    }
+
+    if (terms.milestones.length > 0) {
+      const columns = [0, 30, 330, 430];
+      lines.push(heading("Milestones"), {
+        text: ["#", "Title", "Due date", "Amount"],
+        columns,
+        bold: true,
+      });
+      for (const milestone of terms.milestones) {
+        lines.push({
+          text: [
+            String(milestone.sequence),
+            milestone.title.slice(0, 50),
+            milestone.dueDate ? formatDate(milestone.dueDate) : "-",
+            amount(milestone.amount),
+          ],
+          columns,
+        });
+      }
+    }
+
+    lines.push(
+      heading("Payment terms"),
+      ...(terms.type === ContractType.HOURLY
+        ? paragraph(
+            "Logged hours are billed weekly. The client is charged for each approved weekly timesheet and the amount is released to the freelancer through escrow."
+          )
+        : paragraph(
+            `Each milestone is funded into escrow from the client's wallet when work on it starts. The funds are released to the freelancer when the client approves the submitted work. Work left unreviewed for ${terms.autoApprovalDays} days after submission is approved automatically.`
+          )),
+      ...paragraph(
+        "Platform fees are deducted according to the Rizlax fee policy in force when the payment is released."
+      ),
+      heading("Intellectual property"),
+      ...paragraph(
+        "Ownership of the work delivered under this contract passes to the client once the freelancer has been paid for it. The freelancer keeps the rights to pre-existing materials and tools, and grants the client a license to use them as part of the delivered work."
+      ),
+      heading("Changes and disputes"),
+      ...paragraph(
+        "Changes to the amount, end date or milestones require an amendment accepted by both parties. Disagreements are handled through the Rizlax dispute process, whose outcome is final for the escrowed funds."
+      ),
+      heading("Acceptance"),
+      ...paragraph(
+        "Each party accepts this agreement by signing it electronically on Rizlax. The time of signing, the IP address and the SHA-256 hash of this document are recorded with each signature."
+      )
+    );
+
+    return renderPdf(lines);
+  }
+
+  private async latestAgreement(
+    contractId: string
+  ): Promise<AgreementWithSignatures | null> {
+    return prisma.contractAgreement.findFirst({
+      where: { contractId },
+      orderBy: { version: "desc" },
+      include: { signatures: { orderBy: { signedAt: "asc" } } },
+    });
+  }
+
+  /**
+   * The agreement matching the contract's current terms. While the contract
+   * is PENDING a new version is generated (and stored in R2) when there is
+   * none yet or the terms changed; afterwards the last version is final.
+   */
+  private async currentAgreement(
+    contract: Contract,
+    userId: string
+  ): Promise<AgreementWithSignatures> {
+    const latest = await this.latestAgreement(contract.id);
+
+    if (contract.status !== ContractStatus.PENDING) {
+      if (!latest) {
+        throw new DomainError(
+          "This contract has no agreement",
+          "AGREEMENT_NOT_FOUND",
+          404
+        );
+      }
+      return latest;
+    }
+
+    const terms = await this.buildTerms(contract.id);
+    const termsHash = sha256(JSON.stringify(terms));
+    if (latest?.termsHash === termsHash) return latest;
+
+    const version = (latest?.version ?? 0) + 1;
+    const pdf = this.toPdf(terms, version);
+    const pdfKey = `contracts/${contract.id}/agreement-v${version}.pdf`;
+    await uploadToR2(pdfKey, pdf, "application/pdf");
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const agreement = await tx.contractAgreement.create({
+          data: {
+            contractId: contract.id,
+            version,
+            terms,
+            termsHash,
+            documentHash: sha256(pdf),
+            pdfKey,
+          },
+        });
+
+        await this.timelineService.record(tx, {
+          contractId: contract.id,
+          actor: this.timelineService.actorFor(contract, userId),
+          type: ContractEventType.AGREEMENT_GENERATED,
+          metadata: {
+            agreementId: agreement.id,
+            version,
+            documentHash: agreement.documentHash,
+            ...(latest ? { supersedes: latest.id } : {}),
+          },
+        });
+
+        return { ...agreement, signatures: [] };
+      });
+    } catch (err) {
+      // generated concurrently: same terms, same version, same file
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        const generated = await this.latestAgreement(contract.id);
+        if (generated?.termsHash === termsHash) return generated;
+        throw new DomainError(
+          "Contract terms changed, please retry",
+          "AGREEMENT_CONFLICT",
+          409
+        );
+      }
+      await deleteFromR2(pdfKey).catch((error) =>
+        logger.error(`[AgreementService] Failed to delete R2 object ${pdfKey}`, {
+          error,
+        })
+      );
+      throw err;
+    }
+  }
+
+  public async getAgreement(
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<AgreementWithSignatures> {
+    const contract = await this.getContract(contractId);
+    this.validateAccess(contract, userId, userRole);
+    return this.currentAgreement(contract, userId);
+  }
+
+  public async getAgreementPdf(
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<{ agreement: ContractAgreement; pdf: Buffer }> {
+    const agreement = await this.getAgreement(contractId, userId, userRole);
+    return { agreement, pdf: await downloadFromR2(agreement.pdfKey) };
+  }
+
+  /**
+   * Click-to-sign: the party confirms the hash of the document they were
+   * shown, so a signature always refers to the exact version they read.
+   * Signing again returns the existing signature.
+   */
+  public async signAgreement(
+    contractId: string,
+    userId: string,
+    documentHash: string,
+    context: SignatureContext
+  ): Promise<ContractSignature> {
+    const contract = await this.getContract(contractId);
+    const actor = this.timelineService.actorFor(contract, userId);
+    if (actor.role === ContractActorRole.ADMIN) {
+      throw new DomainError(
+        "Only the contract parties can sign the agreement",
+        "ACCESS_DENIED",
+        403
+      );
+    }
+    if (contract.status !== ContractStatus.PENDING) {
+      throw new DomainError(
+        "Only pending contracts can be signed",
+        "INVALID_CONTRACT_STATUS",
+        400
+      );
+    }
+
+    const agreement = await this.currentAgreement(contract, userId);
+    if (agreement.documentHash !== documentHash) {
+      throw new DomainError(
+        "The agreement has changed, please review the current version",
+        "AGREEMENT_OUTDATED",
+        409
+      );
+    }
+
+    const existing = agreement.signatures.find((s) => s.signerId === userId);
+    if (existing) return existing;
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const signature = await tx.contractSignature.create({
+          data: {
+            agreementId: agreement.id,
+            contractId,
+            signerId: userId,
+            signerRole: actor.role,
+            documentHash,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+          },
+        });
+
+        await this.timelineService.record(tx, {
+          contractId,
+          actor,
+          type: ContractEventType.AGREEMENT_SIGNED,
+          metadata: {
+            agreementId: agreement.id,
+            version: agreement.version,
+            documentHash,
+            ipAddress: context.ipAddress,
+          },
+        });
+
+        return signature;
+      });
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return prisma.contractSignature.findUniqueOrThrow({
+          where: {
+            agreementId_signerId: { agreementId: agreement.id, signerId: userId },
+          },
+        });
+      }
+      throw err;
+    }
+  }
+
+  // Both parties signed the version that matches the current terms
+  public async validateFullySigned(contract: Contract): Promise<void> {
+    const latest = await this.latestAgreement(contract.id);
+    const termsHash = sha256(JSON.stringify(await this.buildTerms(contract.id)));
+
+    const signers = new Set(
+      latest?.termsHash === termsHash
+        ? latest.signatures.map(({ signerId }) => signerId)
+        : []
+    );
+    if (!signers.has(contract.clientId) || !signers.has(contract.freelancerId)) {
+      throw new DomainError(
+        "Both parties must sign the current agreement before the contract starts",
+        "AGREEMENT_NOT_SIGNED",
+        409
+      );
+    }
+  }
+}
+
+export default AgreementService;
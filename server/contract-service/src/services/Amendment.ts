@@ -0,0 +1,662 @@
+import { prisma } from "@rizlax/db-client";
+import {
+  AmendmentStatus,
+  ContractActorRole,
+  ContractEventType,
+  ContractStatus,
+  ContractType,
+  MilestoneStatus,
+} from "@prisma/client";
+import type { Contract, ContractAmendment, Prisma } from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import { hasValidPrecision, toMinorUnits } from "@rizlax/money";
+import logger from "@rizlax/logs";
+import type EscrowClient from "../clients/Escrow.ts";
+import type { AmendmentAdjustmentResult } from "../clients/Escrow.ts";
+import type TimelineService from "./Timeline.ts";
+import type { TimelineActor } from "./Timeline.ts";
+import { MilestoneValidator } from "../validators/Milestone.ts";
+import { milestoneStateMachine } from "../machines/Milestone.ts";
+import { storedMilestoneChangesSchema } from "../validators/Amendment.ts";
+import type { StoredMilestoneChanges } from "../validators/Amendment.ts";
+
+export interface ProposeAmendmentDTO {
+  contractId: string;
+  reason?: string;
+  newAmount?: number; // major units of the contract currency
+  newEndDate?: Date;
+  milestones?: {
+    add: {
+      title: string;
+      description?: string;
+      amount: number;
+      dueDate: Date;
+      revisionLimit?: number;
+    }[];
+    update: {
+      milestoneId: string;
+      title?: string;
+      description?: string;
+      amount?: number;
+      dueDate?: Date;
+    }[];
+    remove: string[];
+  };
+}
+
+const AMENDABLE_CONTRACT_STATUSES: ContractStatus[] = [
+  ContractStatus.PENDING,
+  ContractStatus.ACTIVE,
+];
+// work on these has not been handed in yet, so their terms can still change
+const AMENDABLE_MILESTONE_STATUSES: MilestoneStatus[] = [
+  MilestoneStatus.PENDING,
+  MilestoneStatus.IN_PROGRESS,
+];
+const OPEN_STATUSES: AmendmentStatus[] = [
+  AmendmentStatus.PENDING,
+  AmendmentStatus.APPLYING,
+];
+
+/**
+ * Changes to a contract's amount, end date or milestone plan. One party
+ * proposes, the other accepts or rejects. On acceptance escrow tops up or
+ * refunds the funded milestones first, then the whole amendment is applied
+ * in one transaction and recorded on the contract timeline.
+ */
+class AmendmentService {
+  private escrowClient: EscrowClient;
+  private timelineService: TimelineService;
+
+  constructor(escrowClient: EscrowClient, timelineService: TimelineService) {
+    this.escrowClient = escrowClient;
+    this.timelineService = timelineService;
+  }
+
+  private async getContract(contractId: string): Promise<Contract> {
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+    });
+    if (!contract) {
+      throw new DomainError("Contract not found", "CONTRACT_NOT_FOUND", 404);
+    }
+    return contract;
+  }
+
+  private async getAmendmentWithContract(amendmentId: string) {
+    const amendment = await prisma.contractAmendment.findUnique({
+      where: { id: amendmentId },
+      include: { contract: true },
+    });
+    if (!amendment) {
+      throw new DomainError("Amendment not found", "AMENDMENT_NOT_FOUND", 404);
+    }
+    return amendment;
+  }
+
+  private storedChanges(
+    amendment: ContractAmendment
+  ): StoredMilestoneChanges | null {
+    if (amendment.milestoneChanges === null) return null;
+
+    const parsed = storedMilestoneChangesSchema.safeParse(
+      amendment.milestoneChanges
+    );
+    if (!parsed.success) {
+      throw new DomainError(
+        "Amendment milestone changes are malformed",
+        "AMENDMENT_CHANGES_MALFORMED",
+        500
+      );
+    }
+    return parsed.data;
+  }
+
+  private amendmentConflict() {
+    return new DomainError(
+      "Amendment status changed, please retry",
+      "AMENDMENT_STATUS_CONFLICT",
+      409
+    );
+  }
+
+  private milestoneConflict() {
+    return new DomainError(
+      "A milestone of the amendment is no longer pending or in progress",
+      "MILESTONE_STATUS_CONFLICT",
+      409
+    );
+  }
+
+  private validateContractAmendable(contract: Contract) {
+    if (!AMENDABLE_CONTRACT_STATUSES.includes(contract.status)) {
+      throw new DomainError(
+        "Only pending or active contracts can be amended",
+        "CONTRACT_NOT_AMENDABLE",
+        400
+      );
+    }
+  }
+
+  private validatePendingResponse(
+    amendment: ContractAmendment,
+    userId: string
+  ) {
+    if (amendment.respondentId !== userId) {
+      throw new DomainError(
+        "Only the other party can respond to the amendment",
+        "ACCESS_DENIED",
+        403
+      );
+    }
+    if (amendment.status !== AmendmentStatus.PENDING) {
+      throw new DomainError(
+        "The amendment is no longer pending",
+        "AMENDMENT_CLOSED",
+        400
+      );
+    }
+  }
+
+  // The milestones an amendment updates or removes must still be open to change
+  private async validateMilestoneTargets(
+    contractId: string,
+    changes: Pick<StoredMilestoneChanges, "update" | "remove">
+  ) {
+    const ids = [
+      ...changes.update.map(({ milestoneId }) => milestoneId),
+      ...changes.remove,
+    ];
+    if (new Set(ids).size !== ids.length) {
+      throw new DomainError(
+        "A milestone can only be changed once per amendment",
+        "INVALID_AMENDMENT",
+        400
+      );
+    }
+    if (ids.length === 0) return;
+
+    const milestones = await prisma.milestone.findMany({
+      where: { id: { in: ids }, contractId },
+      select: { id: true, status: true },
+    });
+    if (milestones.length !== ids.length) {
+      throw new DomainError("Milestone not found", "MILESTONE_NOT_FOUND", 404);
+    }
+    if (
+      milestones.some(
+        ({ status }) => !AMENDABLE_MILESTONE_STATUSES.includes(status)
+      )
+    ) {
+      throw new DomainError(
+        "Only pending or in progress milestones can be amended",
+        "INVALID_AMENDMENT",
+        400
+      );
+    }
+  }
+
+  private toStoredChanges(
+    contract: Contract,
+    milestones: NonNullable<ProposeAmendmentDTO["milestones"]>
+  ): StoredMilestoneChanges {
+    for (const added of milestones.add) {
+      MilestoneValidator.validateMilestoneData(
+        { contractId: contract.id, description: "", ...added },
+        contract.currency
+      );
+    }
+    for (const updated of milestones.update) {
+      MilestoneValidator.validatePartialMilestoneData(updated, contract.currency);
+    }
+
+    return {
+      add: milestones.add.map((added) => ({
+        ...added,
+        amount: toMinorUnits(added.amount, contract.currency),
+        dueDate: added.dueDate.toISOString(),
+      })),
+      update: milestones.update.map((updated) => ({
+        ...updated,
+        amount:
+          updated.amount !== undefined
+            ? toMinorUnits(updated.amount, contract.currency)
+            : undefined,
+        dueDate: updated.dueDate?.toISOString(),
+      })),
+      remove: milestones.remove,
+    };
+  }
+
+  public async proposeAmendment(
+    userId: string,
+    data: ProposeAmendmentDTO
+  ): Promise<ContractAmendment> {
+    const contract = await this.getContract(data.contractId);
+    const actor = this.timelineService.actorFor(contract, userId);
+    if (actor.role === ContractActorRole.ADMIN) {
+      throw new DomainError(
+        "Only the contract parties can propose an amendment",
+        "ACCESS_DENIED",
+        403
+      );
+    }
+    this.validateContractAmendable(contract);
+
+    if (
+      contract.type === ContractType.HOURLY &&
+      (data.newAmount !== undefined || data.milestones !== undefined)
+    ) {
+      throw new DomainError(
+        "Hourly contracts can only be amended to a new end date",
+        "INVALID_AMENDMENT",
+        400
+      );
+    }
+
+    let newAmount: number | undefined;
+    if (data.newAmount !== undefined) {
+      if (!hasValidPrecision(data.newAmount, contract.currency)) {
+        throw new DomainError(
+          `Contract amount has too many decimals for ${contract.currency}`,
+          "INVALID_AMOUNT",
+          400
+        );
+      }
+      newAmount = toMinorUnits(data.newAmount, contract.currency);
+    }
+
+    if (data.newEndDate !== undefined) {
+      if (
+        data.newEndDate <= new Date() ||
+        (contract.endDate && data.newEndDate <= contract.endDate)
+      ) {
+        throw new DomainError(
+          "The new end date must be in the future and later than the current one",
+          "INVALID_END_DATE",
+          400
+        );
+      }
+    }
+
+    const milestoneChanges = data.milestones
+      ? this.toStoredChanges(contract, data.milestones)
+      : undefined;
+    if (milestoneChanges) {
+      await this.validateMilestoneTargets(contract.id, milestoneChanges);
+    }
+
+    const open = await prisma.contractAmendment.findFirst({
+      where: { contractId: contract.id, status: { in: OPEN_STATUSES } },
+    });
+    if (open) {
+      throw new DomainError(
+        "An amendment is already pending for this contract",
+        "AMENDMENT_ALREADY_PENDING",
+        409
+      );
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const amendment = await tx.contractAmendment.create({
+        data: {
+          contractId: contract.id,
+          proposedById: userId,
+          proposedByRole: actor.role,
+          respondentId:
+            actor.role === ContractActorRole.CLIENT
+              ? contract.freelancerId
+              : contract.clientId,
+          reason: data.reason,
+          newAmount,
+          newEndDate: data.newEndDate,
+          // dates are stored as ISO strings, undefined fields are dropped
+          milestoneChanges: milestoneChanges
+            ? JSON.parse(JSON.stringify(milestoneChanges))
+            : undefined,
+        },
+      });
+
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        actor,
+        type: ContractEventType.AMENDMENT_PROPOSED,
+        note: data.reason,
+        metadata: { amendmentId: amendment.id },
+      });
+
+      return amendment;
+    });
+  }
+
+  /**
+   * The respondent accepts: the amendment is claimed (APPLYING), escrow
+   * moves the money, then contract and milestones are changed together.
+   * A definite escrow failure puts the amendment back to PENDING; an
+   * uncertain one leaves it APPLYING, and accepting again retries it
+   * (escrow never adjusts the same amendment twice).
+   */
+  public async acceptAmendment(
+    amendmentId: string,
+    userId: string,
+    note?: string
+  ): Promise<ContractAmendment> {
+    const amendment = await this.getAmendmentWithContract(amendmentId);
+    const isRetry =
+      amendment.status === AmendmentStatus.APPLYING &&
+      amendment.respondentId === userId;
+
+    if (!isRetry) {
+      this.validatePendingResponse(amendment, userId);
+      this.validateContractAmendable(amendment.contract);
+      const changes = this.storedChanges(amendment);
+      if (changes) {
+        // the plan may have moved on since the proposal
+        await this.validateMilestoneTargets(amendment.contractId, changes);
+      }
+
+      const { count } = await prisma.contractAmendment.updateMany({
+        where: { id: amendmentId, status: AmendmentStatus.PENDING },
+        data: {
+          status: AmendmentStatus.APPLYING,
+          responseNote: note ?? null,
+          respondedAt: new Date(),
+        },
+      });
+      if (count === 0) throw this.amendmentConflict();
+    }
+
+    let adjustment: AmendmentAdjustmentResult;
+    try {
+      adjustment = await this.escrowClient.applyAmendment(amendmentId);
+    } catch (err) {
+      const isDefinite = err instanceof DomainError && err.statusCode < 500;
+      if (isDefinite) {
+        await prisma.contractAmendment.updateMany({
+          where: { id: amendmentId, status: AmendmentStatus.APPLYING },
+          data: {
+            status: AmendmentStatus.PENDING,
+            responseNote: null,
+            respondedAt: null,
+          },
+        });
+      } else {
+        logger.warn(
+          `[AmendmentService] Escrow adjustment of amendment ${amendmentId} failed, left APPLYING for retry`
+        );
+      }
+      throw err;
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const applying = await tx.contractAmendment.findUniqueOrThrow({
+        where: { id: amendmentId },
+        include: { contract: true },
+      });
+      if (applying.status !== AmendmentStatus.APPLYING) {
+        throw this.amendmentConflict();
+      }
+
+      const { contract } = applying;
+      const actor = this.timelineService.actorFor(contract, userId);
+      const changes = this.storedChanges(applying);
+
+      await tx.contract.update({
+        where: { id: contract.id },
+        data: {
+          amount: applying.newAmount ?? undefined,
+          endDate: applying.newEndDate ?? undefined,
+        },
+      });
+
+      if (changes) {
+        await this.applyMilestoneChanges(tx, applying, actor, changes);
+      }
+
+      const applied = await tx.contractAmendment.update({
+        where: { id: amendmentId },
+        data: { status: AmendmentStatus.APPLIED, appliedAt: new Date() },
+      });
+
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        actor,
+        type: ContractEventType.AMENDMENT_APPLIED,
+        note: applying.responseNote ?? undefined,
+        metadata: {
+          amendmentId,
+          previousAmount: contract.amount,
+          newAmount: applying.newAmount,
+          previousEndDate: contract.endDate?.toISOString() ?? null,
+          newEndDate: applying.newEndDate?.toISOString() ?? null,
+          escrowMovements: adjustment.movements,
+        },
+      });
+
+      return applied;
+    });
+  }
+
+  private async applyMilestoneChanges(
+    tx: Prisma.TransactionClient,
+    amendment: ContractAmendment & { contract: Contract },
+    actor: TimelineActor,
+    changes: StoredMilestoneChanges
+  ) {
+    const { contract } = amendment;
+    const metadata = { amendmentId: amendment.id };
+
+    for (const milestoneId of changes.remove) {
+      const milestone = await tx.milestone.findUniqueOrThrow({
+        where: { id: milestoneId },
+      });
+      if (milestone.status === MilestoneStatus.CANCELED) continue;
+
+      // escrow has already refunded what was held; work handed in since the
+      // amendment was accepted fails the whole apply, which can be retried
+      await milestoneStateMachine.transition(
+        {
+          from: milestone.status,
+          to: MilestoneStatus.CANCELED,
+          role: actor.role,
+          context: milestone,
+        },
+        async () => {
+          const { count } = await tx.milestone.updateMany({
+            where: {
+              id: milestoneId,
+              status: { in: AMENDABLE_MILESTONE_STATUSES },
+            },
+            data: { status: MilestoneStatus.CANCELED },
+          });
+          if (count === 0) throw this.milestoneConflict();
+        }
+      );
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        milestoneId,
+        actor,
+        type: ContractEventType.MILESTONE_STATUS_CHANGED,
+        fromStatus: milestone.status,
+        toStatus: MilestoneStatus.CANCELED,
+        note: "Removed by amendment",
+        metadata,
+      });
+    }
+
+    for (const { milestoneId, ...fields } of changes.update) {
+      const updated = {
+        ...fields,
+        dueDate: fields.dueDate ? new Date(fields.dueDate) : undefined,
+      };
+      const { count } = await tx.milestone.updateMany({
+        where: {
+          id: milestoneId,
+          status: { in: AMENDABLE_MILESTONE_STATUSES },
+        },
+        data: updated,
+      });
+      if (count === 0) throw this.milestoneConflict();
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        milestoneId,
+        actor,
+        type: ContractEventType.MILESTONE_UPDATED,
+        metadata: { ...metadata, changes: fields },
+      });
+    }
+
+    // the contract row is locked by the update in acceptAmendment, so no
+    // other plan can take these numbers before the transaction commits
+    const {
+      _max: { sequence: lastSequence },
+    } = await tx.milestone.aggregate({
+      where: { contractId: contract.id },
+      _max: { sequence: true },
+    });
+    let sequence = lastSequence ?? 0;
+
+    for (const added of changes.add) {
+      const milestone = await tx.milestone.create({
+        data: {
+          contractId: contract.id,
+          title: added.title,
+          description: added.description,
+          amount: added.amount,
+          currency: contract.currency,
+          dueDate: new Date(added.dueDate),
+          revisionLimit: added.revisionLimit,
+          sequence: ++sequence,
+        },
+      });
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        milestoneId: milestone.id,
+        actor,
+        type: ContractEventType.MILESTONE_CREATED,
+        toStatus: milestone.status,
+        metadata: {
+          ...metadata,
+          title: milestone.title,
+          amount: milestone.amount,
+          currency: milestone.currency,
+          sequence: milestone.sequence,
+          revisionLimit: milestone.revisionLimit,
+        },
+      });
+    }
+  }
+
+  public async rejectAmendment(
+    amendmentId: string,
+    userId: string,
+    note?: string
+  ): Promise<ContractAmendment> {
+    const amendment = await this.getAmendmentWithContract(amendmentId);
+    this.validatePendingResponse(amendment, userId);
+
+    return this.closeAmendment(
+      amendment,
+      userId,
+      AmendmentStatus.REJECTED,
+      ContractEventType.AMENDMENT_REJECTED,
+      { responseNote: note ?? null, respondedAt: new Date() },
+      note
+    );
+  }
+
+  // The proposer takes the amendment back before the other party responds
+  public async cancelAmendment(
+    amendmentId: string,
+    userId: string
+  ): Promise<ContractAmendment> {
+    const amendment = await this.getAmendmentWithContract(amendmentId);
+    if (amendment.proposedById !== userId) {
+      throw new DomainError(
+        "Only the party who proposed the amendment can cancel it",
+        "ACCESS_DENIED",
+        403
+      );
+    }
+    if (amendment.status !== AmendmentStatus.PENDING) {
+      throw new DomainError(
+        "The amendment is no longer pending",
+        "AMENDMENT_CLOSED",
+        400
+      );
+    }
+
+    return this.closeAmendment(
+      amendment,
+      userId,
+      AmendmentStatus.CANCELED,
+      ContractEventType.AMENDMENT_CANCELED
+    );
+  }
+
+  private async closeAmendment(
+    amendment: ContractAmendment & { contract: Contract },
+    userId: string,
+    status: AmendmentStatus,
+    type: ContractEventType,
+    data: Prisma.ContractAmendmentUpdateManyMutationInput = {},
+    note?: string
+  ): Promise<ContractAmendment> {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.contractAmendment.updateMany({
+        where: { id: amendment.id, status: AmendmentStatus.PENDING },
+        data: { ...data, status },
+      });
+      if (count === 0) throw this.amendmentConflict();
+
+      await this.timelineService.record(tx, {
+        contractId: amendment.contractId,
+        actor: this.timelineService.actorFor(amendment.contract, userId),
+        type,
+        note,
+        metadata: { amendmentId: amendment.id },
+      });
+
+      return tx.contractAmendment.findUniqueOrThrow({
+        where: { id: amendment.id },
+      });
+    });
+  }
+
+  public async getAmendment(
+    amendmentId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<ContractAmendment> {
+    const { contract, ...amendment } = await this.getAmendmentWithContract(
+      amendmentId
+    );
+    this.validateAccess(contract, userId, userRole);
+    return amendment;
+  }
+
+  public async getContractAmendments(
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<ContractAmendment[]> {
+    const contract = await this.getContract(contractId);
+    this.validateAccess(contract, userId, userRole);
+
+    return prisma.contractAmendment.findMany({
+      where: { contractId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  // Parties see their contract's amendments, admins see any
+  private validateAccess(contract: Contract, userId: string, userRole?: string) {
+    const isParty =
+      contract.clientId === userId || contract.freelancerId === userId;
+    if (!isParty && userRole !== "ADMIN") {
+      throw new DomainError("Access denied", "ACCESS_DENIED", 403);
+    }
+  }
+}
+
+export default AmendmentService;
@@ -0,0 +1,202 @@
+import { prisma } from "@rizlax/db-client";
+import {
+  ContractEventType,
+  ContractStatus,
+  MilestoneStatus,
+} from "@prisma/client";
+import logger from "@rizlax/logs";
+import type ContractService from "./Contract.ts";
+import type MilestoneService from "./Milstone.ts";
+import type TimelineService from "./Timeline.ts";
+import { SYSTEM_ACTOR } from "./Timeline.ts";
+
+export interface AutoApprovalRunResult {
+  warned: number;
+  approved: number;
+  failed: number;
+}
+
+const WARNING_DAYS = parseInt(
+  process.env.AUTO_APPROVAL_WARNING_DAYS || "2",
+  10
+);
+const BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Submitted work the client leaves unreviewed is approved automatically once
+ * `autoApproveAt` passes (set from the contract's autoApprovalDays on each
+ * submission). AUTO_APPROVAL_WARNING_DAYS before that, the client is warned
+ * through an event on the contract timeline; nothing is approved unwarned.
+ */
+class AutoApprovalService {
+  private contractService: ContractService;
+  private milestoneService: MilestoneService;
+  private timelineService: TimelineService;
+
+  constructor(
+    contractService: ContractService,
+    milestoneService: MilestoneService,
+    timelineService: TimelineService
+  ) {
+    this.contractService = contractService;
+    this.milestoneService = milestoneService;
+    this.timelineService = timelineService;
+  }
+
+  private async warnMilestones(now: Date, warnUntil: Date): Promise<number> {
+    const due = await prisma.milestone.findMany({
+      where: {
+        status: MilestoneStatus.SUBMITTED,
+        autoApproveAt: { lte: warnUntil },
+        autoApprovalWarnedAt: null,
+        contract: { status: ContractStatus.ACTIVE },
+      },
+      orderBy: { autoApproveAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    let warned = 0;
+    for (const milestone of due) {
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.milestone.updateMany({
+          where: {
+            id: milestone.id,
+            status: MilestoneStatus.SUBMITTED,
+            autoApprovalWarnedAt: null,
+          },
+          // the client always gets the full warning period, even when the
+          // warning is late (e.g. the worker was down)
+          data: { autoApprovalWarnedAt: now, autoApproveAt: warnUntil },
+        });
+        if (count === 0) return;
+
+        await this.timelineService.record(tx, {
+          contractId: milestone.contractId,
+          milestoneId: milestone.id,
+          actor: SYSTEM_ACTOR,
+          type: ContractEventType.AUTO_APPROVAL_WARNING,
+          note: "The submission will be approved and paid automatically unless it is reviewed",
+          metadata: { autoApproveAt: warnUntil.toISOString() },
+        });
+        warned++;
+      });
+    }
+    return warned;
+  }
+
+  private async warnContracts(now: Date, warnUntil: Date): Promise<number> {
+    const due = await prisma.contract.findMany({
+      where: {
+        status: ContractStatus.REVIEW_PENDING,
+        autoApproveAt: { lte: warnUntil },
+        autoApprovalWarnedAt: null,
+      },
+      orderBy: { autoApproveAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    let warned = 0;
+    for (const contract of due) {
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.contract.updateMany({
+          where: {
+            id: contract.id,
+            status: ContractStatus.REVIEW_PENDING,
+            autoApprovalWarnedAt: null,
+          },
+          data: { autoApprovalWarnedAt: now, autoApproveAt: warnUntil },
+        });
+        if (count === 0) return;
+
+        await this.timelineService.record(tx, {
+          contractId: contract.id,
+          actor: SYSTEM_ACTOR,
+          type: ContractEventType.AUTO_APPROVAL_WARNING,
+          note: "The contract will be completed automatically unless the work is reviewed",
+          metadata: { autoApproveAt: warnUntil.toISOString() },
+        });
+        warned++;
+      });
+    }
+    return warned;
+  }
+
+  public async processDue(
+    now: Date = new Date()
+  ): Promise<AutoApprovalRunResult> {
+    const result: AutoApprovalRunResult = {
+      warned: 0,
+      approved: 0,
+      failed: 0,
+    };
+
+    const warnUntil = new Date(now.getTime() + WARNING_DAYS * DAY_MS);
+    result.warned += await this.warnMilestones(now, warnUntil);
+    result.warned += await this.warnContracts(now, warnUntil);
+
+    // separate batches, so releases being retried never hold back new work
+    const submitted = await prisma.milestone.findMany({
+      where: {
+        status: MilestoneStatus.SUBMITTED,
+        autoApprovalWarnedAt: { not: null },
+        autoApproveAt: { lte: now },
+        contract: { status: ContractStatus.ACTIVE },
+      },
+      orderBy: { autoApproveAt: "asc" },
+      select: { id: true },
+      take: BATCH_SIZE,
+    });
+    // requested releases that were not confirmed, due for their next attempt
+    const releases = await prisma.milestone.findMany({
+      where: {
+        status: MilestoneStatus.APPROVED,
+        releaseRequestedAt: { not: null },
+        releaseRetryAt: { lte: now },
+        contract: { status: ContractStatus.ACTIVE },
+      },
+      orderBy: { releaseRetryAt: "asc" },
+      select: { id: true },
+      take: BATCH_SIZE,
+    });
+    for (const { id } of [...submitted, ...releases]) {
+      try {
+        await this.milestoneService.autoApproveMilestone(id, now);
+        result.approved++;
+      } catch (error) {
+        result.failed++;
+        logger.error(
+          `[AutoApprovalService] Failed to auto-approve milestone ${id}`,
+          { error }
+        );
+      }
+    }
+
+    const contracts = await prisma.contract.findMany({
+      where: {
+        status: ContractStatus.REVIEW_PENDING,
+        autoApprovalWarnedAt: { not: null },
+        autoApproveAt: { lte: now },
+      },
+      orderBy: { autoApproveAt: "asc" },
+      select: { id: true },
+      take: BATCH_SIZE,
+    });
+    for (const { id } of contracts) {
+      try {
+        await this.contractService.autoCompleteContract(id);
+        result.approved++;
+      } catch (error) {
+        result.failed++;
+        logger.error(
+          `[AutoApprovalService] Failed to auto-complete contract ${id}`,
+          { error }
+        );
+      }
+    }
+
+    return result;
+  }
+}
+
+export default AutoApprovalService;
@@ -1,35 +1,69 @@
 import { prisma } from "@rizlax/db-client";
-import { ContractStatus } from "@prisma/client";
+import {
+  ContractActorRole,
+  ContractEventType,
+  ContractStatus,
+  ContractType,
+  MilestoneStatus,
+  Prisma,
+  ProposalStatus,
+} from "@prisma/client";
 import type { Contract } from "@prisma/client";
 import { DomainError } from "@rizlax/common-middleware";
+import TimelineService from "./Timeline.ts";
+import type EscrowClient from "../clients/Escrow.ts";
+import type AgreementService from "./Agreement.ts";
+import type { TimelineDetails } from "./Timeline.ts";
+import { SYSTEM_ACTOR } from "./Timeline.ts";
+import { contractStateMachine } from "../machines/Contract.ts";
 
 export interface CreateContractDTO {
   clientId: string;
   freelancerId: string;
   jobId: string;
-  amount: number;
+  amount: number; // minor units of currency
+  currency?: string;
+  type?: ContractType;
+  hourlyRate?: number; // minor units of currency
+  weeklyHourCap?: number;
   status?: ContractStatus;
   startDate: Date;
   endDate?: Date;
+  autoApprovalDays?: number; // client review window for submitted work
 }
 
-const VALID_TRANSITIONS: { [key in ContractStatus]: ContractStatus[] } = {
-  [ContractStatus.PENDING]: [ContractStatus.ACTIVE, ContractStatus.TERMINATED],
-  [ContractStatus.ACTIVE]: [
-    ContractStatus.REVIEW_PENDING,
-    ContractStatus.TERMINATED,
-  ],
-  [ContractStatus.REVIEW_PENDING]: [
-    ContractStatus.COMPLETED,
-    ContractStatus.DISPUTED,
-    ContractStatus.TERMINATED,
-  ],
-  [ContractStatus.COMPLETED]: [],
-  [ContractStatus.DISPUTED]: [ContractStatus.TERMINATED],
-  [ContractStatus.TERMINATED]: [],
-};
+// milestones whose dates no longer matter
+const SETTLED_MILESTONE_STATUSES: MilestoneStatus[] = [
+  MilestoneStatus.APPROVED,
+  MilestoneStatus.PAID,
+  MilestoneStatus.COMPLETED,
+  MilestoneStatus.CANCELED,
+];
+
+const shiftDate = (date: Date | null, ms: number) =>
+  date ? new Date(date.getTime() + ms) : undefined;
+
+export interface ProposalContractResult {
+  contract: Contract;
+  // false when the proposal already had its contract (a retry)
+  created: boolean;
+}
 
 class ContractService {
+  private timelineService: TimelineService;
+  private escrowClient: EscrowClient;
+  private agreementService: AgreementService;
+
+  constructor(
+    timelineService: TimelineService,
+    escrowClient: EscrowClient,
+    agreementService: AgreementService
+  ) {
+    this.timelineService = timelineService;
+    this.escrowClient = escrowClient;
+    this.agreementService = agreementService;
+  }
+
   private async validateContractExists(contractId: string): Promise<Contract> {
     const contract = await this.getContractById(contractId);
     if (!contract) {
@@ -38,15 +72,64 @@ class ContractService {
     return contract;
   }
 
-  private validateStatusTransition(from: ContractStatus, to: ContractStatus) {
-    const allowed = VALID_TRANSITIONS[from] || [];
-    if (!allowed.includes(to)) {
+  // Moves the contract to `to` and records the transition in one transaction.
+  // The update is conditional on the status read before, so two concurrent
+  // transitions can't both win. `effects` makes further writes in the same
+  // transaction and returns the event's metadata.
+  private async transition(
+    contractId: string,
+    to: ContractStatus,
+    actorId: string | null, // null for system actions
+    details: TimelineDetails,
+    data: Omit<Prisma.ContractUpdateManyMutationInput, "status"> = {},
+    expectedFrom?: ContractStatus,
+    effects?: (tx: Prisma.TransactionClient) => Promise<Prisma.InputJsonObject>
+  ): Promise<Contract> {
+    const contract = await this.validateContractExists(contractId);
+
+    if (expectedFrom && contract.status !== expectedFrom) {
       throw new DomainError(
-        "invalid contract status transition",
-        "INVALID_CONTRACT_STATUS_TRANSITION",
-        400
+        "Contract status changed, please retry",
+        "CONTRACT_STATUS_CONFLICT",
+        409
       );
     }
+
+    const actor = actorId
+      ? this.timelineService.actorFor(contract, actorId)
+      : SYSTEM_ACTOR;
+
+    return contractStateMachine.transition(
+      { from: contract.status, to, role: actor.role, context: contract },
+      () =>
+        prisma.$transaction(async (tx) => {
+          const { count } = await tx.contract.updateMany({
+            where: { id: contractId, status: contract.status },
+            data: { ...data, status: to },
+          });
+          if (count === 0) {
+            throw new DomainError(
+              "Contract status changed, please retry",
+              "CONTRACT_STATUS_CONFLICT",
+              409
+            );
+          }
+
+          const metadata = effects ? await effects(tx) : undefined;
+
+          await this.timelineService.record(tx, {
+            contractId,
+            actor,
+            type: ContractEventType.CONTRACT_STATUS_CHANGED,
+            fromStatus: contract.status,
+            toStatus: to,
+            metadata,
+            ...details,
+          });
+
+          return tx.contract.findUniqueOrThrow({ where: { id: contractId } });
+        })
+    );
   }
 
   public async getContractById(contractId: string): Promise<Contract | null> {
@@ -55,75 +138,308 @@ class ContractService {
     });
   }
 
-  public async createContract(data: CreateContractDTO) {
-    return prisma.contract.create({
-      data,
+  public async createContract(
+    data: CreateContractDTO,
+    details: TimelineDetails = {}
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const contract = await tx.contract.create({
+        data,
+      });
+
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        actor: this.timelineService.actorFor(contract, data.clientId),
+        type: ContractEventType.CONTRACT_CREATED,
+        toStatus: contract.status,
+        metadata: {
+          type: contract.type,
+          amount: contract.amount,
+          currency: contract.currency,
+          hourlyRate: contract.hourlyRate,
+          weeklyHourCap: contract.weeklyHourCap,
+          autoApprovalDays: contract.autoApprovalDays,
+        },
+        ...details,
+      });
+
+      return contract;
     });
   }
 
-  public async startContract(contractId: string): Promise<Contract | null> {
-    const contract = await this.validateContractExists(contractId);
-
-    this.validateStatusTransition(contract.status, ContractStatus.ACTIVE);
+  private async insertProposalContract(
+    data: CreateContractDTO & { proposalId: string }
+  ): Promise<Contract> {
+    try {
+      return await prisma.contract.create({ data });
+    } catch (err) {
+      if (
+        !(err instanceof Prisma.PrismaClientKnownRequestError) ||
+        err.code !== "P2002"
+      ) {
+        throw err;
+      }
+    }
 
-    return prisma.contract.update({
-      where: { id: contractId },
-      data: { status: ContractStatus.ACTIVE, startDate: new Date() },
+    // a concurrent retry created it, or the job already has a contract
+    const contract = await prisma.contract.findUnique({
+      where: { proposalId: data.proposalId },
     });
+    if (!contract) {
+      throw new DomainError(
+        "The job already has a contract",
+        "CONTRACT_ALREADY_EXISTS",
+        409
+      );
+    }
+    return contract;
   }
 
-  public async submitWork(contractId: string): Promise<Contract | null> {
-    const contract = await this.validateContractExists(contractId);
+  /**
+   * Turns an accepted proposal into a PENDING fixed-price contract with an
+   * open escrow account. Safe to retry: the contract is keyed by proposalId
+   * and opening the escrow account is idempotent. On a definite escrow failure
+   * the contract is removed again, so the job can accept another proposal.
+   */
+  public async createContractFromProposal(
+    proposalId: string
+  ): Promise<ProposalContractResult> {
+    const proposal = await prisma.proposal.findUnique({
+      where: { id: proposalId },
+      include: {
+        contract: true,
+        freelancer: { select: { userId: true } },
+        job: { include: { client: { select: { userId: true } } } },
+      },
+    });
+    if (!proposal) {
+      throw new DomainError("Proposal not found", "PROPOSAL_NOT_FOUND", 404);
+    }
+    if (proposal.status !== ProposalStatus.ACCEPTED) {
+      throw new DomainError(
+        "Only accepted proposals can become contracts",
+        "PROPOSAL_NOT_ACCEPTED",
+        409
+      );
+    }
 
-    this.validateStatusTransition(
-      contract.status,
-      ContractStatus.REVIEW_PENDING
-    );
+    const { contract, created } = proposal.contract
+      ? { contract: proposal.contract, created: false }
+      : {
+          contract: await this.insertProposalContract({
+            clientId: proposal.job.client.userId,
+            freelancerId: proposal.freelancer.userId,
+            jobId: proposal.jobId,
+            proposalId,
+            // the freelancer's bid, in the job's currency
+            amount: proposal.proposedRate || proposal.job.budget,
+            currency: proposal.job.currency,
+            startDate: new Date(),
+          }),
+          created: true,
+        };
 
-    return prisma.contract.update({
-      where: { id: contractId },
-      data: { status: ContractStatus.REVIEW_PENDING, submittedAt: new Date() },
+    try {
+      await this.escrowClient.openEscrowAccount(contract.id);
+    } catch (err) {
+      const isDefinite = err instanceof DomainError && err.statusCode < 500;
+      if (isDefinite) {
+        // the contract has no history until escrow is open, so it can go
+        await prisma.contract.deleteMany({
+          where: { id: contract.id, events: { none: {} } },
+        });
+      }
+      throw err;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const recorded = await tx.contractEvent.findFirst({
+        where: {
+          contractId: contract.id,
+          type: ContractEventType.CONTRACT_CREATED,
+        },
+      });
+      if (recorded) return;
+
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        actor: { id: contract.clientId, role: ContractActorRole.CLIENT },
+        type: ContractEventType.CONTRACT_CREATED,
+        toStatus: contract.status,
+        metadata: {
+          proposalId,
+          type: contract.type,
+          amount: contract.amount,
+          currency: contract.currency,
+        },
+      });
     });
+
+    return { contract, created };
   }
 
-  public async completeContract(contractId: string): Promise<Contract | null> {
+  public async startContract(
+    contractId: string,
+    actorId: string,
+    details: TimelineDetails = {}
+  ): Promise<Contract | null> {
     const contract = await this.validateContractExists(contractId);
+    // no work starts without both signatures on the agreement
+    await this.agreementService.validateFullySigned(contract);
 
-    this.validateStatusTransition(contract.status, ContractStatus.COMPLETED);
-
-    return prisma.contract.update({
-      where: { id: contractId },
-      data: { status: ContractStatus.COMPLETED, endDate: new Date() },
-    });
+    return this.transition(
+      contractId,
+      ContractStatus.ACTIVE,
+      actorId,
+      details,
+      { startDate: new Date() },
+      ContractStatus.PENDING
+    );
   }
 
-  public async disputeContract(contractId: string): Promise<Contract | null> {
+  public async submitWork(
+    contractId: string,
+    actorId: string,
+    details: TimelineDetails = {}
+  ): Promise<Contract | null> {
     const contract = await this.validateContractExists(contractId);
+    const now = new Date();
+
+    return this.transition(
+      contractId,
+      ContractStatus.REVIEW_PENDING,
+      actorId,
+      details,
+      {
+        submittedAt: now,
+        autoApproveAt: new Date(
+          now.getTime() + contract.autoApprovalDays * 24 * 60 * 60 * 1000
+        ),
+        autoApprovalWarnedAt: null,
+      }
+    );
+  }
 
-    this.validateStatusTransition(contract.status, ContractStatus.DISPUTED);
+  public async completeContract(
+    contractId: string,
+    actorId: string,
+    details: TimelineDetails = {}
+  ): Promise<Contract | null> {
+    return this.transition(
+      contractId,
+      ContractStatus.COMPLETED,
+      actorId,
+      details,
+      { endDate: new Date() }
+    );
+  }
 
-    return prisma.contract.update({
-      where: { id: contractId },
-      data: { status: ContractStatus.DISPUTED },
+  // Completion by the auto-approval scheduler once the review window passed
+  public async autoCompleteContract(contractId: string): Promise<Contract> {
+    return this.transition(
+      contractId,
+      ContractStatus.COMPLETED,
+      null,
+      {
+        note: "Completed automatically, the client did not review the work in time",
+      },
+      { endDate: new Date() },
+      ContractStatus.REVIEW_PENDING
+    );
+  }
+
+  // Shifts the due dates and auto-approval deadlines of the unsettled
+  // milestones by `ms`, returns how many were moved
+  private async shiftMilestoneDates(
+    tx: Prisma.TransactionClient,
+    contractId: string,
+    ms: number
+  ): Promise<number> {
+    const milestones = await tx.milestone.findMany({
+      where: { contractId, status: { notIn: SETTLED_MILESTONE_STATUSES } },
     });
+
+    let shifted = 0;
+    for (const milestone of milestones) {
+      if (!milestone.dueDate && !milestone.autoApproveAt) continue;
+      await tx.milestone.update({
+        where: { id: milestone.id },
+        data: {
+          dueDate: shiftDate(milestone.dueDate, ms),
+          autoApproveAt: shiftDate(milestone.autoApproveAt, ms),
+        },
+      });
+      shifted++;
+    }
+    return shifted;
   }
 
-  public async terminateContract(contractId: string): Promise<Contract | null> {
-    const contract = await this.validateContractExists(contractId);
+  /**
+   * Halts an active contract. While PAUSED no work can be submitted and the
+   * auto-approval scheduler skips the contract (it only looks at ACTIVE
+   * ones), so every deadline is frozen until the contract is resumed.
+   */
+  public async pauseContract(
+    contractId: string,
+    actorId: string,
+    reason: string
+  ): Promise<Contract | null> {
+    return this.transition(
+      contractId,
+      ContractStatus.PAUSED,
+      actorId,
+      { note: reason },
+      { pausedAt: new Date(), pauseReason: reason },
+      ContractStatus.ACTIVE
+    );
+  }
 
-    this.validateStatusTransition(contract.status, ContractStatus.TERMINATED);
+  // Back to ACTIVE, with every open deadline moved by the time spent paused
+  public async resumeContract(
+    contractId: string,
+    actorId: string,
+    details: TimelineDetails = {}
+  ): Promise<Contract | null> {
+    const contract = await this.validateContractExists(contractId);
+    const pausedFor = contract.pausedAt
+      ? Date.now() - contract.pausedAt.getTime()
+      : 0;
 
-    // if (
-    //   contract.status === ContractStatus.COMPLETED ||
-    //   contract.status === ContractStatus.TERMINATED
-    // ) {
-    //   throw new DomainError("Contract cannot be terminated", "INVALID_CONTRACT_STATUS", 400);
-    // }
+    return this.transition(
+      contractId,
+      ContractStatus.ACTIVE,
+      actorId,
+      details,
+      {
+        pausedAt: null,
+        pauseReason: null,
+        endDate: shiftDate(contract.endDate, pausedFor),
+      },
+      ContractStatus.PAUSED,
+      async (tx) => ({
+        pausedAt: contract.pausedAt?.toISOString() ?? null,
+        pausedForMs: pausedFor,
+        shiftedMilestones: await this.shiftMilestoneDates(
+          tx,
+          contractId,
+          pausedFor
+        ),
+      })
+    );
+  }
 
-    return prisma.contract.update({
-      where: { id: contractId },
-      data: { status: ContractStatus.TERMINATED, endDate: new Date() },
-    });
+  public async terminateContract(
+    contractId: string,
+    actorId: string,
+    details: TimelineDetails = {}
+  ): Promise<Contract | null> {
+    return this.transition(
+      contractId,
+      ContractStatus.TERMINATED,
+      actorId,
+      details,
+      { endDate: new Date() }
+    );
   }
 }
 
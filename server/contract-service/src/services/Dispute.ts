@@ -0,0 +1,797 @@
+import { prisma } from "@rizlax/db-client";
+import {
+  ContractActorRole,
+  ContractEventType,
+  ContractStatus,
+  DisputeEvidenceType,
+  DisputeOutcome,
+  DisputeStatus,
+  MilestoneStatus,
+} from "@prisma/client";
+import type {
+  Contract,
+  Dispute,
+  DisputeEvidence,
+  DisputeReason,
+  Prisma,
+} from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import { deleteFromR2, uploadToR2 } from "@rizlax/R2";
+import logger from "@rizlax/logs";
+import crypto from "crypto";
+import type EscrowClient from "../clients/Escrow.ts";
+import type TimelineService from "./Timeline.ts";
+import type { TimelineActor } from "./Timeline.ts";
+import { SYSTEM_ACTOR } from "./Timeline.ts";
+import { safeFileName } from "../utils/upload.ts";
+import { contractStateMachine } from "../machines/Contract.ts";
+import { milestoneStateMachine } from "../machines/Milestone.ts";
+
+export interface OpenDisputeDTO {
+  contractId: string;
+  milestoneId?: string;
+  reason: DisputeReason;
+  description: string;
+}
+
+export interface DisputeEvidenceDTO {
+  message?: string;
+  files: Express.Multer.File[];
+}
+
+export interface ResolveDisputeDTO {
+  outcome: DisputeOutcome;
+  releasePercent?: number;
+  note: string;
+}
+
+export interface DisputeQueueQuery {
+  status?: DisputeStatus;
+  page: number;
+  limit: number;
+}
+
+export type DisputeWithEvidence = Dispute & { evidence: DisputeEvidence[] };
+
+const RESPONSE_WINDOW_DAYS = parseInt(
+  process.env.DISPUTE_RESPONSE_DAYS || "3",
+  10
+);
+const ESCALATION_BATCH_SIZE = 50;
+
+const DISPUTABLE_CONTRACT_STATUSES: ContractStatus[] = [
+  ContractStatus.ACTIVE,
+  ContractStatus.REVIEW_PENDING,
+];
+// not APPROVED: its escrow release is requested and may be half done, so it
+// has to be settled through the release retry, not through a dispute
+const DISPUTABLE_MILESTONE_STATUSES: MilestoneStatus[] = [
+  MilestoneStatus.SUBMITTED,
+  MilestoneStatus.REVISION_REQUESTED,
+];
+// where a withdrawn dispute puts the milestone back; APPROVED for disputes
+// opened before approved milestones stopped being disputable
+const WITHDRAWN_MILESTONE_STATUSES: MilestoneStatus[] = [
+  ...DISPUTABLE_MILESTONE_STATUSES,
+  MilestoneStatus.APPROVED,
+];
+
+// A dispute targets a milestone or, without one, the whole contract
+type DisputeTargetStatus = MilestoneStatus | ContractStatus;
+
+const isMilestoneStatus = (status: string): status is MilestoneStatus =>
+  (Object.values(MilestoneStatus) as string[]).includes(status);
+const isContractStatus = (status: string): status is ContractStatus =>
+  (Object.values(ContractStatus) as string[]).includes(status);
+// the parties can still add evidence or withdraw
+const ARGUABLE_STATUSES: DisputeStatus[] = [
+  DisputeStatus.AWAITING_RESPONSE,
+  DisputeStatus.UNDER_REVIEW,
+];
+const OPEN_STATUSES: DisputeStatus[] = [
+  ...ARGUABLE_STATUSES,
+  DisputeStatus.RESOLVING,
+];
+
+/**
+ * Disputes over a whole contract or a single milestone. The other party has
+ * DISPUTE_RESPONSE_DAYS to answer, then the dispute goes to the admin
+ * arbitration queue. The admin's outcome is settled on the escrow funds and
+ * moves the contract or milestone out of DISPUTED.
+ */
+class DisputeService {
+  private escrowClient: EscrowClient;
+  private timelineService: TimelineService;
+
+  constructor(escrowClient: EscrowClient, timelineService: TimelineService) {
+    this.escrowClient = escrowClient;
+    this.timelineService = timelineService;
+  }
+
+  private async getContract(contractId: string): Promise<Contract> {
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+    });
+    if (!contract) {
+      throw new DomainError("Contract not found", "CONTRACT_NOT_FOUND", 404);
+    }
+    return contract;
+  }
+
+  private async getDisputeWithContract(disputeId: string) {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: { contract: true },
+    });
+    if (!dispute) {
+      throw new DomainError("Dispute not found", "DISPUTE_NOT_FOUND", 404);
+    }
+    return dispute;
+  }
+
+  // Parties act as themselves, admins may look at (and add to) any dispute
+  private actorFor(
+    contract: Contract,
+    userId: string,
+    userRole?: string
+  ): TimelineActor {
+    const isParty =
+      contract.clientId === userId || contract.freelancerId === userId;
+    if (!isParty && userRole !== "ADMIN") {
+      throw new DomainError("Access denied", "ACCESS_DENIED", 403);
+    }
+    return this.timelineService.actorFor(contract, userId);
+  }
+
+  private disputeConflict() {
+    return new DomainError(
+      "Dispute status changed, please retry",
+      "DISPUTE_STATUS_CONFLICT",
+      409
+    );
+  }
+
+  // Moves the disputed contract or milestone from `from` to `to` through its
+  // state machine, so its hooks and listeners run
+  private async moveTarget(
+    tx: Prisma.TransactionClient,
+    dispute: Pick<Dispute, "contractId" | "milestoneId">,
+    from: DisputeTargetStatus,
+    to: DisputeTargetStatus,
+    role: ContractActorRole,
+    at: Date
+  ) {
+    if (dispute.milestoneId) {
+      if (!isMilestoneStatus(from) || !isMilestoneStatus(to)) {
+        throw new Error(`Invalid milestone dispute move ${from} -> ${to}`);
+      }
+      return this.moveMilestone(tx, dispute.milestoneId, from, to, role, at);
+    }
+    if (!isContractStatus(from) || !isContractStatus(to)) {
+      throw new Error(`Invalid contract dispute move ${from} -> ${to}`);
+    }
+    return this.moveContract(tx, dispute.contractId, from, to, role, at);
+  }
+
+  private async moveMilestone(
+    tx: Prisma.TransactionClient,
+    milestoneId: string,
+    from: MilestoneStatus,
+    to: MilestoneStatus,
+    role: ContractActorRole,
+    at: Date
+  ) {
+    const milestone = await tx.milestone.findUniqueOrThrow({
+      where: { id: milestoneId },
+    });
+    await milestoneStateMachine.transition(
+      { from, to, role, context: milestone },
+      async () => {
+        const { count } = await tx.milestone.updateMany({
+          where: { id: milestone.id, status: from },
+          data: {
+            status: to,
+            ...(to === MilestoneStatus.DISPUTED ? { disputedAt: at } : {}),
+            ...(to === MilestoneStatus.PAID ? { paidAt: at } : {}),
+            // withdrawn: back to where it was, no longer disputed
+            ...(WITHDRAWN_MILESTONE_STATUSES.includes(to)
+              ? { disputedAt: null }
+              : {}),
+          },
+        });
+        if (count === 0) throw this.disputeConflict();
+      }
+    );
+  }
+
+  private async moveContract(
+    tx: Prisma.TransactionClient,
+    contractId: string,
+    from: ContractStatus,
+    to: ContractStatus,
+    role: ContractActorRole,
+    at: Date
+  ) {
+    const contract = await tx.contract.findUniqueOrThrow({
+      where: { id: contractId },
+    });
+    await contractStateMachine.transition(
+      { from, to, role, context: contract },
+      async () => {
+        const { count } = await tx.contract.updateMany({
+          where: { id: contract.id, status: from },
+          data: {
+            status: to,
+            ...(to === ContractStatus.COMPLETED ||
+            to === ContractStatus.TERMINATED
+              ? { endDate: at }
+              : {}),
+          },
+        });
+        if (count === 0) throw this.disputeConflict();
+      }
+    );
+  }
+
+  // The status the target had before the dispute, as stored on it
+  private previousStatus(dispute: Dispute): DisputeTargetStatus {
+    const { previousStatus } = dispute;
+    if (dispute.milestoneId && isMilestoneStatus(previousStatus)) {
+      return previousStatus;
+    }
+    if (!dispute.milestoneId && isContractStatus(previousStatus)) {
+      return previousStatus;
+    }
+    throw new Error(
+      `Dispute ${dispute.id} has an invalid previous status ${previousStatus}`
+    );
+  }
+
+  // Where the outcome leaves the disputed contract or milestone
+  private outcomeStatus(dispute: Dispute): DisputeTargetStatus {
+    if (dispute.milestoneId) {
+      return dispute.outcome === DisputeOutcome.REFUND
+        ? MilestoneStatus.CANCELED
+        : MilestoneStatus.PAID;
+    }
+    return dispute.outcome === DisputeOutcome.RELEASE
+      ? ContractStatus.COMPLETED
+      : ContractStatus.TERMINATED;
+  }
+
+  private async uploadEvidenceFiles(
+    disputeId: string,
+    files: Express.Multer.File[]
+  ) {
+    return Promise.all(
+      files.map(async (file) => {
+        const key = `disputes/${disputeId}/${crypto.randomUUID()}-${safeFileName(
+          file.originalname
+        )}`;
+        const url = await uploadToR2(key, file.buffer, file.mimetype);
+        return { key, url, file };
+      })
+    );
+  }
+
+  public async openDispute(
+    userId: string,
+    data: OpenDisputeDTO
+  ): Promise<Dispute> {
+    const contract = await this.getContract(data.contractId);
+    const actor = this.timelineService.actorFor(contract, userId);
+    if (actor.role === ContractActorRole.ADMIN) {
+      throw new DomainError(
+        "Only the contract parties can open a dispute",
+        "ACCESS_DENIED",
+        403
+      );
+    }
+
+    let previousStatus: DisputeTargetStatus;
+    if (data.milestoneId) {
+      const milestone = await prisma.milestone.findFirst({
+        where: { id: data.milestoneId, contractId: contract.id },
+      });
+      if (!milestone) {
+        throw new DomainError("Milestone not found", "MILESTONE_NOT_FOUND", 404);
+      }
+      if (!DISPUTABLE_MILESTONE_STATUSES.includes(milestone.status)) {
+        throw new DomainError(
+          "Only submitted or in revision milestones can be disputed",
+          "INVALID_DISPUTE_TARGET",
+          400
+        );
+      }
+      previousStatus = milestone.status;
+    } else {
+      if (!DISPUTABLE_CONTRACT_STATUSES.includes(contract.status)) {
+        throw new DomainError(
+          "Only active contracts or contracts pending review can be disputed",
+          "INVALID_DISPUTE_TARGET",
+          400
+        );
+      }
+      previousStatus = contract.status;
+    }
+
+    const open = await prisma.dispute.findFirst({
+      where: {
+        contractId: contract.id,
+        milestoneId: data.milestoneId ?? null,
+        status: { in: OPEN_STATUSES },
+      },
+    });
+    if (open) {
+      throw new DomainError(
+        "A dispute is already open for this contract or milestone",
+        "DISPUTE_ALREADY_OPEN",
+        409
+      );
+    }
+
+    const now = new Date();
+    const target = {
+      contractId: contract.id,
+      milestoneId: data.milestoneId ?? null,
+    };
+
+    return prisma.$transaction(async (tx) => {
+      await this.moveTarget(
+        tx,
+        target,
+        previousStatus,
+        "DISPUTED",
+        actor.role,
+        now
+      );
+
+      const dispute = await tx.dispute.create({
+        data: {
+          contractId: contract.id,
+          milestoneId: data.milestoneId ?? null,
+          openedById: userId,
+          openedByRole: actor.role,
+          respondentId:
+            actor.role === ContractActorRole.CLIENT
+              ? contract.freelancerId
+              : contract.clientId,
+          reason: data.reason,
+          description: data.description,
+          previousStatus,
+          responseDueAt: new Date(
+            now.getTime() + RESPONSE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+          ),
+        },
+      });
+
+      await this.timelineService.record(tx, {
+        contractId: contract.id,
+        milestoneId: data.milestoneId,
+        actor,
+        type: ContractEventType.DISPUTE_OPENED,
+        fromStatus: previousStatus,
+        toStatus: "DISPUTED",
+        note: data.description,
+        metadata: { disputeId: dispute.id, reason: data.reason },
+      });
+
+      return dispute;
+    });
+  }
+
+  /**
+   * Adds a message and/or files (uploaded to R2) to a dispute. The first
+   * evidence from the respondent counts as the response and sends the
+   * dispute to arbitration.
+   */
+  public async addEvidence(
+    disputeId: string,
+    userId: string,
+    userRole: string | undefined,
+    data: DisputeEvidenceDTO
+  ): Promise<DisputeEvidence[]> {
+    const dispute = await this.getDisputeWithContract(disputeId);
+    const actor = this.actorFor(dispute.contract, userId, userRole);
+
+    if (!ARGUABLE_STATUSES.includes(dispute.status)) {
+      throw new DomainError(
+        "Evidence can no longer be added to this dispute",
+        "DISPUTE_CLOSED",
+        400
+      );
+    }
+    if (!data.message && data.files.length === 0) {
+      throw new DomainError(
+        "A message or at least one file is required",
+        "EMPTY_EVIDENCE",
+        400
+      );
+    }
+
+    const uploads = await this.uploadEvidenceFiles(disputeId, data.files);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const evidence: DisputeEvidence[] = [];
+        const author = {
+          disputeId,
+          authorId: userId,
+          authorRole: actor.role,
+        };
+
+        if (data.message) {
+          evidence.push(
+            await tx.disputeEvidence.create({
+              data: {
+                ...author,
+                type: DisputeEvidenceType.MESSAGE,
+                message: data.message,
+              },
+            })
+          );
+        }
+        for (const { key, url, file } of uploads) {
+          evidence.push(
+            await tx.disputeEvidence.create({
+              data: {
+                ...author,
+                type: DisputeEvidenceType.FILE,
+                fileKey: key,
+                fileUrl: url,
+                fileName: file.originalname,
+                fileType: file.mimetype,
+                fileSize: file.size,
+              },
+            })
+          );
+        }
+
+        await this.timelineService.record(tx, {
+          contractId: dispute.contractId,
+          milestoneId: dispute.milestoneId ?? undefined,
+          actor,
+          type: ContractEventType.DISPUTE_EVIDENCE_ADDED,
+          note: data.message,
+          attachments: uploads.map(({ url, file }) => ({
+            name: file.originalname,
+            url,
+          })),
+          metadata: { disputeId },
+        });
+
+        if (
+          dispute.status === DisputeStatus.AWAITING_RESPONSE &&
+          userId === dispute.respondentId
+        ) {
+          await tx.dispute.updateMany({
+            where: { id: disputeId, status: DisputeStatus.AWAITING_RESPONSE },
+            data: {
+              status: DisputeStatus.UNDER_REVIEW,
+              respondedAt: new Date(),
+            },
+          });
+        }
+
+        return evidence;
+      });
+    } catch (err) {
+      // don't leave orphan files behind
+      await Promise.all(
+        uploads.map(({ key }) =>
+          deleteFromR2(key).catch((error) =>
+            logger.error(`[DisputeService] Failed to delete R2 object ${key}`, {
+              error,
+            })
+          )
+        )
+      );
+      throw err;
+    }
+  }
+
+  public async getDispute(
+    disputeId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<DisputeWithEvidence> {
+    const { contract, ...dispute } = await this.getDisputeWithContract(
+      disputeId
+    );
+    this.actorFor(contract, userId, userRole);
+
+    const evidence = await prisma.disputeEvidence.findMany({
+      where: { disputeId },
+      orderBy: { createdAt: "asc" },
+    });
+    return { ...dispute, evidence };
+  }
+
+  public async getContractDisputes(
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<Dispute[]> {
+    const contract = await this.getContract(contractId);
+    this.actorFor(contract, userId, userRole);
+
+    return prisma.dispute.findMany({
+      where: { contractId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  // The opener drops the dispute before a decision, the target goes back
+  public async withdrawDispute(
+    disputeId: string,
+    userId: string
+  ): Promise<Dispute> {
+    const dispute = await this.getDisputeWithContract(disputeId);
+
+    if (dispute.openedById !== userId) {
+      throw new DomainError(
+        "Only the party who opened the dispute can withdraw it",
+        "ACCESS_DENIED",
+        403
+      );
+    }
+    if (!ARGUABLE_STATUSES.includes(dispute.status)) {
+      throw new DomainError(
+        "The dispute can no longer be withdrawn",
+        "DISPUTE_CLOSED",
+        400
+      );
+    }
+
+    const actor = this.timelineService.actorFor(dispute.contract, userId);
+
+    return prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const { count } = await tx.dispute.updateMany({
+        where: { id: disputeId, status: { in: ARGUABLE_STATUSES } },
+        data: { status: DisputeStatus.WITHDRAWN, withdrawnAt: now },
+      });
+      if (count === 0) throw this.disputeConflict();
+
+      await this.moveTarget(
+        tx,
+        dispute,
+        "DISPUTED",
+        this.previousStatus(dispute),
+        actor.role,
+        now
+      );
+
+      // work back under review gets a fresh auto-approval window
+      const reviewWindow = {
+        autoApproveAt: new Date(
+          now.getTime() + dispute.contract.autoApprovalDays * 24 * 60 * 60 * 1000
+        ),
+        autoApprovalWarnedAt: null,
+      };
+      if (dispute.milestoneId) {
+        await tx.milestone.updateMany({
+          where: { id: dispute.milestoneId, status: MilestoneStatus.SUBMITTED },
+          data: reviewWindow,
+        });
+      } else {
+        await tx.contract.updateMany({
+          where: {
+            id: dispute.contractId,
+            status: ContractStatus.REVIEW_PENDING,
+          },
+          data: reviewWindow,
+        });
+      }
+
+      await this.timelineService.record(tx, {
+        contractId: dispute.contractId,
+        milestoneId: dispute.milestoneId ?? undefined,
+        actor,
+        type: ContractEventType.DISPUTE_WITHDRAWN,
+        fromStatus: "DISPUTED",
+        toStatus: dispute.previousStatus,
+        metadata: { disputeId },
+      });
+
+      return tx.dispute.findUniqueOrThrow({ where: { id: disputeId } });
+    });
+  }
+
+  // Disputes whose respondent missed the deadline go to arbitration
+  public async escalateOverdue(now: Date = new Date()): Promise<number> {
+    const overdue = await prisma.dispute.findMany({
+      where: {
+        status: DisputeStatus.AWAITING_RESPONSE,
+        responseDueAt: { lte: now },
+      },
+      orderBy: { responseDueAt: "asc" },
+      take: ESCALATION_BATCH_SIZE,
+    });
+
+    let escalated = 0;
+    for (const dispute of overdue) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          const { count } = await tx.dispute.updateMany({
+            where: { id: dispute.id, status: DisputeStatus.AWAITING_RESPONSE },
+            data: { status: DisputeStatus.UNDER_REVIEW, escalatedAt: now },
+          });
+          if (count === 0) return;
+
+          await this.timelineService.record(tx, {
+            contractId: dispute.contractId,
+            milestoneId: dispute.milestoneId ?? undefined,
+            actor: SYSTEM_ACTOR,
+            type: ContractEventType.DISPUTE_ESCALATED,
+            note: "No response before the deadline, sent to arbitration",
+            metadata: { disputeId: dispute.id },
+          });
+          escalated++;
+        });
+      } catch (error) {
+        logger.error(
+          `[DisputeService] Failed to escalate dispute ${dispute.id}`,
+          { error }
+        );
+      }
+    }
+    return escalated;
+  }
+
+  public async getArbitrationQueue(query: DisputeQueueQuery) {
+    const where: Prisma.DisputeWhereInput = {
+      status: query.status ?? {
+        in: [DisputeStatus.UNDER_REVIEW, DisputeStatus.RESOLVING],
+      },
+    };
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        orderBy: { createdAt: "asc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+        include: {
+          contract: {
+            select: {
+              id: true,
+              clientId: true,
+              freelancerId: true,
+              amount: true,
+              currency: true,
+              status: true,
+            },
+          },
+          milestone: { select: { id: true, title: true, amount: true } },
+          _count: { select: { evidence: true } },
+        },
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    return {
+      disputes,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit),
+      },
+    };
+  }
+
+  /**
+   * Admin decision on a dispute under review. The outcome is stored first
+   * (RESOLVING), then escrow settles the held funds and the dispute closes.
+   * A definite escrow failure reopens the dispute for review; an uncertain
+   * one leaves it RESOLVING, and resolving it again retries the settlement
+   * with the stored outcome (escrow never settles a dispute twice).
+   */
+  public async resolveDispute(
+    disputeId: string,
+    adminId: string,
+    data: ResolveDisputeDTO
+  ): Promise<Dispute> {
+    const dispute = await this.getDisputeWithContract(disputeId);
+    const isRetry = dispute.status === DisputeStatus.RESOLVING;
+
+    if (!isRetry) {
+      if (dispute.status !== DisputeStatus.UNDER_REVIEW) {
+        throw new DomainError(
+          "Only disputes under review can be resolved",
+          "INVALID_DISPUTE_STATUS",
+          400
+        );
+      }
+
+      const { count } = await prisma.dispute.updateMany({
+        where: { id: disputeId, status: DisputeStatus.UNDER_REVIEW },
+        data: {
+          status: DisputeStatus.RESOLVING,
+          outcome: data.outcome,
+          releasePercent: data.releasePercent ?? null,
+          resolutionNote: data.note,
+          resolvedById: adminId,
+        },
+      });
+      if (count === 0) throw this.disputeConflict();
+    }
+
+    let settlement;
+    try {
+      settlement = (await this.escrowClient.settleDispute(disputeId))
+        .settlement;
+    } catch (err) {
+      const isDefinite = err instanceof DomainError && err.statusCode < 500;
+      if (isDefinite) {
+        await prisma.dispute.updateMany({
+          where: { id: disputeId, status: DisputeStatus.RESOLVING },
+          data: {
+            status: DisputeStatus.UNDER_REVIEW,
+            outcome: null,
+            releasePercent: null,
+            resolutionNote: null,
+            resolvedById: null,
+          },
+        });
+      } else {
+        logger.warn(
+          `[DisputeService] Escrow settlement of dispute ${disputeId} failed, left RESOLVING for retry`
+        );
+      }
+      throw err;
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const resolving = await tx.dispute.findUniqueOrThrow({
+        where: { id: disputeId },
+      });
+      if (resolving.status !== DisputeStatus.RESOLVING) {
+        throw this.disputeConflict();
+      }
+
+      const now = new Date();
+      const toStatus = this.outcomeStatus(resolving);
+      await this.moveTarget(
+        tx,
+        resolving,
+        "DISPUTED",
+        toStatus,
+        ContractActorRole.ADMIN,
+        now
+      );
+
+      const resolved = await tx.dispute.update({
+        where: { id: disputeId },
+        data: {
+          status: DisputeStatus.RESOLVED,
+          resolvedAt: now,
+          escrowSettlementId: settlement?.id ?? null,
+        },
+      });
+
+      await this.timelineService.record(tx, {
+        contractId: resolved.contractId,
+        milestoneId: resolved.milestoneId ?? undefined,
+        actor: { id: resolved.resolvedById, role: ContractActorRole.ADMIN },
+        type: ContractEventType.DISPUTE_RESOLVED,
+        fromStatus: "DISPUTED",
+        toStatus,
+        note: resolved.resolutionNote ?? undefined,
+        metadata: {
+          disputeId,
+          outcome: resolved.outcome,
+          releasePercent: resolved.releasePercent,
+          escrowSettlementId: settlement?.id ?? null,
+          releaseAmount: settlement?.releaseAmount ?? 0,
+          refundAmount: settlement?.refundAmount ?? 0,
+        },
+      });
+
+      return resolved;
+    });
+  }
+}
+
+export default DisputeService;
@@ -0,0 +1,256 @@
+import { ContractStatus, MilestoneStatus } from "@prisma/client";
+import type { Contract, Milestone } from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import MilestoneService from "./Milstone.ts";
+import TimelineService from "./Timeline.ts";
+import type ContractService from "./Contract.ts";
+import type EscrowClient from "../clients/Escrow.ts";
+
+jest.mock("db-client/index.ts", () => ({
+  prisma: {
+    milestone: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    milestoneSubmission: { updateMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("@rizlax/R2", () => ({
+  uploadToR2: jest.fn(),
+  deleteFromR2: jest.fn(),
+}));
+jest.mock("./Contract.ts", () => jest.fn());
+jest.mock("@rizlax/logs", () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { prisma } from "db-client/index.ts";
+
+const milestones = prisma.milestone as unknown as Record<string, jest.Mock>;
+
+const contract = {
+  id: "contract-1",
+  clientId: "client-1",
+  freelancerId: "freelancer-1",
+  status: ContractStatus.ACTIVE,
+  currency: "USD",
+} as Contract;
+
+let milestone: Milestone;
+let escrow: Record<
+  "fundMilestone" | "releaseMilestone" | "refundMilestone",
+  jest.Mock
+>;
+let service: MilestoneService;
+
+const operation = (id: string) => ({
+  escrowTransaction: { id },
+  created: true,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  milestone = {
+    id: "milestone-1",
+    contractId: contract.id,
+    status: MilestoneStatus.PENDING,
+    amount: 50_000,
+    approvedAt: null,
+    releaseRequestedAt: null,
+    releaseAttempts: 0,
+    releaseRetryAt: null,
+    autoApproveAt: null,
+    autoApprovalWarnedAt: null,
+    escrowTransactionId: null,
+  } as Milestone;
+
+  // the milestone row; updateMany only matches the status it expects
+  milestones.findUnique.mockImplementation(async () => ({ ...milestone }));
+  milestones.update.mockImplementation(async ({ data }) =>
+    Object.assign(milestone, data)
+  );
+  milestones.updateMany.mockImplementation(async ({ where, data }) => {
+    if (where.status !== milestone.status) return { count: 0 };
+    Object.assign(milestone, data);
+    return { count: 1 };
+  });
+  (prisma.$transaction as jest.Mock).mockImplementation((callback) =>
+    callback(prisma)
+  );
+
+  escrow = {
+    fundMilestone: jest.fn(async () => operation("deposit-1")),
+    releaseMilestone: jest.fn(async () => operation("release-1")),
+    refundMilestone: jest.fn(async () => operation("refund-1")),
+  };
+  const timeline = new TimelineService();
+  jest.spyOn(timeline, "record").mockResolvedValue(undefined as never);
+
+  service = new MilestoneService(
+    {
+      getContractById: jest.fn(async () => contract),
+    } as unknown as ContractService,
+    escrow as unknown as EscrowClient,
+    timeline
+  );
+});
+
+describe("milestone fund, approve and release", () => {
+  it("funds the milestone on start and releases it on approval", async () => {
+    await service.startMilestone(milestone.id, contract.clientId);
+
+    expect(escrow.fundMilestone).toHaveBeenCalledWith(milestone.id);
+    expect(milestone.status).toBe(MilestoneStatus.IN_PROGRESS);
+
+    // the freelancer's submission
+    milestone.status = MilestoneStatus.SUBMITTED;
+
+    const paid = await service.approveWorkByClient(
+      milestone.id,
+      contract.clientId
+    );
+
+    expect(escrow.releaseMilestone).toHaveBeenCalledWith(milestone.id);
+    expect(paid).toMatchObject({
+      status: MilestoneStatus.PAID,
+      escrowTransactionId: "release-1",
+    });
+    expect(milestone.approvedAt).toBeInstanceOf(Date);
+  });
+
+  it("only lets the client start a milestone", async () => {
+    await expect(
+      service.startMilestone(milestone.id, contract.freelancerId)
+    ).rejects.toMatchObject({ code: "CLIENT_ONLY_ACTION" });
+    expect(escrow.fundMilestone).not.toHaveBeenCalled();
+  });
+
+  it("refunds the deposit when the milestone could not be started", async () => {
+    milestones.updateMany.mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(
+      service.startMilestone(milestone.id, contract.clientId)
+    ).rejects.toThrow("connection lost");
+    expect(escrow.refundMilestone).toHaveBeenCalledWith(milestone.id);
+    expect(milestone.status).toBe(MilestoneStatus.PENDING);
+  });
+
+  it("reverts the approval when escrow refuses the release", async () => {
+    milestone.status = MilestoneStatus.SUBMITTED;
+    escrow.releaseMilestone.mockRejectedValueOnce(
+      new DomainError("Milestone is not funded", "ESCROW_ERROR", 400)
+    );
+
+    await expect(
+      service.approveWorkByClient(milestone.id, contract.clientId)
+    ).rejects.toThrow("Milestone is not funded");
+    expect(milestone.status).toBe(MilestoneStatus.SUBMITTED);
+  });
+
+  it("keeps an approval whose release is uncertain and retries it", async () => {
+    milestone.status = MilestoneStatus.SUBMITTED;
+    escrow.releaseMilestone.mockRejectedValueOnce(
+      new DomainError("Escrow service unavailable", "ESCROW_UNAVAILABLE", 503)
+    );
+
+    await expect(
+      service.approveWorkByClient(milestone.id, contract.clientId)
+    ).rejects.toThrow("Escrow service unavailable");
+    expect(milestone.status).toBe(MilestoneStatus.APPROVED);
+    expect(milestone.releaseRequestedAt).toBeInstanceOf(Date);
+    expect(milestone.releaseAttempts).toBe(1);
+
+    const paid = await service.approveWorkByClient(
+      milestone.id,
+      contract.clientId
+    );
+
+    expect(escrow.releaseMilestone).toHaveBeenCalledTimes(2);
+    expect(paid).toMatchObject({
+      status: MilestoneStatus.PAID,
+      releaseRequestedAt: null,
+    });
+  });
+});
+
+describe("MilestoneService.autoApproveMilestone", () => {
+  const now = new Date("2026-10-21T12:00:00Z");
+
+  it("retries a requested release that was not confirmed", async () => {
+    milestone.status = MilestoneStatus.APPROVED;
+    milestone.releaseRequestedAt = new Date("2026-10-20T12:00:00Z");
+    milestone.releaseRetryAt = new Date("2026-10-21T11:00:00Z");
+
+    const paid = await service.autoApproveMilestone(milestone.id, now);
+
+    expect(escrow.releaseMilestone).toHaveBeenCalledWith(milestone.id);
+    expect(paid.status).toBe(MilestoneStatus.PAID);
+  });
+
+  it("sends a retry whose release was refused back to the client's review", async () => {
+    milestone.status = MilestoneStatus.APPROVED;
+    milestone.releaseRequestedAt = new Date("2026-10-20T12:00:00Z");
+    milestone.releaseRetryAt = new Date("2026-10-21T11:00:00Z");
+    milestone.autoApproveAt = new Date("2026-10-20T12:00:00Z");
+    escrow.releaseMilestone.mockRejectedValueOnce(
+      new DomainError("Milestone is not funded", "ESCROW_ERROR", 400)
+    );
+
+    await expect(
+      service.autoApproveMilestone(milestone.id, now)
+    ).rejects.toThrow("Milestone is not funded");
+    expect(milestone).toMatchObject({
+      status: MilestoneStatus.SUBMITTED,
+      releaseRequestedAt: null,
+      releaseRetryAt: null,
+      autoApproveAt: null,
+    });
+  });
+
+  it("stops retrying an unconfirmed release after the last attempt", async () => {
+    milestone.status = MilestoneStatus.APPROVED;
+    milestone.releaseRequestedAt = new Date("2026-10-20T12:00:00Z");
+    milestone.releaseRetryAt = new Date("2026-10-21T11:00:00Z");
+    milestone.releaseAttempts = 4;
+    escrow.releaseMilestone.mockRejectedValueOnce(
+      new DomainError("Escrow service unavailable", "ESCROW_UNAVAILABLE", 503)
+    );
+
+    await expect(
+      service.autoApproveMilestone(milestone.id, now)
+    ).rejects.toThrow("Escrow service unavailable");
+    expect(milestone).toMatchObject({
+      status: MilestoneStatus.APPROVED,
+      releaseAttempts: 5,
+      releaseRetryAt: null,
+    });
+
+    await expect(
+      service.autoApproveMilestone(milestone.id, now)
+    ).rejects.toMatchObject({ code: "MILESTONE_STATUS_CONFLICT" });
+    expect(escrow.releaseMilestone).toHaveBeenCalledTimes(1);
+  });
+
+  it("never pays an approved milestone whose release was not requested", async () => {
+    milestone.status = MilestoneStatus.APPROVED;
+    milestone.autoApproveAt = new Date("2026-10-20T12:00:00Z");
+
+    await expect(
+      service.autoApproveMilestone(milestone.id, now)
+    ).rejects.toMatchObject({ code: "MILESTONE_STATUS_CONFLICT" });
+    expect(escrow.releaseMilestone).not.toHaveBeenCalled();
+  });
+
+  it("does not approve a submission the client was not warned about", async () => {
+    milestone.status = MilestoneStatus.SUBMITTED;
+    milestone.autoApproveAt = new Date("2026-10-20T12:00:00Z");
+
+    await expect(
+      service.autoApproveMilestone(milestone.id, now)
+    ).rejects.toMatchObject({ code: "MILESTONE_STATUS_CONFLICT" });
+    expect(escrow.releaseMilestone).not.toHaveBeenCalled();
+  });
+});
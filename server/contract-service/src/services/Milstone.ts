@@ -1,56 +1,58 @@
 import { prisma } from "db-client/index.ts";
 import type { Milestone } from "@prisma/client";
-import type { MilestoneDTO } from "../types/MilestoneDTO.ts";
-import { MilestoneStatus } from "@prisma/client";
-import DomainError from "common-middleware/src/DomainError.ts";
+import type {
+  MilestoneDTO,
+  MilestoneSubmissionDTO,
+} from "../types/MilestoneDTO.ts";
+import {
+  ContractEventType,
+  ContractStatus,
+  MilestoneStatus,
+  MilestoneSubmissionStatus,
+} from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
 import ContractService from "./Contract.ts";
 import { ContractValidator } from "../validators/Contract.ts";
 import { MilestoneValidator } from "../validators/Milestone.ts";
 import type { Contract } from "@prisma/client";
+import logger from "@rizlax/logs";
+import type EscrowClient from "../clients/Escrow.ts";
+import { toMinorUnits } from "@rizlax/money";
+import type TimelineService from "./Timeline.ts";
+import type { TimelineActor, TimelineDetails } from "./Timeline.ts";
+import { SYSTEM_ACTOR } from "./Timeline.ts";
+import { deleteFromR2, uploadToR2 } from "@rizlax/R2";
+import crypto from "crypto";
+import { safeFileName } from "../utils/upload.ts";
+import { milestoneStateMachine } from "../machines/Milestone.ts";
 
 
 
-export const VALID_STATUS_TRANSITIONS: Record<
-  MilestoneStatus,
-  MilestoneStatus[]
-> = {
-  [MilestoneStatus.PENDING]: [
-    MilestoneStatus.IN_PROGRESS,
-    MilestoneStatus.CANCELED,
-  ],
-  [MilestoneStatus.IN_PROGRESS]: [
-    MilestoneStatus.SUBMITTED,
-    MilestoneStatus.CANCELED,
-  ],
-  [MilestoneStatus.SUBMITTED]: [
-    MilestoneStatus.APPROVED,
-    MilestoneStatus.REJECTED,
-    MilestoneStatus.DISPUTED,
-  ],
-  [MilestoneStatus.APPROVED]: [MilestoneStatus.PAID, MilestoneStatus.DISPUTED],
-  [MilestoneStatus.PAID]: [MilestoneStatus.COMPLETED],
-  [MilestoneStatus.DISPUTED]: [
-    MilestoneStatus.APPROVED,
-    MilestoneStatus.REJECTED,
-  ],
-  [MilestoneStatus.CANCELED]: [],
-  [MilestoneStatus.COMPLETED]: [],
-  [MilestoneStatus.REJECTED]: [
-    MilestoneStatus.IN_PROGRESS,
-    MilestoneStatus.CANCELED,
-  ],
-};
+const DAY_MS = 24 * 60 * 60 * 1000;
+// uncertain releases are retried with backoff, then left for the client
+const RELEASE_MAX_ATTEMPTS = 5;
+const RELEASE_RETRY_BASE_MS = 15 * 60 * 1000;
+
+export interface MilestonePlanOptions {
+  details?: TimelineDetails;
+  metadata?: Prisma.InputJsonObject;
+  requireEmpty?: boolean;
+}
 
 class MilestoneService {
-  private bypassAdmin = process.env.BYPASS_ADMIN_VALIDATIONS === "true";
   private contractService: ContractService;
+  private escrowClient: EscrowClient;
+  private timelineService: TimelineService;
 
   constructor(
     contractService: ContractService,
-    isAdmin: boolean = false
+    escrowClient: EscrowClient,
+    timelineService: TimelineService
   ) {
     this.contractService = contractService;
-    this.bypassAdmin = isAdmin || this.bypassAdmin;
+    this.escrowClient = escrowClient;
+    this.timelineService = timelineService;
   }
 
   protected async validateAndGetContext(milestoneId: string, userId: string) {
@@ -80,17 +82,18 @@ class MilestoneService {
     return contract!;
   }
 
-  private validateStatusTransition(from: MilestoneStatus, to: MilestoneStatus) {
-    const validateNextStatuses = VALID_STATUS_TRANSITIONS[from];
-
-    if (this.bypassAdmin) return;
-    if (!validateNextStatuses.includes(to)) {
-      throw new DomainError(
-        `Invalid milestone status transition from ${from} to ${to}`,
-        "INVALID_MILESTONE_STATUS_TRANSITION",
-        400
-      );
-    }
+  // Runs `apply`, which writes the move of `milestone` to `to`, once the
+  // state machine allows it for the actor
+  private moveTo<T>(
+    milestone: Milestone,
+    to: MilestoneStatus,
+    actor: TimelineActor,
+    apply: () => Promise<T>
+  ): Promise<T> {
+    return milestoneStateMachine.transition(
+      { from: milestone.status, to, role: actor.role, context: milestone },
+      apply
+    );
   }
 
   private withMilestoneContext = async <T>(
@@ -103,56 +106,241 @@ class MilestoneService {
       milestoneId,
       userId
     );
-    ContractValidator[`validate${role}Only`](contract!, userId);
+    if (role === "CLIENT") {
+      ContractValidator.validateClientOnly(contract, userId);
+    } else {
+      ContractValidator.validateFreelancerOnly(contract, userId);
+    }
     return callback({ milestone, contract });
   };
 
+  private statusConflict() {
+    return new DomainError(
+      "Milestone status changed, please retry",
+      "MILESTONE_STATUS_CONFLICT",
+      409
+    );
+  }
+
+  // Once work has started the milestone plan is changed by mutual consent only
+  private validatePlanEditable(contract: Contract) {
+    if (contract.status === ContractStatus.ACTIVE) {
+      throw new DomainError(
+        "The milestones of an active contract can only be changed through an amendment",
+        "AMENDMENT_REQUIRED",
+        409
+      );
+    }
+  }
+
+  // Writes a milestone status change to the contract timeline, within `tx`
+  private async recordStatusChange(
+    tx: Prisma.TransactionClient,
+    milestone: Milestone,
+    actor: TimelineActor,
+    to: MilestoneStatus,
+    details: TimelineDetails = {},
+    metadata?: Prisma.InputJsonObject
+  ) {
+    await this.timelineService.record(tx, {
+      contractId: milestone.contractId,
+      milestoneId: milestone.id,
+      actor,
+      type: ContractEventType.MILESTONE_STATUS_CHANGED,
+      fromStatus: milestone.status,
+      toStatus: to,
+      metadata,
+      ...details,
+    });
+  }
+
+  // Status updates that only move the milestone and record who did it
+  private async updateStatus(
+    milestone: Milestone,
+    contract: Contract,
+    userId: string,
+    data: Prisma.MilestoneUpdateInput & { status: MilestoneStatus },
+    details: TimelineDetails
+  ) {
+    const actor = this.timelineService.actorFor(contract, userId);
+
+    return this.moveTo(milestone, data.status, actor, () =>
+      prisma.$transaction(async (tx) => {
+        const updated = await tx.milestone.update({
+          where: { id: milestone.id },
+          data,
+        });
+        await this.recordStatusChange(
+          tx,
+          milestone,
+          actor,
+          data.status,
+          details
+        );
+        return updated;
+      })
+    );
+  }
+
+  // Compensation for a funded milestone that could not be started
+  private async refundFunding(milestoneId: string) {
+    try {
+      await this.escrowClient.refundMilestone(milestoneId);
+    } catch (err) {
+      logger.error(
+        `[MilestoneService] Failed to refund escrow funding of milestone ${milestoneId}, manual refund required`,
+        err
+      );
+    }
+  }
+
+  /**
+   * Next free sequence number of the contract. Locks the contract row until
+   * `tx` ends, so concurrent plans are numbered one after the other and each
+   * one's milestones follow on without gaps. A deleted milestone's number is
+   * not reused: numbering continues from the highest one.
+   */
+  private async nextSequence(
+    tx: Prisma.TransactionClient,
+    contractId: string
+  ): Promise<number> {
+    await tx.$queryRaw`SELECT id FROM "Contract" WHERE id = ${contractId} FOR UPDATE`;
+    const { _max } = await tx.milestone.aggregate({
+      where: { contractId },
+      _max: { sequence: true },
+    });
+    return (_max.sequence ?? 0) + 1;
+  }
+
+  private async insertMilestone(
+    tx: Prisma.TransactionClient,
+    contract: Contract,
+    userId: string,
+    data: Omit<MilestoneDTO, "contractId">,
+    sequence: number,
+    details: TimelineDetails,
+    metadata: Prisma.InputJsonObject = {}
+  ): Promise<Milestone> {
+    const milestone = await tx.milestone.create({
+      data: {
+        contractId: contract.id,
+        title: data.title,
+        description: data.description,
+        amount: toMinorUnits(data.amount, contract.currency),
+        currency: contract.currency,
+        dueDate: data.dueDate,
+        revisionLimit: data.revisionLimit,
+        sequence,
+      },
+    });
+
+    await this.timelineService.record(tx, {
+      contractId: contract.id,
+      milestoneId: milestone.id,
+      actor: this.timelineService.actorFor(contract, userId),
+      type: ContractEventType.MILESTONE_CREATED,
+      toStatus: milestone.status,
+      metadata: {
+        ...metadata,
+        title: milestone.title,
+        amount: milestone.amount,
+        currency: milestone.currency,
+        sequence: milestone.sequence,
+        revisionLimit: milestone.revisionLimit,
+      },
+      ...details,
+    });
+
+    return milestone;
+  }
+
   public async createMilestone(
     data: MilestoneDTO,
-    userId: string
+    userId: string,
+    details: TimelineDetails = {}
   ): Promise<Milestone> {
-    await this.getAndValidateContract(data.contractId, userId);
-
     const contract = await this.getAndValidateContract(data.contractId, userId);
 
     ContractValidator.validateClientOnly(contract!, userId);
-    MilestoneValidator.validateMilestoneData(data);
+    this.validatePlanEditable(contract);
+    MilestoneValidator.validateMilestoneData(data, contract.currency);
 
     return await prisma.$transaction(async (tx) => {
-      const count = await tx.milestone.count({
-        where: { contractId: data.contractId },
-      });
+      const sequence = await this.nextSequence(tx, contract.id);
+      return this.insertMilestone(tx, contract, userId, data, sequence, details);
+    });
+  }
 
-      const milestone = await tx.milestone.create({
-        data: {
-          contractId: data.contractId,
-          title: data.title,
-          description: data.description,
-          amount: data.amount,
-          dueDate: data.dueDate,
-          sequence: count + 1,
-        },
-      });
+  /**
+   * Adds several milestones to a contract at once, in the given order, after
+   * the existing ones. All or nothing: one invalid milestone rejects the plan.
+   * With `requireEmpty` the plan is refused if the contract already has
+   * milestones that are not canceled.
+   */
+  public async createMilestonePlan(
+    contractId: string,
+    userId: string,
+    milestones: Omit<MilestoneDTO, "contractId">[],
+    options: MilestonePlanOptions = {}
+  ): Promise<Milestone[]> {
+    const { details = {}, metadata, requireEmpty = false } = options;
+    const contract = await this.getAndValidateContract(contractId, userId);
+
+    ContractValidator.validateClientOnly(contract, userId);
+    this.validatePlanEditable(contract);
+    for (const data of milestones) {
+      MilestoneValidator.validateMilestoneData(
+        { ...data, contractId },
+        contract.currency
+      );
+    }
 
-      return milestone;
+    return await prisma.$transaction(async (tx) => {
+      let sequence = await this.nextSequence(tx, contractId);
+      // checked under the lock taken by nextSequence
+      if (requireEmpty) {
+        const existing = await tx.milestone.count({
+          where: { contractId, status: { not: MilestoneStatus.CANCELED } },
+        });
+        if (existing > 0) {
+          throw new DomainError(
+            "The contract already has milestones",
+            "MILESTONE_PLAN_EXISTS",
+            409
+          );
+        }
+      }
+      const created: Milestone[] = [];
+      for (const data of milestones) {
+        created.push(
+          await this.insertMilestone(
+            tx,
+            contract,
+            userId,
+            data,
+            sequence++,
+            details,
+            metadata
+          )
+        );
+      }
+      return created;
     });
   }
 
+  // Either party may read the plan, whatever state the contract is in
   public async getMilestones(
     contractId: string,
     userId: string
   ): Promise<Milestone[]> {
-    return this.withMilestoneContext(
-      contractId,
-      userId,
-      "CLIENT",
-      async ({ contract }) => {
-        return await prisma.milestone.findMany({
-          where: { contractId },
-          orderBy: { sequence: "asc" },
-        });
-      }
-    );
+    const contract = await this.contractService.getContractById(contractId);
+    ContractValidator.validateContractExists(contract);
+    ContractValidator.validateUserAccess(contract!, userId);
+
+    return prisma.milestone.findMany({
+      where: { contractId },
+      orderBy: { sequence: "asc" },
+    });
   }
 
   public async getMilestoneById(
@@ -166,14 +354,16 @@ class MilestoneService {
   public async updateMilestone(
     milestoneId: string,
     userId: string,
-    data: Partial<MilestoneDTO>
+    data: Partial<MilestoneDTO>,
+    details: TimelineDetails = {}
   ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
       "CLIENT",
       async ({ milestone, contract }) => {
-        MilestoneValidator.validatePartialMilestoneData(data);
+        this.validatePlanEditable(contract);
+        MilestoneValidator.validatePartialMilestoneData(data, contract.currency);
 
         if (milestone.status !== MilestoneStatus.PENDING) {
           throw new DomainError(
@@ -183,147 +373,626 @@ class MilestoneService {
           );
         }
 
-        return await prisma.milestone.update({
-          where: { id: milestoneId },
-          data: {
-            title: data.title,
-            description: data.description,
-            amount: data.amount,
-            dueDate: data.dueDate,
-          },
+        const changes = {
+          title: data.title,
+          description: data.description,
+          amount:
+            data.amount !== undefined
+              ? toMinorUnits(data.amount, contract.currency)
+              : undefined,
+          dueDate: data.dueDate,
+          revisionLimit: data.revisionLimit,
+        };
+
+        return await prisma.$transaction(async (tx) => {
+          const updated = await tx.milestone.update({
+            where: { id: milestoneId },
+            data: changes,
+          });
+
+          await this.timelineService.record(tx, {
+            contractId: milestone.contractId,
+            milestoneId,
+            actor: this.timelineService.actorFor(contract, userId),
+            type: ContractEventType.MILESTONE_UPDATED,
+            // dates are stored as ISO strings, undefined fields are dropped
+            metadata: JSON.parse(JSON.stringify({ changes })),
+            ...details,
+          });
+
+          return updated;
         });
       }
     );
   }
 
-  public async markMilestoneAsApprovedByFreelancer(
+  public async rejectMilestone(
     milestoneId: string,
-    userId: string
+    userId: string,
+    details: TimelineDetails = {}
   ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
       "FREELANCER",
       async ({ milestone, contract }) => {
-        this.validateStatusTransition(
-          milestone.status as MilestoneStatus,
-          MilestoneStatus.APPROVED
-        );
-        return await prisma.milestone.update({
-          where: { id: milestoneId },
-          data: {
-            status: "APPROVED",
-            approvedAt: new Date(),
+        return this.updateStatus(
+          milestone,
+          contract,
+          userId,
+          {
+            status: MilestoneStatus.REJECTED,
           },
-        });
+          details
+        );
       }
     );
   }
 
-  public async rejectMilestone(milestoneId: string, userId: string) {
+  /**
+   * Submits a new deliverable version. Files are uploaded to R2 before the
+   * transaction and deleted again if it fails, so a version never points at
+   * missing files and no file is left without a version.
+   */
+  public async submitMilestone(
+    milestoneId: string,
+    userId: string,
+    data: MilestoneSubmissionDTO
+  ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
       "FREELANCER",
       async ({ milestone, contract }) => {
-        this.validateStatusTransition(
-          milestone.status as MilestoneStatus,
-          MilestoneStatus.REJECTED
+        const actor = this.timelineService.actorFor(contract, userId);
+
+        return this.moveTo(
+          milestone,
+          MilestoneStatus.SUBMITTED,
+          actor,
+          async () => {
+            if (data.files.length === 0 && data.links.length === 0) {
+              throw new DomainError(
+                "A submission needs at least one file or link",
+                "EMPTY_SUBMISSION",
+                400
+              );
+            }
+
+            const uploads = await Promise.all(
+              data.files.map(async (file) => {
+                const key = `milestones/${milestoneId}/submissions/${crypto.randomUUID()}-${safeFileName(
+                  file.originalname
+                )}`;
+                const url = await uploadToR2(key, file.buffer, file.mimetype);
+                return { key, url, file };
+              })
+            );
+
+            const now = new Date();
+            try {
+              return await prisma.$transaction(async (tx) => {
+                const { count } = await tx.milestone.updateMany({
+                  where: { id: milestoneId, status: milestone.status },
+                  data: {
+                    status: MilestoneStatus.SUBMITTED,
+                    submittedAt: now,
+                    // the client's review window restarts with every version
+                    autoApproveAt: new Date(
+                      now.getTime() + contract.autoApprovalDays * DAY_MS
+                    ),
+                    autoApprovalWarnedAt: null,
+                  },
+                });
+                if (count === 0) throw this.statusConflict();
+
+                const version =
+                  (await tx.milestoneSubmission.count({
+                    where: { milestoneId },
+                  })) + 1;
+                const submission = await tx.milestoneSubmission.create({
+                  data: {
+                    milestoneId,
+                    version,
+                    submittedById: userId,
+                    note: data.note,
+                    links: data.links,
+                    files: {
+                      create: uploads.map(({ key, url, file }) => ({
+                        fileKey: key,
+                        fileUrl: url,
+                        fileName: file.originalname,
+                        fileType: file.mimetype,
+                        fileSize: file.size,
+                      })),
+                    },
+                  },
+                  include: { files: true },
+                });
+
+                await this.recordStatusChange(
+                  tx,
+                  milestone,
+                  actor,
+                  MilestoneStatus.SUBMITTED,
+                  {
+                    note: data.note,
+                    attachments: [
+                      ...uploads.map(({ url, file }) => ({
+                        name: file.originalname,
+                        url,
+                      })),
+                      ...data.links.map((url) => ({ name: url, url })),
+                    ],
+                  },
+                  { submissionId: submission.id, version }
+                );
+
+                return submission;
+              });
+            } catch (err) {
+              await Promise.all(
+                uploads.map(({ key }) =>
+                  deleteFromR2(key).catch((error) =>
+                    logger.error(
+                      `[MilestoneService] Failed to delete R2 object ${key}`,
+                      error
+                    )
+                  )
+                )
+              );
+              throw err;
+            }
+          }
         );
-        return await prisma.milestone.update({
-          where: { id: milestoneId },
-          data: {
-            status: "REJECTED",
-          },
-        });
       }
     );
   }
 
-  public async submitMilestone(milestoneId: string, userId: string) {
+  /**
+   * Sends the latest submission back to the freelancer with the client's
+   * comments. Each milestone allows `revisionLimit` requests; after that the
+   * client has to approve the work or open a dispute.
+   */
+  public async requestRevision(
+    milestoneId: string,
+    userId: string,
+    comment: string
+  ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
-      "FREELANCER",
+      "CLIENT",
       async ({ milestone, contract }) => {
-        this.validateStatusTransition(
-          milestone.status as MilestoneStatus,
-          MilestoneStatus.SUBMITTED
+        const actor = this.timelineService.actorFor(contract, userId);
+
+        return this.moveTo(
+          milestone,
+          MilestoneStatus.REVISION_REQUESTED,
+          actor,
+          async () => {
+            if (milestone.revisionCount >= milestone.revisionLimit) {
+              throw new DomainError(
+                `The revision limit of ${milestone.revisionLimit} has been reached, approve the work or open a dispute`,
+                "REVISION_LIMIT_REACHED",
+                400
+              );
+            }
+
+            return await prisma.$transaction(async (tx) => {
+              const { count } = await tx.milestone.updateMany({
+                where: {
+                  id: milestoneId,
+                  status: milestone.status,
+                  revisionCount: milestone.revisionCount,
+                },
+                data: {
+                  status: MilestoneStatus.REVISION_REQUESTED,
+                  revisionCount: { increment: 1 },
+                  autoApproveAt: null,
+                },
+              });
+              if (count === 0) throw this.statusConflict();
+
+              const submission = await tx.milestoneSubmission.findFirst({
+                where: {
+                  milestoneId,
+                  status: MilestoneSubmissionStatus.PENDING_REVIEW,
+                },
+                orderBy: { version: "desc" },
+              });
+              if (submission) {
+                await tx.milestoneSubmission.update({
+                  where: { id: submission.id },
+                  data: {
+                    status: MilestoneSubmissionStatus.REVISION_REQUESTED,
+                    reviewedById: userId,
+                    reviewedAt: new Date(),
+                    revisionComment: comment,
+                  },
+                });
+              }
+
+              await this.recordStatusChange(
+                tx,
+                milestone,
+                actor,
+                MilestoneStatus.REVISION_REQUESTED,
+                { note: comment },
+                {
+                  submissionId: submission?.id ?? null,
+                  revision: milestone.revisionCount + 1,
+                  revisionLimit: milestone.revisionLimit,
+                }
+              );
+
+              return tx.milestone.findUniqueOrThrow({
+                where: { id: milestoneId },
+              });
+            });
+          }
         );
-        return await prisma.milestone.update({
-          where: { id: milestoneId },
-          data: {
-            status: "SUBMITTED",
-            submittedAt: new Date(),
-          },
-        });
       }
     );
   }
 
-  public async disputeMilestone(milestoneId: string, userId: string) {
+  // Every submitted version with its files and the client's revision comments
+  // (readable after the contract has ended, unlike the actions above)
+  public async getSubmissions(milestoneId: string, userId: string) {
+    const milestone = await this.getMilestone(milestoneId);
+    const contract = await this.contractService.getContractById(
+      milestone.contractId
+    );
+    ContractValidator.validateContractExists(contract);
+    ContractValidator.validateUserAccess(contract!, userId);
+
+    return prisma.milestoneSubmission.findMany({
+      where: { milestoneId },
+      orderBy: { version: "desc" },
+      include: { files: { orderBy: { createdAt: "asc" } } },
+    });
+  }
+
+  /**
+   * Starts work on a milestone. The milestone amount is deposited into escrow
+   * from the client's wallet first, so a milestone is never IN_PROGRESS unfunded;
+   * if the status update fails afterwards the deposit is refunded.
+   */
+  public async startMilestone(
+    milestoneId: string,
+    userId: string,
+    details: TimelineDetails = {}
+  ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
       "CLIENT",
       async ({ milestone, contract }) => {
-        this.validateStatusTransition(
-          milestone.status as MilestoneStatus,
-          MilestoneStatus.DISPUTED
+        const actor = this.timelineService.actorFor(contract, userId);
+
+        return this.moveTo(
+          milestone,
+          MilestoneStatus.IN_PROGRESS,
+          actor,
+          async () => {
+            // A REJECTED milestone is already funded, escrow returns the
+            // existing deposit
+            const funding = await this.escrowClient.fundMilestone(milestoneId);
+
+            try {
+              await prisma.$transaction(async (tx) => {
+                const { count } = await tx.milestone.updateMany({
+                  where: { id: milestoneId, status: milestone.status },
+                  data: { status: MilestoneStatus.IN_PROGRESS },
+                });
+                if (count === 0) throw this.statusConflict();
+
+                await this.recordStatusChange(
+                  tx,
+                  milestone,
+                  actor,
+                  MilestoneStatus.IN_PROGRESS,
+                  details,
+                  { escrowTransactionId: funding.escrowTransaction.id }
+                );
+              });
+            } catch (err) {
+              // Only undo a deposit made by this call, and never under a
+              // milestone that a concurrent request has started in the meantime
+              const current = await prisma.milestone
+                .findUnique({
+                  where: { id: milestoneId },
+                  select: { status: true },
+                })
+                .catch(() => null);
+              if (
+                funding.created &&
+                current?.status !== MilestoneStatus.IN_PROGRESS
+              ) {
+                await this.refundFunding(milestoneId);
+              }
+              throw err;
+            }
+
+            return this.getMilestone(milestoneId);
+          }
         );
-        return await prisma.milestone.update({
+      }
+    );
+  }
+
+  /**
+   * Approval releases the milestone's escrow deposit to the freelancer:
+   * the milestone goes to APPROVED with `releaseRequestedAt` set, then to PAID
+   * with the RELEASE transaction id. A definite release failure puts the
+   * milestone back to SUBMITTED for the client to review; an uncertain one
+   * (escrow unreachable) leaves it APPROVED with the release still requested.
+   * The scheduler retries it at `releaseRetryAt` with backoff until
+   * RELEASE_MAX_ATTEMPTS, after that only the client approving it again
+   * retries the release (the escrow side never releases twice).
+   */
+  private async approveAndRelease(
+    milestone: Milestone,
+    actor: TimelineActor,
+    details: TimelineDetails = {},
+    metadata?: Prisma.InputJsonObject
+  ) {
+    const milestoneId = milestone.id;
+    const isRetry = milestone.status === MilestoneStatus.APPROVED;
+    const approved = { ...milestone, status: MilestoneStatus.APPROVED };
+    // checked before any money moves, the release can't be taken back
+    milestoneStateMachine.assertTransition(
+      MilestoneStatus.APPROVED,
+      MilestoneStatus.PAID,
+      actor.role
+    );
+
+    if (isRetry) {
+      // approved before the release was tracked: the retry requests it now
+      if (!milestone.releaseRequestedAt) {
+        const now = new Date();
+        await prisma.milestone.updateMany({
+          where: { id: milestoneId, status: MilestoneStatus.APPROVED },
+          data: { releaseRequestedAt: now, releaseRetryAt: now },
+        });
+      }
+    } else {
+      await this.moveTo(milestone, MilestoneStatus.APPROVED, actor, () =>
+        prisma.$transaction(async (tx) => {
+          const now = new Date();
+          const { count } = await tx.milestone.updateMany({
+            where: { id: milestoneId, status: milestone.status },
+            data: {
+              status: MilestoneStatus.APPROVED,
+              approvedAt: now,
+              releaseRequestedAt: now,
+              releaseAttempts: 0,
+              releaseRetryAt: now,
+            },
+          });
+          if (count === 0) throw this.statusConflict();
+
+          await this.recordStatusChange(
+            tx,
+            milestone,
+            actor,
+            MilestoneStatus.APPROVED,
+            details,
+            metadata
+          );
+        })
+      );
+    }
+
+    let release;
+    try {
+      release = await this.escrowClient.releaseMilestone(milestoneId);
+    } catch (err) {
+      const isDefinite = err instanceof DomainError && err.statusCode < 500;
+      if (isDefinite) {
+        await this.revertApproval(milestone, err);
+      } else {
+        await this.scheduleReleaseRetry(milestone);
+      }
+      throw err;
+    }
+
+    return this.moveTo(approved, MilestoneStatus.PAID, actor, () =>
+      prisma.$transaction(async (tx) => {
+        const paid = await tx.milestone.update({
           where: { id: milestoneId },
           data: {
-            status: "DISPUTED",
-            disputedAt: new Date(),
+            status: MilestoneStatus.PAID,
+            paidAt: new Date(),
+            escrowTransactionId: release.escrowTransaction.id,
+            releaseRequestedAt: null,
+            releaseAttempts: 0,
+            releaseRetryAt: null,
           },
         });
-      }
+
+        await tx.milestoneSubmission.updateMany({
+          where: {
+            milestoneId,
+            status: MilestoneSubmissionStatus.PENDING_REVIEW,
+          },
+          data: {
+            status: MilestoneSubmissionStatus.ACCEPTED,
+            reviewedById: actor.id,
+            reviewedAt: new Date(),
+          },
+        });
+
+        await this.recordStatusChange(
+          tx,
+          approved,
+          actor,
+          MilestoneStatus.PAID,
+          {},
+          { escrowTransactionId: release.escrowTransaction.id }
+        );
+
+        return paid;
+      })
     );
+  }
 
+  // The release can't happen (e.g. the deposit is missing): the work goes back
+  // to the client's review, without a due auto-approval that would fail again
+  private async revertApproval(milestone: Milestone, err: DomainError) {
+    const approved = { ...milestone, status: MilestoneStatus.APPROVED };
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.milestone.updateMany({
+        where: { id: milestone.id, status: MilestoneStatus.APPROVED },
+        data: {
+          status: MilestoneStatus.SUBMITTED,
+          approvedAt: null,
+          releaseRequestedAt: null,
+          releaseAttempts: 0,
+          releaseRetryAt: null,
+          autoApproveAt: null,
+          autoApprovalWarnedAt: null,
+        },
+      });
+      if (count === 0) return;
 
+      await this.recordStatusChange(
+        tx,
+        approved,
+        SYSTEM_ACTOR,
+        MilestoneStatus.SUBMITTED,
+        { note: "Escrow release failed, approval reverted" },
+        { reason: err.message }
+      );
+    });
   }
 
-  public async approveWorkByClient(milestoneId: string, userId: string) {
+  private async scheduleReleaseRetry(milestone: Milestone) {
+    const attempts =
+      (milestone.status === MilestoneStatus.APPROVED
+        ? milestone.releaseAttempts
+        : 0) + 1;
+    const parked = attempts >= RELEASE_MAX_ATTEMPTS;
+    const retryAt = parked
+      ? null
+      : new Date(Date.now() + RELEASE_RETRY_BASE_MS * 2 ** (attempts - 1));
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.milestone.updateMany({
+        where: { id: milestone.id, status: MilestoneStatus.APPROVED },
+        data: { releaseAttempts: attempts, releaseRetryAt: retryAt },
+      });
+      if (count === 0 || !parked) return;
+
+      await this.timelineService.record(tx, {
+        contractId: milestone.contractId,
+        milestoneId: milestone.id,
+        actor: SYSTEM_ACTOR,
+        type: ContractEventType.MILESTONE_UPDATED,
+        note: "The escrow release could not be confirmed, approve the milestone again to retry",
+        metadata: { releaseAttempts: attempts },
+      });
+    });
+
+    if (retryAt) {
+      logger.warn(
+        `[MilestoneService] Escrow release of milestone ${milestone.id} failed, retrying at ${retryAt.toISOString()}`
+      );
+    } else {
+      logger.error(
+        `[MilestoneService] Escrow release of milestone ${milestone.id} still unconfirmed after ${attempts} attempts, no more automatic retries`
+      );
+    }
+  }
+
+  public async approveWorkByClient(
+    milestoneId: string,
+    userId: string,
+    details: TimelineDetails = {}
+  ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
       "CLIENT",
-      async ({ milestone, contract }) => {
-        this.validateStatusTransition(
-          milestone.status as MilestoneStatus,
-          MilestoneStatus.COMPLETED
-        );
-        return await prisma.milestone.update({
-          where: { id: milestoneId },
-          data: {
-            status: "COMPLETED",
-            approvedAt: new Date(),
-          },
-        });
-      }
+      async ({ milestone, contract }) =>
+        this.approveAndRelease(
+          milestone,
+          this.timelineService.actorFor(contract, userId),
+          details
+        )
     );
+  }
+
+  /**
+   * Approval by the auto-approval scheduler once the client's review window
+   * has passed (only after the client was warned). A due retry of an APPROVED
+   * milestone whose release was requested but not confirmed goes through here
+   * as well; an APPROVED milestone without a scheduled retry is never paid
+   * by the scheduler.
+   */
+  public async autoApproveMilestone(milestoneId: string, now: Date = new Date()) {
+    const milestone = await this.getMilestone(milestoneId);
+    const isDue =
+      milestone.status === MilestoneStatus.SUBMITTED &&
+      milestone.autoApprovalWarnedAt !== null &&
+      milestone.autoApproveAt !== null &&
+      milestone.autoApproveAt <= now;
+    const isReleaseRetry =
+      milestone.status === MilestoneStatus.APPROVED &&
+      milestone.releaseRequestedAt !== null &&
+      milestone.releaseRetryAt !== null &&
+      milestone.releaseRetryAt <= now;
+    if (!isDue && !isReleaseRetry) {
+      throw this.statusConflict();
+    }
 
-    // TODO: Additional business logic for payment processing can be added here
+    return this.approveAndRelease(
+      milestone,
+      SYSTEM_ACTOR,
+      {
+        note: "Approved automatically, the client did not review the submission in time",
+      },
+      { autoApproved: true }
+    );
   }
 
-  public async requestDeletion(milestoneId: string, userId: string) {
+  public async requestDeletion(
+    milestoneId: string,
+    userId: string,
+    details: TimelineDetails = {}
+  ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
       "CLIENT",
       async ({ milestone, contract }) => {
-        return await prisma.milestone.update({
-          where: { id: milestoneId },
-          data: {
-            deletionRequestedAt: new Date(),
-          },
+        return await prisma.$transaction(async (tx) => {
+          const updated = await tx.milestone.update({
+            where: { id: milestoneId },
+            data: {
+              deletionRequestedAt: new Date(),
+            },
+          });
+
+          await this.timelineService.record(tx, {
+            contractId: milestone.contractId,
+            milestoneId,
+            actor: this.timelineService.actorFor(contract, userId),
+            type: ContractEventType.MILESTONE_DELETION_REQUESTED,
+            ...details,
+          });
+
+          return updated;
         });
       }
     );
   }
 
-  public async acceptRequestDeletion(milestoneId: string, userId: string) {
+  public async acceptRequestDeletion(
+    milestoneId: string,
+    userId: string,
+    details: TimelineDetails = {}
+  ) {
     return this.withMilestoneContext(
       milestoneId,
       userId,
@@ -337,9 +1006,33 @@ class MilestoneService {
           );
         }
 
-        // TODO: Notify both parties about the deletion
-        return await prisma.milestone.delete({
-          where: { id: milestoneId },
+        // Started milestones have escrow funding attached to them
+        if (milestone.status !== MilestoneStatus.PENDING) {
+          throw new DomainError(
+            "Only milestones with PENDING status can be deleted",
+            "INVALID_MILESTONE_DELETION",
+            400
+          );
+        }
+
+        // Both parties see the deletion on the contract timeline. The event is
+        // written first, while the milestone still exists, and keeps what it was
+        return await prisma.$transaction(async (tx) => {
+          await this.timelineService.record(tx, {
+            contractId: milestone.contractId,
+            milestoneId,
+            actor: this.timelineService.actorFor(contract, userId),
+            type: ContractEventType.MILESTONE_DELETED,
+            fromStatus: milestone.status,
+            metadata: {
+              title: milestone.title,
+              amount: milestone.amount,
+              currency: milestone.currency,
+            },
+            ...details,
+          });
+
+          return tx.milestone.delete({ where: { id: milestoneId } });
         });
       }
     );
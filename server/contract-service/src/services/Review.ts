@@ -0,0 +1,387 @@
+import { prisma } from "@rizlax/db-client";
+import {
+  ContractActorRole,
+  ContractEventType,
+  ContractStatus,
+  Prisma,
+  ReviewDirection,
+} from "@prisma/client";
+import type { Contract, Review } from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import logger from "@rizlax/logs";
+import type TimelineService from "./Timeline.ts";
+import { SYSTEM_ACTOR } from "./Timeline.ts";
+import { REVIEW_CATEGORIES } from "../validators/Review.ts";
+
+export interface SubmitReviewDTO {
+  rating: number;
+  subRatings: Record<string, number>;
+  feedback?: string;
+}
+
+export interface ReviewListQuery {
+  page: number;
+  limit: number;
+}
+
+export interface ReviewList {
+  reviews: Review[];
+  ratingAverage: number | null;
+  ratingCount: number;
+  pagination: { page: number; limit: number; total: number; pages: number };
+}
+
+const REVIEW_WINDOW_DAYS = parseInt(
+  process.env.REVIEW_WINDOW_DAYS || "14",
+  10
+);
+const PUBLICATION_BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Two-way reviews once a contract is COMPLETED. Reviews are blind: neither
+ * party sees the other's review until both are in or REVIEW_WINDOW_DAYS after
+ * completion have passed, so nobody rates in retaliation. Publishing a review
+ * refreshes the rating average and count stored on the Freelancer or Client.
+ */
+class ReviewService {
+  private timelineService: TimelineService;
+
+  constructor(timelineService: TimelineService) {
+    this.timelineService = timelineService;
+  }
+
+  private async getContract(contractId: string): Promise<Contract> {
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+    });
+    if (!contract) {
+      throw new DomainError("Contract not found", "CONTRACT_NOT_FOUND", 404);
+    }
+    return contract;
+  }
+
+  private validateSubRatings(
+    direction: ReviewDirection,
+    subRatings: Record<string, number>
+  ) {
+    const categories = REVIEW_CATEGORIES[direction];
+    const unknown = Object.keys(subRatings).filter(
+      (category) => !categories.includes(category)
+    );
+    if (unknown.length > 0) {
+      throw new DomainError(
+        `Unknown rating categories: ${unknown.join(", ")}. Expected: ${categories.join(", ")}`,
+        "INVALID_SUB_RATINGS",
+        400
+      );
+    }
+  }
+
+  // Recomputed from the published reviews, so a retry can't count one twice
+  private async refreshRatings(
+    tx: Prisma.TransactionClient,
+    freelancerId: string,
+    clientId: string
+  ) {
+    // row locks: concurrent publications wait instead of overwriting each other
+    await tx.freelancer.update({
+      where: { id: freelancerId },
+      data: { ratingCount: { increment: 0 } },
+    });
+    await tx.client.update({
+      where: { id: clientId },
+      data: { ratingCount: { increment: 0 } },
+    });
+
+    const [ofFreelancer, ofClient] = await Promise.all([
+      tx.review.aggregate({
+        where: {
+          freelancerId,
+          direction: ReviewDirection.CLIENT_TO_FREELANCER,
+          publishedAt: { not: null },
+        },
+        _avg: { rating: true },
+        _count: { _all: true },
+      }),
+      tx.review.aggregate({
+        where: {
+          clientId,
+          direction: ReviewDirection.FREELANCER_TO_CLIENT,
+          publishedAt: { not: null },
+        },
+        _avg: { rating: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    await tx.freelancer.update({
+      where: { id: freelancerId },
+      data: {
+        ratingAverage: ofFreelancer._avg.rating,
+        ratingCount: ofFreelancer._count._all,
+      },
+    });
+    await tx.client.update({
+      where: { id: clientId },
+      data: {
+        ratingAverage: ofClient._avg.rating,
+        ratingCount: ofClient._count._all,
+      },
+    });
+  }
+
+  // Ends the blind period of a contract's reviews
+  private async publishContractReviews(
+    tx: Prisma.TransactionClient,
+    contract: Contract,
+    now: Date,
+    note: string
+  ): Promise<number> {
+    const { count } = await tx.review.updateMany({
+      where: { contractId: contract.id, publishedAt: null },
+      data: { publishedAt: now },
+    });
+    if (count === 0) return 0;
+
+    await this.refreshRatings(tx, contract.freelancerId, contract.clientId);
+    await this.timelineService.record(tx, {
+      contractId: contract.id,
+      actor: SYSTEM_ACTOR,
+      type: ContractEventType.REVIEWS_PUBLISHED,
+      note,
+      metadata: { published: count },
+    });
+    return count;
+  }
+
+  public async submitReview(
+    contractId: string,
+    userId: string,
+    data: SubmitReviewDTO
+  ): Promise<Review> {
+    const contract = await this.getContract(contractId);
+    const actor = this.timelineService.actorFor(contract, userId);
+    if (actor.role === ContractActorRole.ADMIN) {
+      throw new DomainError(
+        "Only the contract parties can review each other",
+        "ACCESS_DENIED",
+        403
+      );
+    }
+    if (contract.status !== ContractStatus.COMPLETED) {
+      throw new DomainError(
+        "Reviews can only be left on completed contracts",
+        "CONTRACT_NOT_COMPLETED",
+        400
+      );
+    }
+
+    const now = new Date();
+    const completedAt = contract.endDate ?? contract.updatedAt;
+    const blindUntil = new Date(
+      completedAt.getTime() + REVIEW_WINDOW_DAYS * DAY_MS
+    );
+    if (now >= blindUntil) {
+      throw new DomainError(
+        "The review period for this contract has ended",
+        "REVIEW_WINDOW_CLOSED",
+        400
+      );
+    }
+
+    const direction =
+      actor.role === ContractActorRole.CLIENT
+        ? ReviewDirection.CLIENT_TO_FREELANCER
+        : ReviewDirection.FREELANCER_TO_CLIENT;
+    this.validateSubRatings(direction, data.subRatings);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const review = await tx.review.create({
+          data: {
+            contractId,
+            direction,
+            reviewerId: userId,
+            freelancerId: contract.freelancerId,
+            clientId: contract.clientId,
+            rating: data.rating,
+            subRatings: data.subRatings,
+            feedback: data.feedback,
+            blindUntil,
+          },
+        });
+
+        // the rating itself stays out of the timeline while it is blind
+        await this.timelineService.record(tx, {
+          contractId,
+          actor,
+          type: ContractEventType.REVIEW_SUBMITTED,
+          metadata: { reviewId: review.id, direction },
+        });
+
+        const reviews = await tx.review.count({ where: { contractId } });
+        if (reviews === 2) {
+          await this.publishContractReviews(
+            tx,
+            contract,
+            now,
+            "Both parties have left their review"
+          );
+          return tx.review.findUniqueOrThrow({ where: { id: review.id } });
+        }
+        return review;
+      });
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        throw new DomainError(
+          "You have already reviewed this contract",
+          "REVIEW_ALREADY_SUBMITTED",
+          409
+        );
+      }
+      throw err;
+    }
+  }
+
+  // Publishes the reviews whose blind period ran out without the other side's
+  public async publishExpired(now: Date = new Date()): Promise<number> {
+    const due = await prisma.review.findMany({
+      where: { publishedAt: null, blindUntil: { lte: now } },
+      distinct: ["contractId"],
+      select: { contract: true },
+      orderBy: { blindUntil: "asc" },
+      take: PUBLICATION_BATCH_SIZE,
+    });
+
+    let published = 0;
+    for (const { contract } of due) {
+      try {
+        published += await prisma.$transaction((tx) =>
+          this.publishContractReviews(
+            tx,
+            contract,
+            now,
+            "The review period ended"
+          )
+        );
+      } catch (error) {
+        logger.error(
+          `[ReviewService] Failed to publish reviews of contract ${contract.id}`,
+          { error }
+        );
+      }
+    }
+    return published;
+  }
+
+  /**
+   * The contract's reviews as the user may see them: published ones, and
+   * their own while it is still blind. Admins see everything.
+   */
+  public async getContractReviews(
+    contractId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<Review[]> {
+    const contract = await this.getContract(contractId);
+    const isParty =
+      contract.clientId === userId || contract.freelancerId === userId;
+    if (!isParty && userRole !== "ADMIN") {
+      throw new DomainError("Access denied", "ACCESS_DENIED", 403);
+    }
+
+    return prisma.review.findMany({
+      where: {
+        contractId,
+        ...(userRole === "ADMIN"
+          ? {}
+          : { OR: [{ publishedAt: { not: null } }, { reviewerId: userId }] }),
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  public async getFreelancerReviews(
+    freelancerId: string,
+    query: ReviewListQuery
+  ): Promise<ReviewList> {
+    const freelancer = await prisma.freelancer.findUnique({
+      where: { id: freelancerId },
+      select: { ratingAverage: true, ratingCount: true },
+    });
+    if (!freelancer) {
+      throw new DomainError(
+        "Freelancer not found",
+        "FREELANCER_NOT_FOUND",
+        404
+      );
+    }
+
+    return this.listPublished(
+      {
+        freelancerId,
+        direction: ReviewDirection.CLIENT_TO_FREELANCER,
+      },
+      freelancer,
+      query
+    );
+  }
+
+  public async getClientReviews(
+    clientId: string,
+    query: ReviewListQuery
+  ): Promise<ReviewList> {
+    const client = await prisma.client.findUnique({
+      where: { id: clientId },
+      select: { ratingAverage: true, ratingCount: true },
+    });
+    if (!client) {
+      throw new DomainError("Client not found", "CLIENT_NOT_FOUND", 404);
+    }
+
+    return this.listPublished(
+      { clientId, direction: ReviewDirection.FREELANCER_TO_CLIENT },
+      client,
+      query
+    );
+  }
+
+  private async listPublished(
+    filter: Prisma.ReviewWhereInput,
+    summary: { ratingAverage: number | null; ratingCount: number },
+    query: ReviewListQuery
+  ): Promise<ReviewList> {
+    const where: Prisma.ReviewWhereInput = {
+      ...filter,
+      publishedAt: { not: null },
+    };
+
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        orderBy: { publishedAt: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.review.count({ where }),
+    ]);
+
+    return {
+      reviews,
+      ratingAverage: summary.ratingAverage,
+      ratingCount: summary.ratingCount,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit),
+      },
+    };
+  }
+}
+
+export default ReviewService;
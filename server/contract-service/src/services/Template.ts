@@ -0,0 +1,181 @@
+import { prisma } from "@rizlax/db-client";
+import { ContractType } from "@prisma/client";
+import type {
+  ContractTemplate,
+  ContractTemplateMilestone,
+  Milestone,
+} from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import { allocateMoney, fromMinorUnits, money } from "@rizlax/money";
+import type MilestoneService from "./Milstone.ts";
+import { toBasisPoints } from "../validators/Template.ts";
+
+export interface TemplateDTO {
+  name: string;
+  description?: string;
+  milestones: {
+    title: string;
+    description?: string;
+    percentage: number; // of the contract amount, all add up to 100
+    dueInDays: number;
+    revisionLimit?: number;
+  }[];
+}
+
+export interface ApplyTemplateDTO {
+  contractId: string;
+  startDate?: Date; // due dates count from here, default now
+}
+
+export type TemplateWithMilestones = ContractTemplate & {
+  milestones: ContractTemplateMilestone[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Milestone plans a client reuses across contracts. Amounts are percentages
+ * of the contract amount and due dates are days from the plan's start, so a
+ * template fits any fixed-price contract. Applying one creates the whole
+ * plan through MilestoneService in a single transaction.
+ */
+class TemplateService {
+  private milestoneService: MilestoneService;
+
+  constructor(milestoneService: MilestoneService) {
+    this.milestoneService = milestoneService;
+  }
+
+  private milestoneRows(data: TemplateDTO) {
+    return data.milestones.map((milestone, index) => ({
+      position: index + 1,
+      title: milestone.title,
+      description: milestone.description,
+      percentage: milestone.percentage,
+      dueInDays: milestone.dueInDays,
+      revisionLimit: milestone.revisionLimit,
+    }));
+  }
+
+  // Templates are private to the client who made them
+  private async getOwnTemplate(
+    templateId: string,
+    userId: string
+  ): Promise<TemplateWithMilestones> {
+    const template = await prisma.contractTemplate.findUnique({
+      where: { id: templateId },
+      include: { milestones: { orderBy: { position: "asc" } } },
+    });
+    if (!template || template.clientId !== userId) {
+      throw new DomainError("Template not found", "TEMPLATE_NOT_FOUND", 404);
+    }
+    return template;
+  }
+
+  public async createTemplate(
+    userId: string,
+    data: TemplateDTO
+  ): Promise<TemplateWithMilestones> {
+    return prisma.contractTemplate.create({
+      data: {
+        clientId: userId,
+        name: data.name,
+        description: data.description,
+        milestones: { create: this.milestoneRows(data) },
+      },
+      include: { milestones: { orderBy: { position: "asc" } } },
+    });
+  }
+
+  public async getTemplates(userId: string): Promise<TemplateWithMilestones[]> {
+    return prisma.contractTemplate.findMany({
+      where: { clientId: userId },
+      orderBy: { updatedAt: "desc" },
+      include: { milestones: { orderBy: { position: "asc" } } },
+    });
+  }
+
+  public async getTemplate(
+    templateId: string,
+    userId: string
+  ): Promise<TemplateWithMilestones> {
+    return this.getOwnTemplate(templateId, userId);
+  }
+
+  // Replaces the whole template, milestones included
+  public async updateTemplate(
+    templateId: string,
+    userId: string,
+    data: TemplateDTO
+  ): Promise<TemplateWithMilestones> {
+    await this.getOwnTemplate(templateId, userId);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.contractTemplateMilestone.deleteMany({ where: { templateId } });
+      return tx.contractTemplate.update({
+        where: { id: templateId },
+        data: {
+          name: data.name,
+          description: data.description ?? null,
+          milestones: { create: this.milestoneRows(data) },
+        },
+        include: { milestones: { orderBy: { position: "asc" } } },
+      });
+    });
+  }
+
+  public async deleteTemplate(templateId: string, userId: string) {
+    await this.getOwnTemplate(templateId, userId);
+    await prisma.contractTemplate.delete({ where: { id: templateId } });
+  }
+
+  /**
+   * Creates the template's milestone plan on a contract that has none yet.
+   * The contract amount is split by the percentages without losing a minor
+   * unit (the rounding remainder goes to the first milestones).
+   */
+  public async applyTemplate(
+    templateId: string,
+    userId: string,
+    data: ApplyTemplateDTO
+  ): Promise<Milestone[]> {
+    const template = await this.getOwnTemplate(templateId, userId);
+
+    const contract = await prisma.contract.findUnique({
+      where: { id: data.contractId },
+    });
+    if (!contract || contract.clientId !== userId) {
+      throw new DomainError("Contract not found", "CONTRACT_NOT_FOUND", 404);
+    }
+    if (contract.type !== ContractType.FIXED) {
+      throw new DomainError(
+        "Milestone plans only apply to fixed-price contracts",
+        "INVALID_CONTRACT_TYPE",
+        400
+      );
+    }
+
+    const amounts = allocateMoney(
+      money(contract.amount, contract.currency),
+      template.milestones.map(({ percentage }) =>
+        toBasisPoints(Number(percentage))
+      )
+    );
+    const start = (data.startDate ?? new Date()).getTime();
+
+    return this.milestoneService.createMilestonePlan(
+      contract.id,
+      userId,
+      template.milestones.map((milestone, index) => ({
+        title: milestone.title,
+        description: milestone.description ?? "",
+        amount: fromMinorUnits(amounts[index].amount, contract.currency),
+        dueDate: new Date(start + milestone.dueInDays * DAY_MS),
+        revisionLimit: milestone.revisionLimit ?? undefined,
+      })),
+      { metadata: { templateId }, requireEmpty: true }
+    );
+  }
+}
+
+export default TemplateService;
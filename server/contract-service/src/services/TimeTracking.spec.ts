@@ -0,0 +1,154 @@
+import {
+  ContractStatus,
+  ContractType,
+  TimeEntrySource,
+  TimeEntryStatus,
+  TimesheetStatus,
+} from "@prisma/client";
+import type { Contract, TimeEntry, Timesheet } from "@prisma/client";
+import TimeTrackingService from "./TimeTracking.ts";
+import type ContractService from "./Contract.ts";
+import type EscrowClient from "../clients/Escrow.ts";
+
+jest.mock("db-client/index.ts", () => ({
+  prisma: {
+    timeEntry: { findUnique: jest.fn(), update: jest.fn() },
+    timesheet: { update: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("./Contract.ts", () => jest.fn());
+jest.mock("@rizlax/logs", () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { prisma } from "db-client/index.ts";
+
+const entries = prisma.timeEntry as unknown as Record<string, jest.Mock>;
+const timesheets = prisma.timesheet as unknown as Record<string, jest.Mock>;
+
+// a Wednesday; the week runs from Monday 2026-10-19
+const NOW = new Date("2026-10-21T12:00:00Z");
+
+const contract = {
+  id: "contract-1",
+  clientId: "client-1",
+  freelancerId: "freelancer-1",
+  type: ContractType.HOURLY,
+  status: ContractStatus.ACTIVE,
+  weeklyHourCap: null,
+} as Contract;
+
+let entry: TimeEntry;
+let timesheet: Timesheet;
+let service: TimeTrackingService;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+  jest.clearAllMocks();
+
+  entry = {
+    id: "entry-1",
+    contractId: contract.id,
+    timesheetId: "timesheet-1",
+    source: TimeEntrySource.MANUAL,
+    status: TimeEntryStatus.PENDING,
+    startedAt: new Date("2026-10-19T09:00:00Z"),
+    endedAt: new Date("2026-10-19T10:00:00Z"),
+    minutes: 60,
+    description: "Setup",
+  } as TimeEntry;
+  timesheet = {
+    id: "timesheet-1",
+    contractId: contract.id,
+    weekStart: new Date("2026-10-19T00:00:00Z"),
+    status: TimesheetStatus.OPEN,
+    reviewEndsAt: null,
+  } as Timesheet;
+
+  entries.findUnique.mockImplementation(async () => ({ ...entry }));
+  entries.update.mockImplementation(async ({ data }) =>
+    Object.assign(entry, data)
+  );
+  timesheets.update.mockImplementation(async () => ({ ...timesheet }));
+  (prisma.$transaction as jest.Mock).mockImplementation((callback) =>
+    callback(prisma)
+  );
+
+  service = new TimeTrackingService(
+    {
+      getContractById: jest.fn(async () => contract),
+    } as unknown as ContractService,
+    {} as EscrowClient
+  );
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("TimeTrackingService.updateEntry", () => {
+  it("lets the freelancer change the time of a manual entry in an open week", async () => {
+    const updated = await service.updateEntry(entry.id, contract.freelancerId, {
+      minutes: 90,
+      description: "Setup and review",
+    });
+
+    expect(updated).toMatchObject({
+      minutes: 90,
+      description: "Setup and review",
+      endedAt: new Date("2026-10-19T10:30:00Z"),
+    });
+  });
+
+  it("only lets the freelancer edit their entries", async () => {
+    await expect(
+      service.updateEntry(entry.id, contract.clientId, { minutes: 30 })
+    ).rejects.toMatchObject({ code: "FREELANCER_ONLY_ACTION" });
+    expect(entries.update).not.toHaveBeenCalled();
+  });
+
+  it("refuses changes once the week is closed", async () => {
+    timesheet.status = TimesheetStatus.IN_REVIEW;
+
+    await expect(
+      service.updateEntry(entry.id, contract.freelancerId, { minutes: 30 })
+    ).rejects.toMatchObject({ code: "TIMESHEET_CLOSED" });
+  });
+});
+
+describe("TimeTrackingService.reviewEntry", () => {
+  beforeEach(() => {
+    timesheet.status = TimesheetStatus.IN_REVIEW;
+    timesheet.reviewEndsAt = new Date("2026-10-23T00:00:00Z");
+  });
+
+  it("lets the client reject an entry during the review window", async () => {
+    const reviewed = await service.reviewEntry(entry.id, contract.clientId, {
+      approve: false,
+      reason: "Not part of the scope",
+    });
+
+    expect(reviewed).toMatchObject({
+      status: TimeEntryStatus.REJECTED,
+      rejectionReason: "Not part of the scope",
+      reviewedAt: NOW,
+    });
+  });
+
+  it("only lets the client review entries", async () => {
+    await expect(
+      service.reviewEntry(entry.id, contract.freelancerId, { approve: true })
+    ).rejects.toMatchObject({ code: "CLIENT_ONLY_ACTION" });
+    expect(entries.update).not.toHaveBeenCalled();
+  });
+
+  it("refuses reviews after the review window ended", async () => {
+    timesheet.reviewEndsAt = new Date("2026-10-20T00:00:00Z");
+
+    await expect(
+      service.reviewEntry(entry.id, contract.clientId, { approve: true })
+    ).rejects.toMatchObject({ code: "TIMESHEET_NOT_IN_REVIEW" });
+  });
+});
@@ -0,0 +1,695 @@
+import { prisma } from "@rizlax/db-client";
+import {
+  ContractStatus,
+  ContractType,
+  Prisma,
+  TimeEntrySource,
+  TimeEntryStatus,
+  TimesheetStatus,
+} from "@prisma/client";
+import type { Contract, TimeEntry, Timesheet } from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import logger from "@rizlax/logs";
+import ContractService from "./Contract.ts";
+import { ContractValidator } from "../validators/Contract.ts";
+import type EscrowClient from "../clients/Escrow.ts";
+import { addDays, weekEndOf, weekStartOf } from "../utils/week.ts";
+import { money, multiplyMoney } from "@rizlax/money";
+
+export interface ManualEntryDTO {
+  startedAt: Date;
+  minutes: number;
+  description?: string;
+}
+
+export interface UpdateEntryDTO {
+  startedAt?: Date;
+  minutes?: number;
+  description?: string;
+}
+
+export interface ReviewEntryDTO {
+  approve: boolean;
+  reason?: string;
+}
+
+export interface BillingRunResult {
+  closed: number;
+  billed: number;
+  failed: number;
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+const REVIEW_WINDOW_DAYS = parseInt(
+  process.env.HOURLY_REVIEW_WINDOW_DAYS || "5",
+  10
+);
+
+// a BILLING claim older than this belongs to a run that died mid-way
+const STALE_BILLING_MS = 15 * 60 * 1000;
+
+const BILLING_BATCH_SIZE = 50;
+
+// failed charges are retried after 1h, 2h, 4h, ... at most once a day
+const BILLING_RETRY_BASE_MS = 60 * 60 * 1000;
+const BILLING_RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+class TimeTrackingService {
+  private contractService: ContractService;
+  private escrowClient: EscrowClient;
+
+  constructor(contractService: ContractService, escrowClient: EscrowClient) {
+    this.contractService = contractService;
+    this.escrowClient = escrowClient;
+  }
+
+  private async getHourlyContract(
+    contractId: string,
+    userId: string
+  ): Promise<Contract> {
+    const contract = await this.contractService.getContractById(contractId);
+    ContractValidator.validateContractExists(contract);
+    ContractValidator.validateUserAccess(contract!, userId);
+
+    if (contract!.type !== ContractType.HOURLY) {
+      throw new DomainError(
+        "Time can only be tracked on hourly contracts",
+        "CONTRACT_NOT_HOURLY",
+        400
+      );
+    }
+    return contract!;
+  }
+
+  private validateContractActive(contract: Contract) {
+    if (contract.status !== ContractStatus.ACTIVE) {
+      throw new DomainError(
+        "Time can only be logged on active contracts",
+        "CONTRACT_INACTIVE",
+        400
+      );
+    }
+  }
+
+  private timesheetClosed() {
+    return new DomainError(
+      "This week has been closed for review",
+      "TIMESHEET_CLOSED",
+      409
+    );
+  }
+
+  // Gets the week's timesheet (creating it on first use) and locks it until
+  // the transaction ends, so cap checks and timer starts are serialized
+  private async lockWeekTimesheet(
+    tx: TransactionClient,
+    contractId: string,
+    at: Date
+  ): Promise<Timesheet> {
+    const weekStart = weekStartOf(at);
+    const timesheet = await tx.timesheet.upsert({
+      where: { contractId_weekStart: { contractId, weekStart } },
+      create: { contractId, weekStart, weekEnd: weekEndOf(at) },
+      update: { updatedAt: new Date() },
+    });
+
+    if (timesheet.status !== TimesheetStatus.OPEN) {
+      throw this.timesheetClosed();
+    }
+    return timesheet;
+  }
+
+  private async lockTimesheet(
+    tx: TransactionClient,
+    timesheetId: string
+  ): Promise<Timesheet> {
+    return tx.timesheet.update({
+      where: { id: timesheetId },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  // Minutes still available under the weekly cap (Infinity when uncapped)
+  private async remainingMinutes(
+    tx: TransactionClient,
+    contract: Contract,
+    timesheetId: string,
+    excludeEntryId?: string
+  ): Promise<number> {
+    if (!contract.weeklyHourCap) return Infinity;
+
+    const { _sum } = await tx.timeEntry.aggregate({
+      where: {
+        timesheetId,
+        status: { not: TimeEntryStatus.REJECTED },
+        ...(excludeEntryId ? { id: { not: excludeEntryId } } : {}),
+      },
+      _sum: { minutes: true },
+    });
+    return Math.max(0, contract.weeklyHourCap * 60 - (_sum.minutes ?? 0));
+  }
+
+  private async validateWithinCap(
+    tx: TransactionClient,
+    contract: Contract,
+    timesheetId: string,
+    minutes: number,
+    excludeEntryId?: string
+  ) {
+    const remaining = await this.remainingMinutes(
+      tx,
+      contract,
+      timesheetId,
+      excludeEntryId
+    );
+    if (minutes > remaining) {
+      throw new DomainError(
+        `Weekly cap of ${contract.weeklyHourCap} hours exceeded (${remaining} minutes left this week)`,
+        "WEEKLY_CAP_EXCEEDED",
+        400
+      );
+    }
+  }
+
+  private validateEntryPeriod(startedAt: Date, minutes: number) {
+    const endedAt = new Date(startedAt.getTime() + minutes * 60000);
+    const now = new Date();
+
+    if (startedAt < weekStartOf(now)) {
+      throw new DomainError(
+        "Time can only be logged for the current week",
+        "INVALID_TIME_ENTRY",
+        400
+      );
+    }
+    if (endedAt > now) {
+      throw new DomainError(
+        "Time entries cannot end in the future",
+        "INVALID_TIME_ENTRY",
+        400
+      );
+    }
+    if (endedAt > weekEndOf(startedAt)) {
+      throw new DomainError(
+        "A time entry must fall within a single week (Monday to Sunday, UTC)",
+        "INVALID_TIME_ENTRY",
+        400
+      );
+    }
+    return endedAt;
+  }
+
+  // Stops a running timer at `at`, trimming it to what is left under the cap
+  private async closeRunningEntry(
+    tx: TransactionClient,
+    contract: Contract,
+    entry: TimeEntry,
+    at: Date
+  ): Promise<TimeEntry> {
+    const elapsed = Math.max(
+      0,
+      Math.floor((at.getTime() - entry.startedAt.getTime()) / 60000)
+    );
+    const remaining = await this.remainingMinutes(
+      tx,
+      contract,
+      entry.timesheetId,
+      entry.id
+    );
+
+    return tx.timeEntry.update({
+      where: { id: entry.id },
+      data: { endedAt: at, minutes: Math.min(elapsed, remaining) },
+    });
+  }
+
+  private async getEntryContext(
+    entryId: string,
+    userId: string,
+    role: "CLIENT" | "FREELANCER"
+  ) {
+    const entry = await prisma.timeEntry.findUnique({
+      where: { id: entryId },
+    });
+    if (!entry) {
+      throw new DomainError("Time entry not found", "TIME_ENTRY_NOT_FOUND", 404);
+    }
+
+    const contract = await this.getHourlyContract(entry.contractId, userId);
+    if (role === "CLIENT") {
+      ContractValidator.validateClientOnly(contract, userId);
+    } else {
+      ContractValidator.validateFreelancerOnly(contract, userId);
+    }
+    return { entry, contract };
+  }
+
+  public async logManualEntry(
+    contractId: string,
+    userId: string,
+    data: ManualEntryDTO
+  ): Promise<TimeEntry> {
+    const contract = await this.getHourlyContract(contractId, userId);
+    ContractValidator.validateFreelancerOnly(contract, userId);
+    this.validateContractActive(contract);
+
+    const endedAt = this.validateEntryPeriod(data.startedAt, data.minutes);
+
+    return prisma.$transaction(async (tx) => {
+      const timesheet = await this.lockWeekTimesheet(
+        tx,
+        contractId,
+        data.startedAt
+      );
+      await this.validateWithinCap(tx, contract, timesheet.id, data.minutes);
+
+      return tx.timeEntry.create({
+        data: {
+          contractId,
+          timesheetId: timesheet.id,
+          source: TimeEntrySource.MANUAL,
+          description: data.description,
+          startedAt: data.startedAt,
+          endedAt,
+          minutes: data.minutes,
+        },
+      });
+    });
+  }
+
+  public async startTimer(
+    contractId: string,
+    userId: string,
+    description?: string
+  ): Promise<TimeEntry> {
+    const contract = await this.getHourlyContract(contractId, userId);
+    ContractValidator.validateFreelancerOnly(contract, userId);
+    this.validateContractActive(contract);
+
+    const now = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const timesheet = await this.lockWeekTimesheet(tx, contractId, now);
+
+      const running = await tx.timeEntry.findFirst({
+        where: { contractId, endedAt: null },
+      });
+      if (running) {
+        throw new DomainError(
+          "A timer is already running on this contract",
+          "TIMER_ALREADY_RUNNING",
+          409
+        );
+      }
+
+      if ((await this.remainingMinutes(tx, contract, timesheet.id)) <= 0) {
+        throw new DomainError(
+          `Weekly cap of ${contract.weeklyHourCap} hours reached`,
+          "WEEKLY_CAP_EXCEEDED",
+          400
+        );
+      }
+
+      return tx.timeEntry.create({
+        data: {
+          contractId,
+          timesheetId: timesheet.id,
+          source: TimeEntrySource.TIMER,
+          description,
+          startedAt: now,
+        },
+      });
+    });
+  }
+
+  public async stopTimer(
+    contractId: string,
+    userId: string
+  ): Promise<TimeEntry> {
+    const contract = await this.getHourlyContract(contractId, userId);
+    ContractValidator.validateFreelancerOnly(contract, userId);
+
+    return prisma.$transaction(async (tx) => {
+      const running = await tx.timeEntry.findFirst({
+        where: { contractId, endedAt: null },
+      });
+      if (!running) {
+        throw new DomainError(
+          "No timer is running on this contract",
+          "TIMER_NOT_RUNNING",
+          404
+        );
+      }
+
+      const timesheet = await this.lockTimesheet(tx, running.timesheetId);
+      if (timesheet.status !== TimesheetStatus.OPEN) {
+        throw this.timesheetClosed();
+      }
+
+      // a timer never runs past the end of its week
+      const now = new Date();
+      return this.closeRunningEntry(
+        tx,
+        contract,
+        running,
+        now < timesheet.weekEnd ? now : timesheet.weekEnd
+      );
+    });
+  }
+
+  public async updateEntry(
+    entryId: string,
+    userId: string,
+    data: UpdateEntryDTO
+  ): Promise<TimeEntry> {
+    const { entry, contract } = await this.getEntryContext(
+      entryId,
+      userId,
+      "FREELANCER"
+    );
+
+    const changesTime = data.startedAt !== undefined || data.minutes !== undefined;
+    if (changesTime && entry.source !== TimeEntrySource.MANUAL) {
+      throw new DomainError(
+        "Only manual entries can have their time changed",
+        "INVALID_TIME_ENTRY_UPDATE",
+        400
+      );
+    }
+
+    const startedAt = data.startedAt ?? entry.startedAt;
+    const minutes = data.minutes ?? entry.minutes;
+    const endedAt = changesTime
+      ? this.validateEntryPeriod(startedAt, minutes)
+      : entry.endedAt;
+
+    return prisma.$transaction(async (tx) => {
+      const timesheet = await this.lockTimesheet(tx, entry.timesheetId);
+      if (timesheet.status !== TimesheetStatus.OPEN) {
+        throw this.timesheetClosed();
+      }
+
+      if (changesTime) {
+        if (weekStartOf(startedAt).getTime() !== timesheet.weekStart.getTime()) {
+          throw new DomainError(
+            "A time entry cannot be moved to another week",
+            "INVALID_TIME_ENTRY_UPDATE",
+            400
+          );
+        }
+        await this.validateWithinCap(tx, contract, timesheet.id, minutes, entry.id);
+      }
+
+      return tx.timeEntry.update({
+        where: { id: entryId },
+        data: {
+          description: data.description,
+          startedAt,
+          endedAt,
+          minutes,
+        },
+      });
+    });
+  }
+
+  public async deleteEntry(entryId: string, userId: string): Promise<TimeEntry> {
+    const { entry } = await this.getEntryContext(entryId, userId, "FREELANCER");
+
+    return prisma.$transaction(async (tx) => {
+      const timesheet = await this.lockTimesheet(tx, entry.timesheetId);
+      if (timesheet.status !== TimesheetStatus.OPEN) {
+        throw this.timesheetClosed();
+      }
+
+      return tx.timeEntry.delete({ where: { id: entryId } });
+    });
+  }
+
+  public async getTimesheets(
+    contractId: string,
+    userId: string
+  ): Promise<Timesheet[]> {
+    await this.getHourlyContract(contractId, userId);
+
+    return prisma.timesheet.findMany({
+      where: { contractId },
+      include: { entries: { orderBy: { startedAt: "asc" } } },
+      orderBy: { weekStart: "desc" },
+    });
+  }
+
+  // The client reviews entries of a closed week until its review window ends
+  public async reviewEntry(
+    entryId: string,
+    userId: string,
+    data: ReviewEntryDTO
+  ): Promise<TimeEntry> {
+    const { entry } = await this.getEntryContext(entryId, userId, "CLIENT");
+
+    return prisma.$transaction(async (tx) => {
+      const timesheet = await this.lockTimesheet(tx, entry.timesheetId);
+      if (
+        timesheet.status !== TimesheetStatus.IN_REVIEW ||
+        !timesheet.reviewEndsAt ||
+        timesheet.reviewEndsAt <= new Date()
+      ) {
+        throw new DomainError(
+          "Time entries can only be reviewed during the review window of a closed week",
+          "TIMESHEET_NOT_IN_REVIEW",
+          409
+        );
+      }
+
+      return tx.timeEntry.update({
+        where: { id: entryId },
+        data: {
+          status: data.approve
+            ? TimeEntryStatus.APPROVED
+            : TimeEntryStatus.REJECTED,
+          rejectionReason: data.approve ? null : data.reason,
+          reviewedAt: new Date(),
+        },
+      });
+    });
+  }
+
+  // Ends the review window early and bills the week right away
+  public async approveTimesheet(
+    timesheetId: string,
+    userId: string
+  ): Promise<Timesheet> {
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id: timesheetId },
+    });
+    if (!timesheet) {
+      throw new DomainError("Timesheet not found", "TIMESHEET_NOT_FOUND", 404);
+    }
+
+    const contract = await this.getHourlyContract(timesheet.contractId, userId);
+    ContractValidator.validateClientOnly(contract, userId);
+
+    const now = new Date();
+    const { count } = await prisma.timesheet.updateMany({
+      where: {
+        id: timesheetId,
+        status: TimesheetStatus.IN_REVIEW,
+        reviewEndsAt: { gt: now },
+      },
+      data: { reviewEndsAt: now },
+    });
+    if (count === 0) {
+      throw new DomainError(
+        "Only timesheets in review can be approved",
+        "TIMESHEET_NOT_IN_REVIEW",
+        409
+      );
+    }
+
+    await this.billTimesheet(timesheetId);
+    return prisma.timesheet.findUniqueOrThrow({ where: { id: timesheetId } });
+  }
+
+  // Review window over, or an abandoned claim
+  private dueForBilling(now: Date): Prisma.TimesheetWhereInput {
+    return {
+      OR: [
+        { status: TimesheetStatus.IN_REVIEW, reviewEndsAt: { lte: now } },
+        {
+          status: TimesheetStatus.BILLING,
+          updatedAt: { lt: new Date(now.getTime() - STALE_BILLING_MS) },
+        },
+      ],
+    };
+  }
+
+  // A failed charge whose backoff has passed
+  private dueForRetry(now: Date): Prisma.TimesheetWhereInput {
+    return {
+      status: TimesheetStatus.PAYMENT_FAILED,
+      nextBillingAt: { lte: now },
+    };
+  }
+
+  // Bills one due timesheet; returns null when another run already claimed it
+  private async billTimesheet(timesheetId: string): Promise<Timesheet | null> {
+    const now = new Date();
+
+    const claimed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.timesheet.updateMany({
+        where: {
+          id: timesheetId,
+          OR: [this.dueForBilling(now), this.dueForRetry(now)],
+        },
+        data: { status: TimesheetStatus.BILLING, failureReason: null },
+      });
+      if (count === 0) return null;
+
+      const timesheet = await tx.timesheet.findUniqueOrThrow({
+        where: { id: timesheetId },
+        include: { contract: true },
+      });
+      const { _sum } = await tx.timeEntry.aggregate({
+        where: { timesheetId, status: { not: TimeEntryStatus.REJECTED } },
+        _sum: { minutes: true },
+      });
+
+      const billedMinutes = _sum.minutes ?? 0;
+      // the rate is snapshotted on the first attempt so retries bill the same amount
+      const hourlyRate = money(
+        timesheet.hourlyRate ?? timesheet.contract.hourlyRate ?? 0,
+        timesheet.contract.currency
+      );
+
+      return tx.timesheet.update({
+        where: { id: timesheetId },
+        data: {
+          billedMinutes,
+          hourlyRate: hourlyRate.amount,
+          amount: multiplyMoney(hourlyRate, billedMinutes / 60).amount,
+        },
+      });
+    });
+
+    if (!claimed) return null;
+
+    try {
+      const billing =
+        claimed.amount && claimed.amount > 0
+          ? await this.escrowClient.billTimesheet(timesheetId)
+          : null;
+
+      const billedAt = new Date();
+      const [, timesheet] = await prisma.$transaction([
+        prisma.timeEntry.updateMany({
+          where: { timesheetId, status: TimeEntryStatus.PENDING },
+          data: { status: TimeEntryStatus.APPROVED, reviewedAt: billedAt },
+        }),
+        prisma.timesheet.update({
+          where: { id: timesheetId },
+          data: {
+            status: TimesheetStatus.BILLED,
+            escrowTransactionId: billing?.escrowTransaction.id,
+            nextBillingAt: null,
+            billedAt,
+          },
+        }),
+      ]);
+      return timesheet;
+    } catch (err) {
+      // escrow billing is idempotent, so a later run simply retries
+      const attempts = claimed.billingAttempts + 1;
+      const nextBillingAt = new Date(
+        Date.now() +
+          Math.min(
+            BILLING_RETRY_BASE_MS * 2 ** (attempts - 1),
+            BILLING_RETRY_MAX_MS
+          )
+      );
+      logger.warn(
+        `[TimeTrackingService] Billing of timesheet ${timesheetId} failed (attempt ${attempts}), retrying at ${nextBillingAt.toISOString()}`,
+        err
+      );
+      return prisma.timesheet.update({
+        where: { id: timesheetId },
+        data: {
+          status: TimesheetStatus.PAYMENT_FAILED,
+          failureReason: err instanceof Error ? err.message : String(err),
+          billingAttempts: attempts,
+          nextBillingAt,
+        },
+      });
+    }
+  }
+
+  // Closes weeks that have ended: running timers stop at the week end and
+  // the client's review window starts
+  private async closeEndedWeeks(now: Date): Promise<number> {
+    const ended = await prisma.timesheet.findMany({
+      where: { status: TimesheetStatus.OPEN, weekEnd: { lte: now } },
+      include: { contract: true },
+      take: BILLING_BATCH_SIZE,
+    });
+
+    let closed = 0;
+    for (const { contract, ...timesheet } of ended) {
+      await prisma.$transaction(async (tx) => {
+        const locked = await this.lockTimesheet(tx, timesheet.id);
+        if (locked.status !== TimesheetStatus.OPEN) return;
+
+        const running = await tx.timeEntry.findMany({
+          where: { timesheetId: timesheet.id, endedAt: null },
+        });
+        for (const entry of running) {
+          await this.closeRunningEntry(tx, contract, entry, locked.weekEnd);
+        }
+
+        await tx.timesheet.update({
+          where: { id: timesheet.id },
+          data: {
+            status: TimesheetStatus.IN_REVIEW,
+            reviewEndsAt: addDays(locked.weekEnd, REVIEW_WINDOW_DAYS),
+          },
+        });
+        closed++;
+      });
+    }
+    return closed;
+  }
+
+  /**
+   * One billing run: closes ended weeks, then bills every week whose review
+   * window is over (and abandoned billings), and retries failed billings
+   * whose backoff has passed. Retries get their own batch so they never hold
+   * back new weeks.
+   */
+  public async processDueTimesheets(): Promise<BillingRunResult> {
+    const now = new Date();
+    const closed = await this.closeEndedWeeks(now);
+
+    const due = await prisma.timesheet.findMany({
+      where: this.dueForBilling(now),
+      select: { id: true },
+      orderBy: { weekStart: "asc" },
+      take: BILLING_BATCH_SIZE,
+    });
+    const retries = await prisma.timesheet.findMany({
+      where: this.dueForRetry(now),
+      select: { id: true },
+      orderBy: { nextBillingAt: "asc" },
+      take: BILLING_BATCH_SIZE,
+    });
+
+    let billed = 0;
+    let failed = 0;
+    for (const { id } of [...due, ...retries]) {
+      const timesheet = await this.billTimesheet(id);
+      if (timesheet?.status === TimesheetStatus.BILLED) billed++;
+      if (timesheet?.status === TimesheetStatus.PAYMENT_FAILED) failed++;
+    }
+
+    return { closed, billed, failed };
+  }
+}
+
+export default TimeTrackingService;
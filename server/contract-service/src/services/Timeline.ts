@@ -0,0 +1,152 @@
+import { prisma } from "@rizlax/db-client";
+import { ContractActorRole, ContractEventType, Prisma } from "@prisma/client";
+import type { Contract, ContractEvent } from "@prisma/client";
+import { DomainError } from "@rizlax/common-middleware";
+import type z from "zod";
+import type { timelineAttachmentSchema } from "../validators/Timeline.ts";
+
+export type TimelineAttachment = z.infer<typeof timelineAttachmentSchema>;
+
+// Optional context a user can attach to any transition
+export interface TimelineDetails {
+  note?: string;
+  attachments?: TimelineAttachment[];
+}
+
+export interface TimelineActor {
+  id: string | null; // null for system actions
+  role: ContractActorRole;
+}
+
+export interface RecordEventInput extends TimelineDetails {
+  contractId: string;
+  milestoneId?: string;
+  actor: TimelineActor;
+  type: ContractEventType;
+  fromStatus?: string;
+  toStatus?: string;
+  metadata?: Prisma.InputJsonObject;
+}
+
+export interface TimelineQuery {
+  milestoneId?: string;
+  page: number;
+  limit: number;
+}
+
+export type TimelineEvent = ContractEvent & {
+  actor: { id: string; name: string } | null;
+};
+
+export interface TimelineResponse {
+  events: TimelineEvent[];
+  pagination: { page: number; limit: number; total: number; pages: number };
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+export const SYSTEM_ACTOR: TimelineActor = {
+  id: null,
+  role: ContractActorRole.SYSTEM,
+};
+
+/**
+ * Append-only history of contracts and their milestones. Events are written
+ * with the same transaction client as the change they describe, so a
+ * transition and its event are committed (or rolled back) together.
+ */
+class TimelineService {
+  public actorFor(
+    contract: Pick<Contract, "clientId" | "freelancerId">,
+    userId: string
+  ): TimelineActor {
+    if (contract.clientId === userId) {
+      return { id: userId, role: ContractActorRole.CLIENT };
+    }
+    if (contract.freelancerId === userId) {
+      return { id: userId, role: ContractActorRole.FREELANCER };
+    }
+    // only admins get past the access checks without being a party
+    return { id: userId, role: ContractActorRole.ADMIN };
+  }
+
+  public async record(
+    tx: TransactionClient,
+    input: RecordEventInput
+  ): Promise<ContractEvent> {
+    return tx.contractEvent.create({
+      data: {
+        contractId: input.contractId,
+        milestoneId: input.milestoneId,
+        actorId: input.actor.id,
+        actorRole: input.actor.role,
+        type: input.type,
+        fromStatus: input.fromStatus,
+        toStatus: input.toStatus,
+        note: input.note,
+        attachments: input.attachments?.length ? input.attachments : undefined,
+        metadata: input.metadata,
+      },
+    });
+  }
+
+  public async getContractTimeline(
+    contractId: string,
+    userId: string,
+    userRole: string | undefined,
+    query: TimelineQuery
+  ): Promise<TimelineResponse> {
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+      select: { clientId: true, freelancerId: true },
+    });
+    if (!contract) {
+      throw new DomainError("Contract not found", "CONTRACT_NOT_FOUND", 404);
+    }
+
+    const isParty =
+      contract.clientId === userId || contract.freelancerId === userId;
+    if (!isParty && userRole !== "ADMIN") {
+      throw new DomainError("Access denied", "ACCESS_DENIED", 403);
+    }
+
+    const where: Prisma.ContractEventWhereInput = {
+      contractId,
+      ...(query.milestoneId ? { milestoneId: query.milestoneId } : {}),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.contractEvent.findMany({
+        where,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.contractEvent.count({ where }),
+    ]);
+
+    const actorIds = [
+      ...new Set(events.map((e) => e.actorId).filter((id) => id !== null)),
+    ] as string[];
+    const actors = await prisma.user.findMany({
+      where: { id: { in: actorIds } },
+      select: { id: true, name: true },
+    });
+    const actorsById = new Map(actors.map((a) => [a.id, a]));
+
+    return {
+      events: events.map((event) => ({
+        ...event,
+        actor: event.actorId ? actorsById.get(event.actorId) ?? null : null,
+      })),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit),
+      },
+    };
+  }
+}
+
+export default TimelineService;
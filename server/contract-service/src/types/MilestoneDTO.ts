@@ -2,6 +2,14 @@ export interface MilestoneDTO {
   contractId: string;
   title: string;
   description: string;
-  amount: number;
+  amount: number; // major units of the contract currency, e.g. 12.5
   dueDate: Date;
-}
\ No newline at end of file
+  revisionLimit?: number; // revision requests the client may make, default 2
+}
+
+// one deliverable version: files (uploaded to R2), links and a note
+export interface MilestoneSubmissionDTO {
+  note?: string;
+  links: string[];
+  files: Express.Multer.File[];
+}
@@ -0,0 +1,14 @@
+import multer from "multer";
+
+const MAX_FILE_SIZE_MB = parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB || "25", 10);
+
+// Multipart uploads kept in memory and pushed to R2 by the services
+export const uploadFiles = (field: string, maxCount: number) =>
+  multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_FILE_SIZE_MB * 1024 * 1024, files: maxCount },
+  }).array(field, maxCount);
+
+// R2 keys keep the original name readable but never trust it as a path
+export const safeFileName = (name: string) =>
+  name.replace(/[^\w.\-]+/g, "_").slice(-120);
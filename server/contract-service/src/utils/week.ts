@@ -0,0 +1,18 @@
+// Billing weeks run Monday 00:00 UTC to the next Monday 00:00 UTC (exclusive)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const weekStartOf = (date: Date): Date => {
+  const start = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  // getUTCDay: 0 = Sunday ... 6 = Saturday
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  return new Date(start.getTime() - daysSinceMonday * DAY_MS);
+};
+
+export const weekEndOf = (date: Date): Date =>
+  new Date(weekStartOf(date).getTime() + 7 * DAY_MS);
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getTime() + days * DAY_MS);
@@ -0,0 +1,6 @@
+import z from "zod";
+
+export const signAgreementSchema = z.object({
+  // sha256 of the PDF the party was shown
+  documentHash: z.string().regex(/^[a-f0-9]{64}$/, "Invalid document hash"),
+});
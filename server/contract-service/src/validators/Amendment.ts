@@ -0,0 +1,85 @@
+import z from "zod";
+import { MAX_REVISION_LIMIT } from "./Milestone.ts";
+
+const dateSchema = z.string().transform((d, ctx) => {
+  const parsed = new Date(d);
+  if (isNaN(parsed.getTime())) {
+    ctx.addIssue({ code: "custom", message: "Invalid date format" });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+// amounts are major units of the contract currency, like everywhere else
+const addedMilestoneSchema = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().optional(),
+  amount: z.number().min(10),
+  dueDate: dateSchema,
+  revisionLimit: z.number().int().min(0).max(MAX_REVISION_LIMIT).optional(),
+});
+
+const updatedMilestoneSchema = z.object({
+  milestoneId: z.string().uuid(),
+  title: z.string().min(1).max(255).optional(),
+  description: z.string().optional(),
+  amount: z.number().min(10).optional(),
+  dueDate: dateSchema.optional(),
+});
+
+export const proposeAmendmentSchema = z
+  .object({
+    contractId: z.string().uuid(),
+    reason: z.string().trim().min(1).max(5000).optional(),
+    newAmount: z.number().min(50).optional(),
+    newEndDate: dateSchema.optional(),
+    milestones: z
+      .object({
+        add: z.array(addedMilestoneSchema).max(20).default([]),
+        update: z.array(updatedMilestoneSchema).max(50).default([]),
+        remove: z.array(z.string().uuid()).max(50).default([]),
+      })
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.newAmount !== undefined ||
+      data.newEndDate !== undefined ||
+      (data.milestones !== undefined &&
+        data.milestones.add.length +
+          data.milestones.update.length +
+          data.milestones.remove.length >
+          0),
+    { message: "The amendment does not change anything" }
+  );
+
+// What the amendment stores (ContractAmendment.milestoneChanges): minor units, ISO dates
+export const storedMilestoneChangesSchema = z.object({
+  add: z.array(
+    z.object({
+      title: z.string(),
+      description: z.string().optional(),
+      amount: z.number().int().positive(),
+      dueDate: z.string(),
+      revisionLimit: z.number().int().optional(),
+    })
+  ),
+  update: z.array(
+    z.object({
+      milestoneId: z.string(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      amount: z.number().int().positive().optional(),
+      dueDate: z.string().optional(),
+    })
+  ),
+  remove: z.array(z.string()),
+});
+
+export type StoredMilestoneChanges = z.infer<
+  typeof storedMilestoneChangesSchema
+>;
+
+export const amendmentResponseSchema = z.object({
+  note: z.string().trim().min(1).max(5000).optional(),
+});
@@ -1,4 +1,4 @@
-import DomainError from "common-middleware/src/DomainError.ts";
+import { DomainError } from "@rizlax/common-middleware";
 import { Prisma, PrismaClient } from "@prisma/client";
 
 type Contract = Prisma.ContractGetPayload<{}>;
@@ -15,6 +15,14 @@ export class ContractValidator {
   }
 
   public static validateContractStatus(contract: Contract): void {
+    // milestone work waits until the contract is resumed
+    if (contract.status === "PAUSED") {
+      throw new DomainError(
+        "Contract is paused, resume it first",
+        "CONTRACT_PAUSED",
+        409
+      );
+    }
     if (contract.status !== "ACTIVE" && contract.status !== "PENDING") {
       throw new DomainError(
         "Contract is not in valid state",
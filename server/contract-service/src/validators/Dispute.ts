@@ -0,0 +1,40 @@
+import z from "zod";
+import { DisputeOutcome, DisputeReason, DisputeStatus } from "@prisma/client";
+
+export const openDisputeSchema = z.object({
+  contractId: z.string().uuid(),
+  // omitted for a dispute over the whole contract
+  milestoneId: z.string().uuid().optional(),
+  reason: z.nativeEnum(DisputeReason),
+  description: z.string().trim().min(20).max(5000),
+});
+
+// files come as multipart "files", the message as a form field
+export const disputeEvidenceSchema = z.object({
+  message: z.string().trim().min(1).max(5000).optional(),
+});
+
+export const resolveDisputeSchema = z
+  .object({
+    outcome: z.nativeEnum(DisputeOutcome),
+    // share of the held amount released to the freelancer, SPLIT only
+    releasePercent: z.number().int().min(1).max(99).optional(),
+    note: z.string().trim().min(1).max(5000),
+  })
+  .refine(
+    (data) =>
+      (data.outcome === DisputeOutcome.SPLIT) ===
+      (data.releasePercent !== undefined),
+    {
+      message: "releasePercent is required for SPLIT and only allowed for it",
+      path: ["releasePercent"],
+    }
+  );
+
+export const disputeQueueQuerySchema = z.object({
+  status: z
+    .enum([DisputeStatus.UNDER_REVIEW, DisputeStatus.RESOLVING])
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
@@ -1,8 +1,37 @@
 import type { MilestoneDTO } from "../types/MilestoneDTO.ts";
-import DomainError from "common-middleware/src/DomainError.ts";
+import { DomainError } from "@rizlax/common-middleware";
+import { hasValidPrecision } from "@rizlax/money";
+
+export const MAX_REVISION_LIMIT = 10;
 
 export class MilestoneValidator {
-  public static validateMilestoneData(data: MilestoneDTO): void {
+  // rounding a milestone amount would make escrow hold a different sum
+  public static validateAmountPrecision(amount: number, currency: string): void {
+    if (!hasValidPrecision(amount, currency)) {
+      throw new DomainError(
+        `Milestone amount has too many decimals for ${currency}`,
+        "INVALID_AMOUNT",
+        400
+      );
+    }
+  }
+
+  public static validateRevisionLimit(revisionLimit?: number): void {
+    if (
+      revisionLimit !== undefined &&
+      (!Number.isInteger(revisionLimit) ||
+        revisionLimit < 0 ||
+        revisionLimit > MAX_REVISION_LIMIT)
+    ) {
+      throw new DomainError(
+        `Revision limit must be a whole number between 0 and ${MAX_REVISION_LIMIT}`,
+        "INVALID_REVISION_LIMIT",
+        400
+      );
+    }
+  }
+
+  public static validateMilestoneData(data: MilestoneDTO, currency: string): void {
     if (data.amount <= 0) {
       throw new DomainError(
         "Milestone amount must be greater than 0",
@@ -11,6 +40,9 @@ export class MilestoneValidator {
       );
     }
 
+    MilestoneValidator.validateAmountPrecision(data.amount, currency);
+    MilestoneValidator.validateRevisionLimit(data.revisionLimit);
+
     if (data.dueDate < new Date()) {
       throw new DomainError(
         "Milestone due date must be in the future",
@@ -20,7 +52,10 @@ export class MilestoneValidator {
     }
   }
 
-  public static validatePartialMilestoneData(data: Partial<MilestoneDTO>): void {
+  public static validatePartialMilestoneData(
+    data: Partial<MilestoneDTO>,
+    currency: string
+  ): void {
     if (data.amount !== undefined && data.amount <= 0) {
       throw new DomainError(
         "Milestone amount must be greater than 0",
@@ -29,6 +64,12 @@ export class MilestoneValidator {
       );
     }
 
+    if (data.amount !== undefined) {
+      MilestoneValidator.validateAmountPrecision(data.amount, currency);
+    }
+
+    MilestoneValidator.validateRevisionLimit(data.revisionLimit);
+
     if (data.dueDate !== undefined && data.dueDate < new Date()) {
       throw new DomainError(
         "Milestone due date must be in the future",
@@ -0,0 +1,32 @@
+import z from "zod";
+import { ReviewDirection } from "@prisma/client";
+
+// sub-rating categories each side rates the other on
+export const REVIEW_CATEGORIES: Record<ReviewDirection, readonly string[]> = {
+  [ReviewDirection.CLIENT_TO_FREELANCER]: [
+    "quality",
+    "communication",
+    "expertise",
+    "deadlines",
+    "professionalism",
+  ],
+  [ReviewDirection.FREELANCER_TO_CLIENT]: [
+    "communication",
+    "requirements",
+    "payment",
+    "professionalism",
+  ],
+};
+
+const ratingSchema = z.number().int().min(1).max(5);
+
+export const submitReviewSchema = z.object({
+  rating: ratingSchema,
+  subRatings: z.record(z.string(), ratingSchema).default({}),
+  feedback: z.string().trim().min(1).max(5000).optional(),
+});
+
+export const reviewListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
@@ -0,0 +1,52 @@
+import z from "zod";
+import { MAX_REVISION_LIMIT } from "./Milestone.ts";
+
+// hundredths of a percent, so 33.33 + 33.33 + 33.34 adds up exactly
+export const toBasisPoints = (percentage: number): number =>
+  Math.round(percentage * 100);
+
+const templateMilestoneSchema = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().optional(),
+  percentage: z
+    .number()
+    .gt(0)
+    .max(100)
+    .refine(
+      (p) => Math.abs(p * 100 - toBasisPoints(p)) < 1e-9,
+      "At most 2 decimals"
+    ),
+  // days after the plan is applied (or its start date)
+  dueInDays: z.number().int().min(1).max(3650),
+  revisionLimit: z.number().int().min(0).max(MAX_REVISION_LIMIT).optional(),
+});
+
+export const templateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(5000).optional(),
+  milestones: z
+    .array(templateMilestoneSchema)
+    .min(1)
+    .max(50)
+    .refine(
+      (milestones) =>
+        milestones.reduce((sum, m) => sum + toBasisPoints(m.percentage), 0) ===
+        10000,
+      "Milestone percentages must add up to 100"
+    ),
+});
+
+export const applyTemplateSchema = z.object({
+  contractId: z.string().uuid(),
+  startDate: z
+    .string()
+    .transform((d, ctx) => {
+      const parsed = new Date(d);
+      if (isNaN(parsed.getTime())) {
+        ctx.addIssue({ code: "custom", message: "Invalid date format" });
+        return z.NEVER;
+      }
+      return parsed;
+    })
+    .optional(),
+});
@@ -0,0 +1,20 @@
+import z from "zod";
+
+export const timelineAttachmentSchema = z.object({
+  name: z.string().min(1).max(255),
+  url: z.string().url(),
+});
+
+// Optional note and attachments sent with any contract or milestone action
+export const timelineDetailsSchema = z
+  .object({
+    note: z.string().trim().min(1).max(2000).optional(),
+    attachments: z.array(timelineAttachmentSchema).max(10).optional(),
+  })
+  .default({});
+
+export const timelineQuerySchema = z.object({
+  milestoneId: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
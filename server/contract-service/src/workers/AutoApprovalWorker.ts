@@ -0,0 +1,32 @@
+import IntervalWorker from "./IntervalWorker.ts";
+import AutoApprovalService from "../services/AutoApproval.ts";
+
+/**
+ * AutoApprovalWorker: runs AutoApprovalService.processDue
+ * every AUTO_APPROVAL_INTERVAL_MINUTES minutes (default 60).
+ */
+class AutoApprovalWorker extends IntervalWorker {
+  private autoApprovalService: AutoApprovalService;
+
+  constructor(
+    autoApprovalService: AutoApprovalService,
+    intervalMinutes?: number
+  ) {
+    super(
+      "AutoApprovalWorker",
+      "AUTO_APPROVAL_INTERVAL_MINUTES",
+      60,
+      intervalMinutes
+    );
+    this.autoApprovalService = autoApprovalService;
+  }
+
+  protected async run(): Promise<string | null> {
+    const { warned, approved, failed } =
+      await this.autoApprovalService.processDue();
+    if (warned + approved + failed === 0) return null;
+    return `warned ${warned}, auto-approved ${approved}, failed ${failed}.`;
+  }
+}
+
+export default AutoApprovalWorker;
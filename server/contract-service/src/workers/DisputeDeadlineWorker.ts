@@ -0,0 +1,28 @@
+import IntervalWorker from "./IntervalWorker.ts";
+import DisputeService from "../services/Dispute.ts";
+
+/**
+ * DisputeDeadlineWorker: runs DisputeService.escalateOverdue
+ * every DISPUTE_DEADLINE_INTERVAL_MINUTES minutes (default 15).
+ */
+class DisputeDeadlineWorker extends IntervalWorker {
+  private disputeService: DisputeService;
+
+  constructor(disputeService: DisputeService, intervalMinutes?: number) {
+    super(
+      "DisputeDeadlineWorker",
+      "DISPUTE_DEADLINE_INTERVAL_MINUTES",
+      15,
+      intervalMinutes
+    );
+    this.disputeService = disputeService;
+  }
+
+  protected async run(): Promise<string | null> {
+    const escalated = await this.disputeService.escalateOverdue();
+    if (escalated === 0) return null;
+    return `escalated ${escalated} dispute(s) to arbitration.`;
+  }
+}
+
+export default DisputeDeadlineWorker;
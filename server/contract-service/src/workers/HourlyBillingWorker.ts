@@ -0,0 +1,32 @@
+import IntervalWorker from "./IntervalWorker.ts";
+import TimeTrackingService from "../services/TimeTracking.ts";
+
+/**
+ * HourlyBillingWorker: runs TimeTrackingService.processDueTimesheets
+ * every HOURLY_BILLING_INTERVAL_MINUTES minutes (default 60).
+ */
+class HourlyBillingWorker extends IntervalWorker {
+  private timeTrackingService: TimeTrackingService;
+
+  constructor(
+    timeTrackingService: TimeTrackingService,
+    intervalMinutes?: number
+  ) {
+    super(
+      "HourlyBillingWorker",
+      "HOURLY_BILLING_INTERVAL_MINUTES",
+      60,
+      intervalMinutes
+    );
+    this.timeTrackingService = timeTrackingService;
+  }
+
+  protected async run(): Promise<string | null> {
+    const { closed, billed, failed } =
+      await this.timeTrackingService.processDueTimesheets();
+    if (closed + billed + failed === 0) return null;
+    return `closed ${closed}, billed ${billed}, failed ${failed} timesheet(s).`;
+  }
+}
+
+export default HourlyBillingWorker;
@@ -0,0 +1,63 @@
+import logger from "@rizlax/logs";
+
+/**
+ * IntervalWorker: runs `run` every `intervalMinutes` minutes, falling back
+ * to the given env variable and then to the default. A run is skipped while
+ * the previous one is still going, and its failure is logged, not thrown.
+ */
+abstract class IntervalWorker {
+  private name: string;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    name: string,
+    intervalEnv: string,
+    defaultMinutes: number,
+    intervalMinutes?: number
+  ) {
+    this.name = name;
+    this.intervalMs =
+      (intervalMinutes ??
+        parseInt(process.env[intervalEnv] || String(defaultMinutes), 10)) *
+      60 *
+      1000;
+  }
+
+  // One run's work; returns a summary to log, or null when nothing was done
+  protected abstract run(): Promise<string | null>;
+
+  private async _tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const summary = await this.run();
+      if (summary) logger.info(`${this.name}: ${summary}`);
+    } catch (error) {
+      logger.error(`${this.name} run failed:`, { error });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  public start(): void {
+    if (this.timer) return;
+
+    void this._tick();
+    this.timer = setInterval(() => void this._tick(), this.intervalMs);
+    logger.info(
+      `${this.name} started (every ${this.intervalMs / 60000} minute(s)).`
+    );
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default IntervalWorker;
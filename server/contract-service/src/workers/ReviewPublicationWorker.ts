@@ -0,0 +1,28 @@
+import IntervalWorker from "./IntervalWorker.ts";
+import ReviewService from "../services/Review.ts";
+
+/**
+ * ReviewPublicationWorker: runs ReviewService.publishExpired
+ * every REVIEW_PUBLICATION_INTERVAL_MINUTES minutes (default 60).
+ */
+class ReviewPublicationWorker extends IntervalWorker {
+  private reviewService: ReviewService;
+
+  constructor(reviewService: ReviewService, intervalMinutes?: number) {
+    super(
+      "ReviewPublicationWorker",
+      "REVIEW_PUBLICATION_INTERVAL_MINUTES",
+      60,
+      intervalMinutes
+    );
+    this.reviewService = reviewService;
+  }
+
+  protected async run(): Promise<string | null> {
+    const published = await this.reviewService.publishExpired();
+    if (published === 0) return null;
+    return `published ${published} review(s).`;
+  }
+}
+
+export default ReviewPublicationWorker;
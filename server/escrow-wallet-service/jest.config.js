@@ -0,0 +1,21 @@
+/** @type {import("jest").Config} */
+export default {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.spec.ts"],
+  transform: {
+    "^.+\\.ts$": [
+      "ts-jest",
+      {
+        // الاختبارات تُشغّل كـ CommonJS حتى يعمل jest.mock مع مسارات .ts
+        tsconfig: {
+          module: "CommonJS",
+          moduleResolution: "Node",
+          target: "ES2022",
+          esModuleInterop: true,
+          isolatedModules: true,
+        },
+      },
+    ],
+  },
+};
@@ -4,25 +4,115 @@ import type { Request, Response, NextFunction } from "express";
 // افتراض أن مسارات الاستيراد لخدماتك هي ".."
 import WalletService from "../services/Wallet.ts";
 import EscrowService from "../services/Escrow.ts";
+import IdempotencyService from "../services/Idempotency.ts";
+import SettlementService from "../services/Settlement.ts";
+import WithdrawalService from "../services/Withdrawal.ts";
+import ClearingService from "../services/Clearing.ts";
+import ClearingPolicyService from "../services/ClearingPolicy.ts";
+import PlatformFeeService from "../services/PlatformFee.ts";
+import FxService from "../services/Fx.ts";
+import StatementService from "../services/Statement.ts";
+import ReconciliationService from "../services/Reconciliation.ts";
+import InvoiceService from "../services/Invoice.ts";
+import type { TransactionHistoryQuery } from "../services/Wallet.ts";
+import { SETTLEMENT_CURRENCY } from "../utils/currency.ts";
+import { hasValidPrecision, moneyFromMajor, toMinorUnits } from "@rizlax/money";
+import {
+  CountryCode,
+  DiscrepancyStatus,
+  ReconciliationSubject,
+  ReconciliationTrigger,
+  TransactionType,
+  TrustLevel,
+  WithdrawalStatus,
+} from "@prisma/client";
+import type { IdempotentResponse } from "../services/Idempotency.ts";
+import { statusFromErrorMessage } from "../utils/errorStatus.ts";
 
 interface IWalletService {
   initializeUserWallet: typeof WalletService.prototype.initializeUserWallet;
-  updatePendingBalance: typeof WalletService.prototype.updatePendingBalance;
   movePendingToAvailable: typeof WalletService.prototype.movePendingToAvailable;
-  processPayoutDeduction: typeof WalletService.prototype.processPayoutDeduction;
   getWallet: typeof WalletService.prototype.getWallet;
+  getTransactionHistory: typeof WalletService.prototype.getTransactionHistory;
 }
 
 interface IEscrowService {
   depositFunds: typeof EscrowService.prototype.depositFunds;
   releaseFunds: typeof EscrowService.prototype.releaseFunds;
   refundFunds: typeof EscrowService.prototype.refundFunds;
+  getEscrowAccountStatus: typeof EscrowService.prototype.getEscrowAccountStatus;
+  getContractCurrency: typeof EscrowService.prototype.getContractCurrency;
 }
 
+interface ISettlementService {
+  requestRefund: typeof SettlementService.prototype.requestRefund;
+  requestSplit: typeof SettlementService.prototype.requestSplit;
+  respondToSettlement: typeof SettlementService.prototype.respondToSettlement;
+  cancelSettlement: typeof SettlementService.prototype.cancelSettlement;
+  forceSettlement: typeof SettlementService.prototype.forceSettlement;
+  getSettlements: typeof SettlementService.prototype.getSettlements;
+}
+
+interface IWithdrawalService {
+  requestWithdrawal: typeof WithdrawalService.prototype.requestWithdrawal;
+  getMyWithdrawals: typeof WithdrawalService.prototype.getMyWithdrawals;
+  cancelWithdrawal: typeof WithdrawalService.prototype.cancelWithdrawal;
+  listWithdrawals: typeof WithdrawalService.prototype.listWithdrawals;
+  approveWithdrawal: typeof WithdrawalService.prototype.approveWithdrawal;
+  rejectWithdrawal: typeof WithdrawalService.prototype.rejectWithdrawal;
+}
+
+interface IClearingService {
+  getClearingSchedule: typeof ClearingService.prototype.getClearingSchedule;
+}
+
+interface IClearingPolicyService {
+  listPolicies: typeof ClearingPolicyService.prototype.listPolicies;
+  setPolicy: typeof ClearingPolicyService.prototype.setPolicy;
+  deletePolicy: typeof ClearingPolicyService.prototype.deletePolicy;
+}
+
+interface IPlatformFeeService {
+  createSchedule: typeof PlatformFeeService.prototype.createSchedule;
+  setFlatPercentage: typeof PlatformFeeService.prototype.setFlatPercentage;
+  listSchedules: typeof PlatformFeeService.prototype.listSchedules;
+  getContractCharges: typeof PlatformFeeService.prototype.getContractCharges;
+}
+
+interface IFxService {
+  setRate: typeof FxService.prototype.setRate;
+  listRates: typeof FxService.prototype.listRates;
+}
+
+interface IStatementService {
+  getMonthlyStatement: typeof StatementService.prototype.getMonthlyStatement;
+  toCsv: typeof StatementService.prototype.toCsv;
+  toPdf: typeof StatementService.prototype.toPdf;
+}
+
+interface IReconciliationService {
+  runReconciliation: typeof ReconciliationService.prototype.runReconciliation;
+  listRuns: typeof ReconciliationService.prototype.listRuns;
+  getRun: typeof ReconciliationService.prototype.getRun;
+  listDiscrepancies: typeof ReconciliationService.prototype.listDiscrepancies;
+  resolveDiscrepancy: typeof ReconciliationService.prototype.resolveDiscrepancy;
+}
+
+interface IInvoiceService {
+  getContractInvoices: typeof InvoiceService.prototype.getContractInvoices;
+  getInvoicePdf: typeof InvoiceService.prototype.getInvoicePdf;
+}
+
+interface IIdempotencyService {
+  claim: typeof IdempotencyService.prototype.claim;
+  run: typeof IdempotencyService.prototype.run;
+  complete: typeof IdempotencyService.prototype.complete;
+  release: typeof IdempotencyService.prototype.release;
+}
+
+// AuthGuard يضع معرف المستخدم في req.userId
 interface AuthRequest extends Request {
-  user: {
-    id: string;
-  };
+  userId: string;
   params: { [key: string]: string };
 }
 
@@ -32,27 +122,184 @@ interface AuthRequest extends Request {
 class FinanceController {
   private walletService: IWalletService;
   private escrowService: IEscrowService;
+  private settlementService: ISettlementService;
+  private withdrawalService: IWithdrawalService;
+  private clearingService: IClearingService;
+  private clearingPolicyService: IClearingPolicyService;
+  private platformFeeService: IPlatformFeeService;
+  private fxService: IFxService;
+  private statementService: IStatementService;
+  private reconciliationService: IReconciliationService;
+  private invoiceService: IInvoiceService;
+  private idempotencyService: IIdempotencyService;
 
-  constructor(walletService: IWalletService, escrowService: IEscrowService) {
+  constructor(
+    walletService: IWalletService,
+    escrowService: IEscrowService,
+    settlementService: ISettlementService,
+    withdrawalService: IWithdrawalService,
+    clearingService: IClearingService,
+    clearingPolicyService: IClearingPolicyService,
+    platformFeeService: IPlatformFeeService,
+    fxService: IFxService,
+    statementService: IStatementService,
+    reconciliationService: IReconciliationService,
+    invoiceService: IInvoiceService,
+    idempotencyService: IIdempotencyService
+  ) {
     this.walletService = walletService;
     this.escrowService = escrowService;
+    this.settlementService = settlementService;
+    this.withdrawalService = withdrawalService;
+    this.clearingService = clearingService;
+    this.clearingPolicyService = clearingPolicyService;
+    this.platformFeeService = platformFeeService;
+    this.fxService = fxService;
+    this.statementService = statementService;
+    this.reconciliationService = reconciliationService;
+    this.invoiceService = invoiceService;
+    this.idempotencyService = idempotencyService;
+  }
+
+  // قراءة مبلغ بالوحدة الأساسية للعملة من جسم الطلب وتحويله للوحدة الصغرى (0 مسموح فقط عند allowZero).
+  // مبالغ المحفظة بالدولار، ومبالغ الضمان كلها بعملة العقد.
+  // المبالغ بخانات عشرية أكثر مما تسمح به العملة مرفوضة بدلاً من تقريبها
+  private _parseAmount(
+    value: unknown,
+    currency: string,
+    allowZero = false
+  ): number | null {
+    if (value === undefined && allowZero) return 0;
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < 0 ||
+      (!allowZero && value === 0) ||
+      !hasValidPrecision(value, currency)
+    ) {
+      return null;
+    }
+    return toMinorUnits(value, currency);
+  }
+
+  // قراءة فلاتر سجل المعاملات من query (type, from, to, contractId, page, limit)
+  private _parseHistoryQuery(
+    query: Request["query"]
+  ): TransactionHistoryQuery | string {
+    const type = query.type as TransactionType | undefined;
+    if (type && !Object.values(TransactionType).includes(type)) {
+      return "Invalid type filter.";
+    }
+
+    const from = query.from ? new Date(query.from as string) : undefined;
+    const to = query.to ? new Date(query.to as string) : undefined;
+    if (
+      (from && Number.isNaN(from.getTime())) ||
+      (to && Number.isNaN(to.getTime()))
+    ) {
+      return "Invalid date range.";
+    }
+
+    return {
+      type,
+      from,
+      to,
+      contractId: (query.contractId as string) || undefined,
+      page: Math.max(parseInt(query.page as string, 10) || 1, 1),
+      limit: Math.min(Math.max(parseInt(query.limit as string, 10) || 20, 1), 100),
+    };
   }
 
-  // دالة مساعدة لتحويل مبالغ الدولار (Float) إلى وحدات أصغر (Integer/Cents)
-  private _toMinorUnits(amount: number): number {
-    // يجب ضرب المبلغ في 100 وتقريبه لضمان عدم وجود كسور عشرية في قاعدة البيانات (Prisma)
-    return Math.round(amount * 100);
+  /**
+   * تنفيذ عملية مالية مرة واحدة فقط لكل ترويسة Idempotency-Key.
+   * إعادة الطلب بنفس المفتاح ونفس البيانات تعيد الاستجابة الأصلية،
+   * وإعادة استخدام المفتاح لطلب مختلف تُرفض بـ 422.
+   * أخطاء 5xx لا تُخزن حتى يتمكن العميل من إعادة المحاولة بنفس المفتاح.
+   */
+  private async _runIdempotent(
+    req: AuthRequest,
+    res: Response,
+    operation: () => Promise<IdempotentResponse>
+  ): Promise<void> {
+    const key = req.header("Idempotency-Key");
+
+    if (!key || key.length > 255) {
+      res
+        .status(400)
+        .json({ message: "Missing or invalid Idempotency-Key header." });
+      return;
+    }
+
+    let claim;
+    try {
+      claim = await this.idempotencyService.claim({
+        key,
+        userId: req.userId,
+        method: req.method,
+        path: req.baseUrl + req.path,
+        body: req.body,
+      });
+    } catch (error) {
+      console.error("Error claiming idempotency key:", error);
+      res.status(500).json({ message: "Failed to process idempotency key." });
+      return;
+    }
+
+    if (claim.state === "CONFLICT") {
+      res.status(422).json({
+        message:
+          "Idempotency-Key has already been used with a different request.",
+      });
+      return;
+    }
+
+    if (claim.state === "IN_PROGRESS") {
+      res.status(409).json({
+        message: "A request with this Idempotency-Key is still being processed.",
+      });
+      return;
+    }
+
+    if (claim.state === "REPLAY") {
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(claim.response.statusCode).json(claim.response.body);
+      return;
+    }
+
+    const response = await this.idempotencyService.run(
+      claim.record.id,
+      operation
+    );
+
+    try {
+      if (response.statusCode >= 500) {
+        await this.idempotencyService.release(claim.record.id);
+      } else {
+        await this.idempotencyService.complete(claim.record.id, response);
+      }
+    } catch (error) {
+      console.error("Error storing idempotent response:", error);
+    }
+
+    res.status(response.statusCode).json(response.body);
   }
 
   /**
-   * [GET] /api/finance/wallet
-   * يجلب الرصيد المتاح والمعلق للمستخدم المصدق.
+   * [GET] /api/finance/wallet?displayCurrency=EGP
+   * يجلب الرصيد المتاح والمعلق للمستخدم المصدق (مع نسخة بالعملة المحلية للعرض).
    */
   public async getWallet(req: AuthRequest, res: Response): Promise<void> {
-    const userId = req.user.id;
+    const userId = req.userId;
+    const displayCurrency =
+      typeof req.query.displayCurrency === "string"
+        ? req.query.displayCurrency.toUpperCase()
+        : undefined;
 
     try {
-      const wallet = await this.walletService.getWallet(userId);
+      const wallet = await this.walletService.getWallet(
+        userId,
+        displayCurrency
+      );
 
       if (!wallet) {
         res.status(404).json({ message: "Wallet not found for this user." });
@@ -70,78 +317,236 @@ class FinanceController {
   }
 
   /**
-   * [POST] /api/finance/pending/move
-   * ينقل مبلغًا من الرصيد المعلق إلى الرصيد القابل للسحب (بعد انتهاء فترة الحجز).
+   * [GET] /api/finance/transactions?type=RELEASE&from=2026-01-01&to=2026-02-01&contractId=...&page=1&limit=20
+   * سجل معاملات محفظة المستخدم المصدق (to غير مشمول).
    */
-  public async movePendingToAvailable(
+  public async getTransactionHistory(
     req: AuthRequest,
     res: Response
   ): Promise<void> {
-    const userId = req.user.id;
-    const { amount: dollarAmount } = req.body;
+    const query = this._parseHistoryQuery(req.query);
+    if (typeof query === "string") {
+      res.status(400).json({ message: query });
+      return;
+    }
 
-    if (typeof dollarAmount !== "number" || dollarAmount <= 0) {
-      res.status(400).json({ message: "Invalid or missing amount." });
+    try {
+      const history = await this.walletService.getTransactionHistory(
+        req.userId,
+        query
+      );
+      res.status(200).json(history);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve transactions.";
+      console.error("Error fetching transaction history:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/statements/:year/:month?format=json|csv|pdf
+   * كشف حساب شهري مع الرصيد الافتتاحي والختامي (المبالغ في json بالقرش).
+   */
+  public async getMonthlyStatement(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const year = parseInt(req.params.year, 10);
+    const month = parseInt(req.params.month, 10);
+    const format = ((req.query.format as string) || "json").toLowerCase();
+
+    if (!["json", "csv", "pdf"].includes(format)) {
+      res.status(400).json({ message: "Invalid format: use json, csv or pdf." });
       return;
     }
 
-    const amountInCents = this._toMinorUnits(dollarAmount);
+    try {
+      const statement = await this.statementService.getMonthlyStatement(
+        req.userId,
+        year,
+        month
+      );
+      const fileName = `statement-${year}-${String(month).padStart(2, "0")}`;
+
+      if (format === "csv") {
+        res
+          .status(200)
+          .type("text/csv")
+          .attachment(`${fileName}.csv`)
+          .send(this.statementService.toCsv(statement));
+        return;
+      }
+
+      if (format === "pdf") {
+        res
+          .status(200)
+          .type("application/pdf")
+          .attachment(`${fileName}.pdf`)
+          .send(this.statementService.toPdf(statement));
+        return;
+      }
+
+      res.status(200).json(statement);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to generate statement.";
+      console.error("Error generating statement:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
 
+  /**
+   * [GET] /api/finance/pending/schedule
+   * يعرض للمستقل مبالغ رصيده المعلق ومواعيد استحقاق كل منها.
+   */
+  public async getClearingSchedule(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
     try {
-      await this.walletService.movePendingToAvailable(userId, amountInCents);
-      res.status(200).json({
-        message: `Successfully moved $${dollarAmount.toFixed(
-          2
-        )} to available balance.`,
-      });
+      const schedule = await this.clearingService.getClearingSchedule(
+        req.userId
+      );
+      res.status(200).json(schedule);
     } catch (error) {
-      console.error("Error moving pending funds:", error);
-      // FIX: استخدام التحقق من النوع قبل الوصول إلى message
-      const errorMessage = error instanceof Error ? error.message : "Failed to move pending funds due to an unknown error.";
-      const statusCode = errorMessage.includes("Insufficient") ? 400 : 500;
-      res.status(statusCode).json({ message: errorMessage });
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve clearing schedule.";
+      console.error("Error fetching clearing schedule:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/admin/wallets/:userId/pending/move
+   * نقل يدوي من الرصيد المعلق إلى المتاح (للأرصدة التي ليس لها موعد استحقاق).
+   * باقي المبالغ ينقلها ClearingWorker تلقائياً عند حلول موعدها.
+   */
+  public async movePendingToAvailable(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { userId } = req.params;
+    const { amount: dollarAmount } = req.body;
+    const amountInCents = this._parseAmount(dollarAmount, SETTLEMENT_CURRENCY);
+
+    if (amountInCents === null) {
+      res.status(400).json({ message: "Invalid or missing amount." });
+      return;
     }
+
+    await this._runIdempotent(req, res, async () => {
+      try {
+        await this.walletService.movePendingToAvailable(userId, amountInCents);
+        return {
+          statusCode: 200,
+          body: {
+            message: `Successfully moved $${dollarAmount.toFixed(
+              2
+            )} to available balance.`,
+          },
+        };
+      } catch (error) {
+        console.error("Error moving pending funds:", error);
+        // FIX: استخدام التحقق من النوع قبل الوصول إلى message
+        const errorMessage = error instanceof Error ? error.message : "Failed to move pending funds due to an unknown error.";
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
   }
 
   /**
    * [POST] /api/finance/payout/request
-   * يشرع في عملية سحب الأموال (خصم المبلغ من الرصيد المتاح).
+   * ينشئ طلب سحب ويحجز المبلغ من الرصيد المتاح حتى يراجعه المشرف.
    */
   public async initiatePayout(req: AuthRequest, res: Response): Promise<void> {
-    const userId = req.user.id;
-    const { amount: dollarAmount, withdrawalId } = req.body;
+    const userId = req.userId;
+    const { amount: dollarAmount, method, payoutDetails } = req.body;
+    const amountInCents = this._parseAmount(dollarAmount, SETTLEMENT_CURRENCY);
 
     if (
-      typeof dollarAmount !== "number" ||
-      dollarAmount <= 0 ||
-      !withdrawalId
+      amountInCents === null ||
+      typeof method !== "string" ||
+      !payoutDetails ||
+      typeof payoutDetails !== "object"
     ) {
       res
         .status(400)
-        .json({ message: "Invalid amount or missing withdrawal ID." });
+        .json({ message: "Invalid amount, payout method or payout details." });
       return;
     }
 
-    const amountInCents = this._toMinorUnits(dollarAmount);
+    await this._runIdempotent(req, res, async () => {
+      try {
+        const withdrawal = await this.withdrawalService.requestWithdrawal(
+          userId,
+          { amount: amountInCents, method, payoutDetails }
+        );
+
+        return {
+          statusCode: 201,
+          body: {
+            message: `Withdrawal request of $${dollarAmount.toFixed(
+              2
+            )} submitted and funds reserved pending review.`,
+            withdrawal,
+          },
+        };
+      } catch (error) {
+        console.error("Error processing payout:", error);
+        // FIX: استخدام التحقق من النوع قبل الوصول إلى message
+        const errorMessage = error instanceof Error ? error.message : "Failed to process payout due to an unknown error.";
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
+  }
+
+  /**
+   * [GET] /api/finance/withdrawals
+   * يجلب طلبات السحب الخاصة بالمستقل المصدق.
+   */
+  public async getMyWithdrawals(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const withdrawals = await this.withdrawalService.getMyWithdrawals(
+        req.userId
+      );
+      res.status(200).json({ withdrawals });
+    } catch (error) {
+      console.error("Error fetching withdrawals:", error);
+      res.status(500).json({ message: "Failed to retrieve withdrawals." });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/withdrawals/:withdrawalId/cancel
+   * إلغاء طلب سحب ما زال بانتظار المراجعة وإعادة المبلغ المحجوز.
+   */
+  public async cancelWithdrawal(req: AuthRequest, res: Response): Promise<void> {
+    const { withdrawalId } = req.params;
 
     try {
-      await this.walletService.processPayoutDeduction(
-        userId,
-        amountInCents,
+      const withdrawal = await this.withdrawalService.cancelWithdrawal(
+        req.userId,
         withdrawalId
       );
-
-      res.status(200).json({
-        message: `Payout request of $${dollarAmount.toFixed(
-          2
-        )} accepted and funds deducted.`,
-      });
+      res
+        .status(200)
+        .json({ message: "Withdrawal request canceled.", withdrawal });
     } catch (error) {
-      console.error("Error processing payout:", error);
-      // FIX: استخدام التحقق من النوع قبل الوصول إلى message
-      const errorMessage = error instanceof Error ? error.message : "Failed to process payout due to an unknown error.";
-      const statusCode = errorMessage.includes("Insufficient") ? 400 : 500;
-      res.status(statusCode).json({ message: errorMessage });
+      const errorMessage = error instanceof Error ? error.message : "Failed to cancel withdrawal.";
+      console.error("Error canceling withdrawal:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
     }
   }
 
@@ -153,37 +558,43 @@ class FinanceController {
     req: AuthRequest,
     res: Response
   ): Promise<void> {
-    const userId = req.user.id; // يجب أن يكون عميل
+    const userId = req.userId; // يجب أن يكون عميل
     const { contractId } = req.params;
-    const { amount: dollarAmount } = req.body;
+    // المبلغ بعملة العقد (بالوحدة الأساسية)
+    const { amount } = req.body;
 
-    if (typeof dollarAmount !== "number" || dollarAmount <= 0) {
+    if (typeof amount !== "number" || amount <= 0) {
       res.status(400).json({ message: "Invalid deposit amount." });
       return;
     }
 
-    const amountInCents = this._toMinorUnits(dollarAmount);
+    await this._runIdempotent(req, res, async () => {
+      try {
+        const currency = await this.escrowService.getContractCurrency(
+          contractId
+        );
+        await this.escrowService.depositFunds(
+          userId,
+          contractId,
+          moneyFromMajor(amount, currency).amount
+        );
 
-    try {
-      await this.escrowService.depositFunds(userId, contractId, amountInCents);
-
-      res.status(200).json({
-        message: `Successfully deposited $${dollarAmount.toFixed(
-          2
-        )} into escrow for contract ${contractId}.`,
-      });
-    } catch (error) {
-      // FIX: استخدام التحقق من النوع قبل الوصول إلى message
-      const errorMessage = error instanceof Error ? error.message : "Failed to deposit funds due to an unknown error.";
-      console.error("Error depositing funds to escrow:", error);
-      // التعامل مع أخطاء الصلاحيات أو عدم كفاية رصيد العميل
-      const statusCode =
-        errorMessage.includes("Insufficient") ||
-        errorMessage.includes("Unauthorized")
-          ? 403
-          : 500;
-      res.status(statusCode).json({ message: errorMessage });
-    }
+        return {
+          statusCode: 200,
+          body: {
+            message: `Successfully deposited ${amount} ${currency} into escrow for contract ${contractId}.`,
+          },
+        };
+      } catch (error) {
+        // FIX: استخدام التحقق من النوع قبل الوصول إلى message
+        const errorMessage = error instanceof Error ? error.message : "Failed to deposit funds due to an unknown error.";
+        console.error("Error depositing funds to escrow:", error);
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
   }
 
   /**
@@ -194,40 +605,954 @@ class FinanceController {
     req: AuthRequest,
     res: Response
   ): Promise<void> {
-    const userId = req.user.id; // يجب أن يكون عميل
+    const userId = req.userId; // يجب أن يكون عميل
     const { contractId } = req.params;
-    const { amount: dollarAmount } = req.body;
+    // المبلغ بعملة العقد (بالوحدة الأساسية)
+    const { amount } = req.body;
 
-    if (typeof dollarAmount !== "number" || dollarAmount <= 0) {
+    if (typeof amount !== "number" || amount <= 0) {
       res.status(400).json({ message: "Invalid release amount." });
       return;
     }
 
-    const amountInCents = this._toMinorUnits(dollarAmount);
+    await this._runIdempotent(req, res, async () => {
+      try {
+        const currency = await this.escrowService.getContractCurrency(
+          contractId
+        );
+        await this.escrowService.releaseFunds(
+          userId,
+          contractId,
+          moneyFromMajor(amount, currency).amount
+        );
+
+        return {
+          statusCode: 200,
+          body: {
+            message: `Successfully released ${amount} ${currency} to freelancer's pending balance for contract ${contractId}.`,
+          },
+        };
+      } catch (error) {
+        // FIX: استخدام التحقق من النوع قبل الوصول إلى message
+        const errorMessage = error instanceof Error ? error.message : "Failed to release funds due to an unknown error.";
+        console.error("Error releasing funds from escrow:", error);
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
+  }
+
+  /**
+   * [POST] /api/finance/escrow/refund/:contractId
+   * طلب استرداد مبلغ من الضمان إلى العميل.
+   * طلب العميل يحتاج موافقة المستقل، وطلب المستقل يُنفذ مباشرة.
+   */
+  public async requestEscrowRefund(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const userId = req.userId;
+    const { contractId } = req.params;
+    // المبلغ بعملة العقد (بالوحدة الأساسية)
+    const { amount, reason } = req.body;
+
+    await this._runIdempotent(req, res, async () => {
+      try {
+        const currency = await this.escrowService.getContractCurrency(
+          contractId
+        );
+        const contractAmount = this._parseAmount(amount, currency);
+        if (contractAmount === null) {
+          return {
+            statusCode: 400,
+            body: { message: "Invalid refund amount." },
+          };
+        }
+
+        const settlement = await this.settlementService.requestRefund(
+          userId,
+          contractId,
+          contractAmount,
+          reason
+        );
+
+        return {
+          statusCode: settlement.status === "EXECUTED" ? 200 : 201,
+          body: {
+            message:
+              settlement.status === "EXECUTED"
+                ? `Successfully refunded ${amount} ${currency} to the client for contract ${contractId}.`
+                : "Refund request created and awaiting freelancer consent.",
+            settlement,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Failed to request refund due to an unknown error.";
+        console.error("Error requesting escrow refund:", error);
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
+  }
+
+  /**
+   * [POST] /api/finance/escrow/split/:contractId
+   * اقتراح تقسيم المبلغ المحجوز بين المستقل (releaseAmount) والعميل (refundAmount).
+   */
+  public async requestEscrowSplit(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const userId = req.userId;
+    const { contractId } = req.params;
+    // المبالغ بعملة العقد (بالوحدة الأساسية)
+    const { releaseAmount, refundAmount, reason } = req.body;
+
+    await this._runIdempotent(req, res, async () => {
+      try {
+        const currency = await this.escrowService.getContractCurrency(
+          contractId
+        );
+        const releaseInMinor = this._parseAmount(releaseAmount, currency);
+        const refundInMinor = this._parseAmount(refundAmount, currency);
+        if (releaseInMinor === null || refundInMinor === null) {
+          return {
+            statusCode: 400,
+            body: { message: "Invalid split amounts." },
+          };
+        }
+
+        const settlement = await this.settlementService.requestSplit(
+          userId,
+          contractId,
+          {
+            releaseAmount: releaseInMinor,
+            refundAmount: refundInMinor,
+            reason,
+          }
+        );
+
+        return {
+          statusCode: 201,
+          body: {
+            message: "Split settlement proposed and awaiting the other party's consent.",
+            settlement,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Failed to propose split due to an unknown error.";
+        console.error("Error requesting escrow split:", error);
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
+  }
+
+  /**
+   * [GET] /api/finance/escrow/settlements/:contractId
+   * جلب طلبات الاسترداد والتقسيم الخاصة بالعقد.
+   */
+  public async getEscrowSettlements(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const userId = req.userId;
+    const { contractId } = req.params;
+
+    try {
+      const settlements = await this.settlementService.getSettlements(
+        userId,
+        contractId
+      );
+      res.status(200).json({ settlements });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve settlements.";
+      console.error("Error fetching escrow settlements:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/escrow/fees/:contractId
+   * عمولات المنصة ورسوم المعالجة المحصلة في العقد مع نسخة جدول العمولات المستخدمة.
+   */
+  public async getContractFees(req: AuthRequest, res: Response): Promise<void> {
+    const { contractId } = req.params;
 
     try {
-      await this.escrowService.releaseFunds(userId, contractId, amountInCents);
+      const charges = await this.platformFeeService.getContractCharges(
+        req.userId,
+        contractId
+      );
+      res.status(200).json({ charges });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve contract fees.";
+      console.error("Error fetching contract fees:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/escrow/invoices/:contractId
+   * فواتير العميل وإيصالات المستقل وفواتير الرسوم الخاصة بالمستخدم في العقد.
+   */
+  public async getContractInvoices(req: AuthRequest, res: Response): Promise<void> {
+    const { contractId } = req.params;
 
+    try {
+      const invoices = await this.invoiceService.getContractInvoices(
+        req.userId,
+        contractId
+      );
       res.status(200).json({
-        message: `Successfully released $${dollarAmount.toFixed(
-          2
-        )} to freelancer's pending balance for contract ${contractId}.`,
+        invoices: invoices.map(({ pdfKey, ...invoice }) => ({
+          ...invoice,
+          hasPdf: pdfKey !== null,
+        })),
       });
     } catch (error) {
-      // FIX: استخدام التحقق من النوع قبل الوصول إلى message
-      const errorMessage = error instanceof Error ? error.message : "Failed to release funds due to an unknown error.";
-      console.error("Error releasing funds from escrow:", error);
-      // التعامل مع أخطاء الصلاحيات أو عدم كفاية رصيد Escrow
-      const statusCode =
-        errorMessage.includes("Insufficient") ||
-        errorMessage.includes("Unauthorized")
-          ? 403
-          : 500;
-      res.status(statusCode).json({ message: errorMessage });
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve invoices.";
+      console.error("Error fetching contract invoices:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/invoices/:invoiceId/pdf
+   * تحميل الفاتورة أو الإيصال كملف PDF.
+   */
+  public async downloadInvoice(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { invoice, pdf } = await this.invoiceService.getInvoicePdf(
+        req.userId,
+        req.params.invoiceId
+      );
+      res
+        .status(200)
+        .type("application/pdf")
+        .attachment(`${invoice.number}.pdf`)
+        .send(pdf);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to download invoice.";
+      console.error("Error downloading invoice:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/escrow/status/:contractId
+   * رصيد الضمان للعقد بالدولار وبعملة العقد (لأطراف العقد فقط).
+   */
+  public async getEscrowStatus(req: AuthRequest, res: Response): Promise<void> {
+    const { contractId } = req.params;
+
+    try {
+      const status = await this.escrowService.getEscrowAccountStatus(
+        contractId,
+        req.userId
+      );
+
+      if (!status) {
+        res
+          .status(404)
+          .json({ message: "Escrow account not found for this contract." });
+        return;
+      }
+
+      res.status(200).json(status);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve escrow status.";
+      console.error("Error fetching escrow status:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
     }
   }
 
-  // يمكن إضافة دالة refundFundsFromEscrow هنا أيضاً إذا لزم الأمر.
+  /**
+   * [POST] /api/finance/escrow/settlements/:settlementId/accept
+   * موافقة الطرف الآخر على طلب التسوية وتنفيذه.
+   */
+  public async acceptEscrowSettlement(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const userId = req.userId;
+    const { settlementId } = req.params;
+
+    await this._runIdempotent(req, res, async () => {
+      try {
+        const settlement = await this.settlementService.respondToSettlement(
+          settlementId,
+          userId,
+          true
+        );
+        return {
+          statusCode: 200,
+          body: { message: "Settlement accepted and executed.", settlement },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Failed to accept settlement due to an unknown error.";
+        console.error("Error accepting escrow settlement:", error);
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
+  }
+
+  /**
+   * [POST] /api/finance/escrow/settlements/:settlementId/reject
+   * رفض الطرف الآخر لطلب التسوية.
+   */
+  public async rejectEscrowSettlement(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const userId = req.userId;
+    const { settlementId } = req.params;
+
+    try {
+      const settlement = await this.settlementService.respondToSettlement(
+        settlementId,
+        userId,
+        false
+      );
+      res.status(200).json({ message: "Settlement rejected.", settlement });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to reject settlement.";
+      console.error("Error rejecting escrow settlement:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/escrow/settlements/:settlementId/cancel
+   * إلغاء طلب التسوية من قبل مقدمه.
+   */
+  public async cancelEscrowSettlement(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const userId = req.userId;
+    const { settlementId } = req.params;
+
+    try {
+      const settlement = await this.settlementService.cancelSettlement(
+        settlementId,
+        userId
+      );
+      res.status(200).json({ message: "Settlement canceled.", settlement });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to cancel settlement.";
+      console.error("Error canceling escrow settlement:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/admin/escrow/refund/:contractId
+   * استرداد يفرضه المشرف (كامل أو جزئي) ويُنفذ مباشرة. المبلغ بعملة العقد.
+   */
+  public async forceEscrowRefund(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    await this._forceSettlement(req, res, (currency) => {
+      const refundAmount = this._parseAmount(req.body.amount, currency);
+      return refundAmount === null
+        ? "Invalid refund amount."
+        : { releaseAmount: 0, refundAmount };
+    });
+  }
+
+  /**
+   * [POST] /api/finance/admin/escrow/split/:contractId
+   * تقسيم يفرضه المشرف بين المستقل (releaseAmount) والعميل (refundAmount). المبالغ بعملة العقد.
+   */
+  public async forceEscrowSplit(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    await this._forceSettlement(req, res, (currency) => {
+      const releaseAmount = this._parseAmount(
+        req.body.releaseAmount,
+        currency,
+        true
+      );
+      const refundAmount = this._parseAmount(
+        req.body.refundAmount,
+        currency,
+        true
+      );
+      return releaseAmount === null || refundAmount === null
+        ? "Invalid split amounts."
+        : { releaseAmount, refundAmount };
+    });
+  }
+
+  // parseAmounts تقرأ المبالغ بعملة العقد، أو ترجع رسالة الخطأ إذا كانت غير صالحة
+  private async _forceSettlement(
+    req: AuthRequest,
+    res: Response,
+    parseAmounts: (
+      currency: string
+    ) => { releaseAmount: number; refundAmount: number } | string
+  ): Promise<void> {
+    const adminId = req.userId;
+    const { contractId } = req.params;
+    const { reason } = req.body;
+
+    await this._runIdempotent(req, res, async () => {
+      try {
+        const currency = await this.escrowService.getContractCurrency(
+          contractId
+        );
+        const amounts = parseAmounts(currency);
+        if (typeof amounts === "string") {
+          return { statusCode: 400, body: { message: amounts } };
+        }
+
+        const settlement = await this.settlementService.forceSettlement(
+          adminId,
+          contractId,
+          { ...amounts, reason }
+        );
+        return {
+          statusCode: 200,
+          body: { message: "Settlement executed by admin.", settlement },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Failed to execute settlement due to an unknown error.";
+        console.error("Error forcing escrow settlement:", error);
+        return {
+          statusCode: statusFromErrorMessage(errorMessage),
+          body: { message: errorMessage },
+        };
+      }
+    });
+  }
+
+  // --- Admin: طلبات السحب (بصيغة { success, data } التي تتوقعها لوحة المشرف) ---
+
+  /**
+   * [GET] /api/finance/admin/withdrawals?status=&page=&limit=
+   */
+  public async listWithdrawals(req: AuthRequest, res: Response): Promise<void> {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100
+    );
+    const status = req.query.status as WithdrawalStatus | undefined;
+
+    if (status && !Object.values(WithdrawalStatus).includes(status)) {
+      res.status(400).json({ success: false, error: "Invalid status filter." });
+      return;
+    }
+
+    try {
+      const data = await this.withdrawalService.listWithdrawals({
+        status,
+        page,
+        limit,
+      });
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      console.error("Error listing withdrawals:", error);
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to retrieve withdrawals." });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/admin/users/:userId/transactions
+   * سجل معاملات محفظة مستخدم معين (نفس فلاتر سجل المستخدم).
+   */
+  public async getUserTransactions(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const query = this._parseHistoryQuery(req.query);
+    if (typeof query === "string") {
+      res.status(400).json({ success: false, error: query });
+      return;
+    }
+
+    try {
+      const data = await this.walletService.getTransactionHistory(
+        req.params.userId,
+        query
+      );
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve user transactions.";
+      console.error("Error fetching user transactions:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/admin/withdrawals/:withdrawalId/approve
+   * الموافقة على السحب وتنفيذ التحويل عبر المزود؛ فشل التحويل يعيد المبلغ للمستقل.
+   */
+  public async approveWithdrawal(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { withdrawalId } = req.params;
+    const { notes } = req.body ?? {};
+
+    try {
+      const withdrawal = await this.withdrawalService.approveWithdrawal(
+        req.userId,
+        withdrawalId,
+        notes
+      );
+      const completed = withdrawal.status === WithdrawalStatus.COMPLETED;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          success: completed,
+          message: completed
+            ? "Withdrawal approved and payout completed."
+            : `Payout failed and funds were returned: ${withdrawal.failureReason}`,
+          withdrawal,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to approve withdrawal.";
+      console.error("Error approving withdrawal:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/admin/withdrawals/:withdrawalId/reject
+   * رفض السحب وإعادة المبلغ المحجوز إلى الرصيد المتاح.
+   */
+  public async rejectWithdrawal(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { withdrawalId } = req.params;
+    const { reason } = req.body ?? {};
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      res
+        .status(400)
+        .json({ success: false, error: "A rejection reason is required." });
+      return;
+    }
+
+    try {
+      const withdrawal = await this.withdrawalService.rejectWithdrawal(
+        req.userId,
+        withdrawalId,
+        reason.trim()
+      );
+      res.status(200).json({
+        success: true,
+        data: {
+          success: true,
+          message: "Withdrawal rejected and funds returned.",
+          withdrawal,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to reject withdrawal.";
+      console.error("Error rejecting withdrawal:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/admin/clearing-policies
+   * سياسات مدة حجز الأرباح حسب الدولة ومستوى الثقة.
+   */
+  public async listClearingPolicies(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const policies = await this.clearingPolicyService.listPolicies();
+      res.status(200).json({ policies });
+    } catch (error) {
+      console.error("Error listing clearing policies:", error);
+      res
+        .status(500)
+        .json({ message: "Failed to retrieve clearing policies." });
+    }
+  }
+
+  /**
+   * [PUT] /api/finance/admin/clearing-policies
+   * إنشاء أو تعديل مدة الحجز لدولة و/أو مستوى ثقة: { country?, trustLevel?, holdDays }.
+   */
+  public async setClearingPolicy(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { country, trustLevel, holdDays } = req.body;
+
+    if (
+      (country !== undefined &&
+        !Object.values(CountryCode).includes(country)) ||
+      (trustLevel !== undefined &&
+        !Object.values(TrustLevel).includes(trustLevel))
+    ) {
+      res.status(400).json({ message: "Invalid country or trust level." });
+      return;
+    }
+
+    try {
+      const policy = await this.clearingPolicyService.setPolicy({
+        country,
+        trustLevel,
+        holdDays,
+      });
+      res.status(200).json({ message: "Clearing policy saved.", policy });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save clearing policy.";
+      console.error("Error saving clearing policy:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [DELETE] /api/finance/admin/clearing-policies/:policyId
+   */
+  public async deleteClearingPolicy(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      await this.clearingPolicyService.deletePolicy(req.params.policyId);
+      res.status(200).json({ message: "Clearing policy deleted." });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete clearing policy.";
+      console.error("Error deleting clearing policy:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/admin/platform-fees
+   * جميع نسخ جدول العمولات (الأحدث أولاً).
+   */
+  public async listPlatformFeeSchedules(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const schedules = await this.platformFeeService.listSchedules();
+      res.status(200).json({ success: true, data: { items: schedules } });
+    } catch (error) {
+      console.error("Error listing platform fee schedules:", error);
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to retrieve platform fees." });
+    }
+  }
+
+  /**
+   * [PUT] /api/finance/admin/platform-fees
+   * ينشئ نسخة جديدة من جدول العمولات: إما { feePercentage } لعمولة موحدة،
+   * أو { tiers, fixedFee, clientProcessingFeeBps, clientProcessingFixedFee } كاملة (المبالغ بالقرش).
+   */
+  public async updatePlatformFees(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const {
+      feePercentage,
+      tiers,
+      fixedFee,
+      clientProcessingFeeBps,
+      clientProcessingFixedFee,
+    } = req.body ?? {};
+
+    try {
+      const schedule =
+        tiers !== undefined
+          ? await this.platformFeeService.createSchedule(req.userId, {
+              tiers,
+              fixedFee,
+              clientProcessingFeeBps,
+              clientProcessingFixedFee,
+            })
+          : await this.platformFeeService.setFlatPercentage(
+              req.userId,
+              feePercentage
+            );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          success: true,
+          message: `Platform fee schedule v${schedule.version} is now active.`,
+          schedule,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update platform fees.";
+      console.error("Error updating platform fees:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/admin/exchange-rates
+   * أحدث سعر صرف لكل عملة مقابل الدولار.
+   */
+  public async listExchangeRates(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const rates = await this.fxService.listRates();
+      res.status(200).json({ success: true, data: { items: rates } });
+    } catch (error) {
+      console.error("Error listing exchange rates:", error);
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to retrieve exchange rates." });
+    }
+  }
+
+  /**
+   * [PUT] /api/finance/admin/exchange-rates
+   * يضيف سعر صرف جديد: { currency, rate, source? } حيث rate = وحدات العملة مقابل 1 USD.
+   */
+  public async setExchangeRate(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { currency, rate, source } = req.body ?? {};
+
+    if (typeof currency !== "string") {
+      res.status(400).json({ success: false, error: "Invalid currency." });
+      return;
+    }
+
+    try {
+      const exchangeRate = await this.fxService.setRate(
+        req.userId,
+        currency.toUpperCase(),
+        rate,
+        source
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          success: true,
+          message: `Exchange rate for ${exchangeRate.quoteCurrency} updated.`,
+          rate: exchangeRate,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update exchange rate.";
+      console.error("Error updating exchange rate:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/admin/reconciliation/runs
+   * تشغيل تسوية فوري: { freezeWallets?: boolean } لتجميد المحافظ التي بها فروقات.
+   */
+  public async runReconciliation(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { freezeWallets = false } = req.body ?? {};
+
+    if (typeof freezeWallets !== "boolean") {
+      res
+        .status(400)
+        .json({ success: false, error: "Invalid freezeWallets flag." });
+      return;
+    }
+
+    try {
+      const run = await this.reconciliationService.runReconciliation(
+        ReconciliationTrigger.MANUAL,
+        { freezeWallets, triggeredById: req.userId }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          success: true,
+          message: `Reconciliation completed: ${run.discrepancyCount} new discrepancy(ies).`,
+          run,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to run reconciliation.";
+      console.error("Error running reconciliation:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/admin/reconciliation/runs?page=1&limit=20
+   */
+  public async listReconciliationRuns(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100
+    );
+
+    try {
+      const data = await this.reconciliationService.listRuns(page, limit);
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      console.error("Error listing reconciliation runs:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to retrieve reconciliation runs.",
+      });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/admin/reconciliation/runs/:runId
+   * تقرير التشغيل مع الفروقات التي اكتشفها.
+   */
+  public async getReconciliationRun(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const run = await this.reconciliationService.getRun(req.params.runId);
+      res.status(200).json({ success: true, data: run });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve reconciliation run.";
+      console.error("Error fetching reconciliation run:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/finance/admin/reconciliation/discrepancies?status=OPEN&subjectType=WALLET&page=1&limit=20
+   */
+  public async listDiscrepancies(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100
+    );
+    const status = req.query.status as DiscrepancyStatus | undefined;
+    const subjectType = req.query.subjectType as
+      | ReconciliationSubject
+      | undefined;
+
+    if (
+      (status && !Object.values(DiscrepancyStatus).includes(status)) ||
+      (subjectType &&
+        !Object.values(ReconciliationSubject).includes(subjectType))
+    ) {
+      res.status(400).json({ success: false, error: "Invalid filter." });
+      return;
+    }
+
+    try {
+      const data = await this.reconciliationService.listDiscrepancies({
+        status,
+        subjectType,
+        page,
+        limit,
+      });
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      console.error("Error listing discrepancies:", error);
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to retrieve discrepancies." });
+    }
+  }
+
+  /**
+   * [POST] /api/finance/admin/reconciliation/discrepancies/:discrepancyId/resolve
+   * إغلاق فرق بعد مراجعته: { note }. يُرفع تجميد المحفظة إذا لم يبق عليها فروقات مفتوحة.
+   */
+  public async resolveDiscrepancy(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { note } = req.body ?? {};
+
+    try {
+      const discrepancy = await this.reconciliationService.resolveDiscrepancy(
+        req.userId,
+        req.params.discrepancyId,
+        note
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          success: true,
+          message: "Discrepancy resolved.",
+          discrepancy,
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to resolve discrepancy.";
+      console.error("Error resolving discrepancy:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ success: false, error: errorMessage });
+    }
+  }
 }
 
 export default FinanceController;
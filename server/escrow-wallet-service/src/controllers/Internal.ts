@@ -0,0 +1,166 @@
+import type { Request, Response } from "express";
+import EscrowService from "../services/Escrow.ts";
+import SettlementService from "../services/Settlement.ts";
+import { statusFromErrorMessage } from "../utils/errorStatus.ts";
+
+interface IEscrowService {
+  openEscrowAccount: typeof EscrowService.prototype.openEscrowAccount;
+  fundMilestone: typeof EscrowService.prototype.fundMilestone;
+  releaseMilestone: typeof EscrowService.prototype.releaseMilestone;
+  refundMilestone: typeof EscrowService.prototype.refundMilestone;
+  billTimesheet: typeof EscrowService.prototype.billTimesheet;
+  applyAmendment: typeof EscrowService.prototype.applyAmendment;
+}
+
+interface ISettlementService {
+  settleDispute: typeof SettlementService.prototype.settleDispute;
+}
+
+interface ServiceRequest extends Request {
+  params: { [key: string]: string };
+}
+
+/**
+  InternalController: عمليات الضمان التي تستدعيها الخدمات الأخرى (محمية بـ ServiceGuard).
+  الردود بالشكل { success, data } أو { success: false, error }.
+ */
+class InternalController {
+  private escrowService: IEscrowService;
+  private settlementService: ISettlementService;
+
+  constructor(
+    escrowService: IEscrowService,
+    settlementService: ISettlementService
+  ) {
+    this.escrowService = escrowService;
+    this.settlementService = settlementService;
+  }
+
+  private _handleError(error: unknown, action: string, res: Response): void {
+    const errorMessage =
+      error instanceof Error ? error.message : `Failed to ${action}.`;
+    console.error(`Error during internal ${action}:`, error);
+    res
+      .status(statusFromErrorMessage(errorMessage))
+      .json({ success: false, error: errorMessage });
+  }
+
+  /**
+   * [POST] /api/internal/escrow/contracts/:contractId/account
+   * فتح حساب الضمان لعقد جديد (عند قبول العميل لعرض المستقل).
+   */
+  public async openEscrowAccount(
+    req: ServiceRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await this.escrowService.openEscrowAccount(
+        req.params.contractId
+      );
+      res.status(result.created ? 201 : 200).json({ success: true, data: result });
+    } catch (error) {
+      this._handleError(error, "escrow account opening", res);
+    }
+  }
+
+  /**
+   * [POST] /api/internal/escrow/milestones/:milestoneId/fund
+   * تمويل المرحلة من محفظة العميل (عند بدء العمل عليها).
+   */
+  public async fundMilestone(req: ServiceRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.escrowService.fundMilestone(
+        req.params.milestoneId
+      );
+      res.status(result.created ? 201 : 200).json({ success: true, data: result });
+    } catch (error) {
+      this._handleError(error, "milestone funding", res);
+    }
+  }
+
+  /**
+   * [POST] /api/internal/escrow/milestones/:milestoneId/release
+   * تحرير مبلغ المرحلة للمستقل (عند موافقة العميل على العمل).
+   */
+  public async releaseMilestone(
+    req: ServiceRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await this.escrowService.releaseMilestone(
+        req.params.milestoneId
+      );
+      res.status(result.created ? 201 : 200).json({ success: true, data: result });
+    } catch (error) {
+      this._handleError(error, "milestone release", res);
+    }
+  }
+
+  /**
+   * [POST] /api/internal/escrow/milestones/:milestoneId/refund
+   * إعادة تمويل المرحلة للعميل (تعويض عند فشل تحديث المرحلة بعد تمويلها).
+   */
+  public async refundMilestone(
+    req: ServiceRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await this.escrowService.refundMilestone(
+        req.params.milestoneId
+      );
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      this._handleError(error, "milestone refund", res);
+    }
+  }
+
+  /**
+   * [POST] /api/internal/escrow/timesheets/:timesheetId/bill
+   * فوترة كشف الساعات الأسبوعي: خصم من محفظة العميل وتحرير للمستقل عبر الضمان.
+   */
+  public async billTimesheet(req: ServiceRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.escrowService.billTimesheet(
+        req.params.timesheetId
+      );
+      res.status(result.created ? 201 : 200).json({ success: true, data: result });
+    } catch (error) {
+      this._handleError(error, "timesheet billing", res);
+    }
+  }
+
+  /**
+   * [POST] /api/internal/escrow/disputes/:disputeId/settle
+   * تنفيذ قرار المشرف في النزاع (تحرير أو استرداد أو تقسيم المبلغ المحجوز).
+   */
+  public async settleDispute(req: ServiceRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.settlementService.settleDispute(
+        req.params.disputeId
+      );
+      res.status(result.created ? 201 : 200).json({ success: true, data: result });
+    } catch (error) {
+      this._handleError(error, "dispute settlement", res);
+    }
+  }
+
+  /**
+   * [POST] /api/internal/escrow/amendments/:amendmentId/apply
+   * تنفيذ حركات الضمان لتعديل عقد قبله الطرفان (تمويل إضافي أو استرداد للمراحل الممولة).
+   */
+  public async applyAmendment(
+    req: ServiceRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await this.escrowService.applyAmendment(
+        req.params.amendmentId
+      );
+      res.status(result.created ? 201 : 200).json({ success: true, data: result });
+    } catch (error) {
+      this._handleError(error, "amendment escrow adjustment", res);
+    }
+  }
+}
+
+export default InternalController;
@@ -0,0 +1,144 @@
+import type { Request, Response } from "express";
+import PaymentService from "../services/Payment.ts";
+import { moneyFromMajor } from "@rizlax/money";
+import { statusFromErrorMessage } from "../utils/errorStatus.ts";
+
+interface IPaymentService {
+  createTopUp: typeof PaymentService.prototype.createTopUp;
+  handleWebhook: typeof PaymentService.prototype.handleWebhook;
+  getMyTopUps: typeof PaymentService.prototype.getMyTopUps;
+  getTopUp: typeof PaymentService.prototype.getTopUp;
+  methods: typeof PaymentService.prototype.methods;
+}
+
+// AuthGuard يضع معرف المستخدم في req.userId
+interface AuthRequest extends Request {
+  userId: string;
+  params: { [key: string]: string };
+}
+
+// App يحفظ الجسم الخام لكل طلب JSON
+interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+  params: { [key: string]: string };
+}
+
+/**
+  PaymentController: شحن المحفظة عبر بوابات الدفع واستقبال webhooks الخاصة بها.
+ */
+class PaymentController {
+  private paymentService: IPaymentService;
+
+  constructor(paymentService: IPaymentService) {
+    this.paymentService = paymentService;
+  }
+
+  /**
+   * [POST] /api/payments/top-ups
+   * ينشئ جلسة دفع لشحن المحفظة: { amount, currency, method } (المبلغ بالوحدة الأساسية).
+   */
+  public async createTopUp(req: AuthRequest, res: Response): Promise<void> {
+    const { amount, currency = "USD", method } = req.body ?? {};
+
+    if (typeof amount !== "number" || amount <= 0) {
+      res.status(400).json({ message: "Invalid top-up amount." });
+      return;
+    }
+
+    if (typeof method !== "string" || typeof currency !== "string") {
+      res.status(400).json({
+        message: `Invalid payment method. Supported methods: ${this.paymentService
+          .methods()
+          .join(", ")}.`,
+      });
+      return;
+    }
+
+    try {
+      const normalizedCurrency = currency.toUpperCase();
+      const payment = await this.paymentService.createTopUp(req.userId, {
+        amount: moneyFromMajor(amount, normalizedCurrency).amount,
+        currency: normalizedCurrency,
+        method,
+      });
+
+      res.status(201).json({
+        message: "Checkout session created.",
+        payment,
+        checkoutUrl: payment.checkoutUrl,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create top-up.";
+      console.error("Error creating wallet top-up:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [GET] /api/payments/top-ups
+   * عمليات شحن المحفظة الخاصة بالمستخدم.
+   */
+  public async getMyTopUps(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const payments = await this.paymentService.getMyTopUps(req.userId);
+      res.status(200).json({ payments });
+    } catch (error) {
+      console.error("Error fetching top-ups:", error);
+      res.status(500).json({ message: "Failed to retrieve top-ups." });
+    }
+  }
+
+  /**
+   * [GET] /api/payments/top-ups/:paymentId
+   * حالة عملية شحن (تستخدمها صفحة العودة من بوابة الدفع).
+   */
+  public async getTopUp(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const payment = await this.paymentService.getTopUp(
+        req.userId,
+        req.params.paymentId
+      );
+      res.status(200).json({ payment });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to retrieve top-up.";
+      console.error("Error fetching top-up:", error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+
+  /**
+   * [POST] /api/webhooks/payments/:method
+   * يستقبل إشعارات بوابة الدفع (بدون AuthGuard - الحماية بتوقيع البوابة).
+   * يرد بـ 200 على الأحداث المكررة حتى لا تعيد البوابة إرسالها.
+   */
+  public async handleWebhook(req: RawBodyRequest, res: Response): Promise<void> {
+    const { method } = req.params;
+
+    if (!req.rawBody) {
+      res.status(400).json({ message: "Invalid webhook payload." });
+      return;
+    }
+
+    try {
+      const { processed } = await this.paymentService.handleWebhook(method, {
+        rawBody: req.rawBody,
+        headers: req.headers,
+        query: req.query as Record<string, unknown>,
+      });
+
+      res.status(200).json({ received: true, processed });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to process webhook.";
+      console.error(`Error processing ${method} webhook:`, error);
+      res
+        .status(statusFromErrorMessage(errorMessage))
+        .json({ message: errorMessage });
+    }
+  }
+}
+
+export default PaymentController;
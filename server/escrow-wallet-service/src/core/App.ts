@@ -2,6 +2,7 @@ import express from "express";
 import cors from "cors";
 import type { Application, Request, Response, Router } from "express";
 import cookieParser from "cookie-parser";
+import type { IncomingMessage, ServerResponse } from "http";
 
 interface ServiceRouter {
   path: string;
@@ -23,7 +24,18 @@ class App {
 
   private initializeMiddlewares(): void {
     this.app.use(cors());
-    this.app.use(express.json());
+    // الجسم الخام مطلوب للتحقق من توقيع webhooks بوابات الدفع
+    this.app.use(
+      express.json({
+        verify: (
+          req: IncomingMessage & { rawBody?: Buffer },
+          _res: ServerResponse,
+          buf: Buffer
+        ) => {
+          req.rawBody = buf;
+        },
+      })
+    );
     this.app.use(cookieParser());
   }
 
@@ -4,28 +4,166 @@ import { connectDB } from "@rizlax/db-client";
 import logger from "@rizlax/logs";
 import WalletService from "./services/Wallet.ts";
 import EscrowService from "./services/Escrow.ts";
+import IdempotencyService from "./services/Idempotency.ts";
+import SettlementService from "./services/Settlement.ts";
+import WithdrawalService from "./services/Withdrawal.ts";
+import ClearingService from "./services/Clearing.ts";
+import ClearingPolicyService from "./services/ClearingPolicy.ts";
+import PlatformFeeService from "./services/PlatformFee.ts";
+import FxService from "./services/Fx.ts";
+import PaymentService from "./services/Payment.ts";
+import StatementService from "./services/Statement.ts";
+import ReconciliationService from "./services/Reconciliation.ts";
+import InvoiceService from "./services/Invoice.ts";
+import ClearingWorker from "./workers/ClearingWorker.ts";
+import ReconciliationWorker from "./workers/ReconciliationWorker.ts";
+import PayoutProviderRegistry from "./providers/payout/PayoutProviderRegistry.ts";
+import BankTransferProvider from "./providers/payout/BankTransferProvider.ts";
+import PayPalPayoutProvider from "./providers/payout/PayPalPayoutProvider.ts";
+import MockPayoutProvider from "./providers/payout/MockPayoutProvider.ts";
+import PaymentGatewayRegistry from "./providers/payment/PaymentGatewayRegistry.ts";
+import StripeGateway from "./providers/payment/StripeGateway.ts";
+import PaymobGateway from "./providers/payment/PaymobGateway.ts";
+import FakePaymentGateway from "./providers/payment/FakePaymentGateway.ts";
 import FinanceController from "./controllers/Finance.ts";
+import PaymentController from "./controllers/Payment.ts";
+import InternalController from "./controllers/Internal.ts";
 import { createFinanceRouter } from "./routes/Finance.ts";
+import {
+  createPaymentRouter,
+  createPaymentWebhookRouter,
+} from "./routes/Payment.ts";
+import { createInternalRouter } from "./routes/Internal.ts";
 
 dotenv.config({ path: "../../.env" });
 
 const PORT = parseInt(process.env.ESCROW_WALLET_PORT as string, 10);
 
+// المزودون الحقيقيون يُفعّلون فقط عند توفر إعداداتهم، والمحاكاة خارج الإنتاج فقط
+function createPayoutProviders(): PayoutProviderRegistry {
+  const registry = new PayoutProviderRegistry();
+
+  if (process.env.BANK_PAYOUT_API_URL && process.env.BANK_PAYOUT_API_KEY) {
+    registry.register(
+      new BankTransferProvider({
+        apiUrl: process.env.BANK_PAYOUT_API_URL,
+        apiKey: process.env.BANK_PAYOUT_API_KEY,
+      })
+    );
+  }
+
+  if (process.env.PAYPAL_CLIENT_ID && process.env.PAYPAL_CLIENT_SECRET) {
+    registry.register(
+      new PayPalPayoutProvider({
+        apiUrl: process.env.PAYPAL_API_URL || "https://api-m.sandbox.paypal.com",
+        clientId: process.env.PAYPAL_CLIENT_ID,
+        clientSecret: process.env.PAYPAL_CLIENT_SECRET,
+      })
+    );
+  }
+
+  if (process.env.NODE_ENV !== "production") {
+    registry.register(new MockPayoutProvider());
+  }
+
+  return registry;
+}
+
+// نفس القاعدة لبوابات شحن المحفظة: الحقيقية حسب الإعدادات، والمحاكاة خارج الإنتاج فقط
+function createPaymentGateways(): PaymentGatewayRegistry {
+  const registry = new PaymentGatewayRegistry();
+
+  if (process.env.STRIPE_SECRET_KEY && process.env.STRIPE_WEBHOOK_SECRET) {
+    registry.register(
+      new StripeGateway({
+        apiUrl: process.env.STRIPE_API_URL || "https://api.stripe.com",
+        secretKey: process.env.STRIPE_SECRET_KEY,
+        webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+      })
+    );
+  }
+
+  if (
+    process.env.PAYMOB_SECRET_KEY &&
+    process.env.PAYMOB_PUBLIC_KEY &&
+    process.env.PAYMOB_HMAC_SECRET
+  ) {
+    registry.register(
+      new PaymobGateway({
+        apiUrl: process.env.PAYMOB_API_URL || "https://accept.paymob.com",
+        secretKey: process.env.PAYMOB_SECRET_KEY,
+        publicKey: process.env.PAYMOB_PUBLIC_KEY,
+        integrationIds: (process.env.PAYMOB_INTEGRATION_IDS || "")
+          .split(",")
+          .filter(Boolean)
+          .map(Number),
+        hmacSecret: process.env.PAYMOB_HMAC_SECRET,
+      })
+    );
+  }
+
+  if (process.env.NODE_ENV !== "production") {
+    registry.register(
+      new FakePaymentGateway(
+        process.env.FAKE_PAYMENT_WEBHOOK_SECRET || "fake_webhook_secret",
+        process.env.CLIENT_URL || "http://localhost:3000"
+      )
+    );
+  }
+
+  return registry;
+}
+
 async function startServer() {
   try {
     console.log("Starting Escrow & Wallet Service dependency setup...");
 
     const walletService = new WalletService();
     const escrowService = new EscrowService();
+    const settlementService = new SettlementService();
+    const withdrawalService = new WithdrawalService(createPayoutProviders());
+    const clearingService = new ClearingService();
+    const clearingPolicyService = new ClearingPolicyService();
+    const platformFeeService = new PlatformFeeService();
+    const fxService = new FxService();
+    const statementService = new StatementService();
+    const reconciliationService = new ReconciliationService();
+    const invoiceService = new InvoiceService();
+    const idempotencyService = new IdempotencyService();
+    const paymentService = new PaymentService(createPaymentGateways());
 
     const financeController = new FinanceController(
       walletService,
-      escrowService
+      escrowService,
+      settlementService,
+      withdrawalService,
+      clearingService,
+      clearingPolicyService,
+      platformFeeService,
+      fxService,
+      statementService,
+      reconciliationService,
+      invoiceService,
+      idempotencyService
+    );
+
+    const paymentController = new PaymentController(paymentService);
+    const internalController = new InternalController(
+      escrowService,
+      settlementService
     );
 
     const financeRouter = createFinanceRouter(financeController);
+    const paymentRouter = createPaymentRouter(paymentController);
+    const webhookRouter = createPaymentWebhookRouter(paymentController);
+    const internalRouter = createInternalRouter(internalController);
 
-    const routers = [{ path: "/api/finance", router: financeRouter }];
+    const routers = [
+      { path: "/api/finance", router: financeRouter },
+      { path: "/api/payments", router: paymentRouter },
+      { path: "/api/webhooks", router: webhookRouter },
+      { path: "/api/internal", router: internalRouter },
+    ];
 
     console.log("Connecting to database...");
     await connectDB();
@@ -33,6 +171,9 @@ async function startServer() {
     const server = new App(PORT, routers);
 
     server.listen();
+
+    new ClearingWorker(clearingService).start();
+    new ReconciliationWorker(reconciliationService).start();
   } catch (error) {
     logger.error("Escrow & Wallet Service failed to start:", { error });
     console.error("Escrow & Wallet Service failed to start:", error);
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import type {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentGateway,
+  PaymentWebhookEvent,
+  WebhookRequest,
+} from "../../types/Payment.ts";
+
+interface FakeWebhookBody {
+  paymentId: string;
+  status: "succeeded" | "failed";
+  amount?: number;
+  currency?: string;
+  failureReason?: string;
+}
+
+/**
+ * بوابة محلية للتطوير والاختبار: لا تحرك أموالاً حقيقية.
+ * الـ webhook يُرسل يدوياً بجسم { paymentId, status } وترويسة x-fake-signature
+ * (HMAC-SHA256 للجسم بالمفتاح FAKE_PAYMENT_WEBHOOK_SECRET، انظر signPayload).
+ */
+class FakePaymentGateway implements PaymentGateway {
+  public readonly method = "FAKE";
+  private webhookSecret: string;
+  private checkoutBaseUrl: string;
+
+  constructor(webhookSecret: string, checkoutBaseUrl: string) {
+    this.webhookSecret = webhookSecret;
+    this.checkoutBaseUrl = checkoutBaseUrl;
+  }
+
+  public signPayload(payload: string | Buffer): string {
+    return crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(payload)
+      .digest("hex");
+  }
+
+  public async createCheckoutSession(
+    request: CheckoutRequest
+  ): Promise<CheckoutSession> {
+    return {
+      providerId: `fake_${request.paymentId}`,
+      checkoutUrl: `${this.checkoutBaseUrl}/fake-checkout/${request.paymentId}`,
+    };
+  }
+
+  public parseWebhook(request: WebhookRequest): PaymentWebhookEvent {
+    const signature = request.headers["x-fake-signature"];
+    const expected = this.signPayload(request.rawBody);
+
+    if (
+      typeof signature !== "string" ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid webhook signature.");
+    }
+
+    const body = JSON.parse(request.rawBody.toString("utf8")) as FakeWebhookBody;
+
+    if (body.status === "succeeded") {
+      return {
+        outcome: "COMPLETED",
+        paymentId: body.paymentId,
+        amount: body.amount,
+        currency: body.currency,
+      };
+    }
+
+    return {
+      outcome: "FAILED",
+      paymentId: body.paymentId,
+      failureReason: body.failureReason ?? "Simulated payment failure.",
+    };
+  }
+}
+
+export default FakePaymentGateway;
@@ -0,0 +1,29 @@
+import type { PaymentGateway } from "../../types/Payment.ts";
+
+/**
+ * سجل بوابات الدفع المتاحة، يُبنى عند تشغيل الخدمة حسب الإعدادات.
+ */
+class PaymentGatewayRegistry {
+  private gateways = new Map<string, PaymentGateway>();
+
+  public register(gateway: PaymentGateway): this {
+    this.gateways.set(gateway.method, gateway);
+    return this;
+  }
+
+  public get(method: string): PaymentGateway {
+    const gateway = this.gateways.get(method?.toUpperCase());
+    if (!gateway) {
+      throw new Error(
+        `Invalid payment method "${method}". Supported methods: ${this.methods().join(", ")}.`
+      );
+    }
+    return gateway;
+  }
+
+  public methods(): string[] {
+    return [...this.gateways.keys()];
+  }
+}
+
+export default PaymentGatewayRegistry;
@@ -0,0 +1,174 @@
+import crypto from "crypto";
+import type {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentGateway,
+  PaymentWebhookEvent,
+  WebhookRequest,
+} from "../../types/Payment.ts";
+
+interface PaymobConfig {
+  apiUrl: string; // https://accept.paymob.com
+  secretKey: string;
+  publicKey: string;
+  integrationIds: number[]; // طرق الدفع المفعلة (بطاقة، محفظة...)
+  hmacSecret: string;
+}
+
+interface PaymobTransaction {
+  id: number;
+  success: boolean;
+  pending: boolean;
+  amount_cents: number;
+  currency: string;
+  order: { id: number; merchant_order_id?: string | null };
+  data?: { message?: string };
+  [key: string]: unknown;
+}
+
+// الحقول التي يُحسب عليها HMAC لطلب TRANSACTION بهذا الترتيب (حسب توثيق Paymob)
+const HMAC_FIELDS = [
+  "amount_cents",
+  "created_at",
+  "currency",
+  "error_occured",
+  "has_parent_transaction",
+  "id",
+  "integration_id",
+  "is_3d_secure",
+  "is_auth",
+  "is_capture",
+  "is_refunded",
+  "is_standalone_payment",
+  "is_voided",
+  "order.id",
+  "owner",
+  "pending",
+  "source_data.pan",
+  "source_data.sub_type",
+  "source_data.type",
+  "success",
+];
+
+/**
+ * الدفع عبر Paymob (Intention API + Unified Checkout).
+ * الـ webhook (transaction processed callback) موقع بـ HMAC-SHA512 في باراميتر hmac.
+ */
+class PaymobGateway implements PaymentGateway {
+  public readonly method = "PAYMOB";
+  private config: PaymobConfig;
+
+  constructor(config: PaymobConfig) {
+    this.config = config;
+  }
+
+  public async createCheckoutSession(
+    request: CheckoutRequest
+  ): Promise<CheckoutSession> {
+    const response = await fetch(`${this.config.apiUrl}/v1/intention/`, {
+      method: "POST",
+      headers: {
+        Authorization: `Token ${this.config.secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount: request.amount,
+        currency: request.currency,
+        payment_methods: this.config.integrationIds,
+        items: [
+          {
+            name: request.description,
+            amount: request.amount,
+            quantity: 1,
+          },
+        ],
+        billing_data: {
+          first_name: "NA",
+          last_name: "NA",
+          email: request.customerEmail ?? "NA",
+          phone_number: "NA",
+        },
+        // يعود في الـ webhook كـ order.merchant_order_id
+        special_reference: request.paymentId,
+        redirection_url: request.successUrl,
+      }),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as {
+      id?: string | number;
+      client_secret?: string;
+      detail?: string;
+    };
+
+    if (!response.ok || !body.client_secret) {
+      throw new Error(
+        body.detail ||
+          `Paymob payment intention failed with status ${response.status}.`
+      );
+    }
+
+    const checkoutUrl = `${this.config.apiUrl}/unifiedcheckout/?publicKey=${encodeURIComponent(
+      this.config.publicKey
+    )}&clientSecret=${encodeURIComponent(body.client_secret)}`;
+
+    return { providerId: String(body.id), checkoutUrl };
+  }
+
+  private _valueAt(transaction: PaymobTransaction, path: string): string {
+    const value = path
+      .split(".")
+      .reduce<unknown>(
+        (current, key) =>
+          current && typeof current === "object"
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        transaction
+      );
+    return value === undefined || value === null ? "" : String(value);
+  }
+
+  public parseWebhook(request: WebhookRequest): PaymentWebhookEvent {
+    const hmac = request.query.hmac;
+    const body = JSON.parse(request.rawBody.toString("utf8")) as {
+      type?: string;
+      obj?: PaymobTransaction;
+    };
+
+    if (typeof hmac !== "string" || !body.obj) {
+      throw new Error("Invalid webhook signature.");
+    }
+
+    const transaction = body.obj;
+    const expected = crypto
+      .createHmac("sha512", this.config.hmacSecret)
+      .update(HMAC_FIELDS.map((field) => this._valueAt(transaction, field)).join(""))
+      .digest("hex");
+
+    if (
+      hmac.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(hmac), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid webhook signature.");
+    }
+
+    const base = {
+      paymentId: transaction.order.merchant_order_id ?? undefined,
+      amount: transaction.amount_cents,
+      currency: transaction.currency,
+    };
+
+    if (body.type !== "TRANSACTION" || transaction.pending) {
+      return { ...base, outcome: "IGNORED" };
+    }
+
+    return transaction.success
+      ? { ...base, outcome: "COMPLETED" }
+      : {
+          ...base,
+          outcome: "FAILED",
+          failureReason: transaction.data?.message || "Payment declined.",
+        };
+  }
+}
+
+export default PaymobGateway;
@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import type {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentGateway,
+  PaymentWebhookEvent,
+  WebhookRequest,
+} from "../../types/Payment.ts";
+
+interface StripeConfig {
+  apiUrl: string; // https://api.stripe.com
+  secretKey: string;
+  webhookSecret: string; // whsec_...
+  toleranceSeconds?: number; // أقصى عمر مقبول للـ webhook (افتراضي 300)
+}
+
+interface StripeCheckoutSessionObject {
+  id: string;
+  client_reference_id?: string | null;
+  payment_status?: string;
+  amount_total?: number | null;
+  currency?: string | null;
+}
+
+interface StripeEvent {
+  type: string;
+  data: { object: StripeCheckoutSessionObject };
+}
+
+/**
+ * الدفع عبر Stripe Checkout.
+ * الـ webhook موقع بترويسة Stripe-Signature (t=...,v1=...) بمفتاح whsec الخاص بالـ endpoint.
+ */
+class StripeGateway implements PaymentGateway {
+  public readonly method = "STRIPE";
+  private config: StripeConfig;
+
+  constructor(config: StripeConfig) {
+    this.config = config;
+  }
+
+  public async createCheckoutSession(
+    request: CheckoutRequest
+  ): Promise<CheckoutSession> {
+    const form = new URLSearchParams({
+      mode: "payment",
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      client_reference_id: request.paymentId,
+      "metadata[paymentId]": request.paymentId,
+      "line_items[0][quantity]": "1",
+      "line_items[0][price_data][currency]": request.currency.toLowerCase(),
+      "line_items[0][price_data][unit_amount]": String(request.amount),
+      "line_items[0][price_data][product_data][name]": request.description,
+    });
+    if (request.customerEmail) {
+      form.set("customer_email", request.customerEmail);
+    }
+
+    const response = await fetch(`${this.config.apiUrl}/v1/checkout/sessions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.config.secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        // إعادة المحاولة لنفس الدفع لا تنشئ جلسة ثانية
+        "Idempotency-Key": request.paymentId,
+      },
+      body: form.toString(),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as {
+      id?: string;
+      url?: string;
+      error?: { message?: string };
+    };
+
+    if (!response.ok || !body.id || !body.url) {
+      throw new Error(
+        body.error?.message ||
+          `Stripe checkout session failed with status ${response.status}.`
+      );
+    }
+
+    return { providerId: body.id, checkoutUrl: body.url };
+  }
+
+  private _verifySignature(request: WebhookRequest): void {
+    const header = request.headers["stripe-signature"];
+    if (typeof header !== "string") {
+      throw new Error("Invalid webhook signature.");
+    }
+
+    const parts = header.split(",").map((part) => part.split("="));
+    const timestamp = parts.find(([key]) => key === "t")?.[1];
+    const signatures = parts
+      .filter(([key]) => key === "v1")
+      .map(([, value]) => value);
+
+    if (!timestamp || signatures.length === 0) {
+      throw new Error("Invalid webhook signature.");
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!(age <= (this.config.toleranceSeconds ?? 300))) {
+      throw new Error("Invalid webhook signature: timestamp outside tolerance.");
+    }
+
+    const expected = crypto
+      .createHmac("sha256", this.config.webhookSecret)
+      .update(`${timestamp}.${request.rawBody.toString("utf8")}`)
+      .digest("hex");
+
+    const matches = signatures.some(
+      (signature) =>
+        signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    );
+    if (!matches) {
+      throw new Error("Invalid webhook signature.");
+    }
+  }
+
+  public parseWebhook(request: WebhookRequest): PaymentWebhookEvent {
+    this._verifySignature(request);
+
+    const event = JSON.parse(request.rawBody.toString("utf8")) as StripeEvent;
+    const session = event.data.object;
+    const base = {
+      paymentId: session.client_reference_id ?? undefined,
+      providerId: session.id,
+      amount: session.amount_total ?? undefined,
+      currency: session.currency?.toUpperCase(),
+    };
+
+    switch (event.type) {
+      case "checkout.session.completed":
+        // طرق الدفع المؤجلة تكتمل لاحقاً بحدث async_payment_succeeded
+        return {
+          ...base,
+          outcome: session.payment_status === "paid" ? "COMPLETED" : "IGNORED",
+        };
+      case "checkout.session.async_payment_succeeded":
+        return { ...base, outcome: "COMPLETED" };
+      case "checkout.session.async_payment_failed":
+        return { ...base, outcome: "FAILED", failureReason: "Payment failed." };
+      case "checkout.session.expired":
+        return {
+          ...base,
+          outcome: "FAILED",
+          failureReason: "Checkout session expired.",
+        };
+      default:
+        return { ...base, outcome: "IGNORED" };
+    }
+  }
+}
+
+export default StripeGateway;
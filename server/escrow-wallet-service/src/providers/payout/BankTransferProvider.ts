@@ -0,0 +1,79 @@
+import type {
+  PayoutDetails,
+  PayoutProvider,
+  PayoutRequest,
+  PayoutResult,
+} from "../../types/Payout.ts";
+
+interface BankTransferConfig {
+  apiUrl: string;
+  apiKey: string;
+}
+
+/**
+ * التحويل البنكي عبر واجهة البنك الشريك (BANK_PAYOUT_API_URL).
+ * بيانات جهة التحويل المطلوبة: accountHolderName, bankName, iban أو accountNumber.
+ */
+class BankTransferProvider implements PayoutProvider {
+  public readonly method = "BANK";
+  private config: BankTransferConfig;
+
+  constructor(config: BankTransferConfig) {
+    this.config = config;
+  }
+
+  public validateDetails(details: PayoutDetails): void {
+    if (
+      typeof details.accountHolderName !== "string" ||
+      typeof details.bankName !== "string" ||
+      (typeof details.iban !== "string" &&
+        typeof details.accountNumber !== "string")
+    ) {
+      throw new Error(
+        "Invalid payout details: accountHolderName, bankName and iban or accountNumber are required."
+      );
+    }
+  }
+
+  public async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    const { details } = request;
+
+    const response = await fetch(`${this.config.apiUrl}/transfers`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.config.apiKey}`,
+        // البنك يرفض التحويل المكرر لنفس المرجع
+        "Idempotency-Key": request.withdrawalId,
+      },
+      body: JSON.stringify({
+        reference: request.withdrawalId,
+        amount: request.amount,
+        currency: request.currency,
+        beneficiary: {
+          name: details.accountHolderName,
+          bankName: details.bankName,
+          iban: details.iban,
+          accountNumber: details.accountNumber,
+        },
+      }),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as {
+      id?: string;
+      message?: string;
+    };
+
+    if (!response.ok) {
+      return {
+        success: false,
+        failureReason:
+          body.message || `Bank transfer failed with status ${response.status}.`,
+      };
+    }
+
+    return { success: true, reference: body.id };
+  }
+}
+
+export default BankTransferProvider;
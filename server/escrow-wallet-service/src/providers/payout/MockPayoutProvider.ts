@@ -0,0 +1,29 @@
+import type {
+  PayoutDetails,
+  PayoutProvider,
+  PayoutRequest,
+  PayoutResult,
+} from "../../types/Payout.ts";
+
+/**
+ * مزود محلي للتطوير والاختبار: لا يحرك أموالاً حقيقية.
+ * ينجح دائماً إلا إذا كانت MOCK_PAYOUT_FAIL=true أو أرسل المستقل { simulateFailure: true }.
+ */
+class MockPayoutProvider implements PayoutProvider {
+  public readonly method = "MOCK";
+
+  public validateDetails(_details: PayoutDetails): void {}
+
+  public async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    if (
+      process.env.MOCK_PAYOUT_FAIL === "true" ||
+      request.details.simulateFailure === true
+    ) {
+      return { success: false, failureReason: "Simulated payout failure." };
+    }
+
+    return { success: true, reference: `mock_${request.withdrawalId}` };
+  }
+}
+
+export default MockPayoutProvider;
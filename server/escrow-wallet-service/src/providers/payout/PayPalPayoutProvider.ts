@@ -0,0 +1,100 @@
+import type {
+  PayoutDetails,
+  PayoutProvider,
+  PayoutRequest,
+  PayoutResult,
+} from "../../types/Payout.ts";
+
+interface PayPalConfig {
+  apiUrl: string; // https://api-m.paypal.com أو https://api-m.sandbox.paypal.com
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * التحويل إلى حساب PayPal عبر Payouts API.
+ * بيانات جهة التحويل المطلوبة: email.
+ */
+class PayPalPayoutProvider implements PayoutProvider {
+  public readonly method = "PAYPAL";
+  private config: PayPalConfig;
+
+  constructor(config: PayPalConfig) {
+    this.config = config;
+  }
+
+  public validateDetails(details: PayoutDetails): void {
+    if (typeof details.email !== "string" || !details.email.includes("@")) {
+      throw new Error("Invalid payout details: a PayPal email is required.");
+    }
+  }
+
+  private async _getAccessToken(): Promise<string> {
+    const credentials = Buffer.from(
+      `${this.config.clientId}:${this.config.clientSecret}`
+    ).toString("base64");
+
+    const response = await fetch(`${this.config.apiUrl}/v1/oauth2/token`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: "grant_type=client_credentials",
+    });
+
+    if (!response.ok) {
+      throw new Error(`PayPal authentication failed (${response.status}).`);
+    }
+
+    const body = (await response.json()) as { access_token: string };
+    return body.access_token;
+  }
+
+  public async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    const accessToken = await this._getAccessToken();
+
+    const response = await fetch(`${this.config.apiUrl}/v1/payments/payouts`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        // sender_batch_id فريد لكل سحب، فـ PayPal يرفض إرسال نفس السحب مرتين
+        sender_batch_header: {
+          sender_batch_id: request.withdrawalId,
+          email_subject: "You have a payout from Rizlax",
+        },
+        items: [
+          {
+            recipient_type: "EMAIL",
+            receiver: request.details.email,
+            sender_item_id: request.withdrawalId,
+            amount: {
+              value: (request.amount / 100).toFixed(2),
+              currency: request.currency,
+            },
+          },
+        ],
+      }),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as {
+      batch_header?: { payout_batch_id?: string };
+      message?: string;
+    };
+
+    if (!response.ok) {
+      return {
+        success: false,
+        failureReason:
+          body.message || `PayPal payout failed with status ${response.status}.`,
+      };
+    }
+
+    return { success: true, reference: body.batch_header?.payout_batch_id };
+  }
+}
+
+export default PayPalPayoutProvider;
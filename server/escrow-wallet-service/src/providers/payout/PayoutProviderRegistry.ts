@@ -0,0 +1,29 @@
+import type { PayoutProvider } from "../../types/Payout.ts";
+
+/**
+ * سجل مزودي التحويل المتاحين، يُبنى عند تشغيل الخدمة حسب الإعدادات.
+ */
+class PayoutProviderRegistry {
+  private providers = new Map<string, PayoutProvider>();
+
+  public register(provider: PayoutProvider): this {
+    this.providers.set(provider.method, provider);
+    return this;
+  }
+
+  public get(method: string): PayoutProvider {
+    const provider = this.providers.get(method?.toUpperCase());
+    if (!provider) {
+      throw new Error(
+        `Invalid payout method "${method}". Supported methods: ${this.methods().join(", ")}.`
+      );
+    }
+    return provider;
+  }
+
+  public methods(): string[] {
+    return [...this.providers.keys()];
+  }
+}
+
+export default PayoutProviderRegistry;
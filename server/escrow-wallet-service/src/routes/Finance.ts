@@ -1,6 +1,7 @@
 import { Router } from "express";
 import FinanceController from "../controllers/Finance.ts";
 import { AuthGuard } from "common-middleware/src/AuthGuard.ts"; 
+import { RoleGuard } from "common-middleware/src/RoleGuard.ts";
 
 
 export const createFinanceRouter = (
@@ -13,11 +14,23 @@ export const createFinanceRouter = (
 
   const bindHandler = (handler: Function) => handler.bind(financeController);
 
+  // مسارات تحريك الأموال (deposit/release/refund/split/accept/move/payout request) تتطلب ترويسة Idempotency-Key
+
   // 1. Wallet Routes
 
   router.get("/wallet", bindHandler(financeController.getWallet));
-  router.post("/pending/move", bindHandler(financeController.movePendingToAvailable));
+  router.get("/pending/schedule", bindHandler(financeController.getClearingSchedule));
+  router.get("/transactions", bindHandler(financeController.getTransactionHistory));
+  router.get(
+    "/statements/:year/:month",
+    bindHandler(financeController.getMonthlyStatement)
+  );
   router.post("/payout/request", bindHandler(financeController.initiatePayout));
+  router.get("/withdrawals", bindHandler(financeController.getMyWithdrawals));
+  router.post(
+    "/withdrawals/:withdrawalId/cancel",
+    bindHandler(financeController.cancelWithdrawal)
+  );
 
   // 2. Escrow Routes
   router.post(
@@ -28,6 +41,145 @@ export const createFinanceRouter = (
     "/escrow/release/:contractId",
     bindHandler(financeController.releaseFundsFromEscrow)
   );
+  router.post(
+    "/escrow/refund/:contractId",
+    bindHandler(financeController.requestEscrowRefund)
+  );
+  router.post(
+    "/escrow/split/:contractId",
+    bindHandler(financeController.requestEscrowSplit)
+  );
+
+  // 3. Escrow Settlement Routes (استرداد وتقسيم بموافقة الطرف الآخر)
+  router.get(
+    "/escrow/settlements/:contractId",
+    bindHandler(financeController.getEscrowSettlements)
+  );
+  router.get(
+    "/escrow/status/:contractId",
+    bindHandler(financeController.getEscrowStatus)
+  );
+  router.get(
+    "/escrow/fees/:contractId",
+    bindHandler(financeController.getContractFees)
+  );
+  router.get(
+    "/escrow/invoices/:contractId",
+    bindHandler(financeController.getContractInvoices)
+  );
+  router.get(
+    "/invoices/:invoiceId/pdf",
+    bindHandler(financeController.downloadInvoice)
+  );
+  router.post(
+    "/escrow/settlements/:settlementId/accept",
+    bindHandler(financeController.acceptEscrowSettlement)
+  );
+  router.post(
+    "/escrow/settlements/:settlementId/reject",
+    bindHandler(financeController.rejectEscrowSettlement)
+  );
+  router.post(
+    "/escrow/settlements/:settlementId/cancel",
+    bindHandler(financeController.cancelEscrowSettlement)
+  );
+
+  // 4. Admin Routes
+  router.post(
+    "/admin/escrow/refund/:contractId",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.forceEscrowRefund)
+  );
+  router.post(
+    "/admin/escrow/split/:contractId",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.forceEscrowSplit)
+  );
+  router.post(
+    "/admin/wallets/:userId/pending/move",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.movePendingToAvailable)
+  );
+  router.get(
+    "/admin/clearing-policies",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.listClearingPolicies)
+  );
+  router.put(
+    "/admin/clearing-policies",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.setClearingPolicy)
+  );
+  router.delete(
+    "/admin/clearing-policies/:policyId",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.deleteClearingPolicy)
+  );
+  router.get(
+    "/admin/platform-fees",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.listPlatformFeeSchedules)
+  );
+  router.put(
+    "/admin/platform-fees",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.updatePlatformFees)
+  );
+  router.get(
+    "/admin/users/:userId/transactions",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.getUserTransactions)
+  );
+  router.post(
+    "/admin/reconciliation/runs",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.runReconciliation)
+  );
+  router.get(
+    "/admin/reconciliation/runs",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.listReconciliationRuns)
+  );
+  router.get(
+    "/admin/reconciliation/runs/:runId",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.getReconciliationRun)
+  );
+  router.get(
+    "/admin/reconciliation/discrepancies",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.listDiscrepancies)
+  );
+  router.post(
+    "/admin/reconciliation/discrepancies/:discrepancyId/resolve",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.resolveDiscrepancy)
+  );
+  router.get(
+    "/admin/exchange-rates",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.listExchangeRates)
+  );
+  router.put(
+    "/admin/exchange-rates",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.setExchangeRate)
+  );
+  router.get(
+    "/admin/withdrawals",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.listWithdrawals)
+  );
+  router.post(
+    "/admin/withdrawals/:withdrawalId/approve",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.approveWithdrawal)
+  );
+  router.post(
+    "/admin/withdrawals/:withdrawalId/reject",
+    RoleGuard("ADMIN"),
+    bindHandler(financeController.rejectWithdrawal)
+  );
 
   return router;
 };
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import InternalController from "../controllers/Internal.ts";
+import { ServiceGuard } from "common-middleware/src/ServiceGuard.ts";
+
+// مسارات الخدمات الداخلية: بدون AuthGuard، الحماية بالتوكن المشترك بين الخدمات
+export const createInternalRouter = (
+  internalController: InternalController
+): Router => {
+  const router = Router();
+
+  router.use(ServiceGuard);
+
+  const bindHandler = (handler: Function) => handler.bind(internalController);
+
+  router.post(
+    "/escrow/contracts/:contractId/account",
+    bindHandler(internalController.openEscrowAccount)
+  );
+  router.post(
+    "/escrow/milestones/:milestoneId/fund",
+    bindHandler(internalController.fundMilestone)
+  );
+  router.post(
+    "/escrow/milestones/:milestoneId/release",
+    bindHandler(internalController.releaseMilestone)
+  );
+  router.post(
+    "/escrow/milestones/:milestoneId/refund",
+    bindHandler(internalController.refundMilestone)
+  );
+  router.post(
+    "/escrow/timesheets/:timesheetId/bill",
+    bindHandler(internalController.billTimesheet)
+  );
+
+  router.post(
+    "/escrow/disputes/:disputeId/settle",
+    bindHandler(internalController.settleDispute)
+  );
+  router.post(
+    "/escrow/amendments/:amendmentId/apply",
+    bindHandler(internalController.applyAmendment)
+  );
+
+  return router;
+};
@@ -0,0 +1,33 @@
+import { Router } from "express";
+import PaymentController from "../controllers/Payment.ts";
+import { AuthGuard } from "common-middleware/src/AuthGuard.ts";
+
+export const createPaymentRouter = (
+  paymentController: PaymentController
+): Router => {
+  const router = Router();
+
+  router.use(AuthGuard);
+
+  const bindHandler = (handler: Function) => handler.bind(paymentController);
+
+  router.post("/top-ups", bindHandler(paymentController.createTopUp));
+  router.get("/top-ups", bindHandler(paymentController.getMyTopUps));
+  router.get("/top-ups/:paymentId", bindHandler(paymentController.getTopUp));
+
+  return router;
+};
+
+// webhooks بوابات الدفع: بدون AuthGuard، كل بوابة تتحقق من توقيعها
+export const createPaymentWebhookRouter = (
+  paymentController: PaymentController
+): Router => {
+  const router = Router();
+
+  router.post(
+    "/payments/:method",
+    paymentController.handleWebhook.bind(paymentController)
+  );
+
+  return router;
+};
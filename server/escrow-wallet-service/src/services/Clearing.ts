@@ -0,0 +1,139 @@
+import { prisma } from "db-client/index.ts";
+import { TransactionType } from "@prisma/client";
+import type { WalletTransaction } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+import WalletService from "./Wallet.ts";
+
+const walletService = new WalletService();
+
+export interface ClearingScheduleItem {
+  transactionId: string;
+  contractId: string | null;
+  amount: number; // بالدولار للعرض
+  releasedAt: Date;
+  clearsAt: Date;
+}
+
+export interface ClearingSchedule {
+  pendingBalance: number;
+  upcoming: ClearingScheduleItem[];
+  // رصيد معلق بلا موعد استحقاق (سابق لاعتماد المواعيد) - يُنقل يدوياً من المشرف
+  unscheduledAmount: number;
+}
+
+/**
+ * خدمة ClearingService: نقل أرباح المستقل المستحقة من الرصيد المعلق إلى المتاح
+ * عند حلول clearsAt لكل معاملة RELEASE.
+ */
+class ClearingService {
+  /**
+   * نقل معاملة RELEASE واحدة. الحجز عبر clearedAt يمنع نقلها مرتين
+   * إذا عمل أكثر من worker في نفس الوقت.
+   * @returns false إذا سبق نقلها.
+   */
+  private async _clearRelease(release: WalletTransaction): Promise<boolean> {
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const claimed = await tx.walletTransaction.updateMany({
+          where: { id: release.id, clearedAt: null },
+          data: { clearedAt: new Date() },
+        });
+
+        if (claimed.count === 0) return false;
+
+        await walletService.clearPendingFunds(
+          tx,
+          release.walletId,
+          release.amount,
+          release.id
+        );
+        return true;
+      },
+      {
+        maxWait: 5000,
+        timeout: 10000,
+      }
+    );
+  }
+
+  /**
+   * نقل جميع المبالغ التي حل موعد استحقاقها (على دفعات).
+   * فشل معاملة واحدة لا يوقف الباقي، وتُعاد محاولتها في الدورة التالية.
+   * @param now الوقت المرجعي.
+   * @param batchSize عدد المعاملات في كل دفعة.
+   * @returns عدد المعاملات التي نُقلت.
+   */
+  public async clearDueReleases(
+    now: Date = new Date(),
+    batchSize = 100
+  ): Promise<number> {
+    let cleared = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const due = await prisma.walletTransaction.findMany({
+        where: {
+          type: TransactionType.RELEASE,
+          clearedAt: null,
+          clearsAt: { lte: now },
+          // المعاملات الفاشلة في هذه الدورة لا تُعاد قراءتها
+          ...(cursor ? { id: { gt: cursor } } : {}),
+        },
+        orderBy: { id: "asc" },
+        take: batchSize,
+      });
+
+      for (const release of due) {
+        try {
+          if (await this._clearRelease(release)) cleared++;
+        } catch (error) {
+          console.error(`Failed to clear release ${release.id}:`, error);
+        }
+      }
+
+      if (due.length < batchSize) break;
+      cursor = due[due.length - 1].id;
+    }
+
+    return cleared;
+  }
+
+  /**
+   * جدول استحقاق الرصيد المعلق للمستقل: ما الذي يصبح قابلاً للسحب ومتى.
+   * @param userId معرف المستقل.
+   */
+  public async getClearingSchedule(userId: string): Promise<ClearingSchedule> {
+    const wallet = await prisma.wallet.findUnique({ where: { userId } });
+
+    if (!wallet) {
+      throw new Error("Wallet not found for this user.");
+    }
+
+    const releases = await prisma.walletTransaction.findMany({
+      where: {
+        walletId: wallet.id,
+        type: TransactionType.RELEASE,
+        clearedAt: null,
+        clearsAt: { not: null },
+      },
+      orderBy: { clearsAt: "asc" },
+    });
+
+    const scheduledTotal = releases.reduce((sum, r) => sum + r.amount, 0);
+
+    return {
+      pendingBalance: wallet.pendingBalance / 100,
+      upcoming: releases.map((r) => ({
+        transactionId: r.id,
+        contractId: r.relatedId,
+        amount: r.amount / 100,
+        releasedAt: r.createdAt,
+        clearsAt: r.clearsAt!,
+      })),
+      unscheduledAmount:
+        Math.max(wallet.pendingBalance - scheduledTotal, 0) / 100,
+    };
+  }
+}
+
+export default ClearingService;
@@ -0,0 +1,147 @@
+import { prisma } from "db-client/index.ts";
+import { ContractStatus, TrustLevel } from "@prisma/client";
+import type { ClearingPolicy, CountryCode } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+
+const DEFAULT_HOLD_DAYS = parseInt(
+  process.env.DEFAULT_CLEARING_HOLD_DAYS || "5",
+  10
+);
+
+const ESTABLISHED_MIN_COMPLETED_CONTRACTS = parseInt(
+  process.env.ESTABLISHED_MIN_COMPLETED_CONTRACTS || "5",
+  10
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ClearingPolicyInput {
+  country?: CountryCode | null;
+  trustLevel?: TrustLevel | null;
+  holdDays: number;
+}
+
+/**
+ * خدمة ClearingPolicyService: تحديد مدة حجز أرباح المستقل (بالأيام) قبل أن تصبح قابلة للسحب،
+ * حسب دولة المستقل ومستوى الثقة في حسابه.
+ */
+class ClearingPolicyService {
+  /**
+   * مستوى الثقة: غير موثق (NEW)، موثق (VERIFIED)، موثق ولديه عقود مكتملة كافية (ESTABLISHED).
+   */
+  private async _getTrustLevel(
+    tx: TransactionClient,
+    userId: string,
+    isVerified: boolean
+  ): Promise<TrustLevel> {
+    if (!isVerified) return TrustLevel.NEW;
+
+    const completedContracts = await tx.contract.count({
+      where: { freelancer: { userId }, status: ContractStatus.COMPLETED },
+    });
+
+    return completedContracts >= ESTABLISHED_MIN_COMPLETED_CONTRACTS
+      ? TrustLevel.ESTABLISHED
+      : TrustLevel.VERIFIED;
+  }
+
+  /**
+   * مدة الحجز للمستقل: (دولة + مستوى ثقة) ثم الدولة ثم مستوى الثقة ثم القيمة الافتراضية.
+   * @param tx Prisma Transaction Client.
+   * @param userId معرف المستقل.
+   */
+  public async resolveHoldDays(
+    tx: TransactionClient,
+    userId: string
+  ): Promise<number> {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { country: true, isVerified: true },
+    });
+
+    if (!user) return DEFAULT_HOLD_DAYS;
+
+    const trustLevel = await this._getTrustLevel(tx, userId, user.isVerified);
+
+    const policies = await tx.clearingPolicy.findMany({
+      where: {
+        OR: [
+          { country: user.country, trustLevel },
+          { country: user.country, trustLevel: null },
+          { country: null, trustLevel },
+        ],
+      },
+    });
+
+    const match =
+      policies.find((p) => p.country && p.trustLevel) ??
+      policies.find((p) => p.country) ??
+      policies.find((p) => p.trustLevel);
+
+    return match ? match.holdDays : DEFAULT_HOLD_DAYS;
+  }
+
+  /**
+   * تاريخ استحقاق مبلغ محرر الآن (أو في releasedAt) للمستقل.
+   */
+  public async getClearsAt(
+    tx: TransactionClient,
+    userId: string,
+    releasedAt: Date = new Date()
+  ): Promise<Date> {
+    const holdDays = await this.resolveHoldDays(tx, userId);
+    return new Date(releasedAt.getTime() + holdDays * DAY_MS);
+  }
+
+  public async listPolicies(): Promise<ClearingPolicy[]> {
+    return prisma.clearingPolicy.findMany({
+      orderBy: [{ country: "asc" }, { trustLevel: "asc" }],
+    });
+  }
+
+  /**
+   * إنشاء أو تعديل سياسة حجز لدولة و/أو مستوى ثقة.
+   * (لا نستخدم upsert لأن القيم الفارغة لا تتطابق في القيد الفريد.)
+   */
+  public async setPolicy(input: ClearingPolicyInput): Promise<ClearingPolicy> {
+    const country = input.country ?? null;
+    const trustLevel = input.trustLevel ?? null;
+
+    if (!country && !trustLevel) {
+      throw new Error(
+        "Invalid clearing policy: a country or trust level is required (use DEFAULT_CLEARING_HOLD_DAYS for the default)."
+      );
+    }
+
+    if (!Number.isInteger(input.holdDays) || input.holdDays < 0) {
+      throw new Error("Invalid clearing policy: holdDays must be a non-negative integer.");
+    }
+
+    const existing = await prisma.clearingPolicy.findFirst({
+      where: { country, trustLevel },
+    });
+
+    if (existing) {
+      return prisma.clearingPolicy.update({
+        where: { id: existing.id },
+        data: { holdDays: input.holdDays },
+      });
+    }
+
+    return prisma.clearingPolicy.create({
+      data: { country, trustLevel, holdDays: input.holdDays },
+    });
+  }
+
+  public async deletePolicy(policyId: string): Promise<void> {
+    const deleted = await prisma.clearingPolicy.deleteMany({
+      where: { id: policyId },
+    });
+
+    if (deleted.count === 0) {
+      throw new Error("Clearing policy not found.");
+    }
+  }
+}
+
+export default ClearingPolicyService;
@@ -0,0 +1,321 @@
+import { EscrowTransactionType } from "@prisma/client";
+import type { EscrowTransaction } from "@prisma/client";
+import EscrowService from "./Escrow.ts";
+import LedgerService from "./Ledger.ts";
+import PlatformFeeService from "./PlatformFee.ts";
+import WalletService from "./Wallet.ts";
+import ClearingPolicyService from "./ClearingPolicy.ts";
+import type { TransactionClient } from "./Wallet.ts";
+
+jest.mock("db-client/index.ts", () => ({
+  prisma: {
+    contract: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+// الفواتير والإيصالات خارج نطاق هذه الاختبارات
+jest.mock("./Invoice.ts", () =>
+  jest.fn().mockImplementation(() => ({
+    issueDepositInvoice: jest.fn(),
+    issueReleaseReceipt: jest.fn(),
+    issueFeeInvoice: jest.fn(),
+  }))
+);
+
+import { prisma } from "db-client/index.ts";
+
+const service = new EscrowService();
+
+const contract = {
+  id: "contract-1",
+  clientId: "client-1",
+  freelancerId: "freelancer-1",
+  currency: "EGP",
+  escrow: { id: "escrow-1", contractId: "contract-1" },
+};
+
+type StoredTransaction = Pick<
+  EscrowTransaction,
+  "type" | "amount" | "originalAmount"
+> & { milestoneId?: string };
+
+// معاملة في الذاكرة: معاملات الضمان المحفوظة وما تكتبه التسوية
+function createEscrowTx(transactions: StoredTransaction[]) {
+  const held = transactions.reduce(
+    (sum, t) =>
+      t.type === EscrowTransactionType.DEPOSIT ? sum + t.amount : sum - t.amount,
+    0
+  );
+  const created: Record<string, unknown>[] = [];
+
+  const tx = {
+    escrowAccount: {
+      findUnique: jest.fn(async () => ({ id: "escrow-1", heldAmount: held })),
+    },
+    escrowTransaction: {
+      findMany: jest.fn(async ({ where }) =>
+        transactions.filter(
+          (t) => (t.milestoneId ?? null) === (where.milestoneId ?? null)
+        )
+      ),
+      create: jest.fn(async ({ data }) => {
+        created.push(data);
+        return { id: `escrow-transaction-${created.length}`, ...data };
+      }),
+    },
+    wallet: {
+      findUnique: jest.fn(async () => ({ id: "wallet-client" })),
+    },
+    walletTransaction: { create: jest.fn() },
+  };
+
+  return { tx: tx as unknown as TransactionClient, created };
+}
+
+// إيداعان على مستوى العقد بسعرين مختلفين: 50 ثم 40 جنيهاً للدولار
+const deposits: StoredTransaction[] = [
+  {
+    type: EscrowTransactionType.DEPOSIT,
+    amount: 10_000,
+    originalAmount: 500_000,
+  },
+  {
+    type: EscrowTransactionType.DEPOSIT,
+    amount: 5_000,
+    originalAmount: 200_000,
+  },
+];
+
+// تمويل مرحلة بسعر 40 جنيهاً للدولار
+const milestoneDeposit: StoredTransaction = {
+  type: EscrowTransactionType.DEPOSIT,
+  amount: 5_000,
+  originalAmount: 200_000,
+  milestoneId: "milestone-2",
+};
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  (prisma.contract.findUnique as jest.Mock).mockResolvedValue(contract);
+  jest
+    .spyOn(LedgerService.prototype, "postEntry")
+    .mockResolvedValue({ id: "entry-1" } as never);
+  jest
+    .spyOn(WalletService.prototype, "getActiveFreelancerWallet")
+    .mockResolvedValue({ id: "wallet-freelancer" } as never);
+  jest
+    .spyOn(ClearingPolicyService.prototype, "getClearsAt")
+    .mockResolvedValue(new Date());
+  jest.spyOn(PlatformFeeService.prototype, "recordCharge").mockResolvedValue({
+    id: "charge-1",
+  } as never);
+  jest
+    .spyOn(PlatformFeeService.prototype, "quoteReleaseFee")
+    .mockImplementation(async (_tx, { grossAmount }) => ({
+      scheduleId: "schedule-1",
+      version: 1,
+      grossAmount,
+      lifetimeBillingsBefore: 0,
+      tiers: [],
+      percentageFee: grossAmount / 10,
+      fixedFee: 0,
+      totalFee: grossAmount / 10,
+      netAmount: grossAmount - grossAmount / 10,
+    }));
+});
+
+describe("EscrowService.toHeldSettlement", () => {
+  it("converts at the rates the held funds were deposited at", async () => {
+    const { tx } = createEscrowTx(deposits);
+
+    await expect(
+      service.toHeldSettlement(tx, "contract-1", {
+        releaseAmount: 350_000,
+        refundAmount: 0,
+      })
+    ).resolves.toEqual({ releaseAmount: 7_500, refundAmount: 0 });
+  });
+
+  it("settles the whole held amount exactly when all of it is requested", async () => {
+    const { tx } = createEscrowTx([
+      ...deposits,
+      {
+        type: EscrowTransactionType.RELEASE,
+        amount: 3_333,
+        originalAmount: 155_540,
+      },
+    ]);
+
+    await expect(
+      service.toHeldSettlement(tx, "contract-1", {
+        releaseAmount: 300_000,
+        refundAmount: 244_460,
+      })
+    ).resolves.toEqual({ releaseAmount: 6_429, refundAmount: 5_238 });
+  });
+
+  it("estimates older settlements without stored amounts at the average deposit rate", async () => {
+    const { tx } = createEscrowTx([
+      ...deposits,
+      { type: EscrowTransactionType.REFUND, amount: 6_000, originalAmount: null },
+    ]);
+
+    await expect(
+      service.toHeldSettlement(tx, "contract-1", {
+        releaseAmount: 420_000,
+        refundAmount: 0,
+      })
+    ).resolves.toEqual({ releaseAmount: 9_000, refundAmount: 0 });
+  });
+
+  it("leaves the funds of milestones out of contract-level settlements", async () => {
+    const { tx } = createEscrowTx([...deposits, milestoneDeposit]);
+
+    await expect(
+      service.toHeldSettlement(tx, "contract-1", {
+        releaseAmount: 800_000,
+        refundAmount: 0,
+      })
+    ).rejects.toThrow("Insufficient funds");
+  });
+
+  it("refuses more than is held in the contract currency", async () => {
+    const { tx } = createEscrowTx(deposits);
+
+    await expect(
+      service.toHeldSettlement(tx, "contract-1", {
+        releaseAmount: 600_000,
+        refundAmount: 100_001,
+      })
+    ).rejects.toThrow("Insufficient funds");
+  });
+});
+
+describe("EscrowService.settleFunds", () => {
+  it("records the contract currency amounts of a split on both sides", async () => {
+    const { tx, created } = createEscrowTx(deposits);
+
+    await service.settleFunds(tx, "contract-1", {
+      releaseAmount: 9_000,
+      refundAmount: 6_000,
+      description: "split",
+    });
+
+    expect(created).toEqual([
+      expect.objectContaining({
+        type: EscrowTransactionType.RELEASE,
+        amount: 9_000,
+        originalCurrency: "EGP",
+        originalAmount: 420_000,
+        fxRate: 4_200 / 90,
+      }),
+      expect.objectContaining({
+        type: EscrowTransactionType.REFUND,
+        amount: 6_000,
+        originalCurrency: "EGP",
+        originalAmount: 280_000,
+        fxRate: 2_800 / 60,
+      }),
+    ]);
+  });
+
+  it("records a milestone release at that milestone's deposit rate", async () => {
+    const { tx, created } = createEscrowTx([...deposits, milestoneDeposit]);
+
+    await service.settleFunds(tx, "contract-1", {
+      releaseAmount: 5_000,
+      refundAmount: 0,
+      description: "milestone release",
+      milestoneId: "milestone-2",
+    });
+
+    expect(created).toEqual([
+      expect.objectContaining({
+        type: EscrowTransactionType.RELEASE,
+        amount: 5_000,
+        milestoneId: "milestone-2",
+        originalAmount: 200_000,
+        fxRate: 40,
+      }),
+    ]);
+    expect(tx.walletTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        walletId: "wallet-freelancer",
+        amount: 4_500,
+        originalAmount: 200_000,
+      }),
+    });
+  });
+
+  it("leaves the conversion fields empty for USD contracts", async () => {
+    (prisma.contract.findUnique as jest.Mock).mockResolvedValue({
+      ...contract,
+      currency: "USD",
+    });
+    const { tx, created } = createEscrowTx([
+      { type: EscrowTransactionType.DEPOSIT, amount: 10_000, originalAmount: null },
+    ]);
+
+    await service.settleFunds(tx, "contract-1", {
+      releaseAmount: 0,
+      refundAmount: 4_000,
+      description: "refund",
+    });
+
+    expect(created).toHaveLength(1);
+    expect(created[0]).not.toHaveProperty("originalAmount");
+    expect(created[0]).toMatchObject({ amount: 4_000 });
+  });
+
+  it("rejects a settlement above the held amount", async () => {
+    const { tx, created } = createEscrowTx(deposits);
+
+    await expect(
+      service.settleFunds(tx, "contract-1", {
+        releaseAmount: 10_000,
+        refundAmount: 5_001,
+        description: "too much",
+      })
+    ).rejects.toThrow("Insufficient funds");
+    expect(created).toHaveLength(0);
+  });
+
+  it("does not refund funds held for a milestone at contract level", async () => {
+    const { tx, created } = createEscrowTx([...deposits, milestoneDeposit]);
+
+    await expect(
+      service.settleFunds(tx, "contract-1", {
+        releaseAmount: 0,
+        refundAmount: 20_000,
+        description: "refund",
+      })
+    ).rejects.toThrow("Insufficient funds");
+    expect(created).toHaveLength(0);
+  });
+});
+
+describe("EscrowService.releaseFunds", () => {
+  it("releases at the stored deposit rates, not today's", async () => {
+    const { tx, created } = createEscrowTx(deposits);
+    (prisma.$transaction as jest.Mock).mockImplementation((callback) =>
+      callback(tx)
+    );
+
+    await service.releaseFunds("client-1", "contract-1", 700_000);
+
+    expect(created).toEqual([
+      expect.objectContaining({
+        type: EscrowTransactionType.RELEASE,
+        amount: 15_000,
+        originalAmount: 700_000,
+      }),
+    ]);
+  });
+
+  it("only lets the contract client release funds", async () => {
+    await expect(
+      service.releaseFunds("freelancer-1", "contract-1", 1_000)
+    ).rejects.toThrow("Unauthorized");
+  });
+});
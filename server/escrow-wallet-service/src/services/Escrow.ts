@@ -1,15 +1,97 @@
 import { prisma } from "db-client/index.ts";
-import { EscrowTransactionType, TransactionType } from "@prisma/client";
-import type { Contract, EscrowAccount } from "@prisma/client";
+import {
+  AmendmentStatus,
+  EscrowTransactionType,
+  FeeChargeType,
+  TransactionType,
+  LedgerEntryType,
+  PostingDirection,
+  Prisma,
+} from "@prisma/client";
+import type {
+  Contract,
+  EscrowAccount,
+  EscrowTransaction,
+  JournalEntry,
+  PlatformFeeCharge,
+} from "@prisma/client";
 import type { TransactionClient } from "./Wallet.ts";
 import WalletService from "./Wallet.ts";
+import LedgerService from "./Ledger.ts";
+import ClearingPolicyService from "./ClearingPolicy.ts";
+import PlatformFeeService from "./PlatformFee.ts";
+import FxService from "./Fx.ts";
+import type { TransactionFxFields } from "./Fx.ts";
+import InvoiceService from "./Invoice.ts";
+import type { PostingLine } from "../types/Ledger.ts";
+import { allocateMoney, money } from "@rizlax/money";
+import { SETTLEMENT_CURRENCY, fromMinorUnits } from "../utils/currency.ts";
+import type { ReleaseFeeQuote } from "../types/PlatformFee.ts";
+import {
+  amendmentEscrowMovementsSchema,
+  amendmentMilestoneChangesSchema,
+} from "../validators/Amendment.ts";
+import type { AmendmentEscrowMovement } from "../validators/Amendment.ts";
 
 const walletService = new WalletService();
+const ledgerService = new LedgerService();
+const clearingPolicyService = new ClearingPolicyService();
+const platformFeeService = new PlatformFeeService();
+const fxService = new FxService();
+const invoiceService = new InvoiceService();
 
 type ContractWithEscrow = Contract & {
   escrow: EscrowAccount | null;
 };
 
+// المبالغ بالدولار، و display بعملة العقد بالسعر الحالي (null إذا لم يتوفر سعر)
+export interface EscrowAccountStatus {
+  heldAmount: number;
+  initialAmount: number;
+  display: {
+    currency: string;
+    heldAmount: number;
+    initialAmount: number;
+    rate: number;
+  } | null;
+}
+
+// نتيجة عملية ضمان لمرحلة أو كشف ساعات: created = false إذا كانت المعاملة موجودة مسبقاً (إعادة محاولة)
+export interface EscrowOperationResult {
+  escrowTransaction: EscrowTransaction;
+  created: boolean;
+}
+
+// نتيجة فتح حساب الضمان لعقد: created = false إذا كان الحساب موجوداً مسبقاً (إعادة محاولة)
+export interface EscrowAccountOpenResult {
+  escrowAccount: EscrowAccount;
+  created: boolean;
+}
+
+// created = false إذا كانت خدمة الضمان قد نفذت هذا التعديل مسبقاً (إعادة محاولة)
+export interface AmendmentAdjustmentResult {
+  movements: AmendmentEscrowMovement[];
+  created: boolean;
+}
+
+// ما تخصه معاملة الضمان: مرحلة (عقد ثابت) أو كشف ساعات أسبوعي (عقد بالساعة)
+export interface EscrowTransactionLink {
+  milestoneId?: string;
+  timesheetId?: string;
+}
+
+// مبلغ التحرير للمستقل ومبلغ الاسترداد للعميل في تسوية واحدة
+export interface SettlementShares {
+  releaseAmount: number;
+  refundAmount: number;
+}
+
+// المبلغ المحجوز بالدولار وما يقابله بعملة العقد بأسعار الإيداعات التي موّلته
+interface HeldFunds {
+  amount: number;
+  originalAmount: number;
+}
+
 /**
  * خدمة EscrowService: إدارة جميع المعاملات المالية التي تتم تحت الضمان (Escrow).
  */
@@ -43,26 +125,57 @@ class EscrowService {
     };
   }
 
+  /**
+   * حفظ عمولة المستقل المحسوبة مع نسخة جدول العمولات المستخدمة، وإصدار فاتورة الرسوم.
+   */
+  private async _recordCommission(
+    tx: TransactionClient,
+    contract: Contract & { escrowAccount: EscrowAccount },
+    fee: ReleaseFeeQuote,
+    journalEntryId: string
+  ): Promise<void> {
+    const charge = await platformFeeService.recordCharge(tx, {
+      type: FeeChargeType.FREELANCER_COMMISSION,
+      scheduleId: fee.scheduleId,
+      contractId: contract.id,
+      escrowAccountId: contract.escrowAccount.id,
+      clientId: contract.clientId,
+      freelancerId: contract.freelancerId,
+      grossAmount: fee.grossAmount,
+      percentageFee: fee.percentageFee,
+      fixedFee: fee.fixedFee,
+      totalFee: fee.totalFee,
+      lifetimeBillingsBefore: fee.lifetimeBillingsBefore,
+      breakdown: fee,
+      journalEntryId,
+    });
+
+    if (charge.totalFee > 0) {
+      await invoiceService.issueFeeInvoice(tx, charge);
+    }
+  }
+
   /**
     إيداع مبلغ من رصيد العميل المتاح في حساب الضمان (Escrow).
     يتم استخدامها عند دفع أول دفعة أو دفعة مرحلية جديدة.
+    رسوم المعالجة (إن وُجدت في جدول العمولات) تُخصم من العميل فوق المبلغ المودع.
+    المبلغ بعملة العقد ويُحول إلى عملة التسوية (USD) بالسعر الساري وقت الإيداع.
     يتم استدعاؤها من FinanceController.
    * @param userId معرف العميل الذي يقوم بالإيداع.
    * @param contractId معرف العقد.
-   * @param amount المبلغ المراد إيداعه (بالقرش - Minor Units).
+   * @param contractAmount المبلغ المراد إيداعه بالوحدة الصغرى لعملة العقد.
    */
   public async depositFunds(
     userId: string,
     contractId: string,
-    amount: number
-  ): Promise<void> {
-    if (amount <= 0) {
+    contractAmount: number
+  ): Promise<EscrowTransaction> {
+    if (contractAmount <= 0) {
       throw new Error("Deposit amount must be positive.");
     }
 
     // 1. جلب بيانات العقد والتحقق من صلاحية العميل
     const contractWithEscrow = await this._getContractWithEscrow(contractId);
-    const { escrowAccount } = contractWithEscrow;
 
     if (contractWithEscrow.clientId !== userId) {
       throw new Error(
@@ -70,57 +183,149 @@ class EscrowService {
       );
     }
 
-    await prisma.$transaction(
-      async (tx: TransactionClient) => {
-        // 2. التحقق من رصيد العميل المتاح (في Wallet)
-        const clientWallet = await tx.wallet.findUnique({
-          where: { userId: userId },
-        });
+    return prisma.$transaction(
+      async (tx: TransactionClient) =>
+        this._deposit(tx, contractWithEscrow, contractAmount),
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
 
-        if (!clientWallet || clientWallet.availableBalance < amount) {
-          throw new Error("Insufficient available balance in client wallet.");
-        }
+  /**
+   * تنفيذ الإيداع داخل معاملة Prisma (مشترك بين الإيداع اليدوي وتمويل المراحل وفوترة الساعات).
+   * @param contractAmount المبلغ بالوحدة الصغرى لعملة العقد.
+   * @param link المرحلة أو كشف الساعات الذي يموله الإيداع (اختياري).
+   */
+  private async _deposit(
+    tx: TransactionClient,
+    contractWithEscrow: Contract & { escrowAccount: EscrowAccount },
+    contractAmount: number,
+    link: EscrowTransactionLink = {}
+  ): Promise<EscrowTransaction> {
+    const { escrowAccount } = contractWithEscrow;
+    const contractId = contractWithEscrow.id;
+    const userId = contractWithEscrow.clientId;
 
-        // 3. خصم المبلغ من رصيد العميل المتاح (DEDUCTION)
-        await tx.wallet.update({
-          where: { userId: userId },
-          data: { availableBalance: { decrement: amount } },
-        });
+    // تحويل المبلغ إلى عملة التسوية وحفظ السعر المستخدم
+    const { amount, fx } = await fxService.toSettlement(
+      tx,
+      contractAmount,
+      contractWithEscrow.currency
+    );
 
-        // 4. زيادة المبلغ المحجوز في EscrowAccount
-        await tx.escrowAccount.update({
-          where: { id: escrowAccount.id },
-          data: { heldAmount: { increment: amount } },
-        });
+    // 2. التحقق من رصيد العميل المتاح (في Wallet)
+    const clientWallet = await tx.wallet.findUnique({
+      where: { userId: userId },
+    });
 
-        // 5. تسجيل المعاملة في EscrowTransaction
-        await tx.escrowTransaction.create({
-          data: {
-            escrowAccountId: escrowAccount.id,
-            amount: amount,
-            type: EscrowTransactionType.DEPOSIT,
-            sourceWalletId: clientWallet.id,
-            description: `Deposit for contract ${contractId}`,
-          },
-        });
+    const processingFee = await platformFeeService.quoteProcessingFee(
+      tx,
+      amount
+    );
+    const totalCharge = amount + processingFee.totalFee;
 
-        // 6. تسجيل المعاملة في WalletTransaction للعميل (HOLD)
-        await tx.walletTransaction.create({
-          data: {
-            walletId: clientWallet.id,
-            amount: amount,
-            // استخدام DEPOSIT أو HOLD - بما أن الأموال تخرج من محفظة العميل فهي HOLD فعلياً
-            type: TransactionType.HOLD,
-            metadata: { source: `Escrow Deposit for Contract ${contractId}` },
-            relatedId: contractId,
-          },
-        });
+    if (!clientWallet || clientWallet.availableBalance < totalCharge) {
+      throw new Error("Insufficient available balance in client wallet.");
+    }
+    walletService.assertNotFrozen(clientWallet);
+
+    // 3. قيد الإيداع: مدين رصيد العميل المتاح، دائن حساب الضمان (ورسوم المعالجة لإيرادات المنصة)
+    // (يتم تحديث availableBalance و heldAmount من أرصدة الدفتر)
+    const lines: PostingLine[] = [
+      {
+        account: ledgerService.walletAvailable(clientWallet.id),
+        direction: PostingDirection.DEBIT,
+        amount: totalCharge,
       },
       {
-        maxWait: 5000,
-        timeout: 15000,
-      }
+        account: ledgerService.escrowHeld(escrowAccount.id),
+        direction: PostingDirection.CREDIT,
+        amount,
+      },
+    ];
+    if (processingFee.totalFee > 0) {
+      lines.push({
+        account: ledgerService.platformRevenue(),
+        direction: PostingDirection.CREDIT,
+        amount: processingFee.totalFee,
+      });
+    }
+
+    const journalEntry = await ledgerService.postEntry(tx, {
+      type: LedgerEntryType.ESCROW_DEPOSIT,
+      description: `Deposit for contract ${contractId}`,
+      referenceType: "CONTRACT",
+      referenceId: contractId,
+      lines,
+    });
+
+    let processingCharge: PlatformFeeCharge | null = null;
+    if (processingFee.totalFee > 0) {
+      processingCharge = await platformFeeService.recordCharge(tx, {
+        type: FeeChargeType.CLIENT_PROCESSING,
+        scheduleId: processingFee.scheduleId,
+        contractId,
+        escrowAccountId: escrowAccount.id,
+        clientId: contractWithEscrow.clientId,
+        freelancerId: contractWithEscrow.freelancerId,
+        grossAmount: amount,
+        percentageFee: processingFee.percentageFee,
+        fixedFee: processingFee.fixedFee,
+        totalFee: processingFee.totalFee,
+        breakdown: processingFee,
+        journalEntryId: journalEntry.id,
+      });
+    }
+
+    // 4. تسجيل المعاملة في EscrowTransaction
+    const escrowTransaction = await tx.escrowTransaction.create({
+      data: {
+        escrowAccountId: escrowAccount.id,
+        amount: amount,
+        type: EscrowTransactionType.DEPOSIT,
+        sourceWalletId: clientWallet.id,
+        journalEntryId: journalEntry.id,
+        ...link,
+        description: link.milestoneId
+          ? `Deposit for contract ${contractId} milestone ${link.milestoneId}`
+          : link.timesheetId
+            ? `Deposit for contract ${contractId} timesheet ${link.timesheetId}`
+            : `Deposit for contract ${contractId}`,
+        ...fx,
+      },
+    });
+
+    // 5. تسجيل المعاملة في WalletTransaction للعميل (HOLD)
+    await tx.walletTransaction.create({
+      data: {
+        walletId: clientWallet.id,
+        amount: totalCharge,
+        // استخدام DEPOSIT أو HOLD - بما أن الأموال تخرج من محفظة العميل فهي HOLD فعلياً
+        type: TransactionType.HOLD,
+        metadata: {
+          source: `Escrow Deposit for Contract ${contractId}`,
+          escrowAmount: amount,
+          processingFee: processingFee.totalFee,
+        },
+        relatedId: contractId,
+        journalEntryId: journalEntry.id,
+        ...fx,
+      },
+    });
+
+    // 6. فاتورة العميل عن الإيداع وفاتورة رسوم المعالجة (ضمن نفس المعاملة)
+    await invoiceService.issueDepositInvoice(
+      tx,
+      contractWithEscrow,
+      escrowTransaction
     );
+    if (processingCharge) {
+      await invoiceService.issueFeeInvoice(tx, processingCharge);
+    }
+
+    return escrowTransaction;
   }
 
   /**
@@ -129,14 +334,15 @@ class EscrowService {
    *
    * @param userId معرف العميل الذي يحرر الأموال.
    * @param contractId معرف العقد.
-   * @param amount المبلغ المراد تحريره (بالقرش - Minor Units).
+   * @param contractAmount المبلغ المراد تحريره بالوحدة الصغرى لعملة العقد
+   * (يُحول إلى USD بأسعار الإيداعات المحجوزة، لا بالسعر الساري وقت التحرير).
    */
   public async releaseFunds(
     userId: string,
     contractId: string,
-    amount: number
+    contractAmount: number
   ): Promise<void> {
-    if (amount <= 0) {
+    if (contractAmount <= 0) {
       throw new Error("Release amount must be positive.");
     }
 
@@ -150,56 +356,345 @@ class EscrowService {
 
     await prisma.$transaction(
       async (tx: TransactionClient) => {
-        const { escrowAccount } = contractWithEscrow;
+        const { releaseAmount } = await this.toHeldSettlement(tx, contractId, {
+          releaseAmount: contractAmount,
+          refundAmount: 0,
+        });
 
-        // 2. التحقق من كفاية المبلغ المحجوز في EscrowAccount
-        const currentEscrow = await tx.escrowAccount.findUnique({
-          where: { id: escrowAccount.id },
+        // 2. التحرير بنفس مسار التسويات (قيد ESCROW_RELEASE مع العمولة والإيصال)
+        await this.settleFunds(tx, contractId, {
+          releaseAmount,
+          refundAmount: 0,
+          description: `Funds released for Contract ${contractId} milestone`,
         });
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
 
-        // تم تحديث التحقق لاستخدام حقل heldAmount الصحيح
-        if (!currentEscrow || currentEscrow.heldAmount < amount) {
-          throw new Error(
-            `Insufficient funds (${currentEscrow?.heldAmount}) held in escrow for release of ${amount}.`
-          );
-        }
+  /**
+   * المبلغ المحجوز (لمرحلة/كشف ساعات، أو على مستوى العقد) من معاملات الضمان المحفوظة:
+   * الإيداعات بمبالغها بالدولار وبعملة العقد، ناقص ما حُرر أو استُرد منها.
+   * المبلغ على مستوى العقد لا يشمل ما مُوّلت به المراحل وكشوف الساعات، فهذه تُسوى عبر مرحلتها فقط.
+   * معاملات التحرير والاسترداد التي لا تحمل حقول التحويل تُقدّر بمتوسط سعر الإيداعات.
+   */
+  private async _heldFunds(
+    tx: TransactionClient,
+    escrowAccountId: string,
+    link: EscrowTransactionLink
+  ): Promise<HeldFunds> {
+    const scope =
+      link.milestoneId || link.timesheetId
+        ? link
+        : { milestoneId: null, timesheetId: null };
+    const transactions = await tx.escrowTransaction.findMany({
+      where: { escrowAccountId, ...scope },
+      select: { type: true, amount: true, originalAmount: true },
+    });
 
-        // 3. خصم المبلغ من EscrowAccount
-        await tx.escrowAccount.update({
-          where: { id: escrowAccount.id },
-          data: { heldAmount: { decrement: amount } },
-        });
+    const deposited = { amount: 0, originalAmount: 0 };
+    for (const t of transactions) {
+      if (t.type !== EscrowTransactionType.DEPOSIT) continue;
+      deposited.amount += t.amount;
+      deposited.originalAmount += t.originalAmount ?? t.amount;
+    }
 
-        // 4. إضافة المبلغ إلى الرصيد المعلق للمستقل (RELEASE)
-        // يتم تمرير tx إلى خدمة المحفظة لضمان بقائها ضمن المعاملة
-        await walletService.updatePendingBalance(
-          tx,
-          contractWithEscrow.freelancerId,
-          amount
-        );
+    return transactions.reduce(
+      (held, t) =>
+        t.type === EscrowTransactionType.DEPOSIT
+          ? held
+          : {
+              amount: held.amount - t.amount,
+              originalAmount:
+                held.originalAmount -
+                (t.originalAmount ??
+                  Math.round(
+                    (t.amount * deposited.originalAmount) / deposited.amount
+                  )),
+            },
+      deposited
+    );
+  }
+
+  /**
+   * تحويل مبلغي تسوية بعملة العقد (بالوحدة الصغرى) إلى الدولار بأسعار الإيداعات المحجوزة،
+   * فتسوية كامل المحجوز بعملة العقد تساوي المحجوز بالدولار تماماً مهما تغير سعر الصرف.
+   * @param tx Prisma Transaction Client.
+   * @param contractId معرف العقد.
+   * @param shares مبلغ التحرير ومبلغ الاسترداد بالوحدة الصغرى لعملة العقد.
+   * @param link المرحلة أو كشف الساعات الذي تخصه التسوية (اختياري).
+   */
+  public async toHeldSettlement(
+    tx: TransactionClient,
+    contractId: string,
+    shares: SettlementShares,
+    link: EscrowTransactionLink = {}
+  ): Promise<SettlementShares> {
+    const { releaseAmount, refundAmount } = shares;
+    if (
+      !Number.isInteger(releaseAmount) ||
+      !Number.isInteger(refundAmount) ||
+      releaseAmount < 0 ||
+      refundAmount < 0 ||
+      releaseAmount + refundAmount <= 0
+    ) {
+      throw new Error("Invalid settlement amounts.");
+    }
+
+    const { escrowAccount } = await this._getContractWithEscrow(contractId);
+    const held = await this._heldFunds(tx, escrowAccount.id, link);
+    const total = releaseAmount + refundAmount;
+    if (held.amount <= 0 || held.originalAmount < total) {
+      throw new Error(
+        `Insufficient funds (${held.originalAmount}) held in escrow for settlement of ${total}.`
+      );
+    }
+
+    const [release, refund] = allocateMoney(
+      money(held.amount, SETTLEMENT_CURRENCY),
+      [releaseAmount, refundAmount, held.originalAmount - total]
+    );
+    return { releaseAmount: release.amount, refundAmount: refund.amount };
+  }
+
+  /**
+   * حقول التحويل لجزأي التسوية: ما يقابل كل جزء بعملة العقد من المحجوز بنفس النسبة
+   * (فارغة لعقود USD، كما في الإيداع).
+   */
+  private _settlementFx(
+    currency: string,
+    held: HeldFunds,
+    shares: SettlementShares
+  ): { release: TransactionFxFields; refund: TransactionFxFields } {
+    if (currency === SETTLEMENT_CURRENCY) return { release: {}, refund: {} };
+
+    const { releaseAmount, refundAmount } = shares;
+    const [release, refund] = allocateMoney(money(held.originalAmount, currency), [
+      releaseAmount,
+      refundAmount,
+      Math.max(held.amount - releaseAmount - refundAmount, 0),
+    ]);
+
+    const fxFields = (amount: number, originalAmount: number) =>
+      amount > 0
+        ? {
+            originalCurrency: currency,
+            originalAmount,
+            fxRate:
+              fromMinorUnits(originalAmount, currency) /
+              fromMinorUnits(amount, SETTLEMENT_CURRENCY),
+          }
+        : {};
+
+    return {
+      release: fxFields(releaseAmount, release.amount),
+      refund: fxFields(refundAmount, refund.amount),
+    };
+  }
+
+  /**
+   * [C] تسوية مبلغ محجوز في الضمان: جزء للرصيد المعلق للمستقل وجزء يعود للرصيد المتاح للعميل.
+   * يتم تسجيل قيد واحد متوازن (مدين: الضمان، دائن: المستقل وعمولة المنصة و/أو العميل)
+   * مع سجلات EscrowTransaction و WalletTransaction المقابلة.
+   * يجب استدعاؤها داخل معاملة Prisma (تُستخدم في الاسترداد والتقسيم والتسويات المعتمدة).
+   * @param tx Prisma Transaction Client.
+   * @param contractId معرف العقد.
+   * @param settlement مبلغ التحرير للمستقل ومبلغ الاسترداد للعميل (بالقرش) ووصف العملية،
+   * والمرحلة أو كشف الساعات الذي تخصه التسوية إن وُجد.
+   */
+  public async settleFunds(
+    tx: TransactionClient,
+    contractId: string,
+    settlement: {
+      releaseAmount: number;
+      refundAmount: number;
+      description: string;
+    } & EscrowTransactionLink
+  ): Promise<JournalEntry> {
+    const { releaseAmount, refundAmount, description, ...link } = settlement;
+
+    if (releaseAmount < 0 || refundAmount < 0 || releaseAmount + refundAmount <= 0) {
+      throw new Error("Invalid settlement amounts.");
+    }
+
+    const total = releaseAmount + refundAmount;
+    const contractWithEscrow = await this._getContractWithEscrow(contractId);
+    const { escrowAccount, clientId, freelancerId } = contractWithEscrow;
+
+    // 1. التحقق من كفاية المبلغ المحجوز
+    const currentEscrow = await tx.escrowAccount.findUnique({
+      where: { id: escrowAccount.id },
+    });
+
+    if (!currentEscrow || currentEscrow.heldAmount < total) {
+      throw new Error(
+        `Insufficient funds (${currentEscrow?.heldAmount}) held in escrow for settlement of ${total}.`
+      );
+    }
+
+    // التسوية لا تتجاوز المحجوز لنطاقها: تسوية العقد لا تمس أموال المراحل وكشوف الساعات
+    const held = await this._heldFunds(tx, escrowAccount.id, link);
+    if (held.amount < total) {
+      throw new Error(
+        `Insufficient funds (${held.amount}) held in escrow for settlement of ${total}.`
+      );
+    }
 
-        // 5. تسجيل المعاملة في EscrowTransaction (RELEASE)
-        const freelancerWallet = await tx.wallet.findUnique({
-          where: { userId: contractWithEscrow.freelancerId },
+    // ما يقابل كل جزء بعملة العقد بأسعار الإيداعات المحجوزة
+    const fx = this._settlementFx(contractWithEscrow.currency, held, {
+      releaseAmount,
+      refundAmount,
+    });
+
+    // 2. تجهيز بنود القيد
+    const lines: PostingLine[] = [
+      {
+        account: ledgerService.escrowHeld(escrowAccount.id),
+        direction: PostingDirection.DEBIT,
+        amount: total,
+      },
+    ];
+
+    // الجزء المحرر للمستقل تُخصم منه عمولة المنصة، والجزء المسترد للعميل لا عمولة عليه
+    let freelancerWalletId: string | null = null;
+    let fee: ReleaseFeeQuote | null = null;
+    if (releaseAmount > 0) {
+      const freelancerWallet = await walletService.getActiveFreelancerWallet(
+        tx,
+        freelancerId
+      );
+      freelancerWalletId = freelancerWallet.id;
+      fee = await platformFeeService.quoteReleaseFee(tx, {
+        clientId,
+        freelancerId,
+        grossAmount: releaseAmount,
+      });
+
+      if (fee.netAmount > 0) {
+        lines.push({
+          account: ledgerService.walletPending(freelancerWallet.id),
+          direction: PostingDirection.CREDIT,
+          amount: fee.netAmount,
+        });
+      }
+      if (fee.totalFee > 0) {
+        lines.push({
+          account: ledgerService.platformRevenue(),
+          direction: PostingDirection.CREDIT,
+          amount: fee.totalFee,
         });
+      }
+    }
 
-        if (freelancerWallet) {
-          await tx.escrowTransaction.create({
-            data: {
-              escrowAccountId: escrowAccount.id,
-              amount: amount,
-              type: EscrowTransactionType.RELEASE,
-              destinationWalletId: freelancerWallet.id,
-              description: `Funds released for Contract ${contractId} milestone`,
+    let clientWalletId: string | null = null;
+    if (refundAmount > 0) {
+      const clientWallet = await tx.wallet.findUnique({
+        where: { userId: clientId },
+      });
+      if (!clientWallet) {
+        throw new Error("Client wallet not found. Aborting refund.");
+      }
+      clientWalletId = clientWallet.id;
+      lines.push({
+        account: ledgerService.walletAvailable(clientWallet.id),
+        direction: PostingDirection.CREDIT,
+        amount: refundAmount,
+      });
+    }
+
+    const entryType =
+      releaseAmount > 0 && refundAmount > 0
+        ? LedgerEntryType.ESCROW_SPLIT
+        : releaseAmount > 0
+          ? LedgerEntryType.ESCROW_RELEASE
+          : LedgerEntryType.ESCROW_REFUND;
+
+    // 3. تسجيل القيد (يتم تحديث heldAmount والأرصدة من الدفتر)
+    const journalEntry = await ledgerService.postEntry(tx, {
+      type: entryType,
+      description,
+      referenceType: "CONTRACT",
+      referenceId: contractId,
+      lines,
+    });
+
+    // 4. تسجيل المعاملات في EscrowTransaction و WalletTransaction
+    if (freelancerWalletId && fee) {
+      await this._recordCommission(tx, contractWithEscrow, fee, journalEntry.id);
+
+      const escrowTransaction = await tx.escrowTransaction.create({
+        data: {
+          escrowAccountId: escrowAccount.id,
+          amount: releaseAmount,
+          type: EscrowTransactionType.RELEASE,
+          destinationWalletId: freelancerWalletId,
+          journalEntryId: journalEntry.id,
+          ...link,
+          description,
+          ...fx.release,
+        },
+      });
+
+      await invoiceService.issueReleaseReceipt(
+        tx,
+        contractWithEscrow,
+        escrowTransaction,
+        fee.totalFee
+      );
+
+      if (fee.netAmount > 0) {
+        await tx.walletTransaction.create({
+          data: {
+            walletId: freelancerWalletId,
+            amount: fee.netAmount,
+            type: TransactionType.RELEASE,
+            relatedId: contractId,
+            relatedType: "ESCROW_RELEASE",
+            journalEntryId: journalEntry.id,
+            clearsAt: await clearingPolicyService.getClearsAt(tx, freelancerId),
+            metadata: {
+              source: `Escrow Settlement for Contract ${contractId}`,
+              grossAmount: releaseAmount,
+              platformFee: fee.totalFee,
             },
-          });
-        }
-      },
-      {
-        maxWait: 5000,
-        timeout: 15000,
+            ...fx.release,
+          },
+        });
       }
-    );
+    }
+
+    if (clientWalletId) {
+      await tx.escrowTransaction.create({
+        data: {
+          escrowAccountId: escrowAccount.id,
+          amount: refundAmount,
+          type: EscrowTransactionType.REFUND,
+          destinationWalletId: clientWalletId,
+          journalEntryId: journalEntry.id,
+          ...link,
+          description,
+          ...fx.refund,
+        },
+      });
+
+      await tx.walletTransaction.create({
+        data: {
+          walletId: clientWalletId,
+          amount: refundAmount,
+          type: TransactionType.ADJUSTMENT,
+          relatedId: contractId,
+          relatedType: "REFUND",
+          journalEntryId: journalEntry.id,
+          metadata: { source: `Escrow Refund from Contract ${contractId}` },
+          ...fx.refund,
+        },
+      });
+    }
+
+    return journalEntry;
   }
 
   /**
@@ -218,58 +713,548 @@ class EscrowService {
       throw new Error("Refund amount must be positive.");
     }
 
-    // 1. جلب بيانات العقد
-    const contractWithEscrow = await this._getContractWithEscrow(contractId);
-
     await prisma.$transaction(
       async (tx: TransactionClient) => {
-        const { escrowAccount } = contractWithEscrow;
+        await this.settleFunds(tx, contractId, {
+          releaseAmount: 0,
+          refundAmount: amount,
+          description: `Refund for contract ${contractId} (System: ${isSystemRefund})`,
+        });
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+   * قفل المرحلة داخل المعاملة وجلب حالة تمويلها.
+   * تحديث الصف يقفله حتى نهاية المعاملة، فلا تتداخل طلبات التمويل/التحرير لنفس المرحلة.
+   * held هو صافي المبلغ المحجوز للمرحلة (الإيداعات ناقص الاستردادات)، ويتغير بتعديلات العقد.
+   * deposit هو آخر إيداع إذا كانت المرحلة ممولة (held > 0).
+   */
+  private async _lockMilestone(tx: TransactionClient, milestoneId: string) {
+    const milestone = await tx.milestone.update({
+      where: { id: milestoneId },
+      data: { updatedAt: new Date() },
+    });
 
-        // 2. التحقق من كفاية المبلغ المحجوز
-        const currentEscrow = await tx.escrowAccount.findUnique({
-          where: { id: escrowAccount.id },
+    const transactions = await tx.escrowTransaction.findMany({
+      where: { milestoneId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const held = transactions.reduce(
+      (sum, t) =>
+        t.type === EscrowTransactionType.DEPOSIT
+          ? sum + t.amount
+          : t.type === EscrowTransactionType.REFUND
+            ? sum - t.amount
+            : sum,
+      0
+    );
+
+    return {
+      milestone,
+      held,
+      deposit:
+        held > 0
+          ? transactions.find((t) => t.type === EscrowTransactionType.DEPOSIT) ??
+            null
+          : null,
+      release:
+        transactions.find((t) => t.type === EscrowTransactionType.RELEASE) ??
+        null,
+    };
+  }
+
+  /**
+   * المبلغ المحجوز حالياً لمرحلة (الإيداع الساري الذي لم يُحرر)، مع قفل المرحلة داخل المعاملة.
+   * يُستخدم في تسوية النزاعات على مرحلة واحدة.
+   * @param milestoneId معرف المرحلة.
+   */
+  /**
+   * المبلغ المحجوز على مستوى العقد (غير المخصص لمرحلة أو كشف ساعات) بالدولار.
+   */
+  public async getContractHeldAmount(
+    tx: TransactionClient,
+    escrowAccountId: string
+  ): Promise<number> {
+    const held = await this._heldFunds(tx, escrowAccountId, {});
+    return Math.max(held.amount, 0);
+  }
+
+  public async getMilestoneHeldAmount(
+    tx: TransactionClient,
+    milestoneId: string
+  ): Promise<number> {
+    const { held, release } = await this._lockMilestone(tx, milestoneId);
+    return release ? 0 : held;
+  }
+
+  private async _getMilestoneContractId(milestoneId: string): Promise<string> {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      select: { contractId: true },
+    });
+
+    if (!milestone) {
+      throw new Error("Milestone not found.");
+    }
+    return milestone.contractId;
+  }
+
+  /**
+    فتح حساب الضمان لعقد جديد (برصيد صفر).
+    تستدعيها خدمة العقود (contract-service) عند إنشاء العقد من عرض مقبول.
+    العملية قابلة لإعادة المحاولة: إذا كان للعقد حساب ضمان يُعاد الحساب الحالي مع created = false.
+   * @param contractId معرف العقد.
+   */
+  public async openEscrowAccount(
+    contractId: string
+  ): Promise<EscrowAccountOpenResult> {
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+      include: { escrow: true },
+    });
+
+    if (!contract) {
+      throw new Error("Contract not found.");
+    }
+    if (contract.escrow) {
+      return { escrowAccount: contract.escrow, created: false };
+    }
+
+    try {
+      const escrowAccount = await prisma.$transaction(
+        async (tx: TransactionClient) => {
+          // قيمة العقد الإجمالية بالدولار (العقود بالساعة تبدأ بصفر)
+          const initialAmount =
+            contract.amount > 0
+              ? (
+                  await fxService.toSettlement(
+                    tx,
+                    contract.amount,
+                    contract.currency
+                  )
+                ).amount
+              : 0;
+
+          return tx.escrowAccount.create({
+            data: {
+              contractId,
+              clientId: contract.clientId,
+              freelancerId: contract.freelancerId,
+              initialAmount,
+            },
+          });
+        },
+        {
+          maxWait: 5000,
+          timeout: 15000,
+        }
+      );
+      return { escrowAccount, created: true };
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+    }
+
+    // طلب متزامن أنشأ الحساب بين القراءة والإنشاء
+    const escrowAccount = await prisma.escrowAccount.findUniqueOrThrow({
+      where: { contractId },
+    });
+    return { escrowAccount, created: false };
+  }
+
+  /**
+    تمويل مرحلة: إيداع مبلغها من رصيد العميل المتاح في الضمان عند بدء العمل عليها.
+    تستدعيها خدمة العقود (contract-service) عند نقل المرحلة إلى IN_PROGRESS.
+    العملية قابلة لإعادة المحاولة: إذا كانت المرحلة ممولة يُعاد الإيداع الحالي مع created = false.
+   * @param milestoneId معرف المرحلة.
+   */
+  public async fundMilestone(
+    milestoneId: string
+  ): Promise<EscrowOperationResult> {
+    const contractWithEscrow = await this._getContractWithEscrow(
+      await this._getMilestoneContractId(milestoneId)
+    );
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const { milestone, deposit, release } = await this._lockMilestone(
+          tx,
+          milestoneId
+        );
+
+        if (deposit) {
+          return { escrowTransaction: deposit, created: false };
+        }
+        if (release) {
+          throw new Error("Invalid milestone funding: milestone is already paid.");
+        }
+
+        // مبلغ المرحلة بالوحدة الصغرى لعملة العقد
+        const contractAmount = milestone.amount;
+        if (contractAmount <= 0) {
+          throw new Error("Invalid milestone amount.");
+        }
+
+        const escrowTransaction = await this._deposit(
+          tx,
+          contractWithEscrow,
+          contractAmount,
+          { milestoneId }
+        );
+        return { escrowTransaction, created: true };
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+    تحرير مبلغ مرحلة ممولة إلى الرصيد المعلق للمستقل بعد موافقة العميل.
+    يُحرر المبلغ المحجوز للمرحلة بالدولار (بدون إعادة تحويل) حتى لا يتأثر بتغير سعر الصرف.
+    العملية قابلة لإعادة المحاولة: إذا كانت المرحلة محررة يُعاد التحرير السابق مع created = false.
+   * @param milestoneId معرف المرحلة.
+   */
+  public async releaseMilestone(
+    milestoneId: string
+  ): Promise<EscrowOperationResult> {
+    const contractId = await this._getMilestoneContractId(milestoneId);
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const { held, release } = await this._lockMilestone(tx, milestoneId);
+
+        if (release) {
+          return { escrowTransaction: release, created: false };
+        }
+        if (held <= 0) {
+          throw new Error("Invalid milestone release: milestone is not funded.");
+        }
+
+        const journalEntry = await this.settleFunds(tx, contractId, {
+          releaseAmount: held,
+          refundAmount: 0,
+          description: `Funds released for Contract ${contractId} milestone ${milestoneId}`,
+          milestoneId,
         });
 
-        // تم تحديث التحقق لاستخدام حقل heldAmount الصحيح
-        if (!currentEscrow || currentEscrow.heldAmount < amount) {
+        const escrowTransaction = await tx.escrowTransaction.findFirstOrThrow({
+          where: {
+            milestoneId,
+            journalEntryId: journalEntry.id,
+            type: EscrowTransactionType.RELEASE,
+          },
+        });
+        return { escrowTransaction, created: true };
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+    إعادة مبلغ تمويل المرحلة إلى الرصيد المتاح للعميل.
+    تُستخدم كتعويض (compensation) عندما يفشل نقل المرحلة إلى IN_PROGRESS بعد تمويلها.
+    رسوم المعالجة المحصلة عند الإيداع لا تُعاد (كما في refundFunds).
+    ترجع null إذا لم يكن هناك تمويل ساري للمرحلة.
+   * @param milestoneId معرف المرحلة.
+   */
+  public async refundMilestone(
+    milestoneId: string
+  ): Promise<EscrowOperationResult | null> {
+    const contractId = await this._getMilestoneContractId(milestoneId);
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const { held, release } = await this._lockMilestone(tx, milestoneId);
+
+        if (release) {
           throw new Error(
-            `Insufficient funds (${currentEscrow?.heldAmount}) held in escrow for refund of ${amount}.`
+            "Invalid milestone refund: milestone funds were already released."
           );
         }
+        if (held <= 0) {
+          return null;
+        }
 
-        // 3. خصم المبلغ من EscrowAccount
-        await tx.escrowAccount.update({
-          where: { id: escrowAccount.id },
-          data: { heldAmount: { decrement: amount } },
+        const journalEntry = await this.settleFunds(tx, contractId, {
+          releaseAmount: 0,
+          refundAmount: held,
+          description: `Refund for contract ${contractId} milestone ${milestoneId}`,
+          milestoneId,
         });
 
-        // 4. إضافة المبلغ إلى الرصيد المتاح للعميل (REFUND)
-        const clientWallet = await tx.wallet.update({
-          where: { userId: contractWithEscrow.clientId },
-          data: { availableBalance: { increment: amount } },
+        const escrowTransaction = await tx.escrowTransaction.findFirstOrThrow({
+          where: {
+            milestoneId,
+            journalEntryId: journalEntry.id,
+            type: EscrowTransactionType.REFUND,
+          },
         });
+        return { escrowTransaction, created: true };
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+   * استرداد جزء من المبلغ المحجوز لمرحلة ممولة إلى الرصيد المتاح للعميل (تخفيض مبلغها أو حذفها).
+   */
+  private async _refundMilestonePart(
+    tx: TransactionClient,
+    contractId: string,
+    milestoneId: string,
+    amount: number
+  ): Promise<AmendmentEscrowMovement> {
+    const journalEntry = await this.settleFunds(tx, contractId, {
+      releaseAmount: 0,
+      refundAmount: amount,
+      description: `Amendment refund for contract ${contractId} milestone ${milestoneId}`,
+      milestoneId,
+    });
 
-        // 5. تسجيل المعاملة في EscrowTransaction
-        await tx.escrowTransaction.create({
+    const escrowTransaction = await tx.escrowTransaction.findFirstOrThrow({
+      where: {
+        milestoneId,
+        journalEntryId: journalEntry.id,
+        type: EscrowTransactionType.REFUND,
+      },
+    });
+    return {
+      milestoneId,
+      type: "REFUND",
+      amount,
+      escrowTransactionId: escrowTransaction.id,
+    };
+  }
+
+  /**
+    تنفيذ الجانب المالي لتعديل عقد قبله الطرفان (حالته APPLYING)، في معاملة واحدة:
+    - المراحل المحذوفة: استرداد المبلغ المحجوز لها إلى العميل.
+    - المراحل الممولة التي زاد مبلغها: إيداع الفرق من محفظة العميل (بسعر الصرف الحالي).
+    - المراحل الممولة التي نقص مبلغها: استرداد الجزء المقابل من المحجوز (بنفس النسبة، بدون إعادة تحويل).
+    - تغيير مبلغ العقد: تحديث initialAmount لحساب الضمان.
+    المراحل غير الممولة لا تحتاج حركة، فهي تُمول بمبلغها الجديد عند بدء العمل عليها.
+    العملية قابلة لإعادة المحاولة: escrowAdjustedAt على التعديل يمنع تنفيذها مرتين.
+   * @param amendmentId معرف التعديل.
+   */
+  public async applyAmendment(
+    amendmentId: string
+  ): Promise<AmendmentAdjustmentResult> {
+    const amendment = await prisma.contractAmendment.findUnique({
+      where: { id: amendmentId },
+    });
+
+    if (!amendment) {
+      throw new Error("Amendment not found.");
+    }
+    if (amendment.escrowAdjustedAt) {
+      return {
+        movements: amendmentEscrowMovementsSchema.parse(
+          amendment.escrowAdjustment
+        ),
+        created: false,
+      };
+    }
+    if (amendment.status !== AmendmentStatus.APPLYING) {
+      throw new Error("Invalid amendment adjustment: amendment is not being applied.");
+    }
+
+    const contractWithEscrow = await this._getContractWithEscrow(
+      amendment.contractId
+    );
+    const contractId = contractWithEscrow.id;
+    const parsedChanges = amendmentMilestoneChangesSchema.safeParse(
+      amendment.milestoneChanges ?? {}
+    );
+    if (!parsedChanges.success) {
+      throw new Error("Invalid amendment: malformed milestone changes.");
+    }
+    const changes = parsedChanges.data;
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        // قفل صف التعديل: طلب متزامن لنفس التعديل ينتظر ثم يجد escrowAdjustedAt
+        const locked = await tx.contractAmendment.update({
+          where: { id: amendmentId },
+          data: { updatedAt: new Date() },
+        });
+        if (locked.escrowAdjustedAt) {
+          return {
+            movements: amendmentEscrowMovementsSchema.parse(
+              locked.escrowAdjustment
+            ),
+            created: false,
+          };
+        }
+
+        const movements: AmendmentEscrowMovement[] = [];
+
+        for (const milestoneId of changes.remove) {
+          const { held, release } = await this._lockMilestone(tx, milestoneId);
+          if (release) {
+            throw new Error("Invalid amendment: milestone funds were already released.");
+          }
+          if (held > 0) {
+            movements.push(
+              await this._refundMilestonePart(tx, contractId, milestoneId, held)
+            );
+          }
+        }
+
+        for (const change of changes.update) {
+          if (change.amount === undefined) continue;
+
+          const { milestone, held, release } = await this._lockMilestone(
+            tx,
+            change.milestoneId
+          );
+          if (release) {
+            throw new Error("Invalid amendment: milestone funds were already released.");
+          }
+          if (held <= 0 || change.amount === milestone.amount) continue;
+
+          if (change.amount > milestone.amount) {
+            const deposit = await this._deposit(
+              tx,
+              contractWithEscrow,
+              change.amount - milestone.amount,
+              { milestoneId: milestone.id }
+            );
+            movements.push({
+              milestoneId: milestone.id,
+              type: "DEPOSIT",
+              amount: deposit.amount,
+              escrowTransactionId: deposit.id,
+            });
+          } else {
+            const [, refund] = allocateMoney(money(held, SETTLEMENT_CURRENCY), [
+              change.amount,
+              milestone.amount - change.amount,
+            ]);
+            movements.push(
+              await this._refundMilestonePart(
+                tx,
+                contractId,
+                milestone.id,
+                refund.amount
+              )
+            );
+          }
+        }
+
+        if (amendment.newAmount !== null) {
+          const { amount: initialAmount } = await fxService.toSettlement(
+            tx,
+            amendment.newAmount,
+            contractWithEscrow.currency
+          );
+          await tx.escrowAccount.update({
+            where: { id: contractWithEscrow.escrowAccount.id },
+            data: { initialAmount },
+          });
+        }
+
+        await tx.contractAmendment.update({
+          where: { id: amendmentId },
           data: {
-            escrowAccountId: escrowAccount.id,
-            amount: amount,
-            type: EscrowTransactionType.REFUND,
-            destinationWalletId: clientWallet.id,
-            description: `Refund for contract ${contractId} (System: ${isSystemRefund})`,
+            escrowAdjustedAt: new Date(),
+            escrowAdjustment: movements,
           },
         });
 
-        // 6. تسجيل المعاملة في WalletTransaction للعميل (REFUND)
-        await tx.walletTransaction.create({
-          data: {
-            walletId: clientWallet.id,
-            amount: amount,
-            type: TransactionType.ADJUSTMENT,
-            metadata: { source: `Escrow Refund from Contract ${contractId}` },
-            relatedId: contractId,
+        return { movements, created: true };
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+    فوترة كشف ساعات أسبوعي لعقد بالساعة: خصم مبلغه من رصيد العميل المتاح إلى الضمان
+    ثم تحريره للرصيد المعلق للمستقل، في معاملة واحدة (مع فاتورة العميل وإيصال المستقل).
+    تستدعيها خدمة العقود بعد انتهاء مهلة مراجعة العميل.
+    العملية قابلة لإعادة المحاولة: إذا كان الكشف مفوتراً يُعاد التحرير السابق مع created = false.
+   * @param timesheetId معرف كشف الساعات.
+   */
+  public async billTimesheet(
+    timesheetId: string
+  ): Promise<EscrowOperationResult> {
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { id: timesheetId },
+      select: { contractId: true },
+    });
+
+    if (!timesheet) {
+      throw new Error("Timesheet not found.");
+    }
+
+    const contractWithEscrow = await this._getContractWithEscrow(
+      timesheet.contractId
+    );
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        // تحديث الصف يقفله حتى نهاية المعاملة (كما في _lockMilestone)
+        const locked = await tx.timesheet.update({
+          where: { id: timesheetId },
+          data: { updatedAt: new Date() },
+        });
+
+        const existing = await tx.escrowTransaction.findFirst({
+          where: { timesheetId, type: EscrowTransactionType.RELEASE },
+        });
+        if (existing) {
+          return { escrowTransaction: existing, created: false };
+        }
+
+        const contractAmount = locked.amount ?? 0;
+        if (contractAmount <= 0) {
+          throw new Error("Invalid timesheet amount.");
+        }
+
+        const deposit = await this._deposit(
+          tx,
+          contractWithEscrow,
+          contractAmount,
+          { timesheetId }
+        );
+
+        const journalEntry = await this.settleFunds(tx, contractWithEscrow.id, {
+          releaseAmount: deposit.amount,
+          refundAmount: 0,
+          description: `Hourly earnings for Contract ${contractWithEscrow.id} week of ${locked.weekStart
+            .toISOString()
+            .slice(0, 10)}`,
+          timesheetId,
+        });
+
+        const escrowTransaction = await tx.escrowTransaction.findFirstOrThrow({
+          where: {
+            timesheetId,
+            journalEntryId: journalEntry.id,
+            type: EscrowTransactionType.RELEASE,
           },
         });
+        return { escrowTransaction, created: true };
       },
       {
         maxWait: 5000,
@@ -283,20 +1268,61 @@ class EscrowService {
    * @param contractId معرف العقد.
    */
   public async getEscrowAccountStatus(
-    contractId: string
-  ): Promise<{ heldAmount: number; initialAmount: number } | null> {
+    contractId: string,
+    userId?: string
+  ): Promise<EscrowAccountStatus | null> {
     const escrow = await prisma.escrowAccount.findUnique({
       where: { contractId: contractId },
+      include: { contract: { select: { currency: true } } },
     });
 
     if (!escrow) return null;
 
+    if (
+      userId &&
+      escrow.clientId !== userId &&
+      escrow.freelancerId !== userId
+    ) {
+      throw new Error("Unauthorized: User is not a party to this contract.");
+    }
+
+    // عرض المبالغ بعملة العقد بالسعر الحالي (تقريبي - المبالغ الفعلية بالدولار)
+    const currency = escrow.contract.currency;
+    const [held, initial] = await Promise.all([
+      fxService.toDisplay(escrow.heldAmount, currency),
+      fxService.toDisplay(escrow.initialAmount, currency),
+    ]);
+
     return {
       // تحويل من قرش إلى دولار للعرض
       heldAmount: escrow.heldAmount / 100,
       initialAmount: escrow.initialAmount / 100,
+      display:
+        held && initial
+          ? {
+              currency,
+              heldAmount: held.amount,
+              initialAmount: initial.amount,
+              rate: held.rate,
+            }
+          : null,
     };
   }
+
+  /**
+   * عملة العقد (تُستخدم لتحويل المبالغ المدخلة إلى الوحدة الصغرى الصحيحة).
+   */
+  public async getContractCurrency(contractId: string): Promise<string> {
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+      select: { currency: true },
+    });
+
+    if (!contract) {
+      throw new Error("Contract not found.");
+    }
+    return contract.currency;
+  }
 }
 
 export default EscrowService;
@@ -0,0 +1,192 @@
+import { prisma } from "db-client/index.ts";
+import type { CountryCode, ExchangeRate } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+import {
+  COUNTRY_CURRENCY,
+  SETTLEMENT_CURRENCY,
+  fromMinorUnits,
+  isSupportedCurrency,
+  toMinorUnits,
+} from "../utils/currency.ts";
+
+// حقول التحويل المسجلة على EscrowTransaction / WalletTransaction (فارغة لعقود USD)
+export interface TransactionFxFields {
+  originalCurrency?: string;
+  originalAmount?: number;
+  fxRate?: number;
+}
+
+export interface FxConversion {
+  amount: number; // بالوحدة الصغرى للعملة الهدف
+  rate: number; // وحدات عملة المصدر مقابل 1 من العملة الهدف
+}
+
+/**
+ * خدمة FxService: تحويل العملات عبر جدول أسعار صرف محلي يحدّثه المشرف.
+ * كل الأسعار محفوظة مقابل عملة التسوية (USD)، والتحويل بين عملتين أخريين يمر عبرها.
+ */
+class FxService {
+  /**
+   * السعر الساري: وحدات currency مقابل 1 USD.
+   */
+  private async _getUsdRate(
+    tx: TransactionClient,
+    currency: string
+  ): Promise<number> {
+    if (currency === SETTLEMENT_CURRENCY) return 1;
+
+    const latest = await tx.exchangeRate.findFirst({
+      where: {
+        baseCurrency: SETTLEMENT_CURRENCY,
+        quoteCurrency: currency,
+        effectiveAt: { lte: new Date() },
+      },
+      orderBy: { effectiveAt: "desc" },
+    });
+
+    if (!latest) {
+      throw new Error(`Exchange rate not found for ${currency}.`);
+    }
+    return Number(latest.rate);
+  }
+
+  /**
+   * سعر التحويل من from إلى to: وحدات from مقابل 1 من to.
+   */
+  public async getRate(
+    tx: TransactionClient,
+    from: string,
+    to: string
+  ): Promise<number> {
+    if (from === to) return 1;
+
+    const [fromRate, toRate] = await Promise.all([
+      this._getUsdRate(tx, from),
+      this._getUsdRate(tx, to),
+    ]);
+    return fromRate / toRate;
+  }
+
+  /**
+   * تحويل مبلغ (بالوحدة الصغرى) من عملة إلى أخرى بالسعر الساري.
+   * @param tx Prisma Transaction Client.
+   * @param amount المبلغ بالوحدة الصغرى لعملة المصدر.
+   * @param from عملة المصدر.
+   * @param to العملة الهدف.
+   */
+  public async convert(
+    tx: TransactionClient,
+    amount: number,
+    from: string,
+    to: string
+  ): Promise<FxConversion> {
+    const rate = await this.getRate(tx, from, to);
+    return {
+      amount: toMinorUnits(fromMinorUnits(amount, from) / rate, to),
+      rate,
+    };
+  }
+
+  /**
+   * تحويل مبلغ بعملة العقد إلى عملة التسوية، مع حقول التحويل التي تُسجل على المعاملة.
+   * @param tx Prisma Transaction Client.
+   * @param amount المبلغ بالوحدة الصغرى لعملة العقد.
+   * @param currency عملة العقد.
+   */
+  public async toSettlement(
+    tx: TransactionClient,
+    amount: number,
+    currency: string
+  ): Promise<{ amount: number; fx: TransactionFxFields }> {
+    if (currency === SETTLEMENT_CURRENCY) return { amount, fx: {} };
+
+    const conversion = await this.convert(
+      tx,
+      amount,
+      currency,
+      SETTLEMENT_CURRENCY
+    );
+    if (conversion.amount <= 0) {
+      throw new Error("Invalid amount: too small after currency conversion.");
+    }
+
+    return {
+      amount: conversion.amount,
+      fx: {
+        originalCurrency: currency,
+        originalAmount: amount,
+        fxRate: conversion.rate,
+      },
+    };
+  }
+
+  /**
+   * عرض مبلغ بعملة التسوية (بالقرش) بعملة أخرى (بالوحدة الأساسية).
+   * @returns null إذا لم يتوفر سعر صرف للعملة المطلوبة.
+   */
+  public async toDisplay(
+    amount: number,
+    currency: string
+  ): Promise<{ amount: number; rate: number } | null> {
+    try {
+      const { amount: converted, rate } = await this.convert(
+        prisma,
+        amount,
+        SETTLEMENT_CURRENCY,
+        currency
+      );
+      return { amount: fromMinorUnits(converted, currency), rate: 1 / rate };
+    } catch {
+      return null;
+    }
+  }
+
+  public currencyForCountry(country: CountryCode): string {
+    return COUNTRY_CURRENCY[country] ?? SETTLEMENT_CURRENCY;
+  }
+
+  /**
+   * إضافة سعر صرف جديد (السجلات السابقة تبقى للتاريخ).
+   * @param adminId معرف المشرف.
+   * @param currency العملة المقابلة لـ USD.
+   * @param rate وحدات العملة مقابل 1 USD.
+   * @param source مصدر السعر.
+   */
+  public async setRate(
+    adminId: string,
+    currency: string,
+    rate: number,
+    source?: string
+  ): Promise<ExchangeRate> {
+    if (currency === SETTLEMENT_CURRENCY || !isSupportedCurrency(currency)) {
+      throw new Error(`Invalid currency: ${currency}.`);
+    }
+
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error("Invalid exchange rate: must be a positive number.");
+    }
+
+    return prisma.exchangeRate.create({
+      data: {
+        baseCurrency: SETTLEMENT_CURRENCY,
+        quoteCurrency: currency,
+        rate,
+        source,
+        createdById: adminId,
+      },
+    });
+  }
+
+  /**
+   * أحدث سعر لكل عملة.
+   */
+  public async listRates(): Promise<ExchangeRate[]> {
+    return prisma.exchangeRate.findMany({
+      where: { baseCurrency: SETTLEMENT_CURRENCY },
+      distinct: ["quoteCurrency"],
+      orderBy: [{ quoteCurrency: "asc" }, { effectiveAt: "desc" }],
+    });
+  }
+}
+
+export default FxService;
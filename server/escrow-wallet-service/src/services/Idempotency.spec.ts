@@ -0,0 +1,219 @@
+import { IdempotencyStatus, Prisma } from "@prisma/client";
+import IdempotencyService from "./Idempotency.ts";
+import type { IdempotentRequest } from "./Idempotency.ts";
+
+jest.mock("db-client/index.ts", () => ({
+  prisma: {
+    idempotencyKey: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+import { prisma } from "db-client/index.ts";
+
+const keys = prisma.idempotencyKey as unknown as Record<string, jest.Mock>;
+const service = new IdempotencyService();
+
+const request: IdempotentRequest = {
+  key: "key-1",
+  userId: "user-1",
+  method: "POST",
+  path: "/api/finance/escrow/deposit/contract-1",
+  body: { amount: 100 },
+};
+
+const duplicateKey = () =>
+  new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+    code: "P2002",
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+// السجل كما خزنه أول claim لنفس الطلب
+async function storedRecord(overrides: Record<string, unknown> = {}) {
+  keys.create.mockImplementationOnce(async ({ data }) => ({
+    id: "record-1",
+    status: IdempotencyStatus.IN_PROGRESS,
+    ...data,
+  }));
+  const claim = await service.claim(request);
+  if (claim.state !== "NEW") throw new Error("expected a new claim");
+  return { ...claim.record, ...overrides };
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe("IdempotencyService.claim", () => {
+  it("claims a new key with a lease", async () => {
+    const record = await storedRecord();
+
+    expect(record.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(record.expiresAt.getTime()).toBeGreaterThan(
+      record.lockedUntil!.getTime()
+    );
+  });
+
+  it("replays the stored response for the same request", async () => {
+    const record = await storedRecord({
+      status: IdempotencyStatus.COMPLETED,
+      lockedUntil: null,
+      responseCode: 201,
+      responseBody: { message: "done" },
+    });
+    keys.create.mockRejectedValueOnce(duplicateKey());
+    keys.findUnique.mockResolvedValueOnce(record);
+
+    await expect(service.claim(request)).resolves.toEqual({
+      state: "REPLAY",
+      response: { statusCode: 201, body: { message: "done" } },
+    });
+  });
+
+  it("rejects the key when it is reused for a different request", async () => {
+    const record = await storedRecord();
+    keys.create.mockRejectedValueOnce(duplicateKey());
+    keys.findUnique.mockResolvedValueOnce(record);
+
+    await expect(
+      service.claim({ ...request, body: { amount: 200 } })
+    ).resolves.toEqual({ state: "CONFLICT" });
+  });
+
+  it("reports the request as in progress while the lease holds", async () => {
+    const record = await storedRecord();
+    keys.create.mockRejectedValueOnce(duplicateKey());
+    keys.findUnique.mockResolvedValueOnce(record);
+
+    await expect(service.claim(request)).resolves.toEqual({
+      state: "IN_PROGRESS",
+    });
+    expect(keys.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("claims the key again once the lease of a crashed request ran out", async () => {
+    const expiredLease = new Date(Date.now() - 1000);
+    const record = await storedRecord({ lockedUntil: expiredLease });
+    keys.create.mockRejectedValueOnce(duplicateKey());
+    keys.findUnique.mockResolvedValueOnce(record);
+    keys.updateMany.mockResolvedValueOnce({ count: 1 });
+    keys.findUniqueOrThrow.mockImplementationOnce(async () => ({
+      ...record,
+      lockedUntil: keys.updateMany.mock.calls[0][0].data.lockedUntil,
+    }));
+
+    const claim = await service.claim(request);
+
+    expect(claim.state).toBe("NEW");
+    expect(keys.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: record.id,
+        status: IdempotencyStatus.IN_PROGRESS,
+        lockedUntil: expiredLease,
+      },
+      data: { lockedUntil: expect.any(Date) },
+    });
+  });
+
+  it("replays instead of running again when the crashed request already moved the money", async () => {
+    const record = await storedRecord({
+      lockedUntil: new Date(Date.now() - 1000),
+      journalEntryId: "entry-1",
+    });
+    keys.create.mockRejectedValueOnce(duplicateKey());
+    keys.findUnique.mockResolvedValueOnce(record);
+    keys.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await expect(service.claim(request)).resolves.toEqual({
+      state: "REPLAY",
+      response: {
+        statusCode: 200,
+        body: {
+          message: "The request was already processed.",
+          journalEntryId: "entry-1",
+        },
+      },
+    });
+    expect(keys.updateMany).toHaveBeenCalledWith({
+      where: { id: record.id, status: IdempotencyStatus.IN_PROGRESS },
+      data: expect.objectContaining({ status: IdempotencyStatus.COMPLETED }),
+    });
+  });
+
+  it("leaves an expired lease to the request that took it over first", async () => {
+    const record = await storedRecord({
+      lockedUntil: new Date(Date.now() - 1000),
+    });
+    keys.create.mockRejectedValueOnce(duplicateKey());
+    keys.findUnique.mockResolvedValueOnce(record);
+    keys.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.claim(request)).resolves.toEqual({
+      state: "IN_PROGRESS",
+    });
+  });
+});
+
+describe("IdempotencyService.complete", () => {
+  it("stores the response and ends the lease", async () => {
+    await service.complete("record-1", { statusCode: 200, body: { ok: true } });
+
+    expect(keys.update).toHaveBeenCalledWith({
+      where: { id: "record-1" },
+      data: {
+        status: IdempotencyStatus.COMPLETED,
+        lockedUntil: null,
+        responseCode: 200,
+        responseBody: { ok: true },
+      },
+    });
+  });
+});
+
+describe("IdempotencyService.linkJournalEntry", () => {
+  const tx = { idempotencyKey: { updateMany: jest.fn() } };
+
+  it("links the first journal entry of the running request to its key", async () => {
+    await service.run("record-1", () =>
+      service.linkJournalEntry(tx as never, "entry-1")
+    );
+
+    expect(tx.idempotencyKey.updateMany).toHaveBeenCalledWith({
+      where: { id: "record-1", journalEntryId: null },
+      data: { journalEntryId: "entry-1" },
+    });
+  });
+
+  it("does nothing outside an idempotent request", async () => {
+    await service.linkJournalEntry(tx as never, "entry-1");
+
+    expect(tx.idempotencyKey.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("IdempotencyService.release", () => {
+  it("keeps the key of a request that already moved money", async () => {
+    keys.deleteMany.mockResolvedValueOnce({ count: 0 });
+    keys.findUnique.mockResolvedValueOnce({
+      id: "record-1",
+      journalEntryId: "entry-1",
+    });
+    keys.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await service.release("record-1");
+
+    expect(keys.deleteMany).toHaveBeenCalledWith({
+      where: { id: "record-1", journalEntryId: null },
+    });
+    expect(keys.updateMany).toHaveBeenCalledWith({
+      where: { id: "record-1", status: IdempotencyStatus.IN_PROGRESS },
+      data: expect.objectContaining({ status: IdempotencyStatus.COMPLETED }),
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { prisma } from "db-client/index.ts";
+import { IdempotencyStatus, Prisma } from "@prisma/client";
+import type { IdempotencyKey } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+
+const KEY_TTL_HOURS = parseInt(
+  process.env.IDEMPOTENCY_KEY_TTL_HOURS || "24",
+  10
+);
+// مهلة حجز المفتاح أثناء التنفيذ: أطول من أقصى مدة لمعاملة مالية (maxWait + timeout)
+const KEY_LEASE_SECONDS = parseInt(
+  process.env.IDEMPOTENCY_KEY_LEASE_SECONDS || "60",
+  10
+);
+
+export interface IdempotentRequest {
+  key: string;
+  userId: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export interface IdempotentResponse {
+  statusCode: number;
+  body: Record<string, unknown>;
+}
+
+// المفتاح الذي تُنفذ عمليته حالياً (انظر run و linkJournalEntry)
+const activeKey = new AsyncLocalStorage<string>();
+
+export type IdempotencyClaim =
+  | { state: "NEW"; record: IdempotencyKey }
+  | { state: "REPLAY"; response: IdempotentResponse }
+  | { state: "IN_PROGRESS" }
+  | { state: "CONFLICT" };
+
+/**
+ * خدمة IdempotencyService: تخزين بصمات الطلبات والاستجابات الخاصة بمفتاح Idempotency-Key،
+ * بحيث يعيد تكرار الطلب نفس النتيجة الأصلية بدلاً من تحريك الأموال مرة ثانية.
+ */
+class IdempotencyService {
+  /**
+   * بصمة ثابتة للطلب: الطريقة + المسار + جسم الطلب بمفاتيح مرتبة.
+   */
+  private _fingerprint(request: IdempotentRequest): string {
+    const canonicalize = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(canonicalize);
+      if (value && typeof value === "object") {
+        return Object.keys(value as Record<string, unknown>)
+          .sort()
+          .reduce<Record<string, unknown>>((acc, key) => {
+            acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+            return acc;
+          }, {});
+      }
+      return value;
+    };
+
+    return createHash("sha256")
+      .update(
+        JSON.stringify([
+          request.method,
+          request.path,
+          canonicalize(request.body ?? {}),
+        ])
+      )
+      .digest("hex");
+  }
+
+  private _leaseEnd(): Date {
+    return new Date(Date.now() + KEY_LEASE_SECONDS * 1000);
+  }
+
+  // الاستجابة المخزنة لعملية اكتملت حركتها المالية دون أن تُخزن استجابتها الأصلية
+  private _processedResponse(journalEntryId: string): IdempotentResponse {
+    return {
+      statusCode: 200,
+      body: { message: "The request was already processed.", journalEntryId },
+    };
+  }
+
+  private async _completeProcessed(
+    record: IdempotencyKey & { journalEntryId: string }
+  ): Promise<IdempotentResponse> {
+    const response = this._processedResponse(record.journalEntryId);
+    await prisma.idempotencyKey.updateMany({
+      where: { id: record.id, status: IdempotencyStatus.IN_PROGRESS },
+      data: {
+        status: IdempotencyStatus.COMPLETED,
+        lockedUntil: null,
+        responseCode: response.statusCode,
+        responseBody: response.body as Prisma.InputJsonObject,
+      },
+    });
+    return response;
+  }
+
+  /**
+   * حجز المفتاح قبل تنفيذ العملية المالية.
+   * - NEW: أول مرة يُستخدم المفتاح (أو انتهت مهلة حجز سابق لم يكتمل)،
+   *   يجب تنفيذ العملية ثم استدعاء complete أو release.
+   * - REPLAY: الطلب نفسه نُفذ سابقاً، تُعاد الاستجابة المخزنة.
+   * - IN_PROGRESS: الطلب الأصلي ما زال قيد التنفيذ.
+   * - CONFLICT: المفتاح مستخدم لطلب مختلف (بصمة مختلفة).
+   */
+  public async claim(request: IdempotentRequest): Promise<IdempotencyClaim> {
+    const requestHash = this._fingerprint(request);
+    const expiresAt = new Date(Date.now() + KEY_TTL_HOURS * 60 * 60 * 1000);
+
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          key: request.key,
+          userId: request.userId,
+          method: request.method,
+          path: request.path,
+          requestHash,
+          expiresAt,
+          lockedUntil: this._leaseEnd(),
+        },
+      });
+      return { state: "NEW", record };
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId: request.userId, key: request.key } },
+    });
+
+    // المفتاح حُذف أو انتهت صلاحيته بين المحاولتين: نعيد المحاولة كطلب جديد
+    if (!existing || existing.expiresAt < new Date()) {
+      await prisma.idempotencyKey.deleteMany({
+        where: { userId: request.userId, key: request.key },
+      });
+      return this.claim(request);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      return { state: "CONFLICT" };
+    }
+
+    if (existing.status === IdempotencyStatus.IN_PROGRESS) {
+      if (existing.lockedUntil && existing.lockedUntil > new Date()) {
+        return { state: "IN_PROGRESS" };
+      }
+
+      // الحركة المالية تمت (قيدها مرتبط بالمفتاح في نفس معاملتها) لكن الاستجابة لم تُخزن:
+      // لا تُنفذ مرة ثانية
+      if (existing.journalEntryId) {
+        return {
+          state: "REPLAY",
+          response: await this._completeProcessed({
+            ...existing,
+            journalEntryId: existing.journalEntryId,
+          }),
+        };
+      }
+
+      // انتهت مهلة الحجز دون complete أو release ودون أي حركة مالية (توقف الخدمة أثناء التنفيذ):
+      // يُعاد حجز المفتاح لهذا الطلب، وطلب متزامن آخر يجد الحجز الجديد
+      const { count } = await prisma.idempotencyKey.updateMany({
+        where: {
+          id: existing.id,
+          status: IdempotencyStatus.IN_PROGRESS,
+          lockedUntil: existing.lockedUntil,
+        },
+        data: { lockedUntil: this._leaseEnd() },
+      });
+      if (count === 0) {
+        return { state: "IN_PROGRESS" };
+      }
+
+      const record = await prisma.idempotencyKey.findUniqueOrThrow({
+        where: { id: existing.id },
+      });
+      return { state: "NEW", record };
+    }
+
+    return {
+      state: "REPLAY",
+      response: {
+        statusCode: existing.responseCode ?? 200,
+        body: (existing.responseBody ?? {}) as Record<string, unknown>,
+      },
+    };
+  }
+
+  /**
+   * تنفيذ العملية المالية مع ربط قيودها بالمفتاح (عبر linkJournalEntry داخل معاملتها).
+   */
+  public run<T>(recordId: string, operation: () => Promise<T>): Promise<T> {
+    return activeKey.run(recordId, operation);
+  }
+
+  /**
+   * ربط المفتاح الجاري بأول قيد تسجله العملية، داخل نفس معاملة Prisma الخاصة بالقيد،
+   * فإذا اكتملت الحركة المالية ولم تُخزن الاستجابة (توقف الخدمة قبل complete)
+   * يعرف claim عند انتهاء مهلة الحجز أن العملية نُفذت ولا يعيد تنفيذها.
+   * تستدعيها LedgerService.postEntry، ولا تفعل شيئاً خارج run.
+   * @param tx Prisma Transaction Client.
+   * @param journalEntryId معرف القيد.
+   */
+  public async linkJournalEntry(
+    tx: TransactionClient,
+    journalEntryId: string
+  ): Promise<void> {
+    const recordId = activeKey.getStore();
+    if (!recordId) return;
+
+    await tx.idempotencyKey.updateMany({
+      where: { id: recordId, journalEntryId: null },
+      data: { journalEntryId },
+    });
+  }
+
+  /**
+   * تخزين الاستجابة النهائية ليُعاد إرسالها عند تكرار الطلب.
+   */
+  public async complete(
+    recordId: string,
+    response: IdempotentResponse
+  ): Promise<void> {
+    await prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        status: IdempotencyStatus.COMPLETED,
+        lockedUntil: null,
+        responseCode: response.statusCode,
+        responseBody: response.body as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  /**
+   * تحرير المفتاح بعد خطأ داخلي (5xx) حتى يتمكن العميل من إعادة المحاولة بنفس المفتاح.
+   * إذا كانت الحركة المالية قد تمت قبل الخطأ يبقى المفتاح وتُخزن له استجابة "نُفذ سابقاً".
+   */
+  public async release(recordId: string): Promise<void> {
+    const { count } = await prisma.idempotencyKey.deleteMany({
+      where: { id: recordId, journalEntryId: null },
+    });
+    if (count > 0) return;
+
+    const record = await prisma.idempotencyKey.findUnique({
+      where: { id: recordId },
+    });
+    if (record?.journalEntryId) {
+      await this._completeProcessed({
+        ...record,
+        journalEntryId: record.journalEntryId,
+      });
+    }
+  }
+}
+
+export default IdempotencyService;
@@ -0,0 +1,479 @@
+import { prisma } from "db-client/index.ts";
+import { uploadToR2, downloadFromR2 } from "@rizlax/R2";
+import { formatMoney, money } from "@rizlax/money";
+import { FeeChargeType, InvoiceType, Prisma } from "@prisma/client";
+import type {
+  CountryCode,
+  EscrowAccount,
+  EscrowTransaction,
+  Invoice,
+  PlatformFeeCharge,
+} from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+import { renderPdf } from "@rizlax/pdf";
+import type { PdfLine } from "@rizlax/pdf";
+import { SETTLEMENT_CURRENCY } from "../utils/currency.ts";
+import { includedTax, taxRuleFor } from "../utils/tax.ts";
+
+// بيانات طرف الفاتورة كما كانت وقت الإصدار
+export type InvoiceParty = {
+  name: string;
+  companyName: string | null;
+  email: string | null;
+  country: CountryCode | null;
+  taxNumber: string | null;
+  address: string | null;
+};
+
+// المبالغ بالقرش (سالبة للخصومات مثل عمولة المنصة في الإيصال)
+export type InvoiceLine = {
+  description: string;
+  amount: number;
+};
+
+// أطراف العقد بمعرفات المستخدمين (كما في باقي خدمات الضمان)
+interface InvoiceContract {
+  id: string;
+  clientId: string;
+  freelancerId: string;
+}
+
+interface IssueInvoiceInput {
+  type: InvoiceType;
+  contractId: string;
+  milestoneId?: string | null;
+  escrowTransactionId?: string;
+  feeChargeId?: string;
+  issuedToId: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  taxable: boolean; // الضريبة حسب دولة المشتري (الإيصالات بدون ضريبة)
+}
+
+const INVOICE_PREFIXES: Record<InvoiceType, string> = {
+  [InvoiceType.CLIENT_INVOICE]: "INV",
+  [InvoiceType.RECEIPT]: "RCT",
+  [InvoiceType.FEE_INVOICE]: "FEE",
+};
+
+const formatAmount = (cents: number): string => (cents / 100).toFixed(2);
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * خدمة InvoiceService: إصدار فواتير العملاء وإيصالات المستقلين وفواتير رسوم المنصة.
+ * الإصدار يتم داخل معاملة الحركة المالية (إيداع/تحرير/رسوم)، وملف PDF يُنشأ ويُحفظ في R2 عند أول تحميل.
+ */
+class InvoiceService {
+  /**
+   * الرقم التالي للنوع والسنة. زيادة العداد تقفل صفه حتى نهاية المعاملة،
+   * وإلغاء المعاملة يلغي الزيادة، فلا تظهر فجوات في الترقيم.
+   */
+  private async _nextSequence(
+    tx: TransactionClient,
+    type: InvoiceType,
+    year: number
+  ): Promise<number> {
+    const counter = await tx.invoiceSequence.upsert({
+      where: { type_year: { type, year } },
+      create: { type, year, lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
+    });
+    return counter.lastNumber;
+  }
+
+  private async _party(
+    tx: TransactionClient,
+    userId: string
+  ): Promise<InvoiceParty> {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      include: { Client: true, Freelancer: true },
+    });
+
+    if (!user) {
+      throw new Error("User not found for invoice.");
+    }
+
+    return {
+      name: user.Client?.fullName ?? user.Freelancer?.fullName ?? user.name,
+      companyName: user.Client?.companyName ?? null,
+      email: user.email,
+      country: user.country,
+      taxNumber: null,
+      address: user.Client?.location ?? null,
+    };
+  }
+
+  // بيانات المنصة كبائع في فواتير الرسوم (من إعدادات البيئة)
+  private _platformParty(): InvoiceParty {
+    return {
+      name: process.env.PLATFORM_LEGAL_NAME || "Rizlax",
+      companyName: null,
+      email: process.env.PLATFORM_BILLING_EMAIL || null,
+      country: (process.env.PLATFORM_COUNTRY as CountryCode | undefined) ?? null,
+      taxNumber: process.env.PLATFORM_TAX_NUMBER || null,
+      address: process.env.PLATFORM_ADDRESS || null,
+    };
+  }
+
+  private async _issue(
+    tx: TransactionClient,
+    input: IssueInvoiceInput
+  ): Promise<Invoice> {
+    const issuedAt = new Date();
+    const year = issuedAt.getUTCFullYear();
+    const sequence = await this._nextSequence(tx, input.type, year);
+
+    // المبالغ شاملة الضريبة: الإجمالي هو ما دُفع فعلاً، والضريبة مستخرجة منه
+    const total = input.lines.reduce((sum, line) => sum + line.amount, 0);
+    const tax = input.taxable ? taxRuleFor(input.buyer.country) : null;
+    const taxAmount = tax ? includedTax(total, tax.rate) : 0;
+
+    return tx.invoice.create({
+      data: {
+        number: `${INVOICE_PREFIXES[input.type]}-${year}-${String(sequence).padStart(6, "0")}`,
+        type: input.type,
+        year,
+        sequence,
+        contractId: input.contractId,
+        milestoneId: input.milestoneId ?? null,
+        escrowTransactionId: input.escrowTransactionId,
+        feeChargeId: input.feeChargeId,
+        issuedToId: input.issuedToId,
+        seller: input.seller as Prisma.InputJsonValue,
+        buyer: input.buyer as Prisma.InputJsonValue,
+        lines: input.lines as Prisma.InputJsonValue,
+        currency: SETTLEMENT_CURRENCY,
+        subtotal: total - taxAmount,
+        taxName: tax?.name ?? null,
+        taxRate: tax?.rate ?? null,
+        taxCountry: tax ? input.buyer.country : null,
+        taxAmount,
+        total,
+        issuedAt,
+      },
+    });
+  }
+
+  private async _lineDescription(
+    tx: TransactionClient,
+    escrowTransaction: EscrowTransaction,
+    fallback: string
+  ): Promise<string> {
+    if (escrowTransaction.timesheetId) {
+      const timesheet = await tx.timesheet.findUnique({
+        where: { id: escrowTransaction.timesheetId },
+        select: {
+          weekStart: true,
+          billedMinutes: true,
+          hourlyRate: true,
+          contract: { select: { currency: true } },
+        },
+      });
+      return timesheet
+        ? `Hours for week of ${formatDate(timesheet.weekStart)}: ${(
+            (timesheet.billedMinutes ?? 0) / 60
+          ).toFixed(2)} h @ ${formatMoney(
+            money(timesheet.hourlyRate ?? 0, timesheet.contract.currency)
+          )}/h`
+        : fallback;
+    }
+
+    if (!escrowTransaction.milestoneId) return fallback;
+
+    const milestone = await tx.milestone.findUnique({
+      where: { id: escrowTransaction.milestoneId },
+      select: { sequence: true, title: true },
+    });
+    return milestone
+      ? `Milestone ${milestone.sequence}: ${milestone.title}`
+      : fallback;
+  }
+
+  /**
+   * فاتورة العميل عن إيداع في الضمان: البائع المستقل والمشتري العميل.
+   * يجب استدعاؤها داخل معاملة الإيداع.
+   */
+  public async issueDepositInvoice(
+    tx: TransactionClient,
+    contract: InvoiceContract,
+    escrowTransaction: EscrowTransaction
+  ): Promise<Invoice> {
+    const [seller, buyer] = await Promise.all([
+      this._party(tx, contract.freelancerId),
+      this._party(tx, contract.clientId),
+    ]);
+
+    return this._issue(tx, {
+      type: InvoiceType.CLIENT_INVOICE,
+      contractId: contract.id,
+      milestoneId: escrowTransaction.milestoneId,
+      escrowTransactionId: escrowTransaction.id,
+      issuedToId: contract.clientId,
+      seller,
+      buyer,
+      lines: [
+        {
+          description: await this._lineDescription(
+            tx,
+            escrowTransaction,
+            `Freelance services - contract ${contract.id}`
+          ),
+          amount: escrowTransaction.amount,
+        },
+      ],
+      taxable: true,
+    });
+  }
+
+  /**
+   * إيصال المستقل عن تحرير من الضمان: المبلغ الإجمالي مخصوماً منه عمولة المنصة.
+   * يجب استدعاؤها داخل معاملة التحرير.
+   */
+  public async issueReleaseReceipt(
+    tx: TransactionClient,
+    contract: InvoiceContract,
+    escrowTransaction: EscrowTransaction,
+    platformFee: number
+  ): Promise<Invoice> {
+    const [payee, payer] = await Promise.all([
+      this._party(tx, contract.freelancerId),
+      this._party(tx, contract.clientId),
+    ]);
+
+    const lines: InvoiceLine[] = [
+      {
+        description: await this._lineDescription(
+          tx,
+          escrowTransaction,
+          `Escrow release - contract ${contract.id}`
+        ),
+        amount: escrowTransaction.amount,
+      },
+    ];
+    if (platformFee > 0) {
+      lines.push({ description: "Platform commission", amount: -platformFee });
+    }
+
+    return this._issue(tx, {
+      type: InvoiceType.RECEIPT,
+      contractId: contract.id,
+      milestoneId: escrowTransaction.milestoneId,
+      escrowTransactionId: escrowTransaction.id,
+      issuedToId: contract.freelancerId,
+      seller: payee,
+      buyer: payer,
+      lines,
+      taxable: false,
+    });
+  }
+
+  /**
+   * فاتورة المنصة عن عمولة المستقل أو رسوم معالجة العميل.
+   * يجب استدعاؤها داخل المعاملة التي سُجلت فيها الرسوم.
+   */
+  public async issueFeeInvoice(
+    tx: TransactionClient,
+    charge: PlatformFeeCharge
+  ): Promise<Invoice> {
+    const isCommission = charge.type === FeeChargeType.FREELANCER_COMMISSION;
+    const payerId = isCommission ? charge.freelancerId : charge.clientId;
+
+    return this._issue(tx, {
+      type: InvoiceType.FEE_INVOICE,
+      contractId: charge.contractId,
+      feeChargeId: charge.id,
+      issuedToId: payerId,
+      seller: this._platformParty(),
+      buyer: await this._party(tx, payerId),
+      lines: [
+        {
+          description: `${
+            isCommission ? "Platform commission" : "Payment processing fee"
+          } on ${formatAmount(charge.grossAmount)} ${SETTLEMENT_CURRENCY}`,
+          amount: charge.totalFee,
+        },
+      ],
+      taxable: true,
+    });
+  }
+
+  private async _getContractEscrow(
+    userId: string,
+    contractId: string
+  ): Promise<EscrowAccount> {
+    const escrow = await prisma.escrowAccount.findUnique({
+      where: { contractId },
+    });
+
+    if (!escrow) {
+      throw new Error("Escrow account not found for this contract.");
+    }
+
+    if (escrow.clientId !== userId && escrow.freelancerId !== userId) {
+      throw new Error("Unauthorized: User is not a party to this contract.");
+    }
+    return escrow;
+  }
+
+  // الوثائق الصادرة للمستخدم، والمستقل يرى أيضاً فواتير العميل التي هو بائعها
+  private _visibleTo(escrow: EscrowAccount, userId: string) {
+    return escrow.freelancerId === userId
+      ? {
+          OR: [{ issuedToId: userId }, { type: InvoiceType.CLIENT_INVOICE }],
+        }
+      : { issuedToId: userId };
+  }
+
+  /**
+   * فواتير وإيصالات العقد الخاصة بالمستخدم.
+   */
+  public async getContractInvoices(
+    userId: string,
+    contractId: string
+  ): Promise<Invoice[]> {
+    const escrow = await this._getContractEscrow(userId, contractId);
+
+    return prisma.invoice.findMany({
+      where: { contractId, ...this._visibleTo(escrow, userId) },
+      orderBy: { issuedAt: "desc" },
+    });
+  }
+
+  /**
+   * ملف PDF للفاتورة: يُقرأ من R2، أو يُنشأ ويُرفع عند أول طلب.
+   * محتوى الفاتورة ثابت منذ الإصدار، فالملف المحفوظ لا يحتاج تحديثاً.
+   */
+  public async getInvoicePdf(
+    userId: string,
+    invoiceId: string
+  ): Promise<{ invoice: Invoice; pdf: Buffer }> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+    });
+
+    if (!invoice) {
+      throw new Error("Invoice not found.");
+    }
+
+    const escrow = await this._getContractEscrow(userId, invoice.contractId);
+    const visible = await prisma.invoice.count({
+      where: { id: invoiceId, ...this._visibleTo(escrow, userId) },
+    });
+    if (!visible) {
+      throw new Error("Invoice not found.");
+    }
+
+    if (invoice.pdfKey) {
+      return { invoice, pdf: await downloadFromR2(invoice.pdfKey) };
+    }
+
+    const pdf = this.toPdf(invoice);
+    const key = `invoices/${invoice.contractId}/${invoice.number}.pdf`;
+    await uploadToR2(key, pdf, "application/pdf");
+    await prisma.invoice.updateMany({
+      where: { id: invoiceId, pdfKey: null },
+      data: { pdfKey: key },
+    });
+
+    return { invoice: { ...invoice, pdfKey: key }, pdf };
+  }
+
+  /**
+   * تحويل الفاتورة إلى ملف PDF.
+   */
+  public toPdf(invoice: Invoice): Buffer {
+    const seller = invoice.seller as InvoiceParty;
+    const buyer = invoice.buyer as InvoiceParty;
+    const lines = invoice.lines as InvoiceLine[];
+    const isReceipt = invoice.type === InvoiceType.RECEIPT;
+
+    const title = isReceipt
+      ? "Payment Receipt"
+      : invoice.taxAmount > 0
+        ? "Tax Invoice"
+        : "Invoice";
+    const [sellerLabel, buyerLabel] = isReceipt
+      ? ["Paid to", "Paid by"]
+      : ["Seller", "Buyer"];
+
+    const partyColumns = [0, 260];
+    const partyRows = (field: (party: InvoiceParty) => string | null): PdfLine[] => {
+      const cells = [field(seller) ?? "", field(buyer) ?? ""];
+      return cells.some(Boolean)
+        ? [{ text: cells, columns: partyColumns }]
+        : [];
+    };
+
+    const amountColumns = [0, 400];
+    const pdfLines: PdfLine[] = [
+      { text: `Rizlax - ${title}`, size: 16, bold: true },
+      { text: `Number: ${invoice.number}`, spaceBefore: 6 },
+      { text: `Date: ${formatDate(invoice.issuedAt)}` },
+      { text: `Contract: ${invoice.contractId}` },
+      {
+        text: [sellerLabel, buyerLabel],
+        columns: partyColumns,
+        bold: true,
+        size: 12,
+        spaceBefore: 12,
+      },
+      ...partyRows((p) => p.name),
+      ...partyRows((p) => p.companyName),
+      ...partyRows((p) => p.address),
+      ...partyRows((p) => p.country),
+      ...partyRows((p) => p.email),
+      ...partyRows((p) => (p.taxNumber ? `Tax number: ${p.taxNumber}` : null)),
+      {
+        text: ["Description", `Amount (${invoice.currency})`],
+        columns: amountColumns,
+        bold: true,
+        spaceBefore: 12,
+      },
+      ...lines.map(
+        (line): PdfLine => ({
+          text: [line.description.slice(0, 70), formatAmount(line.amount)],
+          columns: amountColumns,
+        })
+      ),
+    ];
+
+    if (invoice.taxAmount > 0) {
+      pdfLines.push(
+        {
+          text: ["Subtotal (excl. tax)", formatAmount(invoice.subtotal)],
+          columns: amountColumns,
+          spaceBefore: 8,
+        },
+        {
+          text: [
+            `${invoice.taxName} ${Number(invoice.taxRate)}% (${invoice.taxCountry})`,
+            formatAmount(invoice.taxAmount),
+          ],
+          columns: amountColumns,
+        }
+      );
+    }
+
+    pdfLines.push({
+      text: [isReceipt ? "Net amount" : "Total", formatAmount(invoice.total)],
+      columns: amountColumns,
+      bold: true,
+      spaceBefore: invoice.taxAmount > 0 ? 0 : 8,
+    });
+
+    if (invoice.taxAmount > 0) {
+      pdfLines.push({
+        text: "Amounts include tax.",
+        size: 8,
+        spaceBefore: 12,
+      });
+    }
+
+    return renderPdf(pdfLines);
+  }
+}
+
+export default InvoiceService;
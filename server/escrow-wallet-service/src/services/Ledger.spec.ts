@@ -0,0 +1,259 @@
+import { LedgerAccountType, LedgerEntryType, PostingDirection } from "@prisma/client";
+import type { LedgerAccount } from "@prisma/client";
+import LedgerService from "./Ledger.ts";
+import type { TransactionClient } from "./Wallet.ts";
+
+jest.mock("db-client/index.ts", () => ({
+  prisma: { ledgerPosting: { findFirst: jest.fn() } },
+}));
+
+import { prisma } from "db-client/index.ts";
+
+const ledger = new LedgerService();
+
+// دفتر في الذاكرة: حسابات الدفتر والقيود والأرصدة المشتقة في Wallet
+function createLedgerTx(walletBalances: Record<string, number> = {}) {
+  const accounts = new Map<string, LedgerAccount>();
+  const postings: { accountId: string; amount: number; balanceAfter: number }[] =
+    [];
+  const wallets = new Map(
+    Object.entries(walletBalances).map(([id, availableBalance]) => [
+      id,
+      { id, availableBalance, pendingBalance: 0, reservedBalance: 0 },
+    ])
+  );
+  let sequence = 0;
+
+  const tx = {
+    journalEntry: {
+      create: jest.fn(async ({ data }) => ({ id: `entry-${++sequence}`, ...data })),
+    },
+    ledgerAccount: {
+      findUnique: jest.fn(async ({ where }) => accounts.get(where.code) ?? null),
+      create: jest.fn(async ({ data }) => {
+        const account = {
+          id: `account-${++sequence}`,
+          balance: 0,
+          walletId: null,
+          escrowAccountId: null,
+          ...data,
+        };
+        accounts.set(account.code, account);
+        return account;
+      }),
+      update: jest.fn(async ({ where, data }) => {
+        const account = [...accounts.values()].find((a) => a.id === where.id)!;
+        account.balance =
+          typeof data.balance === "number"
+            ? data.balance
+            : account.balance + data.balance.increment;
+        return { ...account };
+      }),
+    },
+    ledgerPosting: {
+      create: jest.fn(async ({ data }) => {
+        postings.push(data);
+        return data;
+      }),
+      createMany: jest.fn(async ({ data }) => {
+        postings.push(...data);
+        return { count: data.length };
+      }),
+    },
+    wallet: {
+      findUnique: jest.fn(async ({ where }) => wallets.get(where.id) ?? null),
+      update: jest.fn(async ({ where, data }) => {
+        const wallet = wallets.get(where.id)!;
+        Object.assign(wallet, data);
+        return wallet;
+      }),
+    },
+    escrowAccount: {
+      findUnique: jest.fn(async () => null),
+      update: jest.fn(),
+    },
+  };
+
+  return {
+    tx: tx as unknown as TransactionClient,
+    accounts,
+    postings,
+    wallets,
+  };
+}
+
+describe("LedgerService.postEntry", () => {
+  it("posts a balanced entry and derives the wallet balances from it", async () => {
+    const { tx, accounts, postings, wallets } = createLedgerTx({
+      "wallet-client": 0,
+    });
+
+    await ledger.postEntry(tx, {
+      type: LedgerEntryType.WALLET_TOP_UP,
+      lines: [
+        {
+          account: ledger.platformCash(),
+          direction: PostingDirection.DEBIT,
+          amount: 10_000,
+        },
+        {
+          account: ledger.walletAvailable("wallet-client"),
+          direction: PostingDirection.CREDIT,
+          amount: 10_000,
+        },
+      ],
+    });
+
+    await ledger.postEntry(tx, {
+      type: LedgerEntryType.ESCROW_DEPOSIT,
+      lines: [
+        {
+          account: ledger.walletAvailable("wallet-client"),
+          direction: PostingDirection.DEBIT,
+          amount: 7_500,
+        },
+        {
+          account: ledger.escrowHeld("escrow-1"),
+          direction: PostingDirection.CREDIT,
+          amount: 7_000,
+        },
+        {
+          account: ledger.platformRevenue(),
+          direction: PostingDirection.CREDIT,
+          amount: 500,
+        },
+      ],
+    });
+
+    expect(accounts.get(LedgerAccountType.PLATFORM_CASH)?.balance).toBe(10_000);
+    expect(accounts.get(LedgerAccountType.PLATFORM_REVENUE)?.balance).toBe(500);
+    expect(wallets.get("wallet-client")?.availableBalance).toBe(2_500);
+    expect(tx.escrowAccount.update).toHaveBeenCalledWith({
+      where: { id: "escrow-1" },
+      data: { heldAmount: 7_000 },
+    });
+    expect(postings.map((p) => p.balanceAfter)).toEqual([
+      10_000, 10_000, 2_500, 7_000, 500,
+    ]);
+  });
+
+  it("rejects an unbalanced entry before writing anything", async () => {
+    const { tx, postings } = createLedgerTx();
+
+    await expect(
+      ledger.postEntry(tx, {
+        type: LedgerEntryType.ESCROW_RELEASE,
+        lines: [
+          {
+            account: ledger.platformCash(),
+            direction: PostingDirection.DEBIT,
+            amount: 100,
+          },
+          {
+            account: ledger.platformRevenue(),
+            direction: PostingDirection.CREDIT,
+            amount: 99,
+          },
+        ],
+      })
+    ).rejects.toThrow("Unbalanced journal entry");
+    expect(postings).toHaveLength(0);
+  });
+
+  it("rejects amounts that are not positive integer minor units", async () => {
+    const { tx } = createLedgerTx();
+
+    await expect(
+      ledger.postEntry(tx, {
+        type: LedgerEntryType.ESCROW_RELEASE,
+        lines: [
+          {
+            account: ledger.platformCash(),
+            direction: PostingDirection.DEBIT,
+            amount: 10.5,
+          },
+          {
+            account: ledger.platformRevenue(),
+            direction: PostingDirection.CREDIT,
+            amount: 10.5,
+          },
+        ],
+      })
+    ).rejects.toThrow("positive integers");
+  });
+
+  it("refuses to take a wallet balance below zero", async () => {
+    const { tx } = createLedgerTx({ "wallet-client": 1_000 });
+
+    await expect(
+      ledger.postEntry(tx, {
+        type: LedgerEntryType.ESCROW_DEPOSIT,
+        lines: [
+          {
+            account: ledger.walletAvailable("wallet-client"),
+            direction: PostingDirection.DEBIT,
+            amount: 1_500,
+          },
+          {
+            account: ledger.escrowHeld("escrow-1"),
+            direction: PostingDirection.CREDIT,
+            amount: 1_500,
+          },
+        ],
+      })
+    ).rejects.toThrow("Insufficient balance in ledger account");
+  });
+
+  it("opens a wallet that predates the ledger with its stored balance", async () => {
+    const { tx, accounts, wallets } = createLedgerTx({ "wallet-legacy": 4_000 });
+
+    await ledger.postEntry(tx, {
+      type: LedgerEntryType.ESCROW_DEPOSIT,
+      lines: [
+        {
+          account: ledger.walletAvailable("wallet-legacy"),
+          direction: PostingDirection.DEBIT,
+          amount: 1_000,
+        },
+        {
+          account: ledger.platformRevenue(),
+          direction: PostingDirection.CREDIT,
+          amount: 1_000,
+        },
+      ],
+    });
+
+    expect(accounts.get(LedgerAccountType.OPENING_EQUITY)?.balance).toBe(-4_000);
+    expect(wallets.get("wallet-legacy")?.availableBalance).toBe(3_000);
+  });
+});
+
+describe("LedgerService.getBalanceAt", () => {
+  const findFirst = prisma.ledgerPosting.findFirst as jest.Mock;
+
+  it("returns the balance after the last posting before the given moment", async () => {
+    findFirst.mockResolvedValueOnce({ balanceAfter: 2_500 });
+    const at = new Date("2026-10-01T00:00:00Z");
+
+    await expect(
+      ledger.getBalanceAt(ledger.walletAvailable("wallet-client"), at)
+    ).resolves.toBe(2_500);
+    expect(findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          account: { code: "WALLET_AVAILABLE:wallet-client" },
+          createdAt: { lt: at },
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      })
+    );
+  });
+
+  it("returns zero for an account without postings", async () => {
+    findFirst.mockResolvedValueOnce(null);
+
+    await expect(
+      ledger.getBalanceAt(ledger.platformCash(), new Date())
+    ).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,399 @@
+import { prisma } from "db-client/index.ts";
+import {
+  LedgerAccountType,
+  LedgerEntryType,
+  PostingDirection,
+} from "@prisma/client";
+import type { JournalEntry, LedgerAccount } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+import IdempotencyService from "./Idempotency.ts";
+import type {
+  JournalEntryInput,
+  LedgerAccountRef,
+  LedgerAccountVerification,
+} from "../types/Ledger.ts";
+
+const idempotencyService = new IdempotencyService();
+
+// الحسابات ذات الطبيعة المدينة (الأصول): الرصيد = المدين - الدائن.
+// باقي الحسابات (التزامات، إيرادات، حقوق ملكية) طبيعتها دائنة.
+const DEBIT_NORMAL_ACCOUNTS: LedgerAccountType[] = [
+  LedgerAccountType.PLATFORM_CASH,
+];
+
+// حسابات المنصة مسموح لها بالرصيد السالب، أما أرصدة المستخدمين والضمان فلا.
+const NEGATIVE_ALLOWED_ACCOUNTS: LedgerAccountType[] = [
+  LedgerAccountType.PLATFORM_CASH,
+  LedgerAccountType.PLATFORM_REVENUE,
+  LedgerAccountType.OPENING_EQUITY,
+];
+
+/**
+ * خدمة LedgerService: دفتر الأستاذ ذو القيد المزدوج.
+ * كل حركة مالية في الخدمة تمر عبر postEntry كقيد متوازن، ثم تُشتق منه
+ * أرصدة Wallet و EscrowAccount بدلاً من تعديلها مباشرة.
+ */
+class LedgerService {
+  // --- مراجع الحسابات (Account References) ---
+
+  public walletAvailable(walletId: string): LedgerAccountRef {
+    return { type: LedgerAccountType.WALLET_AVAILABLE, ownerId: walletId };
+  }
+
+  public walletPending(walletId: string): LedgerAccountRef {
+    return { type: LedgerAccountType.WALLET_PENDING, ownerId: walletId };
+  }
+
+  public walletReserved(walletId: string): LedgerAccountRef {
+    return { type: LedgerAccountType.WALLET_RESERVED, ownerId: walletId };
+  }
+
+  public escrowHeld(escrowAccountId: string): LedgerAccountRef {
+    return { type: LedgerAccountType.ESCROW_HELD, ownerId: escrowAccountId };
+  }
+
+  public platformCash(): LedgerAccountRef {
+    return { type: LedgerAccountType.PLATFORM_CASH };
+  }
+
+  public platformRevenue(): LedgerAccountRef {
+    return { type: LedgerAccountType.PLATFORM_REVENUE };
+  }
+
+  private _accountCode(ref: LedgerAccountRef): string {
+    return ref.ownerId ? `${ref.type}:${ref.ownerId}` : ref.type;
+  }
+
+  private _signedDelta(
+    type: LedgerAccountType,
+    direction: PostingDirection,
+    amount: number
+  ): number {
+    const isDebitNormal = DEBIT_NORMAL_ACCOUNTS.includes(type);
+    const isDebit = direction === PostingDirection.DEBIT;
+    return isDebitNormal === isDebit ? amount : -amount;
+  }
+
+  /**
+   * يقرأ الرصيد المخزن حالياً في Wallet / EscrowAccount المقابل للحساب.
+   * يُستخدم كرصيد افتتاحي عند فتح الحساب، وللمقارنة أثناء التحقق.
+   */
+  private async _readProjection(
+    tx: TransactionClient,
+    type: LedgerAccountType,
+    ownerId: string | null
+  ): Promise<number | null> {
+    if (!ownerId) return null;
+
+    switch (type) {
+      case LedgerAccountType.WALLET_AVAILABLE:
+      case LedgerAccountType.WALLET_PENDING:
+      case LedgerAccountType.WALLET_RESERVED: {
+        const wallet = await tx.wallet.findUnique({ where: { id: ownerId } });
+        if (!wallet) return null;
+        if (type === LedgerAccountType.WALLET_AVAILABLE) {
+          return wallet.availableBalance;
+        }
+        return type === LedgerAccountType.WALLET_PENDING
+          ? wallet.pendingBalance
+          : wallet.reservedBalance;
+      }
+      case LedgerAccountType.ESCROW_HELD: {
+        const escrow = await tx.escrowAccount.findUnique({
+          where: { id: ownerId },
+        });
+        return escrow ? escrow.heldAmount : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * يكتب رصيد حساب الدفتر في الحقل المقابل (availableBalance / pendingBalance / reservedBalance / heldAmount).
+   */
+  private async _syncProjection(
+    tx: TransactionClient,
+    account: LedgerAccount
+  ): Promise<void> {
+    switch (account.type) {
+      case LedgerAccountType.WALLET_AVAILABLE:
+        await tx.wallet.update({
+          where: { id: account.walletId! },
+          data: { availableBalance: account.balance },
+        });
+        break;
+      case LedgerAccountType.WALLET_PENDING:
+        await tx.wallet.update({
+          where: { id: account.walletId! },
+          data: { pendingBalance: account.balance },
+        });
+        break;
+      case LedgerAccountType.WALLET_RESERVED:
+        await tx.wallet.update({
+          where: { id: account.walletId! },
+          data: { reservedBalance: account.balance },
+        });
+        break;
+      case LedgerAccountType.ESCROW_HELD:
+        await tx.escrowAccount.update({
+          where: { id: account.escrowAccountId! },
+          data: { heldAmount: account.balance },
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * يجلب حساب الدفتر أو ينشئه. عند الإنشاء لمحفظة/ضمان يحمل رصيداً سابقاً
+   * (من قبل اعتماد الدفتر) يُسجَّل قيد رصيد افتتاحي مقابل حساب OPENING_EQUITY.
+   */
+  private async _getOrOpenAccount(
+    tx: TransactionClient,
+    ref: LedgerAccountRef
+  ): Promise<LedgerAccount> {
+    const code = this._accountCode(ref);
+    const existing = await tx.ledgerAccount.findUnique({ where: { code } });
+    if (existing) return existing;
+
+    const ownerId = ref.ownerId ?? null;
+    const isWalletAccount =
+      ref.type === LedgerAccountType.WALLET_AVAILABLE ||
+      ref.type === LedgerAccountType.WALLET_PENDING ||
+      ref.type === LedgerAccountType.WALLET_RESERVED;
+
+    const account = await tx.ledgerAccount.create({
+      data: {
+        code,
+        type: ref.type,
+        allowNegative: NEGATIVE_ALLOWED_ACCOUNTS.includes(ref.type),
+        walletId: isWalletAccount ? ownerId : null,
+        escrowAccountId:
+          ref.type === LedgerAccountType.ESCROW_HELD ? ownerId : null,
+      },
+    });
+
+    const openingBalance = await this._readProjection(tx, ref.type, ownerId);
+    if (!openingBalance || openingBalance <= 0) return account;
+
+    const equity = await this._getOrOpenAccount(tx, {
+      type: LedgerAccountType.OPENING_EQUITY,
+    });
+
+    const entry = await tx.journalEntry.create({
+      data: {
+        type: LedgerEntryType.OPENING_BALANCE,
+        description: `Opening balance for ${code}`,
+        referenceType: "LEDGER_ACCOUNT",
+        referenceId: account.id,
+      },
+    });
+
+    const opened = await tx.ledgerAccount.update({
+      where: { id: account.id },
+      data: { balance: openingBalance },
+    });
+    const updatedEquity = await tx.ledgerAccount.update({
+      where: { id: equity.id },
+      data: {
+        balance: {
+          increment: this._signedDelta(
+            equity.type,
+            PostingDirection.DEBIT,
+            openingBalance
+          ),
+        },
+      },
+    });
+
+    await tx.ledgerPosting.createMany({
+      data: [
+        {
+          journalEntryId: entry.id,
+          accountId: equity.id,
+          direction: PostingDirection.DEBIT,
+          amount: openingBalance,
+          balanceAfter: updatedEquity.balance,
+        },
+        {
+          journalEntryId: entry.id,
+          accountId: opened.id,
+          direction: PostingDirection.CREDIT,
+          amount: openingBalance,
+          balanceAfter: opened.balance,
+        },
+      ],
+    });
+
+    return opened;
+  }
+
+  /**
+   * تسجيل قيد متوازن في الدفتر وتحديث أرصدة الحسابات المتأثرة.
+   * يجب استدعاؤها داخل معاملة Prisma الخاصة بالحركة المالية نفسها،
+   * فأي فشل (عدم توازن أو رصيد غير كافٍ) يُلغي المعاملة بالكامل.
+   * @param tx Prisma Transaction Client.
+   * @param input نوع القيد ومرجعه وبنوده (مدين/دائن).
+   */
+  public async postEntry(
+    tx: TransactionClient,
+    input: JournalEntryInput
+  ): Promise<JournalEntry> {
+    if (input.lines.length < 2) {
+      throw new Error("A journal entry requires at least two postings.");
+    }
+
+    let totalDebit = 0;
+    let totalCredit = 0;
+    for (const line of input.lines) {
+      if (!Number.isInteger(line.amount) || line.amount <= 0) {
+        throw new Error(
+          `Posting amounts must be positive integers (minor units), got ${line.amount}.`
+        );
+      }
+      if (line.direction === PostingDirection.DEBIT) totalDebit += line.amount;
+      else totalCredit += line.amount;
+    }
+
+    if (totalDebit !== totalCredit) {
+      throw new Error(
+        `Unbalanced journal entry: debits ${totalDebit} != credits ${totalCredit}.`
+      );
+    }
+
+    const entry = await tx.journalEntry.create({
+      data: {
+        type: input.type,
+        description: input.description,
+        referenceType: input.referenceType,
+        referenceId: input.referenceId,
+      },
+    });
+    // داخل طلب بمفتاح Idempotency-Key: يُربط القيد بالمفتاح في نفس المعاملة
+    await idempotencyService.linkJournalEntry(tx, entry.id);
+
+    for (const line of input.lines) {
+      const account = await this._getOrOpenAccount(tx, line.account);
+
+      const updated = await tx.ledgerAccount.update({
+        where: { id: account.id },
+        data: {
+          balance: {
+            increment: this._signedDelta(
+              account.type,
+              line.direction,
+              line.amount
+            ),
+          },
+        },
+      });
+
+      if (updated.balance < 0 && !updated.allowNegative) {
+        throw new Error(
+          `Insufficient balance in ledger account ${updated.code} (${updated.balance}).`
+        );
+      }
+
+      await tx.ledgerPosting.create({
+        data: {
+          journalEntryId: entry.id,
+          accountId: updated.id,
+          direction: line.direction,
+          amount: line.amount,
+          balanceAfter: updated.balance,
+        },
+      });
+
+      await this._syncProjection(tx, updated);
+    }
+
+    return entry;
+  }
+
+  /**
+   * رصيد حساب في لحظة معينة = رصيد آخر قيد عليه قبلها (0 إذا لم يكن له قيود بعد).
+   * يُستخدم للأرصدة الافتتاحية والختامية في كشوف الحساب.
+   * @param ref مرجع الحساب.
+   * @param at اللحظة المطلوبة (القيود في نفس اللحظة أو بعدها لا تُحتسب).
+   */
+  public async getBalanceAt(ref: LedgerAccountRef, at: Date): Promise<number> {
+    const lastPosting = await prisma.ledgerPosting.findFirst({
+      where: {
+        account: { code: this._accountCode(ref) },
+        createdAt: { lt: at },
+      },
+      // id يفصل بين القيود المسجلة في نفس اللحظة حتى تكون النتيجة ثابتة
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      select: { balanceAfter: true },
+    });
+
+    return lastPosting?.balanceAfter ?? 0;
+  }
+
+  /**
+   * التحقق من حساب في الدفتر: يعيد حساب الرصيد من مجموع القيود ويقارنه
+   * بالرصيد المخزن في الحساب وبالحقل المقابل في Wallet / EscrowAccount.
+   * @param accountId معرف حساب الدفتر.
+   */
+  public async verifyAccount(
+    accountId: string
+  ): Promise<LedgerAccountVerification> {
+    const account = await prisma.ledgerAccount.findUnique({
+      where: { id: accountId },
+    });
+
+    if (!account) {
+      throw new Error("Ledger account not found.");
+    }
+
+    const sums = await prisma.ledgerPosting.groupBy({
+      by: ["direction"],
+      where: { accountId },
+      _sum: { amount: true },
+    });
+
+    const derivedBalance = sums.reduce(
+      (total, row) =>
+        total +
+        this._signedDelta(account.type, row.direction, row._sum.amount ?? 0),
+      0
+    );
+
+    const projectedBalance = await this._readProjection(
+      prisma,
+      account.type,
+      account.walletId ?? account.escrowAccountId
+    );
+
+    return {
+      accountId: account.id,
+      code: account.code,
+      type: account.type,
+      cachedBalance: account.balance,
+      derivedBalance,
+      projectedBalance,
+      isConsistent:
+        derivedBalance === account.balance &&
+        (projectedBalance === null || projectedBalance === account.balance),
+    };
+  }
+
+  /**
+   * التحقق من جميع حسابات الدفتر الخاصة بمحفظة معينة (المتاح والمعلق والمحجوز).
+   * @param walletId معرف المحفظة.
+   */
+  public async verifyWallet(
+    walletId: string
+  ): Promise<LedgerAccountVerification[]> {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { walletId },
+      select: { id: true },
+    });
+
+    return Promise.all(accounts.map(({ id }) => this.verifyAccount(id)));
+  }
+}
+
+export default LedgerService;
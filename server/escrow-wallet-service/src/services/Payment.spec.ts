@@ -0,0 +1,145 @@
+import { PaymentStatus, PaymentType } from "@prisma/client";
+import type { Payment } from "@prisma/client";
+import PaymentService from "./Payment.ts";
+import WalletService from "./Wallet.ts";
+import FakePaymentGateway from "../providers/payment/FakePaymentGateway.ts";
+import PaymentGatewayRegistry from "../providers/payment/PaymentGatewayRegistry.ts";
+
+jest.mock("db-client/index.ts", () => ({
+  prisma: {
+    payment: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+import { prisma } from "db-client/index.ts";
+
+const payments = prisma.payment as unknown as Record<string, jest.Mock>;
+const gateway = new FakePaymentGateway("webhook-secret", "http://localhost");
+const service = new PaymentService(
+  new PaymentGatewayRegistry().register(gateway)
+);
+
+let payment: Payment;
+let creditTopUp: jest.SpyInstance;
+
+// webhook موقع من البوابة المحلية
+function webhook(body: Record<string, unknown>) {
+  const rawBody = Buffer.from(
+    JSON.stringify({ paymentId: payment.id, ...body })
+  );
+  return service.handleWebhook("FAKE", {
+    rawBody,
+    headers: { "x-fake-signature": gateway.signPayload(rawBody) },
+    query: {},
+  });
+}
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  payment = {
+    id: "payment-1",
+    type: PaymentType.WALLET_TOP_UP,
+    method: "FAKE",
+    status: PaymentStatus.PENDING,
+    amount: 5_000,
+    currency: "USD",
+    settlementAmount: 5_000,
+    walletId: "wallet-1",
+  } as Payment;
+
+  // سجل الدفع في الذاكرة: updateMany يطبق شرط الحالة كما تفعل قاعدة البيانات
+  payments.findUnique.mockImplementation(async () => ({ ...payment }));
+  payments.findUniqueOrThrow.mockImplementation(async () => ({ ...payment }));
+  payments.update.mockImplementation(async ({ data }) =>
+    Object.assign(payment, data)
+  );
+  payments.updateMany.mockImplementation(async ({ where, data }) => {
+    const allowed: PaymentStatus[] = where.status.in ?? [where.status];
+    if (!allowed.includes(payment.status)) return { count: 0 };
+    Object.assign(payment, data);
+    return { count: 1 };
+  });
+  (prisma.$transaction as jest.Mock).mockImplementation((callback) =>
+    callback(prisma)
+  );
+  creditTopUp = jest
+    .spyOn(WalletService.prototype, "creditTopUp")
+    .mockResolvedValue({ id: "entry-1" } as never);
+});
+
+describe("PaymentService.handleWebhook", () => {
+  it("completes and credits a payment whose earlier attempt failed", async () => {
+    const failed = await webhook({
+      status: "failed",
+      failureReason: "Card declined",
+    });
+    expect(failed.processed).toBe(true);
+    expect(payment.status).toBe(PaymentStatus.FAILED);
+
+    const succeeded = await webhook({
+      status: "succeeded",
+      amount: 5_000,
+      currency: "USD",
+    });
+
+    expect(succeeded.processed).toBe(true);
+    expect(succeeded.payment).toMatchObject({
+      status: PaymentStatus.COMPLETED,
+      failureReason: null,
+      journalEntryId: "entry-1",
+    });
+    expect(creditTopUp).toHaveBeenCalledTimes(1);
+    expect(creditTopUp).toHaveBeenCalledWith(
+      prisma,
+      "wallet-1",
+      5_000,
+      "payment-1",
+      {}
+    );
+  });
+
+  it("credits a replayed success only once", async () => {
+    await webhook({ status: "succeeded" });
+    const replay = await webhook({ status: "succeeded" });
+
+    expect(replay.processed).toBe(false);
+    expect(creditTopUp).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not let a late failure undo a completed payment", async () => {
+    await webhook({ status: "succeeded" });
+    const late = await webhook({ status: "failed" });
+
+    expect(late.processed).toBe(false);
+    expect(payment.status).toBe(PaymentStatus.COMPLETED);
+  });
+
+  it("fails a payment whose paid amount does not match the session", async () => {
+    const result = await webhook({
+      status: "succeeded",
+      amount: 4_000,
+      currency: "USD",
+    });
+
+    expect(result.payment?.status).toBe(PaymentStatus.FAILED);
+    expect(creditTopUp).not.toHaveBeenCalled();
+  });
+
+  it("rejects a webhook with an invalid signature", async () => {
+    await expect(
+      service.handleWebhook("FAKE", {
+        rawBody: Buffer.from(
+          JSON.stringify({ paymentId: payment.id, status: "succeeded" })
+        ),
+        headers: { "x-fake-signature": "forged" },
+        query: {},
+      })
+    ).rejects.toThrow("Invalid webhook signature.");
+  });
+});
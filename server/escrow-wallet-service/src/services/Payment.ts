@@ -0,0 +1,275 @@
+import { prisma } from "db-client/index.ts";
+import { PaymentStatus, PaymentType } from "@prisma/client";
+import type { Payment } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+import WalletService from "./Wallet.ts";
+import FxService from "./Fx.ts";
+import PaymentGatewayRegistry from "../providers/payment/PaymentGatewayRegistry.ts";
+import type { PaymentWebhookEvent, WebhookRequest } from "../types/Payment.ts";
+import { isSupportedCurrency } from "../utils/currency.ts";
+
+const walletService = new WalletService();
+const fxService = new FxService();
+
+const MIN_TOP_UP_AMOUNT = parseInt(
+  process.env.MIN_TOP_UP_AMOUNT_CENTS || "500",
+  10
+);
+
+export interface TopUpInput {
+  amount: number; // بالوحدة الصغرى لعملة الدفع
+  currency: string;
+  method: string;
+}
+
+/**
+ * خدمة PaymentService: شحن المحفظة عبر بوابات الدفع.
+ * إنشاء جلسة الدفع يسجل Payment بحالة PENDING، ثم webhook موقع من البوابة
+ * ينقلها إلى COMPLETED (مع إضافة المبلغ للرصيد المتاح مرة واحدة فقط) أو FAILED،
+ * والدفع الفاشل يمكن أن يكتمل لاحقاً إذا نجحت محاولة أخرى لنفس الجلسة.
+ */
+class PaymentService {
+  private gateways: PaymentGatewayRegistry;
+
+  constructor(gateways: PaymentGatewayRegistry) {
+    this.gateways = gateways;
+  }
+
+  /**
+   * نقل الدفع إلى حالته الجديدة بشكل ذري.
+   * FAILED لا يكون إلا من PENDING، أما COMPLETED فمن PENDING أو FAILED:
+   * البوابة قد ترسل فشل محاولة ثم نجاح محاولة لاحقة لنفس الجلسة.
+   * @returns false إذا كان الدفع قد عولج من قبل (webhook مكرر).
+   */
+  private async _claimPending(
+    tx: TransactionClient,
+    paymentId: string,
+    data: { status: PaymentStatus; paidAt?: Date; failureReason?: string | null }
+  ): Promise<boolean> {
+    const claimed = await tx.payment.updateMany({
+      where: {
+        id: paymentId,
+        status:
+          data.status === PaymentStatus.COMPLETED
+            ? { in: [PaymentStatus.PENDING, PaymentStatus.FAILED] }
+            : PaymentStatus.PENDING,
+      },
+      data,
+    });
+    return claimed.count > 0;
+  }
+
+  private async _findPayment(
+    method: string,
+    event: PaymentWebhookEvent
+  ): Promise<Payment> {
+    const payment = event.paymentId
+      ? await prisma.payment.findUnique({ where: { id: event.paymentId } })
+      : event.providerId
+        ? await prisma.payment.findUnique({
+            where: {
+              method_providerId: { method, providerId: event.providerId },
+            },
+          })
+        : null;
+
+    if (!payment || payment.method !== method) {
+      throw new Error("Payment not found for this webhook.");
+    }
+    return payment;
+  }
+
+  /**
+   * إنشاء عملية شحن وجلسة دفع لدى البوابة المختارة.
+   * @param userId صاحب المحفظة.
+   * @param input المبلغ والعملة وبوابة الدفع.
+   * @returns عملية الدفع مع رابط صفحة الدفع.
+   */
+  public async createTopUp(userId: string, input: TopUpInput): Promise<Payment> {
+    const currency = input.currency?.toUpperCase();
+    if (!currency || !isSupportedCurrency(currency)) {
+      throw new Error(`Invalid currency: ${input.currency}.`);
+    }
+
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      throw new Error("Invalid top-up amount.");
+    }
+
+    const gateway = this.gateways.get(input.method);
+
+    const wallet = await prisma.wallet.findUnique({
+      where: { userId },
+      include: { user: { select: { email: true } } },
+    });
+    if (!wallet) {
+      throw new Error("Wallet not found for this user.");
+    }
+
+    // سعر التحويل يُثبت عند إنشاء الجلسة، وهو ما يُضاف للمحفظة عند نجاح الدفع
+    const { amount: settlementAmount, fx } = await fxService.toSettlement(
+      prisma,
+      input.amount,
+      currency
+    );
+    if (settlementAmount < MIN_TOP_UP_AMOUNT) {
+      throw new Error(
+        `Invalid top-up amount: minimum is ${MIN_TOP_UP_AMOUNT / 100} USD.`
+      );
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        type: PaymentType.WALLET_TOP_UP,
+        userId,
+        walletId: wallet.id,
+        amount: input.amount,
+        currency,
+        settlementAmount,
+        fxRate: fx.fxRate,
+        method: gateway.method,
+      },
+    });
+
+    try {
+      const session = await gateway.createCheckoutSession({
+        paymentId: payment.id,
+        amount: input.amount,
+        currency,
+        description: "Rizlax wallet top-up",
+        customerEmail: wallet.user.email,
+        successUrl: `${process.env.CLIENT_URL}/wallet?topUp=success&paymentId=${payment.id}`,
+        cancelUrl: `${process.env.CLIENT_URL}/wallet?topUp=canceled&paymentId=${payment.id}`,
+      });
+
+      return prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          providerId: session.providerId,
+          checkoutUrl: session.checkoutUrl,
+        },
+      });
+    } catch (error) {
+      const failureReason =
+        error instanceof Error ? error.message : "Payment gateway error.";
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: PaymentStatus.FAILED, failureReason },
+      });
+      throw new Error(`Failed to create checkout session: ${failureReason}`);
+    }
+  }
+
+  /**
+   * معالجة webhook من بوابة الدفع بعد التحقق من توقيعه.
+   * البوابات تعيد إرسال الأحداث، لذا الحدث المكرر لا يغير شيئاً ولا يشحن مرتين.
+   * @param method البوابة المرسلة (من مسار الطلب).
+   * @param request الطلب الخام (الجسم كما هو والترويسات).
+   * @returns processed=false إذا كان الحدث مكرراً أو لا يغير حالة الدفع.
+   */
+  public async handleWebhook(
+    method: string,
+    request: WebhookRequest
+  ): Promise<{ processed: boolean; payment?: Payment }> {
+    const gateway = this.gateways.get(method);
+    const event = gateway.parseWebhook(request);
+
+    if (event.outcome === "IGNORED") {
+      return { processed: false };
+    }
+
+    const payment = await this._findPayment(gateway.method, event);
+    if (payment.type !== PaymentType.WALLET_TOP_UP) {
+      return { processed: false, payment };
+    }
+
+    let outcome = event.outcome;
+    let failureReason = event.failureReason;
+
+    // مبلغ مدفوع لا يطابق ما أُنشئت به الجلسة لا يُشحن
+    if (
+      outcome === "COMPLETED" &&
+      ((event.amount !== undefined && event.amount !== payment.amount) ||
+        (event.currency !== undefined && event.currency !== payment.currency))
+    ) {
+      outcome = "FAILED";
+      failureReason = `Paid amount ${event.amount} ${event.currency} does not match ${payment.amount} ${payment.currency}.`;
+    }
+
+    const processed = await prisma.$transaction(
+      async (tx: TransactionClient) => {
+        if (outcome === "FAILED") {
+          return this._claimPending(tx, payment.id, {
+            status: PaymentStatus.FAILED,
+            failureReason,
+          });
+        }
+
+        const claimed = await this._claimPending(tx, payment.id, {
+          status: PaymentStatus.COMPLETED,
+          paidAt: new Date(),
+          failureReason: null,
+        });
+        if (!claimed) return false;
+
+        const journalEntry = await walletService.creditTopUp(
+          tx,
+          payment.walletId!,
+          payment.settlementAmount!,
+          payment.id,
+          payment.currency !== "USD"
+            ? {
+                originalCurrency: payment.currency,
+                originalAmount: payment.amount,
+                fxRate: Number(payment.fxRate),
+              }
+            : {}
+        );
+
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: { journalEntryId: journalEntry.id },
+        });
+        return true;
+      },
+      {
+        maxWait: 5000,
+        timeout: 10000,
+      }
+    );
+
+    return {
+      processed,
+      payment: await prisma.payment.findUniqueOrThrow({
+        where: { id: payment.id },
+      }),
+    };
+  }
+
+  public async getMyTopUps(userId: string): Promise<Payment[]> {
+    return prisma.payment.findMany({
+      where: { userId, type: PaymentType.WALLET_TOP_UP },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  public async getTopUp(userId: string, paymentId: string): Promise<Payment> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment || payment.type !== PaymentType.WALLET_TOP_UP) {
+      throw new Error("Payment not found.");
+    }
+
+    if (payment.userId !== userId) {
+      throw new Error("Unauthorized: This payment belongs to another user.");
+    }
+    return payment;
+  }
+
+  public methods(): string[] {
+    return this.gateways.methods();
+  }
+}
+
+export default PaymentService;
@@ -0,0 +1,79 @@
+import PlatformFeeService from "./PlatformFee.ts";
+import type { TransactionClient } from "./Wallet.ts";
+
+jest.mock("db-client/index.ts", () => ({ prisma: {} }));
+
+const service = new PlatformFeeService();
+
+const schedule = {
+  id: "schedule-2",
+  version: 2,
+  // 10% حتى 500$ من التعامل بين الطرفين، ثم 5%
+  tiers: [
+    { fromAmount: 50_000, percentageBps: 500 },
+    { fromAmount: 0, percentageBps: 1_000 },
+  ],
+  fixedFee: 100,
+  clientProcessingFeeBps: 300,
+  clientProcessingFixedFee: 30,
+};
+
+function createTx(lifetimeBillings: number | null, tiers: unknown = schedule.tiers) {
+  return {
+    platformFeeSchedule: {
+      findFirst: jest.fn(async () => ({ ...schedule, tiers })),
+    },
+    platformFeeCharge: {
+      aggregate: jest.fn(async () => ({
+        _sum: { grossAmount: lifetimeBillings },
+      })),
+    },
+  } as unknown as TransactionClient;
+}
+
+describe("PlatformFeeService.quoteReleaseFee", () => {
+  const parties = { clientId: "client-1", freelancerId: "freelancer-1" };
+
+  it("splits a release across the tiers it crosses", async () => {
+    const quote = await service.quoteReleaseFee(createTx(40_000), {
+      ...parties,
+      grossAmount: 20_000,
+    });
+
+    expect(quote.tiers).toEqual([
+      { fromAmount: 0, percentageBps: 1_000, amount: 10_000, fee: 1_000 },
+      { fromAmount: 50_000, percentageBps: 500, amount: 10_000, fee: 500 },
+    ]);
+    expect(quote.percentageFee).toBe(1_500);
+    expect(quote.totalFee).toBe(1_600);
+    expect(quote.netAmount).toBe(18_400);
+  });
+
+  it("never charges more than the released amount", async () => {
+    const quote = await service.quoteReleaseFee(createTx(null), {
+      ...parties,
+      grossAmount: 50,
+    });
+
+    expect(quote.totalFee).toBe(50);
+    expect(quote.netAmount).toBe(0);
+  });
+
+  it("refuses to quote from a schedule with malformed stored tiers", async () => {
+    await expect(
+      service.quoteReleaseFee(createTx(0, [{ fromAmount: "0" }]), {
+        ...parties,
+        grossAmount: 1_000,
+      })
+    ).rejects.toThrow("Platform fee schedule v2 has malformed tiers.");
+  });
+});
+
+describe("PlatformFeeService.quoteProcessingFee", () => {
+  it("adds the percentage and fixed processing fee on top of the deposit", async () => {
+    const quote = await service.quoteProcessingFee(createTx(0), 10_000);
+
+    expect(quote.percentageFee).toBe(300);
+    expect(quote.totalFee).toBe(330);
+  });
+});
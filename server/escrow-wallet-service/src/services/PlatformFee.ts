@@ -0,0 +1,287 @@
+import { prisma } from "db-client/index.ts";
+import { FeeChargeType, Prisma } from "@prisma/client";
+import type { PlatformFeeCharge, PlatformFeeSchedule } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+import type {
+  AppliedFeeTier,
+  FeeScheduleInput,
+  FeeTier,
+  ProcessingFeeQuote,
+  ReleaseFeeQuote,
+} from "../types/PlatformFee.ts";
+import { feeTiersSchema } from "../validators/PlatformFee.ts";
+
+const BPS_DENOMINATOR = 10000;
+
+export interface FeeChargeInput {
+  type: FeeChargeType;
+  scheduleId: string;
+  contractId: string;
+  escrowAccountId: string;
+  clientId: string;
+  freelancerId: string;
+  grossAmount: number;
+  percentageFee: number;
+  fixedFee: number;
+  totalFee: number;
+  lifetimeBillingsBefore?: number;
+  breakdown: unknown;
+  journalEntryId: string;
+}
+
+/**
+ * خدمة PlatformFeeService: محرك عمولات المنصة.
+ * - عمولة المستقل عند التحرير: شرائح نسبية حسب إجمالي ما حرره العميل لنفس المستقل + رسوم ثابتة.
+ * - رسوم معالجة على العميل عند الإيداع في الضمان.
+ * جداول العمولات مُرقمة بنسخ، وكل عملية تحفظ النسخة والتفاصيل المستخدمة في حسابها.
+ */
+class PlatformFeeService {
+  private _validateSchedule(input: FeeScheduleInput): void {
+    const isNonNegativeInt = (value: unknown) =>
+      value === undefined ||
+      (typeof value === "number" && Number.isInteger(value) && value >= 0);
+
+    if (!Array.isArray(input.tiers) || input.tiers.length === 0) {
+      throw new Error("Invalid fee schedule: at least one tier is required.");
+    }
+
+    const tiers = [...input.tiers].sort((a, b) => a.fromAmount - b.fromAmount);
+    if (tiers[0].fromAmount !== 0) {
+      throw new Error("Invalid fee schedule: the first tier must start at 0.");
+    }
+
+    if (!feeTiersSchema.safeParse(tiers).success) {
+      throw new Error("Invalid fee schedule: malformed tier.");
+    }
+
+    if (new Set(tiers.map((t) => t.fromAmount)).size !== tiers.length) {
+      throw new Error("Invalid fee schedule: duplicate tier boundaries.");
+    }
+
+    if (
+      !isNonNegativeInt(input.fixedFee) ||
+      !isNonNegativeInt(input.clientProcessingFeeBps) ||
+      !isNonNegativeInt(input.clientProcessingFixedFee)
+    ) {
+      throw new Error("Invalid fee schedule: fees must be non-negative integers.");
+    }
+  }
+
+  private _tiers(schedule: PlatformFeeSchedule): FeeTier[] {
+    const parsed = feeTiersSchema.safeParse(schedule.tiers);
+    if (!parsed.success) {
+      throw new Error(
+        `Platform fee schedule v${schedule.version} has malformed tiers.`
+      );
+    }
+    return parsed.data.sort((a, b) => a.fromAmount - b.fromAmount);
+  }
+
+  /**
+   * النسخة السارية من جدول العمولات (أحدث نسخة بدأ سريانها).
+   */
+  public async getActiveSchedule(
+    tx: TransactionClient = prisma,
+    at: Date = new Date()
+  ): Promise<PlatformFeeSchedule> {
+    const schedule = await tx.platformFeeSchedule.findFirst({
+      where: { effectiveFrom: { lte: at } },
+      orderBy: { version: "desc" },
+    });
+
+    if (!schedule) {
+      throw new Error("Platform fee schedule not found.");
+    }
+    return schedule;
+  }
+
+  /**
+   * حساب عمولة المستقل على مبلغ محرر. المبلغ يُوزع على الشرائح بدءاً من
+   * إجمالي ما حُرر سابقاً بين نفس العميل والمستقل (مثل شرائح الضريبة).
+   * @param tx Prisma Transaction Client.
+   * @param parties العميل والمستقل (معرفات المستخدمين) والمبلغ المحرر بالقرش.
+   */
+  public async quoteReleaseFee(
+    tx: TransactionClient,
+    parties: { clientId: string; freelancerId: string; grossAmount: number }
+  ): Promise<ReleaseFeeQuote> {
+    const schedule = await this.getActiveSchedule(tx);
+    const { clientId, freelancerId, grossAmount } = parties;
+
+    const previous = await tx.platformFeeCharge.aggregate({
+      where: {
+        clientId,
+        freelancerId,
+        type: FeeChargeType.FREELANCER_COMMISSION,
+      },
+      _sum: { grossAmount: true },
+    });
+    const lifetimeBillingsBefore = previous._sum.grossAmount ?? 0;
+
+    const tiers = this._tiers(schedule);
+    const applied: AppliedFeeTier[] = [];
+    const start = lifetimeBillingsBefore;
+    const end = lifetimeBillingsBefore + grossAmount;
+
+    tiers.forEach((tier, index) => {
+      const tierEnd = tiers[index + 1]?.fromAmount ?? Infinity;
+      const amount = Math.max(
+        Math.min(end, tierEnd) - Math.max(start, tier.fromAmount),
+        0
+      );
+      if (amount === 0) return;
+
+      applied.push({
+        ...tier,
+        amount,
+        fee: Math.round((amount * tier.percentageBps) / BPS_DENOMINATOR),
+      });
+    });
+
+    const percentageFee = applied.reduce((sum, t) => sum + t.fee, 0);
+    // العمولة لا تتجاوز المبلغ المحرر نفسه
+    const totalFee = Math.min(percentageFee + schedule.fixedFee, grossAmount);
+
+    return {
+      scheduleId: schedule.id,
+      version: schedule.version,
+      grossAmount,
+      lifetimeBillingsBefore,
+      tiers: applied,
+      percentageFee,
+      fixedFee: totalFee - percentageFee,
+      totalFee,
+      netAmount: grossAmount - totalFee,
+    };
+  }
+
+  /**
+   * حساب رسوم المعالجة التي يدفعها العميل فوق المبلغ المودع في الضمان.
+   */
+  public async quoteProcessingFee(
+    tx: TransactionClient,
+    amount: number
+  ): Promise<ProcessingFeeQuote> {
+    const schedule = await this.getActiveSchedule(tx);
+    const percentageFee = Math.round(
+      (amount * schedule.clientProcessingFeeBps) / BPS_DENOMINATOR
+    );
+
+    return {
+      scheduleId: schedule.id,
+      version: schedule.version,
+      amount,
+      percentageFee,
+      fixedFee: schedule.clientProcessingFixedFee,
+      totalFee: percentageFee + schedule.clientProcessingFixedFee,
+    };
+  }
+
+  /**
+   * حفظ العمولة المُحصّلة مع نسخة الجدول والقيد المحاسبي (داخل معاملة العملية نفسها).
+   */
+  public async recordCharge(
+    tx: TransactionClient,
+    charge: FeeChargeInput
+  ): Promise<PlatformFeeCharge> {
+    return tx.platformFeeCharge.create({
+      data: {
+        ...charge,
+        breakdown: charge.breakdown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * إنشاء نسخة جديدة من جدول العمولات (النسخ السابقة لا تُعدل).
+   * @param adminId معرف المشرف.
+   * @param input الشرائح والرسوم الثابتة ورسوم المعالجة.
+   */
+  public async createSchedule(
+    adminId: string,
+    input: FeeScheduleInput
+  ): Promise<PlatformFeeSchedule> {
+    this._validateSchedule(input);
+
+    return prisma.$transaction(async (tx: TransactionClient) => {
+      const latest = await tx.platformFeeSchedule.findFirst({
+        orderBy: { version: "desc" },
+      });
+
+      return tx.platformFeeSchedule.create({
+        data: {
+          version: (latest?.version ?? 0) + 1,
+          tiers: feeTiersSchema.parse(input.tiers),
+          fixedFee: input.fixedFee ?? 0,
+          clientProcessingFeeBps: input.clientProcessingFeeBps ?? 0,
+          clientProcessingFixedFee: input.clientProcessingFixedFee ?? 0,
+          effectiveFrom: input.effectiveFrom ?? new Date(),
+          createdById: adminId,
+        },
+      });
+    });
+  }
+
+  /**
+   * نسخة جديدة بعمولة نسبية موحدة (بدون شرائح) مع الإبقاء على باقي رسوم النسخة السارية.
+   * @param adminId معرف المشرف.
+   * @param feePercentage النسبة المئوية (مثال: 10 تعني 10%).
+   */
+  public async setFlatPercentage(
+    adminId: string,
+    feePercentage: number
+  ): Promise<PlatformFeeSchedule> {
+    if (
+      typeof feePercentage !== "number" ||
+      feePercentage < 0 ||
+      feePercentage > 100
+    ) {
+      throw new Error("Invalid fee percentage: must be between 0 and 100.");
+    }
+
+    const current = await prisma.platformFeeSchedule.findFirst({
+      orderBy: { version: "desc" },
+    });
+
+    return this.createSchedule(adminId, {
+      tiers: [{ fromAmount: 0, percentageBps: Math.round(feePercentage * 100) }],
+      fixedFee: current?.fixedFee,
+      clientProcessingFeeBps: current?.clientProcessingFeeBps,
+      clientProcessingFixedFee: current?.clientProcessingFixedFee,
+    });
+  }
+
+  public async listSchedules(): Promise<PlatformFeeSchedule[]> {
+    return prisma.platformFeeSchedule.findMany({
+      orderBy: { version: "desc" },
+    });
+  }
+
+  /**
+   * العمولات المُحصّلة في عقد مع نسخ الجداول المستخدمة (لأطراف العقد فقط).
+   */
+  public async getContractCharges(
+    userId: string,
+    contractId: string
+  ): Promise<PlatformFeeCharge[]> {
+    const escrow = await prisma.escrowAccount.findUnique({
+      where: { contractId },
+    });
+
+    if (!escrow) {
+      throw new Error("Escrow account not found for this contract.");
+    }
+
+    if (escrow.clientId !== userId && escrow.freelancerId !== userId) {
+      throw new Error("Unauthorized: User is not a party to this contract.");
+    }
+
+    return prisma.platformFeeCharge.findMany({
+      where: { contractId },
+      include: { schedule: { select: { version: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+}
+
+export default PlatformFeeService;
@@ -0,0 +1,504 @@
+import { prisma } from "db-client/index.ts";
+import {
+  DiscrepancyStatus,
+  Prisma,
+  EscrowTransactionType,
+  ReconciliationStatus,
+  ReconciliationSubject,
+  ReconciliationTrigger,
+  TransactionType,
+} from "@prisma/client";
+import type {
+  ReconciliationDiscrepancy,
+  ReconciliationRun,
+} from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+
+const BATCH_SIZE = 200;
+
+// كل دفعة تُقرأ في لقطة واحدة، حتى لا تظهر حركة جارية أثناء القراءة كفرق وهمي
+const SNAPSHOT_OPTIONS = {
+  isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+  maxWait: 5000,
+  timeout: 30000,
+};
+
+// إذا بقي تشغيل RUNNING أكثر من هذه المدة يُعتبر متوقفاً (انهيار الخدمة أثناءه)
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+type WalletField = "availableBalance" | "pendingBalance" | "reservedBalance";
+type WalletEffect = Partial<Record<WalletField, 1 | -1>>;
+
+interface DetectedDiscrepancy {
+  subjectType: ReconciliationSubject;
+  walletId?: string;
+  escrowAccountId?: string;
+  field: string;
+  recordedAmount: number;
+  expectedAmount: number;
+}
+
+export interface DiscrepancyListQuery {
+  status?: DiscrepancyStatus;
+  subjectType?: ReconciliationSubject;
+  page: number;
+  limit: number;
+}
+
+/**
+ * أثر كل نوع من WalletTransaction على أرصدة المحفظة.
+ * المعاملات القديمة (قبل relatedType): WITHDRAWAL كان يُخصم مباشرة من المتاح،
+ * و ADJUSTMENT كان استرداداً من الضمان (مع relatedId) أو نقلاً للمعلق (بدونه - يُعالج في الاستدعاء).
+ */
+const walletEffect = (
+  type: TransactionType,
+  relatedType: string | null
+): WalletEffect => {
+  switch (type) {
+    case TransactionType.DEPOSIT:
+      return { availableBalance: 1 };
+    case TransactionType.RELEASE:
+      return { pendingBalance: 1 };
+    case TransactionType.HOLD:
+      return relatedType === "WITHDRAWAL_RESERVE"
+        ? { availableBalance: -1, reservedBalance: 1 }
+        : { availableBalance: -1 };
+    case TransactionType.WITHDRAWAL:
+      return relatedType === "WITHDRAWAL"
+        ? { reservedBalance: -1 }
+        : { availableBalance: -1 };
+    case TransactionType.ADJUSTMENT:
+      if (relatedType === "WITHDRAWAL_RETURN") {
+        return { reservedBalance: -1, availableBalance: 1 };
+      }
+      if (relatedType === "PENDING_CLEARANCE") {
+        return { pendingBalance: -1, availableBalance: 1 };
+      }
+      return { availableBalance: 1 };
+  }
+};
+
+/**
+ * خدمة ReconciliationService: تسوية الأرصدة المخزنة مع سجل المعاملات.
+ * - المحفظة: الأرصدة المتاحة/المعلقة/المحجوزة مقابل مجموع آثار WalletTransaction.
+ * - الضمان: heldAmount مقابل DEPOSIT - RELEASE - REFUND من EscrowTransaction.
+ * الفروقات تُسجل كتقرير، ويمكن تجميد المحافظ المتأثرة حتى يحلها المشرف.
+ */
+class ReconciliationService {
+  private async _reconcileWallets(
+    detected: DetectedDiscrepancy[]
+  ): Promise<number> {
+    let checked = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const { wallets, grouped, legacyAdjustments } = await prisma.$transaction(
+        async (tx: TransactionClient) => {
+          const wallets = await tx.wallet.findMany({
+            where: cursor ? { id: { gt: cursor } } : undefined,
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+          });
+          const walletIds = wallets.map((w) => w.id);
+
+          const grouped = await tx.walletTransaction.groupBy({
+            by: ["walletId", "type", "relatedType"],
+            where: { walletId: { in: walletIds } },
+            _sum: { amount: true },
+          });
+          // ADJUSTMENT القديمة بدون relatedType و relatedId (نقل المعلق إلى المتاح)
+          const legacyAdjustments = await tx.walletTransaction.groupBy({
+            by: ["walletId"],
+            where: {
+              walletId: { in: walletIds },
+              type: TransactionType.ADJUSTMENT,
+              relatedType: null,
+              relatedId: null,
+            },
+            _sum: { amount: true },
+          });
+
+          return { wallets, grouped, legacyAdjustments };
+        },
+        SNAPSHOT_OPTIONS
+      );
+      if (wallets.length === 0) break;
+
+      const walletIds = wallets.map((w) => w.id);
+
+      const expected = new Map<string, Record<WalletField, number>>(
+        walletIds.map((id) => [
+          id,
+          { availableBalance: 0, pendingBalance: 0, reservedBalance: 0 },
+        ])
+      );
+
+      const apply = (walletId: string, effect: WalletEffect, amount: number) => {
+        const totals = expected.get(walletId)!;
+        for (const [field, sign] of Object.entries(effect)) {
+          totals[field as WalletField] += sign! * amount;
+        }
+      };
+
+      for (const row of grouped) {
+        const amount = row._sum.amount ?? 0;
+        if (row.type === TransactionType.ADJUSTMENT && row.relatedType === null) {
+          // ADJUSTMENT القديمة: نقل المعلق (بدون relatedId) والباقي استرداد من الضمان
+          const legacyMove =
+            legacyAdjustments.find((l) => l.walletId === row.walletId)?._sum
+              .amount ?? 0;
+          apply(
+            row.walletId,
+            walletEffect(row.type, "PENDING_CLEARANCE"),
+            legacyMove
+          );
+          apply(row.walletId, walletEffect(row.type, null), amount - legacyMove);
+          continue;
+        }
+        apply(row.walletId, walletEffect(row.type, row.relatedType), amount);
+      }
+
+      for (const wallet of wallets) {
+        const totals = expected.get(wallet.id)!;
+        for (const field of Object.keys(totals) as WalletField[]) {
+          if (wallet[field] !== totals[field]) {
+            detected.push({
+              subjectType: ReconciliationSubject.WALLET,
+              walletId: wallet.id,
+              field,
+              recordedAmount: wallet[field],
+              expectedAmount: totals[field],
+            });
+          }
+        }
+      }
+
+      checked += wallets.length;
+      cursor = wallets[wallets.length - 1].id;
+    }
+
+    return checked;
+  }
+
+  private async _reconcileEscrows(
+    detected: DetectedDiscrepancy[]
+  ): Promise<number> {
+    let checked = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const { escrows, grouped } = await prisma.$transaction(
+        async (tx: TransactionClient) => {
+          const escrows = await tx.escrowAccount.findMany({
+            where: cursor ? { id: { gt: cursor } } : undefined,
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+          });
+
+          const grouped = await tx.escrowTransaction.groupBy({
+            by: ["escrowAccountId", "type"],
+            where: { escrowAccountId: { in: escrows.map((e) => e.id) } },
+            _sum: { amount: true },
+          });
+
+          return { escrows, grouped };
+        },
+        SNAPSHOT_OPTIONS
+      );
+      if (escrows.length === 0) break;
+
+      for (const escrow of escrows) {
+        const expectedHeld = grouped
+          .filter((row) => row.escrowAccountId === escrow.id)
+          .reduce(
+            (sum, row) =>
+              row.type === EscrowTransactionType.DEPOSIT
+                ? sum + (row._sum.amount ?? 0)
+                : sum - (row._sum.amount ?? 0),
+            0
+          );
+
+        if (escrow.heldAmount !== expectedHeld) {
+          detected.push({
+            subjectType: ReconciliationSubject.ESCROW,
+            escrowAccountId: escrow.id,
+            field: "heldAmount",
+            recordedAmount: escrow.heldAmount,
+            expectedAmount: expectedHeld,
+          });
+        }
+      }
+
+      checked += escrows.length;
+      cursor = escrows[escrows.length - 1].id;
+    }
+
+    return checked;
+  }
+
+  /**
+   * رفع التجميد عن المحفظة إذا لم يبق عليها أي فرق مفتوح.
+   */
+  private async _unfreezeIfClear(
+    tx: TransactionClient,
+    walletId: string
+  ): Promise<void> {
+    const open = await tx.reconciliationDiscrepancy.count({
+      where: { walletId, status: DiscrepancyStatus.OPEN },
+    });
+    if (open === 0) {
+      await tx.wallet.updateMany({
+        where: { id: walletId, frozenAt: { not: null } },
+        data: { frozenAt: null, frozenReason: null },
+      });
+    }
+  }
+
+  /**
+   * حفظ نتائج التشغيل: فروقات جديدة تُنشأ، المفتوحة المكررة تُحدّث،
+   * والمفتوحة التي تطابقت الآن تُغلق تلقائياً.
+   * @returns عدد الفروقات الجديدة.
+   */
+  private async _recordResults(
+    run: ReconciliationRun,
+    detected: DetectedDiscrepancy[]
+  ): Promise<number> {
+    const open = await prisma.reconciliationDiscrepancy.findMany({
+      where: { status: DiscrepancyStatus.OPEN },
+    });
+    const keyOf = (d: {
+      walletId?: string | null;
+      escrowAccountId?: string | null;
+      field: string;
+    }) => `${d.walletId ?? d.escrowAccountId}:${d.field}`;
+
+    const openByKey = new Map(open.map((d) => [keyOf(d), d]));
+    const detectedKeys = new Set(detected.map(keyOf));
+    let created = 0;
+
+    for (const discrepancy of detected) {
+      const existing = openByKey.get(keyOf(discrepancy));
+      const amounts = {
+        recordedAmount: discrepancy.recordedAmount,
+        expectedAmount: discrepancy.expectedAmount,
+        difference: discrepancy.recordedAmount - discrepancy.expectedAmount,
+      };
+
+      if (existing) {
+        await prisma.reconciliationDiscrepancy.update({
+          where: { id: existing.id },
+          data: { ...amounts, lastDetectedAt: new Date() },
+        });
+      } else {
+        await prisma.reconciliationDiscrepancy.create({
+          data: { ...discrepancy, ...amounts, runId: run.id },
+        });
+        created++;
+      }
+
+      if (run.freezeWallets && discrepancy.walletId) {
+        await prisma.wallet.updateMany({
+          where: { id: discrepancy.walletId, frozenAt: null },
+          data: {
+            frozenAt: new Date(),
+            frozenReason: `Reconciliation mismatch on ${discrepancy.field}`,
+          },
+        });
+      }
+    }
+
+    // الفروقات التي لم تعد موجودة (تم تصحيح الرصيد) تُغلق ويُرفع التجميد إن أمكن
+    for (const stale of open.filter((d) => !detectedKeys.has(keyOf(d)))) {
+      await prisma.$transaction(async (tx: TransactionClient) => {
+        await tx.reconciliationDiscrepancy.update({
+          where: { id: stale.id },
+          data: {
+            status: DiscrepancyStatus.RESOLVED,
+            resolvedAt: new Date(),
+            resolutionNote: `Balance matched on reconciliation run ${run.id}.`,
+          },
+        });
+        if (stale.walletId) {
+          await this._unfreezeIfClear(tx, stale.walletId);
+        }
+      });
+    }
+
+    return created;
+  }
+
+  /**
+   * تشغيل تسوية كاملة لكل المحافظ وحسابات الضمان.
+   * @param trigger مجدول (العامل) أو يدوي (المشرف).
+   * @param options freezeWallets لتجميد المحافظ المتأثرة، و triggeredById للمشرف.
+   */
+  public async runReconciliation(
+    trigger: ReconciliationTrigger,
+    options: { freezeWallets?: boolean; triggeredById?: string } = {}
+  ): Promise<ReconciliationRun> {
+    const running = await prisma.reconciliationRun.findFirst({
+      where: {
+        status: ReconciliationStatus.RUNNING,
+        startedAt: { gt: new Date(Date.now() - STALE_RUN_MS) },
+      },
+    });
+    if (running) {
+      throw new Error("A reconciliation run is already in progress.");
+    }
+
+    const run = await prisma.reconciliationRun.create({
+      data: {
+        trigger,
+        triggeredById: options.triggeredById,
+        freezeWallets: options.freezeWallets ?? false,
+      },
+    });
+
+    try {
+      const detected: DetectedDiscrepancy[] = [];
+      const walletsChecked = await this._reconcileWallets(detected);
+      const escrowsChecked = await this._reconcileEscrows(detected);
+      const discrepancyCount = await this._recordResults(run, detected);
+
+      return prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: ReconciliationStatus.COMPLETED,
+          walletsChecked,
+          escrowsChecked,
+          discrepancyCount,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      await prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: ReconciliationStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  public async listRuns(
+    page: number,
+    limit: number
+  ): Promise<{
+    items: ReconciliationRun[];
+    totalCount: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    const [items, totalCount] = await Promise.all([
+      prisma.reconciliationRun.findMany({
+        orderBy: { startedAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.reconciliationRun.count(),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      totalPages: Math.ceil(totalCount / limit),
+      currentPage: page,
+    };
+  }
+
+  public async getRun(
+    runId: string
+  ): Promise<ReconciliationRun & { discrepancies: ReconciliationDiscrepancy[] }> {
+    const run = await prisma.reconciliationRun.findUnique({
+      where: { id: runId },
+      include: { discrepancies: true },
+    });
+
+    if (!run) {
+      throw new Error("Reconciliation run not found.");
+    }
+    return run;
+  }
+
+  public async listDiscrepancies(query: DiscrepancyListQuery): Promise<{
+    items: ReconciliationDiscrepancy[];
+    totalCount: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    const where = { status: query.status, subjectType: query.subjectType };
+
+    const [items, totalCount] = await Promise.all([
+      prisma.reconciliationDiscrepancy.findMany({
+        where,
+        include: {
+          wallet: { select: { userId: true, frozenAt: true } },
+          escrowAccount: { select: { contractId: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.reconciliationDiscrepancy.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      totalPages: Math.ceil(totalCount / query.limit),
+      currentPage: query.page,
+    };
+  }
+
+  /**
+   * إغلاق فرق يدوياً بعد مراجعته (مع ملاحظة)، ورفع التجميد إذا لم يبق غيره على المحفظة.
+   * @param adminId معرف المشرف.
+   * @param discrepancyId الفرق المراد إغلاقه.
+   * @param note سبب الإغلاق أو الإجراء المتخذ.
+   */
+  public async resolveDiscrepancy(
+    adminId: string,
+    discrepancyId: string,
+    note: string
+  ): Promise<ReconciliationDiscrepancy> {
+    if (typeof note !== "string" || note.trim().length === 0) {
+      throw new Error("Invalid resolution: a note is required.");
+    }
+
+    return prisma.$transaction(async (tx: TransactionClient) => {
+      const claimed = await tx.reconciliationDiscrepancy.updateMany({
+        where: { id: discrepancyId, status: DiscrepancyStatus.OPEN },
+        data: {
+          status: DiscrepancyStatus.RESOLVED,
+          resolvedById: adminId,
+          resolvedAt: new Date(),
+          resolutionNote: note.trim(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        const exists = await tx.reconciliationDiscrepancy.findUnique({
+          where: { id: discrepancyId },
+        });
+        throw new Error(
+          exists
+            ? "Invalid resolution: discrepancy is already resolved."
+            : "Discrepancy not found."
+        );
+      }
+
+      const discrepancy = await tx.reconciliationDiscrepancy.findUniqueOrThrow({
+        where: { id: discrepancyId },
+      });
+      if (discrepancy.walletId) {
+        await this._unfreezeIfClear(tx, discrepancy.walletId);
+      }
+      return discrepancy;
+    });
+  }
+}
+
+export default ReconciliationService;
@@ -0,0 +1,551 @@
+import { prisma } from "db-client/index.ts";
+import {
+  DisputeOutcome,
+  DisputeStatus,
+  Prisma,
+  Role,
+  SettlementStatus,
+  SettlementType,
+} from "@prisma/client";
+import type { Dispute, EscrowAccount, EscrowSettlement } from "@prisma/client";
+import { allocateMoney, money } from "@rizlax/money";
+import type { TransactionClient } from "./Wallet.ts";
+import EscrowService from "./Escrow.ts";
+import type { EscrowTransactionLink } from "./Escrow.ts";
+import { SETTLEMENT_CURRENCY } from "../utils/currency.ts";
+
+const escrowService = new EscrowService();
+
+export interface SettlementAmounts {
+  releaseAmount: number; // بالقرش - للمستقل
+  refundAmount: number; // بالقرش - للعميل
+  reason?: string;
+}
+
+// نتيجة تنفيذ قرار نزاع: settlement = null إذا لم تكن هناك أموال محجوزة،
+// created = false إذا كان القرار منفذاً مسبقاً (إعادة محاولة)
+export interface DisputeSettlementResult {
+  settlement: EscrowSettlement | null;
+  created: boolean;
+}
+
+/**
+ * خدمة SettlementService: طلبات الاسترداد والتقسيم على أموال الضمان.
+ * - العميل يطلب استرداداً ويحتاج موافقة المستقل.
+ * - المستقل يمكنه إعادة الأموال للعميل مباشرة (فهو الطرف المتنازل).
+ * - أي طرف يقترح تقسيماً ويحتاج موافقة الطرف الآخر.
+ * - المشرف (ADMIN) يفرض الاسترداد أو التقسيم مباشرة.
+ * التنفيذ يتم في معاملة واحدة مع تحديث حالة الطلب.
+ */
+class SettlementService {
+  private async _getEscrow(contractId: string): Promise<EscrowAccount> {
+    const escrow = await prisma.escrowAccount.findUnique({
+      where: { contractId },
+    });
+
+    if (!escrow) {
+      throw new Error("Escrow account not found for this contract.");
+    }
+    return escrow;
+  }
+
+  /**
+   * تحديد دور المستخدم في العقد (عميل أو مستقل).
+   */
+  private _getPartyRole(escrow: EscrowAccount, userId: string): Role {
+    if (escrow.clientId === userId) return Role.CLIENT;
+    if (escrow.freelancerId === userId) return Role.FREELANCER;
+    throw new Error("Unauthorized: User is not a party to this contract.");
+  }
+
+  private _validateAmounts(escrow: EscrowAccount, amounts: SettlementAmounts) {
+    const { releaseAmount, refundAmount } = amounts;
+    if (
+      !Number.isInteger(releaseAmount) ||
+      !Number.isInteger(refundAmount) ||
+      releaseAmount < 0 ||
+      refundAmount < 0 ||
+      releaseAmount + refundAmount <= 0
+    ) {
+      throw new Error("Invalid settlement amounts.");
+    }
+
+    if (releaseAmount + refundAmount > escrow.heldAmount) {
+      throw new Error(
+        `Insufficient funds (${escrow.heldAmount}) held in escrow for settlement of ${
+          releaseAmount + refundAmount
+        }.`
+      );
+    }
+  }
+
+  /**
+   * تحويل مبالغ الطلب من عملة العقد إلى الدولار بأسعار الإيداعات المحجوزة (كما في releaseFunds).
+   */
+  private async _toHeldAmounts(
+    contractId: string,
+    amounts: SettlementAmounts
+  ): Promise<SettlementAmounts> {
+    const shares = await escrowService.toHeldSettlement(prisma, contractId, {
+      releaseAmount: amounts.releaseAmount,
+      refundAmount: amounts.refundAmount,
+    });
+    return { ...shares, reason: amounts.reason };
+  }
+
+  private async _ensureNoPendingSettlement(contractId: string): Promise<void> {
+    const pending = await prisma.escrowSettlement.findFirst({
+      where: { contractId, status: SettlementStatus.PENDING },
+    });
+
+    if (pending) {
+      throw new Error(
+        "A settlement request is already pending for this contract."
+      );
+    }
+  }
+
+  /**
+   * تحريك الأموال الخاصة بالتسوية وربط القيد المحاسبي بها (داخل معاملة).
+   */
+  private async _settle(
+    tx: TransactionClient,
+    settlement: EscrowSettlement,
+    link: EscrowTransactionLink = {}
+  ): Promise<EscrowSettlement> {
+    const journalEntry = await escrowService.settleFunds(
+      tx,
+      settlement.contractId,
+      {
+        releaseAmount: settlement.releaseAmount,
+        refundAmount: settlement.refundAmount,
+        description: `${settlement.type} settlement ${settlement.id} for contract ${settlement.contractId}${
+          settlement.reason ? `: ${settlement.reason}` : ""
+        }`,
+        ...link,
+      }
+    );
+
+    return tx.escrowSettlement.update({
+      where: { id: settlement.id },
+      data: { journalEntryId: journalEntry.id },
+    });
+  }
+
+  /**
+   * تنفيذ طلب تسوية معلق وتحديث حالته في نفس المعاملة.
+   */
+  private async _executePending(
+    settlementId: string,
+    respondedById: string
+  ): Promise<EscrowSettlement> {
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const now = new Date();
+
+        // حجز الطلب لمنع التنفيذ المزدوج في حال الطلبات المتزامنة
+        const claimed = await tx.escrowSettlement.updateMany({
+          where: { id: settlementId, status: SettlementStatus.PENDING },
+          data: {
+            status: SettlementStatus.EXECUTED,
+            respondedById,
+            respondedAt: now,
+            executedAt: now,
+          },
+        });
+
+        if (claimed.count === 0) {
+          throw new Error("Settlement request is no longer pending.");
+        }
+
+        const settlement = await tx.escrowSettlement.findUniqueOrThrow({
+          where: { id: settlementId },
+        });
+        return this._settle(tx, settlement);
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+   * إنشاء تسوية منفذة مباشرة (لا تحتاج موافقة) وتحريك الأموال في نفس المعاملة.
+   */
+  private async _executeImmediately(
+    escrow: EscrowAccount,
+    type: SettlementType,
+    amounts: SettlementAmounts,
+    requestedById: string,
+    requestedByRole: Role
+  ): Promise<EscrowSettlement> {
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const settlement = await tx.escrowSettlement.create({
+          data: {
+            escrowAccountId: escrow.id,
+            contractId: escrow.contractId,
+            type,
+            releaseAmount: amounts.releaseAmount,
+            refundAmount: amounts.refundAmount,
+            reason: amounts.reason,
+            requestedById,
+            requestedByRole,
+            status: SettlementStatus.EXECUTED,
+            executedAt: new Date(),
+          },
+        });
+        return this._settle(tx, settlement);
+      },
+      {
+        maxWait: 5000,
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+   * طلب استرداد مبلغ من الضمان إلى العميل.
+   * من العميل: يُنشأ طلب بانتظار موافقة المستقل.
+   * من المستقل: يُنفذ فوراً.
+   * @param userId معرف المستخدم مقدم الطلب.
+   * @param contractId معرف العقد.
+   * @param amount المبلغ المراد استرداده (بالوحدة الصغرى لعملة العقد).
+   * @param reason سبب الاسترداد.
+   */
+  public async requestRefund(
+    userId: string,
+    contractId: string,
+    amount: number,
+    reason?: string
+  ): Promise<EscrowSettlement> {
+    const escrow = await this._getEscrow(contractId);
+    const role = this._getPartyRole(escrow, userId);
+    const amounts = await this._toHeldAmounts(contractId, {
+      releaseAmount: 0,
+      refundAmount: amount,
+      reason,
+    });
+
+    this._validateAmounts(escrow, amounts);
+
+    if (role === Role.FREELANCER) {
+      return this._executeImmediately(
+        escrow,
+        SettlementType.REFUND,
+        amounts,
+        userId,
+        role
+      );
+    }
+
+    await this._ensureNoPendingSettlement(contractId);
+
+    return prisma.escrowSettlement.create({
+      data: {
+        escrowAccountId: escrow.id,
+        contractId,
+        type: SettlementType.REFUND,
+        releaseAmount: 0,
+        refundAmount: amounts.refundAmount,
+        reason,
+        requestedById: userId,
+        requestedByRole: role,
+      },
+    });
+  }
+
+  /**
+   * اقتراح تقسيم المبلغ المحجوز بين المستقل والعميل (يحتاج موافقة الطرف الآخر).
+   * @param userId معرف المستخدم مقدم الطلب.
+   * @param contractId معرف العقد.
+   * @param requested مبلغ التحرير للمستقل ومبلغ الاسترداد للعميل (بالوحدة الصغرى لعملة العقد).
+   */
+  public async requestSplit(
+    userId: string,
+    contractId: string,
+    requested: SettlementAmounts
+  ): Promise<EscrowSettlement> {
+    const escrow = await this._getEscrow(contractId);
+    const role = this._getPartyRole(escrow, userId);
+    const amounts = await this._toHeldAmounts(contractId, requested);
+
+    this._validateAmounts(escrow, amounts);
+    if (amounts.releaseAmount === 0 || amounts.refundAmount === 0) {
+      throw new Error(
+        "Invalid split: both release and refund amounts must be positive."
+      );
+    }
+    await this._ensureNoPendingSettlement(contractId);
+
+    return prisma.escrowSettlement.create({
+      data: {
+        escrowAccountId: escrow.id,
+        contractId,
+        type: SettlementType.SPLIT,
+        releaseAmount: amounts.releaseAmount,
+        refundAmount: amounts.refundAmount,
+        reason: amounts.reason,
+        requestedById: userId,
+        requestedByRole: role,
+      },
+    });
+  }
+
+  /**
+   * رد الطرف الآخر على طلب تسوية معلق (موافقة تنفذ التسوية، رفض يغلق الطلب).
+   * @param settlementId معرف طلب التسوية.
+   * @param userId معرف المستخدم المستجيب.
+   * @param accept الموافقة أو الرفض.
+   */
+  public async respondToSettlement(
+    settlementId: string,
+    userId: string,
+    accept: boolean
+  ): Promise<EscrowSettlement> {
+    const settlement = await prisma.escrowSettlement.findUnique({
+      where: { id: settlementId },
+      include: { escrowAccount: true },
+    });
+
+    if (!settlement) {
+      throw new Error("Settlement request not found.");
+    }
+
+    const role = this._getPartyRole(settlement.escrowAccount, userId);
+    if (role === settlement.requestedByRole) {
+      throw new Error(
+        "Unauthorized: Only the other party can respond to this settlement request."
+      );
+    }
+
+    if (settlement.status !== SettlementStatus.PENDING) {
+      throw new Error("Settlement request is no longer pending.");
+    }
+
+    if (accept) {
+      return this._executePending(settlementId, userId);
+    }
+
+    return prisma.escrowSettlement.update({
+      where: { id: settlementId },
+      data: {
+        status: SettlementStatus.REJECTED,
+        respondedById: userId,
+        respondedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * إلغاء طلب تسوية معلق من قبل مقدم الطلب.
+   */
+  public async cancelSettlement(
+    settlementId: string,
+    userId: string
+  ): Promise<EscrowSettlement> {
+    const settlement = await prisma.escrowSettlement.findUnique({
+      where: { id: settlementId },
+    });
+
+    if (!settlement) {
+      throw new Error("Settlement request not found.");
+    }
+
+    if (settlement.requestedById !== userId) {
+      throw new Error(
+        "Unauthorized: Only the requester can cancel this settlement request."
+      );
+    }
+
+    if (settlement.status !== SettlementStatus.PENDING) {
+      throw new Error("Settlement request is no longer pending.");
+    }
+
+    return prisma.escrowSettlement.update({
+      where: { id: settlementId },
+      data: { status: SettlementStatus.CANCELED },
+    });
+  }
+
+  /**
+   * تسوية يفرضها المشرف (استرداد أو تقسيم) وتُنفذ مباشرة دون موافقة الأطراف.
+   * @param adminId معرف المشرف.
+   * @param contractId معرف العقد.
+   * @param requested مبلغ التحرير للمستقل ومبلغ الاسترداد للعميل (بالوحدة الصغرى لعملة العقد).
+   */
+  public async forceSettlement(
+    adminId: string,
+    contractId: string,
+    requested: SettlementAmounts
+  ): Promise<EscrowSettlement> {
+    const escrow = await this._getEscrow(contractId);
+    const amounts = await this._toHeldAmounts(contractId, requested);
+    this._validateAmounts(escrow, amounts);
+
+    // أي طلب معلق من الأطراف يصبح لاغياً بعد قرار المشرف
+    await prisma.escrowSettlement.updateMany({
+      where: { contractId, status: SettlementStatus.PENDING },
+      data: { status: SettlementStatus.CANCELED },
+    });
+
+    return this._executeImmediately(
+      escrow,
+      amounts.releaseAmount > 0 ? SettlementType.SPLIT : SettlementType.REFUND,
+      amounts,
+      adminId,
+      Role.ADMIN
+    );
+  }
+
+  /**
+   * تقسيم المبلغ المتنازع عليه حسب قرار المشرف (بدون فقدان قرش في التقريب).
+   */
+  private _disputeShares(
+    dispute: Dispute,
+    heldAmount: number
+  ): { releaseAmount: number; refundAmount: number } {
+    switch (dispute.outcome) {
+      case DisputeOutcome.RELEASE:
+        return { releaseAmount: heldAmount, refundAmount: 0 };
+      case DisputeOutcome.REFUND:
+        return { releaseAmount: 0, refundAmount: heldAmount };
+      case DisputeOutcome.SPLIT: {
+        const percent = dispute.releasePercent ?? 0;
+        if (percent <= 0 || percent >= 100) {
+          throw new Error("Invalid dispute split: release percent must be between 1 and 99.");
+        }
+        const [release, refund] = allocateMoney(
+          money(heldAmount, SETTLEMENT_CURRENCY),
+          [percent, 100 - percent]
+        );
+        return { releaseAmount: release.amount, refundAmount: refund.amount };
+      }
+      default:
+        throw new Error("Invalid dispute settlement: dispute has no outcome.");
+    }
+  }
+
+  /**
+   * تنفيذ قرار المشرف في نزاع على أموال الضمان (تستدعيها خدمة العقود عبر المسارات الداخلية).
+   * نزاع المرحلة يسوي إيداعها الساري فقط، ونزاع العقد يسوي المحجوز على مستوى العقد
+   * (أموال المراحل وكشوف الساعات تبقى لها).
+   * العملية قابلة لإعادة المحاولة: التسوية مرتبطة بالنزاع (disputeId) ولا تُنفذ مرتين.
+   * @param disputeId معرف النزاع (يجب أن تكون حالته RESOLVING مع قرار).
+   */
+  public async settleDispute(disputeId: string): Promise<DisputeSettlementResult> {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: disputeId },
+    });
+
+    if (!dispute) {
+      throw new Error("Dispute not found.");
+    }
+
+    const existing = await prisma.escrowSettlement.findUnique({
+      where: { disputeId },
+    });
+    if (existing) {
+      return { settlement: existing, created: false };
+    }
+
+    if (dispute.status !== DisputeStatus.RESOLVING || !dispute.outcome) {
+      throw new Error("Invalid dispute settlement: dispute has no pending outcome.");
+    }
+
+    const escrow = await this._getEscrow(dispute.contractId);
+
+    try {
+      return await prisma.$transaction(
+        async (tx: TransactionClient) => {
+          // قفل حساب الضمان حتى لا تتداخل التسوية مع عمليات أخرى على نفس العقد
+          const locked = await tx.escrowAccount.update({
+            where: { id: escrow.id },
+            data: { updatedAt: new Date() },
+          });
+
+          const heldAmount = dispute.milestoneId
+            ? await escrowService.getMilestoneHeldAmount(tx, dispute.milestoneId)
+            : await escrowService.getContractHeldAmount(tx, locked.id);
+          if (heldAmount <= 0) {
+            return { settlement: null, created: false };
+          }
+
+          const amounts = this._disputeShares(dispute, heldAmount);
+          const type =
+            amounts.refundAmount === 0
+              ? SettlementType.RELEASE
+              : amounts.releaseAmount === 0
+                ? SettlementType.REFUND
+                : SettlementType.SPLIT;
+
+          // قرار المشرف يلغي أي طلب تسوية معلق من الأطراف
+          await tx.escrowSettlement.updateMany({
+            where: { contractId: dispute.contractId, status: SettlementStatus.PENDING },
+            data: { status: SettlementStatus.CANCELED },
+          });
+
+          const settlement = await tx.escrowSettlement.create({
+            data: {
+              escrowAccountId: escrow.id,
+              contractId: dispute.contractId,
+              type,
+              ...amounts,
+              reason: `Dispute ${dispute.id} resolved: ${dispute.outcome}`,
+              requestedById: dispute.resolvedById ?? dispute.openedById,
+              requestedByRole: Role.ADMIN,
+              status: SettlementStatus.EXECUTED,
+              executedAt: new Date(),
+              disputeId,
+            },
+          });
+
+          return {
+            settlement: await this._settle(
+              tx,
+              settlement,
+              dispute.milestoneId ? { milestoneId: dispute.milestoneId } : {}
+            ),
+            created: true,
+          };
+        },
+        {
+          maxWait: 5000,
+          timeout: 15000,
+        }
+      );
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+    }
+
+    // طلب متزامن نفذ القرار بين القراءة والتنفيذ
+    const settlement = await prisma.escrowSettlement.findUniqueOrThrow({
+      where: { disputeId },
+    });
+    return { settlement, created: false };
+  }
+
+  /**
+   * جلب طلبات التسوية الخاصة بعقد (لأطراف العقد فقط).
+   */
+  public async getSettlements(
+    userId: string,
+    contractId: string
+  ): Promise<EscrowSettlement[]> {
+    const escrow = await this._getEscrow(contractId);
+    this._getPartyRole(escrow, userId);
+
+    return prisma.escrowSettlement.findMany({
+      where: { contractId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+}
+
+export default SettlementService;
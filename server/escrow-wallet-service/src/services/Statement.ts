@@ -0,0 +1,304 @@
+import { prisma } from "db-client/index.ts";
+import {
+  LedgerAccountType,
+  PostingDirection,
+  TransactionType,
+} from "@prisma/client";
+import LedgerService from "./Ledger.ts";
+import { renderPdf } from "@rizlax/pdf";
+import type { PdfLine } from "@rizlax/pdf";
+
+const ledgerService = new LedgerService();
+
+// كل المبالغ في الكشف بالقرش، وتُحول للدولار عند الإخراج (CSV / PDF)
+export interface StatementBalances {
+  available: number;
+  pending: number;
+  reserved: number;
+  total: number;
+}
+
+export interface StatementLine {
+  transactionId: string;
+  date: Date;
+  type: TransactionType;
+  description: string;
+  reference: string | null;
+  amount: number;
+  // أثر المعاملة على كل رصيد (من قيود الدفتر، null للمعاملات السابقة للدفتر)
+  availableChange: number | null;
+  pendingChange: number | null;
+  reservedChange: number | null;
+}
+
+export interface MonthlyStatement {
+  userId: string;
+  walletId: string;
+  currency: string;
+  year: number;
+  month: number;
+  periodStart: Date;
+  periodEnd: Date; // بداية الشهر التالي (غير مشمولة)
+  openingBalance: StatementBalances;
+  closingBalance: StatementBalances;
+  totalCredits: number; // مجموع ما دخل الرصيد المتاح
+  totalDebits: number; // مجموع ما خرج من الرصيد المتاح
+  lines: StatementLine[];
+}
+
+const WALLET_ACCOUNT_FIELDS: Partial<
+  Record<LedgerAccountType, "availableChange" | "pendingChange" | "reservedChange">
+> = {
+  [LedgerAccountType.WALLET_AVAILABLE]: "availableChange",
+  [LedgerAccountType.WALLET_PENDING]: "pendingChange",
+  [LedgerAccountType.WALLET_RESERVED]: "reservedChange",
+};
+
+const formatAmount = (cents: number | null): string =>
+  cents === null ? "" : (cents / 100).toFixed(2);
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const csvCell = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * خدمة StatementService: كشف حساب شهري للمحفظة مع الرصيد الافتتاحي والختامي.
+ * الأرصدة تُقرأ من دفتر الأستاذ في بداية الشهر ونهايته، فتبقى صحيحة مهما تغير الرصيد الحالي.
+ */
+class StatementService {
+  private async _balancesAt(
+    walletId: string,
+    at: Date
+  ): Promise<StatementBalances> {
+    const [available, pending, reserved] = await Promise.all([
+      ledgerService.getBalanceAt(ledgerService.walletAvailable(walletId), at),
+      ledgerService.getBalanceAt(ledgerService.walletPending(walletId), at),
+      ledgerService.getBalanceAt(ledgerService.walletReserved(walletId), at),
+    ]);
+
+    return { available, pending, reserved, total: available + pending + reserved };
+  }
+
+  /**
+   * كشف حساب شهر معين (التوقيت UTC).
+   * @param userId صاحب المحفظة.
+   * @param year السنة.
+   * @param month الشهر (1-12).
+   */
+  public async getMonthlyStatement(
+    userId: string,
+    year: number,
+    month: number
+  ): Promise<MonthlyStatement> {
+    if (
+      !Number.isInteger(year) ||
+      !Number.isInteger(month) ||
+      month < 1 ||
+      month > 12
+    ) {
+      throw new Error("Invalid statement period.");
+    }
+
+    const periodStart = new Date(Date.UTC(year, month - 1, 1));
+    const periodEnd = new Date(Date.UTC(year, month, 1));
+    if (periodStart > new Date()) {
+      throw new Error("Invalid statement period: month has not started yet.");
+    }
+
+    const wallet = await prisma.wallet.findUnique({ where: { userId } });
+    if (!wallet) {
+      throw new Error("Wallet not found for this user.");
+    }
+
+    const [openingBalance, closingBalance, transactions] = await Promise.all([
+      this._balancesAt(wallet.id, periodStart),
+      this._balancesAt(wallet.id, periodEnd),
+      prisma.walletTransaction.findMany({
+        where: {
+          walletId: wallet.id,
+          createdAt: { gte: periodStart, lt: periodEnd },
+        },
+        include: {
+          journalEntry: {
+            include: {
+              postings: {
+                where: { account: { walletId: wallet.id } },
+                include: { account: { select: { type: true } } },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    const lines: StatementLine[] = transactions.map((t) => {
+      const line: StatementLine = {
+        transactionId: t.id,
+        date: t.createdAt,
+        type: t.type,
+        description:
+          (t.metadata as { source?: string } | null)?.source ?? t.type,
+        reference: t.relatedId,
+        amount: t.amount,
+        availableChange: null,
+        pendingChange: null,
+        reservedChange: null,
+      };
+
+      if (t.journalEntry) {
+        line.availableChange = 0;
+        line.pendingChange = 0;
+        line.reservedChange = 0;
+        // حسابات المحفظة كلها دائنة الطبيعة: الدائن يزيد الرصيد والمدين ينقصه
+        for (const posting of t.journalEntry.postings) {
+          const field = WALLET_ACCOUNT_FIELDS[posting.account.type];
+          if (!field) continue;
+          line[field] =
+            (line[field] ?? 0) +
+            (posting.direction === PostingDirection.CREDIT
+              ? posting.amount
+              : -posting.amount);
+        }
+      }
+
+      return line;
+    });
+
+    const availableChanges = lines.map((l) => l.availableChange ?? 0);
+
+    return {
+      userId,
+      walletId: wallet.id,
+      currency: "USD",
+      year,
+      month,
+      periodStart,
+      periodEnd,
+      openingBalance,
+      closingBalance,
+      totalCredits: availableChanges
+        .filter((c) => c > 0)
+        .reduce((sum, c) => sum + c, 0),
+      totalDebits: availableChanges
+        .filter((c) => c < 0)
+        .reduce((sum, c) => sum - c, 0),
+      lines,
+    };
+  }
+
+  /**
+   * تصدير الكشف كـ CSV: سطر افتتاحي، ثم المعاملات، ثم سطر ختامي.
+   */
+  public toCsv(statement: MonthlyStatement): string {
+    const rows: string[][] = [
+      [
+        "date",
+        "type",
+        "description",
+        "reference",
+        "amount",
+        "available_change",
+        "pending_change",
+        "reserved_change",
+      ],
+      [
+        formatDate(statement.periodStart),
+        "OPENING_BALANCE",
+        "Opening balance",
+        "",
+        formatAmount(statement.openingBalance.total),
+        formatAmount(statement.openingBalance.available),
+        formatAmount(statement.openingBalance.pending),
+        formatAmount(statement.openingBalance.reserved),
+      ],
+      ...statement.lines.map((line) => [
+        line.date.toISOString(),
+        line.type,
+        line.description,
+        line.reference ?? "",
+        formatAmount(line.amount),
+        formatAmount(line.availableChange),
+        formatAmount(line.pendingChange),
+        formatAmount(line.reservedChange),
+      ]),
+      [
+        formatDate(new Date(statement.periodEnd.getTime() - 1)),
+        "CLOSING_BALANCE",
+        "Closing balance",
+        "",
+        formatAmount(statement.closingBalance.total),
+        formatAmount(statement.closingBalance.available),
+        formatAmount(statement.closingBalance.pending),
+        formatAmount(statement.closingBalance.reserved),
+      ],
+    ];
+
+    return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+  }
+
+  /**
+   * تصدير الكشف كملف PDF.
+   */
+  public toPdf(statement: MonthlyStatement): Buffer {
+    const period = `${statement.year}-${String(statement.month).padStart(2, "0")}`;
+    const columns = [0, 75, 175, 345, 420];
+    const balanceRow = (label: string, balances: StatementBalances): PdfLine => ({
+      text: [
+        label,
+        `Available ${formatAmount(balances.available)}`,
+        `Pending ${formatAmount(balances.pending)}`,
+        `Reserved ${formatAmount(balances.reserved)}`,
+        `Total ${formatAmount(balances.total)}`,
+      ],
+      columns,
+    });
+
+    const lines: PdfLine[] = [
+      { text: "Rizlax - Wallet Statement", size: 16, bold: true },
+      { text: `Period: ${period} (UTC)`, spaceBefore: 6 },
+      { text: `Wallet: ${statement.walletId}` },
+      { text: `Currency: ${statement.currency}` },
+      { text: "Balances", bold: true, size: 12, spaceBefore: 12 },
+      balanceRow("Opening", statement.openingBalance),
+      balanceRow("Closing", statement.closingBalance),
+      {
+        text: [
+          "Credits",
+          formatAmount(statement.totalCredits),
+          "Debits",
+          formatAmount(statement.totalDebits),
+        ],
+        columns: [0, 75, 175, 250],
+      },
+      { text: "Transactions", bold: true, size: 12, spaceBefore: 12 },
+      {
+        text: ["Date", "Type", "Description", "Amount", "Available"],
+        columns,
+        bold: true,
+      },
+      ...statement.lines.map(
+        (line): PdfLine => ({
+          text: [
+            formatDate(line.date),
+            line.type,
+            line.description.slice(0, 32),
+            formatAmount(line.amount),
+            formatAmount(line.availableChange),
+          ],
+          columns,
+          size: 9,
+        })
+      ),
+    ];
+
+    if (statement.lines.length === 0) {
+      lines.push({ text: "No transactions in this period.", size: 9 });
+    }
+
+    return renderPdf(lines);
+  }
+}
+
+export default StatementService;
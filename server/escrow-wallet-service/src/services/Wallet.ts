@@ -4,14 +4,47 @@ import {
   Role,
   UserStatus,
   TransactionType,
+  LedgerEntryType,
+  PostingDirection,
 } from "@prisma/client";
-import type { Wallet } from "@prisma/client";
+import type { JournalEntry, Prisma, Wallet } from "@prisma/client";
+import LedgerService from "./Ledger.ts";
+import FxService from "./Fx.ts";
+import type { TransactionFxFields } from "./Fx.ts";
 
 export type TransactionClient = Omit<
   PrismaClient,
   "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends"
 >;
 
+export interface TransactionHistoryQuery {
+  type?: TransactionType;
+  from?: Date;
+  to?: Date;
+  contractId?: string;
+  page: number;
+  limit: number;
+}
+
+export interface TransactionHistoryItem {
+  id: string;
+  type: TransactionType;
+  amount: number; // بالدولار للعرض
+  currency: string;
+  description: string | null;
+  relatedId: string | null;
+  relatedType: string | null;
+  originalCurrency: string | null;
+  originalAmount: number | null; // بالوحدة الصغرى للعملة الأصلية
+  clearsAt: Date | null;
+  clearedAt: Date | null;
+  createdAt: Date;
+  metadata: Prisma.JsonValue;
+}
+
+const ledgerService = new LedgerService();
+const fxService = new FxService();
+
 class WalletService {
   /**
   تهيئة سجل المحفظة للمستخدم الجديد.
@@ -39,50 +72,87 @@ class WalletService {
   }
 
   /**
-   *  تحديث (زيادة) الرصيد المعلق للمستقل.
-   * تُستخدم هذه الدالة بشكل خاص *داخل معاملة Escrow* لضمان تحويل الأموال بأمان.
+   * جلب محفظة المستقل بشرط أن يكون حسابه نشطاً.
+   * تُستخدم داخل معاملات Escrow قبل إضافة أي مبلغ إلى رصيده المعلق.
    * @param tx Prisma Transaction Client.
    * @param userId معرف المستقل.
-   * @param amount المبلغ المراد إضافته إلى الرصيد المعلق (بالقرش).
    */
-  public async updatePendingBalance(
+  public async getActiveFreelancerWallet(
     tx: TransactionClient,
-    userId: string,
-    amount: number
-  ): Promise<void> {
-    if (amount <= 0) return;
-
-    const walletUpdate = await tx.wallet.updateMany({
+    userId: string
+  ): Promise<Wallet> {
+    const wallet = await tx.wallet.findFirst({
       where: {
         userId: userId,
         user: { role: Role.FREELANCER, status: UserStatus.ACTIVE },
       },
-      data: {
-        pendingBalance: { increment: amount },
-      },
     });
 
-    if (walletUpdate.count === 0) {
+    if (!wallet) {
       throw new Error(
         `Freelancer ${userId} wallet not found or is inactive. Aborting Escrow transaction.`
       );
     }
 
-    const wallet = await tx.wallet.findUnique({ where: { userId: userId } });
-    if (wallet) {
-      await tx.walletTransaction.create({
-        data: {
-          walletId: wallet.id,
-          amount: amount,
-          type: TransactionType.RELEASE,
-          metadata: { source: "Milestone Completion (Pending)" },
+    return wallet;
+  }
+
+  /**
+   * تحويل مبلغ من الرصيد المعلق إلى الرصيد القابل للسحب (قيد PENDING_CLEARANCE).
+   * @param tx Prisma Transaction Client.
+   * @param walletId محفظة المستقل.
+   * @param amount المبلغ (بالقرش).
+   * @param releaseTransactionId معاملة RELEASE التي استُحقت (فارغ عند النقل اليدوي).
+   */
+  public async clearPendingFunds(
+    tx: TransactionClient,
+    walletId: string,
+    amount: number,
+    releaseTransactionId?: string
+  ): Promise<JournalEntry> {
+    const journalEntry = await ledgerService.postEntry(tx, {
+      type: LedgerEntryType.PENDING_CLEARANCE,
+      description: releaseTransactionId
+        ? `Clearance of release ${releaseTransactionId}`
+        : "Pending to available move",
+      referenceType: releaseTransactionId ? "WALLET_TRANSACTION" : "WALLET",
+      referenceId: releaseTransactionId ?? walletId,
+      lines: [
+        {
+          account: ledgerService.walletPending(walletId),
+          direction: PostingDirection.DEBIT,
+          amount,
+        },
+        {
+          account: ledgerService.walletAvailable(walletId),
+          direction: PostingDirection.CREDIT,
+          amount,
+        },
+      ],
+    });
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId,
+        amount: amount,
+        type: TransactionType.ADJUSTMENT,
+        relatedId: releaseTransactionId,
+        relatedType: "PENDING_CLEARANCE",
+        journalEntryId: journalEntry.id,
+        metadata: {
+          source: releaseTransactionId
+            ? "Automatic Clearance"
+            : "Pending to Available Move",
         },
-      });
-    }
+      },
+    });
+
+    return journalEntry;
   }
 
   /**
-   تحويل مبلغ من الرصيد المعلق إلى الرصيد القابل للسحب.
+   تحويل يدوي لمبلغ من الرصيد المعلق إلى الرصيد القابل للسحب (للمشرف فقط،
+   مثل الأرصدة المعلقة السابقة لاعتماد مواعيد الاستحقاق).
    */
   public async movePendingToAvailable(
     userId: string,
@@ -96,26 +166,30 @@ class WalletService {
           where: { userId: userId },
         });
 
-        if (!walletCheck || walletCheck.pendingBalance < amount) {
-          throw new Error("Insufficient pending balance to move to available.");
+        if (!walletCheck) {
+          throw new Error("Wallet not found for this user.");
         }
 
-        const updatedWallet = await tx.wallet.update({
-          where: { userId: userId },
-          data: {
-            pendingBalance: { decrement: amount },
-            availableBalance: { increment: amount },
+        // المبالغ التي لها موعد استحقاق ينقلها ClearingWorker، فلا تُنقل يدوياً
+        const scheduled = await tx.walletTransaction.aggregate({
+          where: {
+            walletId: walletCheck.id,
+            type: TransactionType.RELEASE,
+            clearedAt: null,
+            clearsAt: { not: null },
           },
+          _sum: { amount: true },
         });
+        const unscheduled =
+          walletCheck.pendingBalance - (scheduled._sum.amount ?? 0);
 
-        await tx.walletTransaction.create({
-          data: {
-            walletId: updatedWallet.id,
-            amount: amount,
-            type: TransactionType.ADJUSTMENT,
-            metadata: { source: "Pending to Available Move" },
-          },
-        });
+        if (unscheduled < amount) {
+          throw new Error(
+            "Insufficient unscheduled pending balance to move to available."
+          );
+        }
+
+        await this.clearPendingFunds(tx, walletCheck.id, amount);
       },
       {
         maxWait: 5000,
@@ -125,72 +199,344 @@ class WalletService {
   }
 
   /**
-   سحب مبلغ السحب من الرصيد المتاح.
+   * حجز مبلغ طلب السحب: نقله من الرصيد المتاح إلى الرصيد المحجوز
+   * (قيد WITHDRAWAL_RESERVE) حتى لا يُصرف مرة أخرى أثناء المراجعة.
+   * @param tx Prisma Transaction Client.
+   * @param walletId محفظة المستقل.
+   * @param amount مبلغ السحب (بالقرش).
+   * @param withdrawalId طلب السحب المرتبط.
    */
-  public async processPayoutDeduction(
-    userId: string,
+  public async reserveForWithdrawal(
+    tx: TransactionClient,
+    walletId: string,
     amount: number,
     withdrawalId: string
-  ): Promise<void> {
-    if (amount <= 0) return;
+  ): Promise<JournalEntry> {
+    const wallet = await tx.wallet.findUnique({ where: { id: walletId } });
 
-    await prisma.$transaction(
-      async (tx) => {
-        const walletCheck = await tx.wallet.findUnique({
-          where: { userId: userId },
-        });
+    if (!wallet || wallet.availableBalance < amount) {
+      throw new Error("Insufficient available balance for withdrawal.");
+    }
 
-        if (!walletCheck || walletCheck.availableBalance < amount) {
-          throw new Error(
-            "Insufficient available balance for payout deduction."
-          );
-        }
+    const journalEntry = await ledgerService.postEntry(tx, {
+      type: LedgerEntryType.WITHDRAWAL_RESERVE,
+      description: `Funds reserved for withdrawal ${withdrawalId}`,
+      referenceType: "WITHDRAWAL",
+      referenceId: withdrawalId,
+      lines: [
+        {
+          account: ledgerService.walletAvailable(walletId),
+          direction: PostingDirection.DEBIT,
+          amount,
+        },
+        {
+          account: ledgerService.walletReserved(walletId),
+          direction: PostingDirection.CREDIT,
+          amount,
+        },
+      ],
+    });
 
-        const updatedWallet = await tx.wallet.update({
-          where: { userId: userId },
-          data: {
-            availableBalance: { decrement: amount },
-          },
-        });
+    await tx.walletTransaction.create({
+      data: {
+        walletId,
+        amount: amount,
+        type: TransactionType.HOLD,
+        relatedId: withdrawalId,
+        relatedType: "WITHDRAWAL_RESERVE",
+        journalEntryId: journalEntry.id,
+        metadata: { source: "Withdrawal Request" },
+      },
+    });
 
-        await tx.walletTransaction.create({
-          data: {
-            walletId: updatedWallet.id,
-            amount: amount,
-            type: TransactionType.WITHDRAWAL,
-            relatedId: withdrawalId,
-            metadata: { source: "Payout Deduction" },
-          },
-        });
+    return journalEntry;
+  }
+
+  /**
+   * إعادة المبلغ المحجوز إلى الرصيد المتاح (رفض أو إلغاء أو فشل التحويل).
+   * @param tx Prisma Transaction Client.
+   * @param walletId محفظة المستقل.
+   * @param amount مبلغ السحب (بالقرش).
+   * @param withdrawalId طلب السحب المرتبط.
+   * @param reason سبب الإعادة.
+   */
+  public async returnWithdrawalReserve(
+    tx: TransactionClient,
+    walletId: string,
+    amount: number,
+    withdrawalId: string,
+    reason: string
+  ): Promise<JournalEntry> {
+    const journalEntry = await ledgerService.postEntry(tx, {
+      type: LedgerEntryType.WITHDRAWAL_RETURN,
+      description: `Funds returned for withdrawal ${withdrawalId}: ${reason}`,
+      referenceType: "WITHDRAWAL",
+      referenceId: withdrawalId,
+      lines: [
+        {
+          account: ledgerService.walletReserved(walletId),
+          direction: PostingDirection.DEBIT,
+          amount,
+        },
+        {
+          account: ledgerService.walletAvailable(walletId),
+          direction: PostingDirection.CREDIT,
+          amount,
+        },
+      ],
+    });
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId,
+        amount: amount,
+        type: TransactionType.ADJUSTMENT,
+        relatedId: withdrawalId,
+        relatedType: "WITHDRAWAL_RETURN",
+        journalEntryId: journalEntry.id,
+        metadata: { source: "Withdrawal Returned", reason },
       },
-      {
-        maxWait: 5000,
-        timeout: 10000,
-      }
-    );
+    });
+
+    return journalEntry;
+  }
+
+  /**
+   * إتمام السحب بعد نجاح التحويل لدى المزود: خروج المبلغ المحجوز من المنصة.
+   * مدين: الرصيد المحجوز (التزام ينقص)، دائن: أموال المنصة (أصل يخرج للمزود).
+   * @param tx Prisma Transaction Client.
+   * @param walletId محفظة المستقل.
+   * @param amount مبلغ السحب (بالقرش).
+   * @param withdrawalId طلب السحب المرتبط.
+   */
+  public async completeWithdrawalPayout(
+    tx: TransactionClient,
+    walletId: string,
+    amount: number,
+    withdrawalId: string
+  ): Promise<JournalEntry> {
+    const journalEntry = await ledgerService.postEntry(tx, {
+      type: LedgerEntryType.PAYOUT,
+      description: `Payout for withdrawal ${withdrawalId}`,
+      referenceType: "WITHDRAWAL",
+      referenceId: withdrawalId,
+      lines: [
+        {
+          account: ledgerService.walletReserved(walletId),
+          direction: PostingDirection.DEBIT,
+          amount,
+        },
+        {
+          account: ledgerService.platformCash(),
+          direction: PostingDirection.CREDIT,
+          amount,
+        },
+      ],
+    });
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId,
+        amount: amount,
+        type: TransactionType.WITHDRAWAL,
+        relatedId: withdrawalId,
+        relatedType: "WITHDRAWAL",
+        journalEntryId: journalEntry.id,
+        metadata: { source: "Payout Completed" },
+      },
+    });
+
+    return journalEntry;
+  }
+
+  /**
+   * إضافة مبلغ شحن ناجح إلى الرصيد المتاح (قيد WALLET_TOP_UP: مدين أموال المنصة، دائن الرصيد المتاح).
+   * يجب استدعاؤها داخل معاملة Prisma بعد التأكد أن الدفع لم يُعالج من قبل.
+   * @param tx Prisma Transaction Client.
+   * @param walletId المحفظة المشحونة.
+   * @param amount المبلغ بالقرش (USD).
+   * @param paymentId عملية الدفع المرتبطة.
+   * @param fx حقول التحويل إذا كان الدفع بعملة أخرى.
+   */
+  public async creditTopUp(
+    tx: TransactionClient,
+    walletId: string,
+    amount: number,
+    paymentId: string,
+    fx: TransactionFxFields = {}
+  ): Promise<JournalEntry> {
+    const journalEntry = await ledgerService.postEntry(tx, {
+      type: LedgerEntryType.WALLET_TOP_UP,
+      description: `Wallet top-up from payment ${paymentId}`,
+      referenceType: "PAYMENT",
+      referenceId: paymentId,
+      lines: [
+        {
+          account: ledgerService.platformCash(),
+          direction: PostingDirection.DEBIT,
+          amount,
+        },
+        {
+          account: ledgerService.walletAvailable(walletId),
+          direction: PostingDirection.CREDIT,
+          amount,
+        },
+      ],
+    });
+
+    await tx.walletTransaction.create({
+      data: {
+        walletId,
+        amount: amount,
+        type: TransactionType.DEPOSIT,
+        relatedId: paymentId,
+        relatedType: "PAYMENT",
+        journalEntryId: journalEntry.id,
+        metadata: { source: "Wallet Top-Up" },
+        ...fx,
+      },
+    });
+
+    return journalEntry;
+  }
+
+  /**
+   * المحفظة المجمدة (بسبب فروقات التسوية) لا يخرج منها مال حتى يحل المشرف الفروقات.
+   * الإضافات إليها (تحرير، استرداد، شحن) تبقى مسموحة.
+   */
+  public assertNotFrozen(wallet: Pick<Wallet, "frozenAt">): void {
+    if (wallet.frozenAt) {
+      throw new Error(
+        "Wallet is frozen pending reconciliation review. Please contact support."
+      );
+    }
+  }
+
+  /**
+   * سجل معاملات المحفظة مع التصفية والترقيم (الأحدث أولاً).
+   * @param userId صاحب المحفظة.
+   * @param query النوع والفترة والعقد المرتبط ورقم الصفحة.
+   */
+  public async getTransactionHistory(
+    userId: string,
+    query: TransactionHistoryQuery
+  ): Promise<{
+    transactions: TransactionHistoryItem[];
+    totalCount: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    const wallet = await prisma.wallet.findUnique({ where: { userId } });
+
+    if (!wallet) {
+      throw new Error("Wallet not found for this user.");
+    }
+
+    const where: Prisma.WalletTransactionWhereInput = {
+      walletId: wallet.id,
+      type: query.type,
+      relatedId: query.contractId,
+      createdAt:
+        query.from || query.to ? { gte: query.from, lt: query.to } : undefined,
+    };
+
+    const [transactions, totalCount] = await Promise.all([
+      prisma.walletTransaction.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.walletTransaction.count({ where }),
+    ]);
+
+    return {
+      transactions: transactions.map((t) => ({
+        id: t.id,
+        type: t.type,
+        amount: t.amount / 100,
+        currency: "USD",
+        description:
+          (t.metadata as { source?: string } | null)?.source ?? null,
+        relatedId: t.relatedId,
+        relatedType: t.relatedType,
+        originalCurrency: t.originalCurrency,
+        originalAmount: t.originalAmount,
+        clearsAt: t.clearsAt,
+        clearedAt: t.clearedAt,
+        createdAt: t.createdAt,
+        metadata: t.metadata,
+      })),
+      totalCount,
+      totalPages: Math.ceil(totalCount / query.limit),
+      currentPage: query.page,
+    };
   }
 
   /**
  جلب رصيد المستخدم بالكامل.
+   الأرصدة بالدولار، مع نسخة للعرض بعملة المستخدم المحلية (حسب بلده) أو بالعملة المطلوبة.
+   * @param displayCurrency عملة العرض (اختياري).
    */
-  public async getWallet(userId: string): Promise<{
+  public async getWallet(
+    userId: string,
+    displayCurrency?: string
+  ): Promise<{
     availableBalance: number;
     pendingBalance: number;
+    reservedBalance: number;
     totalBalance: number;
+    frozen: boolean; // مجمدة حتى حل فروقات التسوية
+    display: {
+      currency: string;
+      availableBalance: number;
+      pendingBalance: number;
+      reservedBalance: number;
+      totalBalance: number;
+      rate: number;
+    } | null;
   } | null> {
     const wallet = await prisma.wallet.findUnique({
       where: { userId: userId },
+      include: { user: { select: { country: true } } },
     });
 
     if (!wallet) return null;
 
     const available = wallet.availableBalance / 100;
     const pending = wallet.pendingBalance / 100;
+    const reserved = wallet.reservedBalance / 100;
+
+    const currency =
+      displayCurrency ?? fxService.currencyForCountry(wallet.user.country);
+    const [displayAvailable, displayPending, displayReserved] =
+      await Promise.all([
+        fxService.toDisplay(wallet.availableBalance, currency),
+        fxService.toDisplay(wallet.pendingBalance, currency),
+        fxService.toDisplay(wallet.reservedBalance, currency),
+      ]);
 
     return {
       availableBalance: available,
       pendingBalance: pending,
-      totalBalance: available + pending,
+      reservedBalance: reserved,
+      totalBalance: available + pending + reserved,
+      frozen: wallet.frozenAt !== null,
+      // null إذا لم يتوفر سعر صرف لعملة العرض
+      display:
+        displayAvailable && displayPending && displayReserved
+          ? {
+              currency,
+              availableBalance: displayAvailable.amount,
+              pendingBalance: displayPending.amount,
+              reservedBalance: displayReserved.amount,
+              totalBalance:
+                displayAvailable.amount +
+                displayPending.amount +
+                displayReserved.amount,
+              rate: displayAvailable.rate,
+            }
+          : null,
     };
   }
 }
@@ -0,0 +1,360 @@
+import { prisma } from "db-client/index.ts";
+import { Prisma, WithdrawalStatus } from "@prisma/client";
+import type { Withdrawal } from "@prisma/client";
+import type { TransactionClient } from "./Wallet.ts";
+import WalletService from "./Wallet.ts";
+import PayoutProviderRegistry from "../providers/payout/PayoutProviderRegistry.ts";
+import type { PayoutDetails, PayoutResult } from "../types/Payout.ts";
+
+const walletService = new WalletService();
+
+const MIN_WITHDRAWAL_AMOUNT = parseInt(
+  process.env.MIN_WITHDRAWAL_AMOUNT_CENTS || "1000",
+  10
+);
+
+export interface WithdrawalRequestInput {
+  amount: number; // بالقرش
+  method: string;
+  payoutDetails: PayoutDetails;
+}
+
+export interface WithdrawalListQuery {
+  status?: WithdrawalStatus;
+  page: number;
+  limit: number;
+}
+
+/**
+ * خدمة WithdrawalService: دورة حياة طلب السحب.
+ * PENDING (المبلغ محجوز) ← APPROVED (المشرف وافق، التحويل جارٍ) ← COMPLETED أو FAILED.
+ * الرفض (REJECTED) والإلغاء (CANCELED) والفشل (FAILED) تعيد المبلغ المحجوز إلى الرصيد المتاح.
+ */
+class WithdrawalService {
+  private payoutProviders: PayoutProviderRegistry;
+
+  constructor(payoutProviders: PayoutProviderRegistry) {
+    this.payoutProviders = payoutProviders;
+  }
+
+  private async _getWalletId(
+    tx: TransactionClient,
+    withdrawal: Withdrawal
+  ): Promise<string> {
+    const wallet = await tx.wallet.findFirst({
+      where: { user: { Freelancer: { id: withdrawal.freelancerId } } },
+      select: { id: true },
+    });
+
+    if (!wallet) {
+      throw new Error("Wallet not found for this withdrawal.");
+    }
+    return wallet.id;
+  }
+
+  /**
+   * نقل الطلب من PENDING إلى حالة نهائية أو APPROVED بشكل ذري،
+   * حتى لا يعالج مشرفان (أو مشرف ومستقل) نفس الطلب مرتين.
+   */
+  private async _claimPending(
+    tx: TransactionClient,
+    withdrawalId: string,
+    data: Prisma.WithdrawalUpdateManyMutationInput
+  ): Promise<Withdrawal> {
+    const claimed = await tx.withdrawal.updateMany({
+      where: { id: withdrawalId, status: WithdrawalStatus.PENDING },
+      data,
+    });
+
+    if (claimed.count === 0) {
+      const exists = await tx.withdrawal.findUnique({
+        where: { id: withdrawalId },
+      });
+      throw new Error(
+        exists
+          ? "Withdrawal request is no longer pending."
+          : "Withdrawal request not found."
+      );
+    }
+
+    return tx.withdrawal.findUniqueOrThrow({ where: { id: withdrawalId } });
+  }
+
+  /**
+   * إرسال التحويل إلى المزود ثم تسجيل النتيجة:
+   * النجاح يُخرج المبلغ المحجوز من المنصة (COMPLETED)، والفشل يعيده للرصيد المتاح (FAILED).
+   */
+  private async _dispatchPayout(withdrawal: Withdrawal): Promise<Withdrawal> {
+    const amount = withdrawal.amount;
+
+    let result: PayoutResult;
+    try {
+      result = await this.payoutProviders.get(withdrawal.method!).sendPayout({
+        withdrawalId: withdrawal.id,
+        amount,
+        currency: withdrawal.currency,
+        details: (withdrawal.payoutDetails ?? {}) as PayoutDetails,
+      });
+    } catch (error) {
+      console.error(`Payout provider error for withdrawal ${withdrawal.id}:`, error);
+      result = {
+        success: false,
+        failureReason:
+          error instanceof Error ? error.message : "Payout provider error.",
+      };
+    }
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const walletId = await this._getWalletId(tx, withdrawal);
+
+        if (result.success) {
+          await walletService.completeWithdrawalPayout(
+            tx,
+            walletId,
+            amount,
+            withdrawal.id
+          );
+          return tx.withdrawal.update({
+            where: { id: withdrawal.id },
+            data: {
+              status: WithdrawalStatus.COMPLETED,
+              providerReference: result.reference,
+              processedAt: new Date(),
+            },
+          });
+        }
+
+        const failureReason = result.failureReason || "Payout failed.";
+        await walletService.returnWithdrawalReserve(
+          tx,
+          walletId,
+          amount,
+          withdrawal.id,
+          failureReason
+        );
+        return tx.withdrawal.update({
+          where: { id: withdrawal.id },
+          data: {
+            status: WithdrawalStatus.FAILED,
+            failureReason,
+            processedAt: new Date(),
+          },
+        });
+      },
+      {
+        maxWait: 5000,
+        timeout: 10000,
+      }
+    );
+  }
+
+  /**
+   * إنشاء طلب سحب من المستقل وحجز المبلغ من رصيده المتاح.
+   * @param userId معرف المستخدم (المستقل).
+   * @param input المبلغ (بالقرش) وطريقة التحويل وبيانات جهة التحويل.
+   */
+  public async requestWithdrawal(
+    userId: string,
+    input: WithdrawalRequestInput
+  ): Promise<Withdrawal> {
+    if (!Number.isInteger(input.amount) || input.amount < MIN_WITHDRAWAL_AMOUNT) {
+      throw new Error(
+        `Invalid withdrawal amount: minimum is $${(MIN_WITHDRAWAL_AMOUNT / 100).toFixed(2)}.`
+      );
+    }
+
+    const provider = this.payoutProviders.get(input.method);
+    provider.validateDetails(input.payoutDetails);
+
+    const freelancer = await prisma.freelancer.findUnique({
+      where: { userId },
+    });
+
+    if (!freelancer) {
+      throw new Error("Unauthorized: Only freelancers can request withdrawals.");
+    }
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const wallet = await tx.wallet.findUnique({ where: { userId } });
+
+        if (!wallet) {
+          throw new Error("Wallet not found for this user.");
+        }
+        walletService.assertNotFrozen(wallet);
+
+        const withdrawal = await tx.withdrawal.create({
+          data: {
+            freelancerId: freelancer.id,
+            amount: input.amount,
+            method: provider.method,
+            payoutDetails: input.payoutDetails as Prisma.InputJsonObject,
+          },
+        });
+
+        await walletService.reserveForWithdrawal(
+          tx,
+          wallet.id,
+          input.amount,
+          withdrawal.id
+        );
+
+        return withdrawal;
+      },
+      {
+        maxWait: 5000,
+        timeout: 10000,
+      }
+    );
+  }
+
+  /**
+   * طلبات السحب الخاصة بالمستقل (الأحدث أولاً).
+   */
+  public async getMyWithdrawals(userId: string): Promise<Withdrawal[]> {
+    return prisma.withdrawal.findMany({
+      where: { freelancer: { userId } },
+      orderBy: { requestedAt: "desc" },
+    });
+  }
+
+  /**
+   * إلغاء المستقل لطلب سحب ما زال بانتظار المراجعة، وإعادة المبلغ المحجوز.
+   */
+  public async cancelWithdrawal(
+    userId: string,
+    withdrawalId: string
+  ): Promise<Withdrawal> {
+    const withdrawal = await prisma.withdrawal.findFirst({
+      where: { id: withdrawalId, freelancer: { userId } },
+    });
+
+    if (!withdrawal) {
+      throw new Error("Withdrawal request not found.");
+    }
+
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const canceled = await this._claimPending(tx, withdrawalId, {
+          status: WithdrawalStatus.CANCELED,
+          processedAt: new Date(),
+        });
+
+        await walletService.returnWithdrawalReserve(
+          tx,
+          await this._getWalletId(tx, canceled),
+          canceled.amount,
+          canceled.id,
+          "Canceled by freelancer"
+        );
+
+        return canceled;
+      },
+      {
+        maxWait: 5000,
+        timeout: 10000,
+      }
+    );
+  }
+
+  /**
+   * قائمة طلبات السحب للمشرف مع التصفية حسب الحالة والترقيم.
+   */
+  public async listWithdrawals(query: WithdrawalListQuery): Promise<{
+    items: Withdrawal[];
+    totalCount: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    const where = query.status ? { status: query.status } : {};
+
+    const [items, totalCount] = await Promise.all([
+      prisma.withdrawal.findMany({
+        where,
+        orderBy: { requestedAt: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.withdrawal.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      totalPages: Math.ceil(totalCount / query.limit),
+      currentPage: query.page,
+    };
+  }
+
+  /**
+   * موافقة المشرف على طلب السحب ثم تنفيذ التحويل عبر مزود الطريقة المختارة.
+   * @param adminId معرف المشرف.
+   * @param withdrawalId معرف طلب السحب.
+   * @param notes ملاحظات المراجعة.
+   */
+  public async approveWithdrawal(
+    adminId: string,
+    withdrawalId: string,
+    notes?: string
+  ): Promise<Withdrawal> {
+    const approved = await prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const withdrawal = await this._claimPending(tx, withdrawalId, {
+          status: WithdrawalStatus.APPROVED,
+          reviewedById: adminId,
+          notes,
+        });
+
+        // المحفظة المجمدة: يبقى الطلب PENDING حتى تُحل فروقات التسوية
+        walletService.assertNotFrozen(
+          await tx.wallet.findUniqueOrThrow({
+            where: { id: await this._getWalletId(tx, withdrawal) },
+          })
+        );
+        return withdrawal;
+      }
+    );
+
+    return this._dispatchPayout(approved);
+  }
+
+  /**
+   * رفض المشرف لطلب السحب وإعادة المبلغ المحجوز إلى الرصيد المتاح.
+   * @param adminId معرف المشرف.
+   * @param withdrawalId معرف طلب السحب.
+   * @param reason سبب الرفض (يظهر للمستقل).
+   */
+  public async rejectWithdrawal(
+    adminId: string,
+    withdrawalId: string,
+    reason: string
+  ): Promise<Withdrawal> {
+    return prisma.$transaction(
+      async (tx: TransactionClient) => {
+        const rejected = await this._claimPending(tx, withdrawalId, {
+          status: WithdrawalStatus.REJECTED,
+          reviewedById: adminId,
+          notes: reason,
+          processedAt: new Date(),
+        });
+
+        await walletService.returnWithdrawalReserve(
+          tx,
+          await this._getWalletId(tx, rejected),
+          rejected.amount,
+          rejected.id,
+          `Rejected: ${reason}`
+        );
+
+        return rejected;
+      },
+      {
+        maxWait: 5000,
+        timeout: 10000,
+      }
+    );
+  }
+}
+
+export default WithdrawalService;
@@ -0,0 +1,43 @@
+import type {
+  LedgerAccountType,
+  LedgerEntryType,
+  PostingDirection,
+} from "@prisma/client";
+
+// ===============================================
+// LEDGER INPUT INTERFACES
+// ===============================================
+
+// مرجع حساب في دفتر الأستاذ: النوع + المالك (محفظة أو حساب ضمان)
+export interface LedgerAccountRef {
+  type: LedgerAccountType;
+  ownerId?: string; // walletId أو escrowAccountId - فارغ لحسابات المنصة
+}
+
+export interface PostingLine {
+  account: LedgerAccountRef;
+  direction: PostingDirection;
+  amount: number; // بالقرش - موجب دائماً
+}
+
+export interface JournalEntryInput {
+  type: LedgerEntryType;
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+  lines: PostingLine[];
+}
+
+// ===============================================
+// VERIFICATION INTERFACES
+// ===============================================
+
+export interface LedgerAccountVerification {
+  accountId: string;
+  code: string;
+  type: LedgerAccountType;
+  cachedBalance: number; // LedgerAccount.balance
+  derivedBalance: number; // مجموع القيود
+  projectedBalance: number | null; // الحقل المقابل في Wallet / EscrowAccount
+  isConsistent: boolean;
+}
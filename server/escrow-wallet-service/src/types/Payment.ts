@@ -0,0 +1,51 @@
+// ===============================================
+// PAYMENT GATEWAY INTERFACES
+// ===============================================
+
+export interface CheckoutRequest {
+  paymentId: string;
+  amount: number; // بالوحدة الصغرى لعملة الدفع
+  currency: string;
+  description: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  providerId: string; // معرف الجلسة/الطلب لدى المزود
+  checkoutUrl: string;
+}
+
+// الطلب الخام كما وصل من المزود (التوقيع يُحسب على rawBody كما هو)
+export interface WebhookRequest {
+  rawBody: Buffer;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+}
+
+export interface PaymentWebhookEvent {
+  // IGNORED: حدث لا يغير حالة الدفع (مثل session.created)
+  outcome: "COMPLETED" | "FAILED" | "IGNORED";
+  paymentId?: string; // معرفنا إذا أعاده المزود
+  providerId?: string;
+  amount?: number; // المبلغ المدفوع فعلياً بالوحدة الصغرى
+  currency?: string;
+  failureReason?: string;
+}
+
+/**
+ * بوابة دفع لشحن المحفظة (Stripe، Paymob، محاكاة محلية...).
+ * أي بوابة جديدة يكفي أن تطبق هذه الواجهة وتُسجل في PaymentGatewayRegistry.
+ */
+export interface PaymentGateway {
+  readonly method: string; // STRIPE, PAYMOB, FAKE...
+
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+
+  /**
+   * التحقق من توقيع الـ webhook ثم ترجمته إلى حدث موحد.
+   * يرمي "Invalid webhook signature." إذا لم يكن التوقيع صحيحاً.
+   */
+  parseWebhook(request: WebhookRequest): PaymentWebhookEvent;
+}
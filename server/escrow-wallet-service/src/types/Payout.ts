@@ -0,0 +1,37 @@
+// ===============================================
+// PAYOUT PROVIDER INTERFACES
+// ===============================================
+
+// بيانات جهة التحويل كما يرسلها المستقل (IBAN، بريد PayPal...)
+export type PayoutDetails = Record<string, unknown>;
+
+export interface PayoutRequest {
+  withdrawalId: string;
+  amount: number; // بالقرش
+  currency: string;
+  details: PayoutDetails;
+}
+
+export interface PayoutResult {
+  success: boolean;
+  reference?: string; // مرجع العملية لدى المزود
+  failureReason?: string;
+}
+
+/**
+ * مزود تحويل الأموال للمستقل (بنك، PayPal، محاكاة محلية...).
+ * أي مزود جديد يكفي أن يطبق هذه الواجهة ويُسجل في PayoutProviderRegistry.
+ */
+export interface PayoutProvider {
+  readonly method: string; // BANK, PAYPAL, MOCK...
+
+  /**
+   * يرمي خطأ "Invalid payout details: ..." إذا كانت بيانات جهة التحويل ناقصة.
+   */
+  validateDetails(details: PayoutDetails): void;
+
+  /**
+   * تنفيذ التحويل. فشل المزود يُعاد كنتيجة (success: false) وليس كخطأ.
+   */
+  sendPayout(request: PayoutRequest): Promise<PayoutResult>;
+}
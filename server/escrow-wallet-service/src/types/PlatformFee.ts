@@ -0,0 +1,47 @@
+// ===============================================
+// FEE SCHEDULE INTERFACES
+// ===============================================
+
+// شريحة عمولة: تُطبق على ما يتجاوز fromAmount من إجمالي التعامل بين المستقل والعميل
+export interface FeeTier {
+  fromAmount: number; // بالقرش
+  percentageBps: number; // 1% = 100
+}
+
+export interface FeeScheduleInput {
+  tiers: FeeTier[];
+  fixedFee?: number; // بالقرش
+  clientProcessingFeeBps?: number;
+  clientProcessingFixedFee?: number; // بالقرش
+  effectiveFrom?: Date;
+}
+
+// ===============================================
+// FEE QUOTE INTERFACES
+// ===============================================
+
+export interface AppliedFeeTier extends FeeTier {
+  amount: number; // الجزء من المبلغ الواقع في هذه الشريحة
+  fee: number;
+}
+
+export interface ReleaseFeeQuote {
+  scheduleId: string;
+  version: number;
+  grossAmount: number;
+  lifetimeBillingsBefore: number;
+  tiers: AppliedFeeTier[];
+  percentageFee: number;
+  fixedFee: number;
+  totalFee: number;
+  netAmount: number; // ما يصل للرصيد المعلق للمستقل
+}
+
+export interface ProcessingFeeQuote {
+  scheduleId: string;
+  version: number;
+  amount: number; // المبلغ المودع في الضمان
+  percentageFee: number;
+  fixedFee: number;
+  totalFee: number; // يُضاف على العميل فوق المبلغ المودع
+}
@@ -0,0 +1,40 @@
+import type { CountryCode } from "@prisma/client";
+
+// عملة التسوية: جميع الأرصدة وحسابات الضمان والدفتر بها
+export const SETTLEMENT_CURRENCY = "USD";
+
+export const COUNTRY_CURRENCY: Record<CountryCode, string> = {
+  EG: "EGP",
+  SA: "SAR",
+  AE: "AED",
+  KW: "KWD",
+  QA: "QAR",
+  BH: "BHD",
+  OM: "OMR",
+  JO: "JOD",
+  LB: "LBP",
+  IQ: "IQD",
+  SY: "SYP",
+  PS: "ILS",
+  YE: "YER",
+  MA: "MAD",
+  DZ: "DZD",
+  TN: "TND",
+  LY: "LYD",
+  SD: "SDG",
+  MR: "MRU",
+  SO: "SOS",
+  DJ: "DJF",
+  PK: "PKR",
+  ID: "IDR",
+  TR: "TRY",
+  IR: "IRR",
+};
+
+// العملات المدعومة والتحويل بين الوحدة الأساسية والصغرى من الحزمة المشتركة
+export {
+  CURRENCY_DECIMALS,
+  isSupportedCurrency,
+  toMinorUnits,
+  fromMinorUnits,
+} from "@rizlax/money";
@@ -0,0 +1,22 @@
+// تحويل رسالة الخطأ من طبقة الخدمات إلى رمز الحالة المناسب.
+// مشتركة بين كل المعالجات حتى يحصل العميل على نفس الرمز لنفس الخطأ أياً كان المسار
+export const statusFromErrorMessage = (errorMessage: string): number => {
+  if (errorMessage.includes("not found")) return 404;
+  if (errorMessage.includes("frozen")) return 423;
+  if (
+    errorMessage.includes("already in progress") ||
+    errorMessage.includes("not initialized")
+  ) {
+    return 409;
+  }
+  if (errorMessage.includes("Unauthorized")) return 403;
+  if (
+    errorMessage.includes("Insufficient") ||
+    errorMessage.includes("Invalid") ||
+    errorMessage.includes("pending")
+  ) {
+    return 400;
+  }
+  if (errorMessage.includes("Failed to create checkout session")) return 502;
+  return 500;
+};
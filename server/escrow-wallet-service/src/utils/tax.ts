@@ -0,0 +1,30 @@
+import type { CountryCode } from "@prisma/client";
+
+// ضريبة المبيعات/القيمة المضافة على الخدمات حسب دولة المشتري (نسبة مئوية).
+// الدول غير المدرجة لا تُضاف لفواتيرها ضريبة. الفاتورة تحفظ النسبة المستخدمة،
+// فتعديل الجدول لا يغير الفواتير الصادرة سابقاً.
+export interface TaxRule {
+  name: string;
+  rate: number;
+}
+
+export const COUNTRY_TAX: Partial<Record<CountryCode, TaxRule>> = {
+  SA: { name: "VAT", rate: 15 },
+  AE: { name: "VAT", rate: 5 },
+  BH: { name: "VAT", rate: 10 },
+  OM: { name: "VAT", rate: 5 },
+  EG: { name: "VAT", rate: 14 },
+  JO: { name: "GST", rate: 16 },
+  LB: { name: "VAT", rate: 11 },
+  MA: { name: "VAT", rate: 20 },
+  DZ: { name: "VAT", rate: 19 },
+  TN: { name: "VAT", rate: 19 },
+  TR: { name: "VAT", rate: 20 },
+};
+
+export const taxRuleFor = (country: CountryCode | null): TaxRule | null =>
+  (country && COUNTRY_TAX[country]) || null;
+
+// المبالغ شاملة الضريبة: استخراج الضريبة المتضمنة من الإجمالي (بالقرش)
+export const includedTax = (total: number, rate: number): number =>
+  Math.round((total * rate) / (100 + rate));
@@ -0,0 +1,30 @@
+import z from "zod";
+
+// ما تحتاجه خدمة الضمان من ContractAmendment.milestoneChanges (المبالغ بالوحدة الصغرى لعملة العقد)
+export const amendmentMilestoneChangesSchema = z.object({
+  add: z.array(z.object({ amount: z.number().int().positive() })).default([]),
+  update: z
+    .array(
+      z.object({
+        milestoneId: z.string(),
+        amount: z.number().int().positive().optional(),
+      })
+    )
+    .default([]),
+  remove: z.array(z.string()).default([]),
+});
+
+// حركات الضمان المحفوظة في ContractAmendment.escrowAdjustment
+export const amendmentEscrowMovementsSchema = z.array(
+  z.object({
+    milestoneId: z.string(),
+    type: z.enum(["DEPOSIT", "REFUND"]),
+    amount: z.number().int().positive(), // بالقرش
+    escrowTransactionId: z.string(),
+  })
+);
+
+// حركة ضمان نُفذت لتعديل عقد: تمويل إضافي (DEPOSIT) أو استرداد (REFUND) لمرحلة ممولة
+export type AmendmentEscrowMovement = z.infer<
+  typeof amendmentEscrowMovementsSchema
+>[number];
@@ -0,0 +1,9 @@
+import z from "zod";
+
+// شريحة عمولة كما تُحفظ في PlatformFeeSchedule.tiers (المبلغ بالقرش، النسبة بنقاط الأساس)
+export const feeTierSchema = z.object({
+  fromAmount: z.number().int().min(0),
+  percentageBps: z.number().int().min(0).max(10000),
+});
+
+export const feeTiersSchema = z.array(feeTierSchema).min(1);
@@ -0,0 +1,23 @@
+import IntervalWorker from "./IntervalWorker.ts";
+import ClearingService from "../services/Clearing.ts";
+
+/**
+ * ClearingWorker: يشغّل ClearingService.clearDueReleases دورياً
+ * (كل CLEARING_INTERVAL_MINUTES دقيقة، الافتراضي 15).
+ */
+class ClearingWorker extends IntervalWorker {
+  private clearingService: ClearingService;
+
+  constructor(clearingService: ClearingService, intervalMinutes?: number) {
+    super("ClearingWorker", "CLEARING_INTERVAL_MINUTES", 15, intervalMinutes);
+    this.clearingService = clearingService;
+  }
+
+  protected async run(): Promise<string | null> {
+    const cleared = await this.clearingService.clearDueReleases();
+    if (cleared === 0) return null;
+    return `cleared ${cleared} matured release(s).`;
+  }
+}
+
+export default ClearingWorker;
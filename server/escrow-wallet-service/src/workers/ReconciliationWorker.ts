@@ -0,0 +1,45 @@
+import logger from "@rizlax/logs";
+import { ReconciliationTrigger } from "@prisma/client";
+import IntervalWorker from "./IntervalWorker.ts";
+import ReconciliationService from "../services/Reconciliation.ts";
+
+/**
+ * ReconciliationWorker: يشغّل ReconciliationService.runReconciliation دورياً
+ * (كل RECONCILIATION_INTERVAL_MINUTES دقيقة، الافتراضي 1440 = يومياً).
+ * تجميد المحافظ المتأثرة تلقائياً فقط إذا كانت RECONCILIATION_FREEZE_WALLETS=true.
+ */
+class ReconciliationWorker extends IntervalWorker {
+  private reconciliationService: ReconciliationService;
+  private freezeWallets: boolean;
+
+  constructor(
+    reconciliationService: ReconciliationService,
+    intervalMinutes?: number
+  ) {
+    super(
+      "ReconciliationWorker",
+      "RECONCILIATION_INTERVAL_MINUTES",
+      1440,
+      intervalMinutes
+    );
+    this.reconciliationService = reconciliationService;
+    this.freezeWallets = process.env.RECONCILIATION_FREEZE_WALLETS === "true";
+  }
+
+  // الفروقات الجديدة تُسجَّل كتحذير، لا كملخص عادي
+  protected async run(): Promise<string | null> {
+    const run = await this.reconciliationService.runReconciliation(
+      ReconciliationTrigger.SCHEDULED,
+      { freezeWallets: this.freezeWallets }
+    );
+    if (run.discrepancyCount > 0) {
+      logger.warn("ReconciliationWorker found new discrepancies:", {
+        runId: run.id,
+        discrepancyCount: run.discrepancyCount,
+      });
+    }
+    return null;
+  }
+}
+
+export default ReconciliationWorker;
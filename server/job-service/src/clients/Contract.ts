@@ -0,0 +1,92 @@
+import { SERVICE_TOKEN_HEADER } from "common-middleware/src/ServiceGuard.ts";
+
+export interface ProposalContractResult {
+  contract: { id: string; status: string; amount: number; currency: string };
+  // false when contract-service already had the contract (a retry)
+  created: boolean;
+}
+
+interface ContractResponse<T> {
+  success?: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * خطأ من خدمة العقود. definite = true عندما رفضت الخدمة الطلب صراحة (4xx)،
+ * وfalse عندما لا نعرف إن كان العقد قد أُنشئ (الخدمة غير متاحة أو 5xx).
+ */
+export class ContractServiceError extends Error {
+  public statusCode: number;
+  public definite: boolean;
+
+  constructor(message: string, statusCode: number, definite: boolean) {
+    super(message);
+    this.name = "ContractServiceError";
+    this.statusCode = statusCode;
+    this.definite = definite;
+  }
+}
+
+/**
+ * عميل HTTP للمسارات الداخلية في contract-service.
+ * كل الاستدعاءات آمنة لإعادة المحاولة: العقد مرتبط بالعرض (proposalId) ولا يُنشأ مرتين.
+ */
+class ContractClient {
+  private baseUrl: string;
+  private serviceToken: string;
+
+  constructor(baseUrl: string, serviceToken: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.serviceToken = serviceToken;
+  }
+
+  private async post<T>(path: string): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/internal${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [SERVICE_TOKEN_HEADER]: this.serviceToken,
+        },
+        signal: AbortSignal.timeout(20000),
+      });
+    } catch {
+      throw new ContractServiceError("Contract service is unavailable", 503, false);
+    }
+
+    const body = (await response
+      .json()
+      .catch(() => null)) as ContractResponse<T> | null;
+
+    if (!response.ok || !body?.success) {
+      // أخطاء العمل (4xx) تعود للمستخدم كما هي، والباقي (توكن خاطئ، 5xx) فشل في البوابة
+      const isBusinessError =
+        response.status >= 400 &&
+        response.status < 500 &&
+        response.status !== 401 &&
+        response.status !== 403;
+      throw new ContractServiceError(
+        body?.error ?? body?.message ?? "Contract service request failed",
+        isBusinessError ? response.status : 502,
+        isBusinessError
+      );
+    }
+
+    return body.data as T;
+  }
+
+  /**
+   * إنشاء العقد وحساب الضمان الخاص به من عرض مقبول.
+   * @param proposalId معرف العرض (يجب أن تكون حالته ACCEPTED).
+   */
+  public createContractFromProposal(
+    proposalId: string
+  ): Promise<ProposalContractResult> {
+    return this.post(`/contracts/proposals/${proposalId}`);
+  }
+}
+
+export default ContractClient;
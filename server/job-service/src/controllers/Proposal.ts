@@ -2,11 +2,13 @@ import type { Request, Response } from 'express';
 import { z } from "zod";
 import ProposalService from "../services/Proposal.ts"; 
 import { ProposalStatus } from "@prisma/client";
+import { ContractServiceError } from "../clients/Contract.ts";
 
 const createProposalSchema = z.object({
   jobId: z.string().min(1, "Job ID is required."),
   coverLetter: z.string().min(20, "Cover letter must be at least 20 characters."),
-  proposedRate: z.number().positive("Proposed rate must be a positive number.").optional(),
+  // major units of the job's currency, checked against it by ProposalService
+  proposedRate: z.number(),
 });
 
 const updateProposalStatusSchema = z.object({
@@ -46,6 +48,12 @@ export class ProposalController {
       res.status(400).json({ error: "Validation failed", details: error.issues });
       return;
     }
+
+    if (error instanceof ContractServiceError) {
+      // فشل إنشاء العقد عند قبول العرض: نعيد رمز الحالة كما حددته خدمة العقود
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
     
     let status = 400;
     const errorMessage = error.message.toLowerCase();
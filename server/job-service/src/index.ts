@@ -12,6 +12,7 @@ import createJobRouter from "./routes/Job.ts";
 import ProposalService from "./services/Proposal.ts";
 import ProposalController from "./controllers/Proposal.ts";
 import createProposalRouter from "./routes/Proposal.ts";
+import ContractClient from "./clients/Contract.ts";
 
 
 dotenv.config({ path: "../../.env" });
@@ -22,8 +23,15 @@ async function startServer() {
   try {
     console.log("Starting Job Service dependency setup...");
 
+    // عميل خدمة العقود (إنشاء العقد عند قبول العرض)
+    const contractClient = new ContractClient(
+      process.env.CONTRACT_SERVICE_URL ||
+        `http://localhost:${process.env.CONTRACT_PORT}`,
+      process.env.INTERNAL_SERVICE_TOKEN as string
+    );
+
     const jobService = new JobService();
-    const proposalService = new ProposalService(); 
+    const proposalService = new ProposalService(contractClient); 
 
     const jobController = new JobController(jobService);
     const proposalController = new ProposalController(proposalService); 
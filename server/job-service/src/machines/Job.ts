@@ -0,0 +1,29 @@
+import { JobStatus } from "@prisma/client";
+import type { Job } from "@prisma/client";
+import { createStateMachine } from "@rizlax/state-machine";
+import logger from "logs/index.ts";
+
+// SYSTEM: تغييرات يجريها مسار قبول العروض (حجز الوظيفة والتراجع عنه)، لا يطلبها العميل مباشرة
+export type JobActor = "CLIENT" | "SYSTEM";
+
+/**
+ * انتقالات حالة الوظيفة المسموحة ومن يحق له كل انتقال.
+ * الوظيفة تصبح IN_PROGRESS فقط عند قبول عرض (وإنشاء العقد)، لا عبر تحديث الحالة يدوياً.
+ */
+export const jobStateMachine = createStateMachine<JobStatus, JobActor, Job>({
+  name: "job",
+  states: Object.values(JobStatus),
+  transitions: [
+    { from: JobStatus.OPEN, to: JobStatus.IN_PROGRESS, roles: ["SYSTEM"] },
+    // فشل إنشاء العقد: إعادة الوظيفة مفتوحة
+    { from: JobStatus.IN_PROGRESS, to: JobStatus.OPEN, roles: ["SYSTEM"] },
+    { from: JobStatus.IN_PROGRESS, to: JobStatus.COMPLETED, roles: ["CLIENT"] },
+    { from: JobStatus.OPEN, to: JobStatus.CANCELED, roles: ["CLIENT"] },
+    // إعادة نشر وظيفة ملغاة
+    { from: JobStatus.CANCELED, to: JobStatus.OPEN, roles: ["CLIENT"] },
+  ],
+});
+
+jobStateMachine.on(({ from, to, role, context }) => {
+  logger.info(`Job ${context.id} status changed from ${from} to ${to} by ${role}.`);
+});
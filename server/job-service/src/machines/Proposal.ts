@@ -0,0 +1,48 @@
+import { ProposalStatus } from "@prisma/client";
+import type { Proposal } from "@prisma/client";
+import { createStateMachine } from "@rizlax/state-machine";
+import logger from "logs/index.ts";
+
+// SYSTEM: تغييرات يجريها مسار قبول العروض (رفض العروض الأخرى والتراجع عند الفشل)
+export type ProposalActor = "CLIENT" | "FREELANCER" | "SYSTEM";
+
+const OPEN_STATUSES = [ProposalStatus.PENDING, ProposalStatus.INTERVIEWING];
+
+/**
+ * انتقالات حالة العرض المسموحة ومن يحق له كل انتقال.
+ * القرار (قبول/رفض) للعميل فقط، والعرض المعالَج لا يعود مفتوحاً إلا بالتراجع عن قبول فاشل.
+ */
+export const proposalStateMachine = createStateMachine<
+  ProposalStatus,
+  ProposalActor,
+  Proposal
+>({
+  name: "proposal",
+  states: Object.values(ProposalStatus),
+  transitions: [
+    {
+      from: ProposalStatus.PENDING,
+      to: ProposalStatus.INTERVIEWING,
+      roles: ["CLIENT"],
+    },
+    { from: OPEN_STATUSES, to: ProposalStatus.ACCEPTED, roles: ["CLIENT"] },
+    // رفض العميل، أو رفض تلقائي لباقي العروض عند قبول أحدها
+    {
+      from: OPEN_STATUSES,
+      to: ProposalStatus.DECLINED,
+      roles: ["CLIENT", "SYSTEM"],
+    },
+    // التراجع عن قبول فشل فيه إنشاء العقد
+    {
+      from: [ProposalStatus.ACCEPTED, ProposalStatus.DECLINED],
+      to: OPEN_STATUSES,
+      roles: ["SYSTEM"],
+    },
+  ],
+});
+
+proposalStateMachine.on(({ from, to, role, context }) => {
+  logger.info(
+    `Proposal ${context.id} status changed from ${from} to ${to} by ${role}.`
+  );
+});
@@ -14,6 +14,8 @@ import type {
   JobMarketStats,
   JobWithDetails
 } from "../types/Job.ts";
+import { jobStateMachine } from "../machines/Job.ts";
+import { jobBudgetSchema } from "../validators/Job.ts";
 
 export class JobService {
 
@@ -69,6 +71,7 @@ export class JobService {
         title: jobData.title,
         description: jobData.description,
         budget: jobData.budget,
+        currency: jobData.currency,
         category: jobData.category,
         status: JobStatus.OPEN,
       },
@@ -158,9 +161,14 @@ export class JobService {
       throw new Error("Cannot update completed or canceled jobs");
     }
 
+    // the budget is validated against the currency the job was posted in
+    const data = updateData.budget === undefined
+      ? updateData
+      : { ...updateData, budget: jobBudgetSchema(existingJob.currency).parse(updateData.budget) };
+
     const job = await prisma.job.update({
       where: { id: jobId },
-      data: updateData,
+      data,
       include: {
         client: { include: { user: { select: { id: true, name: true, email: true } } } },
         _count: { select: { proposals: true } }
@@ -221,7 +229,8 @@ export class JobService {
       canceledJobs: canceledJobs < 0 ? 0 : canceledJobs,
       totalProposals,
       totalSpent: totalSpentValue,
-      averageBudget: completedJobs > 0 ? totalSpentValue / completedJobs : 0
+      averageBudget:
+        completedJobs > 0 ? Math.round(totalSpentValue / completedJobs) : 0
     };
   }
 
@@ -244,7 +253,7 @@ export class JobService {
             include: {
               user: { select: { id: true, name: true, email: true } },
               skills: true,
-              _count: { select: { contracts: true, reviews: true } }
+              _count: { select: { contracts: true } }
             }
           }
         }
@@ -265,14 +274,17 @@ export class JobService {
 
     const existingJob = await this._getOwnedJob(jobId, clientId, {});
 
-    const job = await prisma.job.update({
-      where: { id: jobId },
-      data: { status },
-      include: {
-        client: { include: { user: { select: { id: true, name: true, email: true } } } },
-        _count: { select: { proposals: true } }
-      }
-    });
+    const job = await jobStateMachine.transition(
+      { from: existingJob.status, to: status, role: "CLIENT", context: existingJob },
+      () => prisma.job.update({
+        where: { id: jobId },
+        data: { status },
+        include: {
+          client: { include: { user: { select: { id: true, name: true, email: true } } } },
+          _count: { select: { proposals: true } }
+        }
+      })
+    );
 
     return job as JobWithDetails;
   }
@@ -312,6 +324,8 @@ export class JobService {
               id: true,
               fullName: true,
               companyName: true,
+              ratingAverage: true,
+              ratingCount: true,
               user: { select: { id: true, name: true, email: true } },
             },
           },
@@ -366,7 +380,7 @@ export class JobService {
     const stats: JobMarketStats = {
       totalOpenJobs,
       totalJobsThisWeek,
-      averageBudget: averageBudgetData._avg.budget || 0,
+      averageBudget: Math.round(averageBudgetData._avg.budget || 0),
       topCategories
     }
 
@@ -382,6 +396,8 @@ export class JobService {
             id: true,
             fullName: true,
             companyName: true,
+            ratingAverage: true,
+            ratingCount: true,
             user: { select: { id: true, name: true, email: true } }
           }
         },
@@ -414,6 +430,8 @@ export class JobService {
             id: true,
             fullName: true,
             companyName: true,
+            ratingAverage: true,
+            ratingCount: true,
             user: { select: { id: true, name: true, email: true } }
           }
         },
@@ -1,10 +1,15 @@
 import { prisma } from "db-client/index.ts"; 
 import type { Proposal as PrismaProposalModel, ProposalStatus as ProposalStatusType, Freelancer, Client, Job } from "@prisma/client"
-import { ProposalStatus } from "@prisma/client" 
+import { JobStatus, ProposalStatus } from "@prisma/client" 
 
+import { majorAmountSchema } from "@rizlax/money";
 import logger from "logs/index.ts";
 
 import type { CreateProposalData, GetProposalsFilters, ProposalWithDetails } from "../types/Proposal.ts"; 
+import type ContractClient from "../clients/Contract.ts";
+import { ContractServiceError } from "../clients/Contract.ts";
+import { jobStateMachine } from "../machines/Job.ts";
+import { proposalStateMachine } from "../machines/Proposal.ts";
 
 type Proposal = PrismaProposalModel;
 
@@ -13,6 +18,11 @@ type Proposal = PrismaProposalModel;
  * من إنشاء، جلب، وتحديث حالة العرض.
  */
 class ProposalService {
+  private contractClient: ContractClient;
+
+  constructor(contractClient: ContractClient) {
+    this.contractClient = contractClient;
+  }
   
   // --- الدوال الخاصة (Private Helper Methods) ---
 
@@ -74,6 +84,144 @@ class ProposalService {
     return job;
   }
 
+  /**
+   * حجز الوظيفة للعرض المقبول في معاملة واحدة: الوظيفة OPEN -> IN_PROGRESS،
+   * العرض (PENDING أو INTERVIEWING) -> ACCEPTED، ورفض باقي العروض المفتوحة على نفس الوظيفة.
+   * كل تغيير يمر عبر آلة الحالة (SYSTEM لحجز الوظيفة ورفض باقي العروض)،
+   * والتحديثات مشروطة بالحالة السابقة فلا يُقبل عرضان لنفس الوظيفة في وقت واحد.
+   * @returns الحالات السابقة للعروض المرفوضة (لإرجاعها عند التراجع).
+   */
+  private async _claimJobForProposal(proposal: Proposal): Promise<Map<string, ProposalStatusType>> {
+    return prisma.$transaction(async (tx) => {
+      const job = await tx.job.findUniqueOrThrow({ where: { id: proposal.jobId } });
+      if (job.status !== JobStatus.OPEN) {
+        throw new Error("Job is not open for proposals");
+      }
+      await jobStateMachine.transition(
+        { from: job.status, to: JobStatus.IN_PROGRESS, role: "SYSTEM", context: job },
+        async () => {
+          const claimed = await tx.job.updateMany({
+            where: { id: job.id, status: JobStatus.OPEN },
+            data: { status: JobStatus.IN_PROGRESS }
+          });
+          if (claimed.count === 0) {
+            throw new Error("Job is not open for proposals");
+          }
+        }
+      );
+
+      await proposalStateMachine.transition(
+        { from: proposal.status, to: ProposalStatus.ACCEPTED, role: "CLIENT", context: proposal },
+        async () => {
+          const accepted = await tx.proposal.updateMany({
+            where: { id: proposal.id, status: proposal.status },
+            data: { status: ProposalStatus.ACCEPTED }
+          });
+          if (accepted.count === 0) {
+            throw new Error("Proposal has already been processed");
+          }
+        }
+      );
+
+      const others = await tx.proposal.findMany({
+        where: {
+          jobId: proposal.jobId,
+          id: { not: proposal.id },
+          status: { in: [ProposalStatus.PENDING, ProposalStatus.INTERVIEWING] }
+        }
+      });
+      const declined = new Map<string, ProposalStatusType>();
+      for (const other of others) {
+        await proposalStateMachine.transition(
+          { from: other.status, to: ProposalStatus.DECLINED, role: "SYSTEM", context: other },
+          async () => {
+            const { count } = await tx.proposal.updateMany({
+              where: { id: other.id, status: other.status },
+              data: { status: ProposalStatus.DECLINED }
+            });
+            if (count > 0) declined.set(other.id, other.status);
+          }
+        );
+      }
+
+      return declined;
+    });
+  }
+
+  /**
+   * التراجع عن حجز الوظيفة بعد فشل إنشاء العقد: إعادة الوظيفة والعروض لحالاتها السابقة
+   * عبر انتقالات SYSTEM. ما تغيّر منذ الحجز (مثلاً عرض أعيد فتحه) يُترك كما هو.
+   */
+  private async _releaseJobClaim(proposal: Proposal, declined: Map<string, ProposalStatusType>): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const job = await tx.job.findUniqueOrThrow({ where: { id: proposal.jobId } });
+      if (job.status === JobStatus.IN_PROGRESS) {
+        await jobStateMachine.transition(
+          { from: job.status, to: JobStatus.OPEN, role: "SYSTEM", context: job },
+          () => tx.job.updateMany({
+            where: { id: job.id, status: JobStatus.IN_PROGRESS },
+            data: { status: JobStatus.OPEN }
+          })
+        );
+      }
+
+      const restore = new Map(declined);
+      restore.set(proposal.id, proposal.status);
+      const claimed = await tx.proposal.findMany({
+        where: {
+          id: { in: [...restore.keys()] },
+          status: { in: [ProposalStatus.ACCEPTED, ProposalStatus.DECLINED] }
+        }
+      });
+      for (const current of claimed) {
+        // العرض المقبول يعود من ACCEPTED فقط، والمرفوضة من DECLINED فقط
+        const expected = current.id === proposal.id ? ProposalStatus.ACCEPTED : ProposalStatus.DECLINED;
+        if (current.status !== expected) continue;
+
+        const to = restore.get(current.id)!;
+        await proposalStateMachine.transition(
+          { from: current.status, to, role: "SYSTEM", context: current },
+          () => tx.proposal.updateMany({
+            where: { id: current.id, status: current.status },
+            data: { status: to }
+          })
+        );
+      }
+    });
+  }
+
+  /**
+   * قبول العرض: حجز الوظيفة ثم إنشاء العقد وحساب الضمان عبر contract-service.
+   * الفشل المؤكد (رفض صريح من خدمة العقود) يعيد الوظيفة والعروض لحالاتها السابقة؛
+   * الفشل غير المؤكد (الخدمة غير متاحة) يترك العرض ACCEPTED، وقبوله مرة أخرى يعيد المحاولة
+   * (خدمة العقود لا تنشئ عقدين لنفس العرض).
+   */
+  private async _acceptProposal(proposal: Proposal, userId: string): Promise<Proposal> {
+    const isRetry = proposal.status === ProposalStatus.ACCEPTED;
+    const declined = isRetry
+      ? new Map<string, ProposalStatusType>()
+      : await this._claimJobForProposal(proposal);
+
+    try {
+      const { contract } = await this.contractClient.createContractFromProposal(proposal.id);
+      logger.info(`Proposal ${proposal.id} accepted by client ${userId}, contract ${contract.id} created.`);
+    } catch (error) {
+      const isDefinite = error instanceof ContractServiceError && error.definite;
+      if (isDefinite) {
+        await this._releaseJobClaim(proposal, declined);
+        logger.warn(`Contract creation for proposal ${proposal.id} rejected, acceptance rolled back: ${(error as Error).message}`);
+      } else {
+        logger.error(`Contract creation for proposal ${proposal.id} failed, left ACCEPTED for retry`, { error });
+      }
+      throw error;
+    }
+
+    return prisma.proposal.findUniqueOrThrow({
+      where: { id: proposal.id },
+      include: { contract: true }
+    });
+  }
+
   // --- الدوال العامة (Public Methods) ---
 
   /**
@@ -84,7 +232,7 @@ class ProposalService {
    */
   public async createProposal(userId: string, data: CreateProposalData): Promise<Proposal> {
     const freelancer = await this._getFreelancerProfile(userId);
-    await this._checkJobOpen(data.jobId);
+    const job = await this._checkJobOpen(data.jobId);
     
     // التحقق مما إذا كان المستقل قد قدم عرضاً مسبقاً
     const existingProposal = await prisma.proposal.findFirst({
@@ -103,7 +251,8 @@ class ProposalService {
         freelancerId: freelancer.id,
         jobId: data.jobId,
         coverLetter: data.coverLetter,
-        proposedRate: data.proposedRate,
+        // وحدات رئيسية بعملة الوظيفة -> الوحدة الصغرى
+        proposedRate: majorAmountSchema(job.currency, { min: 0.01 }).parse(data.proposedRate),
         status: ProposalStatus.PENDING 
       }
     });
@@ -239,7 +388,8 @@ class ProposalService {
   }
 
   /**
-   * تحديث حالة العرض (يسمح للعميل فقط).
+   * تحديث حالة العرض (يسمح للعميل فقط، والانتقالات المسموحة في proposalStateMachine).
+   * القبول (ACCEPTED) ينشئ العقد وحساب الضمان ويرفض باقي العروض على الوظيفة.
    * @param proposalId - معرف العرض.
    * @param userId - معرف المستخدم.
    * @param status - الحالة الجديدة.
@@ -262,14 +412,26 @@ class ProposalService {
       throw new Error("Proposal not found or access denied");
     }
     
-    if (existingProposal.status !== ProposalStatus.PENDING) {
-        throw new Error("Cannot change status back to PENDING from a processed state.");
+    // عرض مقبول بدون عقد (فشل سابق غير مؤكد): إعادة القبول تعيد محاولة إنشاء العقد
+    const isAcceptRetry =
+      status === ProposalStatus.ACCEPTED &&
+      existingProposal.status === ProposalStatus.ACCEPTED &&
+      !(await prisma.contract.findUnique({ where: { proposalId } }));
+
+    if (status === ProposalStatus.ACCEPTED) {
+      if (!isAcceptRetry) {
+        proposalStateMachine.assertTransition(existingProposal.status, status, "CLIENT");
+      }
+      return this._acceptProposal(existingProposal, userId);
     }
 
-    const updatedProposal = await prisma.proposal.update({
-      where: { id: proposalId },
-      data: { status }
-    });
+    const updatedProposal = await proposalStateMachine.transition(
+      { from: existingProposal.status, to: status, role: "CLIENT", context: existingProposal },
+      () => prisma.proposal.update({
+        where: { id: proposalId },
+        data: { status }
+      })
+    );
     
     logger.info(`Proposal ${proposalId} status updated to ${status} by client ${userId}.`);
     return updatedProposal;
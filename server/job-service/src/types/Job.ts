@@ -7,11 +7,14 @@ import { Job, JobStatus, Proposal, Review } from "@prisma/client"
 export interface CreateJobRequest {
   title: string;
   description: string;
-  budget: number; // Float
+  budget: number; // minor units of `currency`
+  currency: string;
   category: string;
 }
 
-export interface UpdateJobRequest extends Partial<CreateJobRequest> {
+export interface UpdateJobRequest
+  extends Partial<Omit<CreateJobRequest, "currency">> {
+  budget?: number; // major units of the job's currency
   status?: JobStatus;
 }
 
@@ -31,8 +34,8 @@ export interface BrowseJobsFilters {
   page: number;
   limit: number;
   category?: string;
-  minBudget?: number; // Float
-  maxBudget?: number; // Float
+  minBudget?: number; // minor units (cents)
+  maxBudget?: number; // minor units (cents)
   status?: JobStatus;
   search?: string;
 }
@@ -56,6 +59,8 @@ export type JobWithDetails = Job & {
     id: string; 
     fullName: string; 
     companyName: string | null; 
+    ratingAverage: number | null;
+    ratingCount: number;
     user: { id: string; name: string; email: string; } 
   };
   _count: { proposals: number };
@@ -79,7 +84,9 @@ export type ProposalWithDetails = Proposal & {
   freelancer: {
     user: { id: string; name: string; email: string };
     skills: { id: string; name: string }[];
-    _count: { contracts: number; reviews: number };
+    ratingAverage: number | null;
+    ratingCount: number;
+    _count: { contracts: number };
   };
 };
 
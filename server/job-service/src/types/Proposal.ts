@@ -10,7 +10,7 @@ export interface Proposal {
   freelancerId: string;
   jobId: string;
   coverLetter: string;
-  proposedRate: number;
+  proposedRate: number; // minor units of the job currency
   status: ProposalStatus;
   createdAt: Date;
 }
@@ -19,7 +19,7 @@ export interface CreateProposalData {
   freelancerId: string;
   jobId: string;
   coverLetter: string;
-  proposedRate: number;
+  proposedRate: number; // major units of the job currency
 }
 
 export interface UpdateProposalStatusData {
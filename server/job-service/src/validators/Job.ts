@@ -1,14 +1,45 @@
 import { z } from "zod";
 import { JobStatus } from "@prisma/client";
+import {
+  DEFAULT_CURRENCY,
+  currencySchema,
+  majorAmountQuerySchema,
+  majorAmountSchema,
+} from "@rizlax/money";
 
-export const createJobSchema = z.object({
+// major units in, minor units out, checked against the job's own currency
+export const jobBudgetSchema = (currency: string) =>
+  majorAmountSchema(currency, { min: 1 });
+
+const jobFieldsSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters long"),
   description: z.string().min(20, "Description must be at least 20 characters long"),
-  budget: z.number().min(1, "Budget must be greater than 0"),
   category: z.string().min(1, "Category is required"),
 });
 
-export const updateJobSchema = createJobSchema.partial();
+export const createJobSchema = jobFieldsSchema
+  .extend({
+    budget: z.number(),
+    currency: currencySchema.default(DEFAULT_CURRENCY),
+  })
+  .transform((job, ctx) => {
+    const budget = jobBudgetSchema(job.currency).safeParse(job.budget);
+    if (!budget.success) {
+      ctx.addIssue({
+        code: "custom",
+        message: budget.error.issues[0].message,
+        path: ["budget"],
+      });
+      return z.NEVER;
+    }
+    return { ...job, budget: budget.data };
+  });
+
+// the currency is fixed once posted; a new budget (major units) is checked
+// against it by JobService.updateJob
+export const updateJobSchema = jobFieldsSchema
+  .extend({ budget: z.number() })
+  .partial();
 
 export const updateJobStatusSchema = z.object({
   status: z.enum([
@@ -33,8 +64,8 @@ export const browseJobsFiltersSchema = z.object({
   page: z.string().optional().transform(val => val ? parseInt(val) : 1),
   limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
   category: z.string().optional(),
-  minBudget: z.string().optional().transform(val => val ? parseFloat(val) : undefined),
-  maxBudget: z.string().optional().transform(val => val ? parseFloat(val) : undefined),
+  minBudget: majorAmountQuerySchema(DEFAULT_CURRENCY).optional(),
+  maxBudget: majorAmountQuerySchema(DEFAULT_CURRENCY).optional(),
   status: z.nativeEnum(JobStatus).optional(),
   search: z.string().optional(),
 }).refine(data => data.page > 0, { message: "Page must be greater than 0", path: ["page"] })
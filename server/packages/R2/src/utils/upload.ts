@@ -1,4 +1,4 @@
-import { PutObjectCommand , DeleteObjectCommand} from "@aws-sdk/client-s3";
+import { PutObjectCommand , DeleteObjectCommand, GetObjectCommand} from "@aws-sdk/client-s3";
 import { r2 } from "../client.ts";
 
 const R2_BUCKET_NAME = process.env.R2_BUCKET_NAME!;
@@ -27,4 +27,19 @@ export async function deleteFromR2(key: string): Promise<void> {
       Key: key,
     })
   );
-}
\ No newline at end of file
+}
+
+export async function downloadFromR2(key: string): Promise<Buffer> {
+  const object = await r2.send(
+    new GetObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+    })
+  );
+
+  if (!object.Body) {
+    throw new Error(`R2 object ${key} has no body`);
+  }
+
+  return Buffer.from(await object.Body.transformToByteArray());
+}
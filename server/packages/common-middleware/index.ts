@@ -1,3 +1,5 @@
 export * from './src/AuthGuard.ts'
 export * from "./src/DomainError.ts"
+export * from './src/RoleGuard.ts'
 export * from './src/verifyToken.ts'
+export * from './src/ServiceGuard.ts'
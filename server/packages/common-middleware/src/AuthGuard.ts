@@ -4,6 +4,7 @@ import logger from "@rizlax/logs";
 
 interface AuthRequest extends Request {
   userId?: string;
+  userRole?: string;
 }
 
 export const AuthGuard = (
@@ -28,9 +29,10 @@ export const AuthGuard = (
       return res.status(500).json({ message: "Server configuration error." });
     }
 
-    const decoded = jwt.verify(token, secret) as { userId: string };
+    const decoded = jwt.verify(token, secret) as { userId: string; role?: string };
 
     req.userId = decoded.userId;
+    req.userRole = decoded.role;
 
     next();
   } catch (error) {
@@ -0,0 +1,26 @@
+import type { Request, Response, NextFunction } from "express";
+import logger from "@rizlax/logs";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  userRole?: string;
+}
+
+/**
+ * Restricts a route to the given roles. Must run after AuthGuard,
+ * which sets req.userRole from the access token.
+ */
+export const RoleGuard =
+  (...roles: string[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.userRole || !roles.includes(req.userRole)) {
+      logger.warn(
+        `RoleGuard denied user ${req.userId} (role: ${req.userRole}) on ${req.method} ${req.originalUrl}`
+      );
+      return res
+        .status(403)
+        .json({ message: "You do not have permission to perform this action." });
+    }
+
+    next();
+  };
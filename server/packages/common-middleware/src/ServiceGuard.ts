@@ -0,0 +1,35 @@
+import type { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import logger from "@rizlax/logs";
+
+export const SERVICE_TOKEN_HEADER = "x-service-token";
+
+/**
+ * Restricts a route to calls from other Rizlax services. The caller sends
+ * the shared INTERNAL_SERVICE_TOKEN in the x-service-token header.
+ */
+export const ServiceGuard = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const secret = process.env.INTERNAL_SERVICE_TOKEN;
+  if (!secret) {
+    logger.error("INTERNAL_SERVICE_TOKEN environment variable not set.");
+    return res.status(500).json({ message: "Server configuration error." });
+  }
+
+  const token = req.headers[SERVICE_TOKEN_HEADER];
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(typeof token === "string" ? token : "");
+
+  if (
+    received.length !== expected.length ||
+    !timingSafeEqual(received, expected)
+  ) {
+    logger.warn(`ServiceGuard denied ${req.method} ${req.originalUrl}`);
+    return res.status(401).json({ message: "Invalid service token." });
+  }
+
+  next();
+};
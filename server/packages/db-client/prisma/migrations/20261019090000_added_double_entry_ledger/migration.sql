@@ -0,0 +1,103 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('WALLET_AVAILABLE', 'WALLET_PENDING', 'ESCROW_HELD', 'PLATFORM_CASH', 'PLATFORM_REVENUE', 'OPENING_EQUITY');
+
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('OPENING_BALANCE', 'ESCROW_DEPOSIT', 'ESCROW_RELEASE', 'ESCROW_REFUND', 'PENDING_CLEARANCE', 'PAYOUT');
+
+-- CreateEnum
+CREATE TYPE "PostingDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- AlterTable
+ALTER TABLE "EscrowTransaction" ADD COLUMN     "journalEntryId" TEXT;
+
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN     "journalEntryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "balance" INTEGER NOT NULL DEFAULT 0,
+    "allowNegative" BOOLEAN NOT NULL DEFAULT false,
+    "walletId" TEXT,
+    "escrowAccountId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "description" TEXT,
+    "referenceType" TEXT,
+    "referenceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerPosting" (
+    "id" TEXT NOT NULL,
+    "journalEntryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "direction" "PostingDirection" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerPosting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_code_key" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_walletId_idx" ON "LedgerAccount"("walletId");
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_escrowAccountId_idx" ON "LedgerAccount"("escrowAccountId");
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_type_idx" ON "LedgerAccount"("type");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_referenceType_referenceId_idx" ON "JournalEntry"("referenceType", "referenceId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_type_createdAt_idx" ON "JournalEntry"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerPosting_accountId_createdAt_idx" ON "LedgerPosting"("accountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerPosting_journalEntryId_idx" ON "LedgerPosting"("journalEntryId");
+
+-- CreateIndex
+CREATE INDEX "EscrowTransaction_journalEntryId_idx" ON "EscrowTransaction"("journalEntryId");
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_journalEntryId_idx" ON "WalletTransaction"("journalEntryId");
+
+-- AddForeignKey
+ALTER TABLE "EscrowTransaction" ADD CONSTRAINT "EscrowTransaction_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerAccount" ADD CONSTRAINT "LedgerAccount_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerAccount" ADD CONSTRAINT "LedgerAccount_escrowAccountId_fkey" FOREIGN KEY ("escrowAccountId") REFERENCES "escrow_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerPosting" ADD CONSTRAINT "LedgerPosting_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerPosting" ADD CONSTRAINT "LedgerPosting_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "SettlementType" AS ENUM ('REFUND', 'SPLIT');
+
+-- CreateEnum
+CREATE TYPE "SettlementStatus" AS ENUM ('PENDING', 'EXECUTED', 'REJECTED', 'CANCELED');
+
+-- AlterEnum
+ALTER TYPE "LedgerEntryType" ADD VALUE 'ESCROW_SPLIT';
+
+-- CreateTable
+CREATE TABLE "EscrowSettlement" (
+    "id" TEXT NOT NULL,
+    "escrowAccountId" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "type" "SettlementType" NOT NULL,
+    "releaseAmount" INTEGER NOT NULL DEFAULT 0,
+    "refundAmount" INTEGER NOT NULL DEFAULT 0,
+    "reason" TEXT,
+    "status" "SettlementStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedById" TEXT NOT NULL,
+    "requestedByRole" "Role" NOT NULL,
+    "respondedById" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "executedAt" TIMESTAMP(3),
+    "journalEntryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EscrowSettlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EscrowSettlement_contractId_status_idx" ON "EscrowSettlement"("contractId", "status");
+
+-- CreateIndex
+CREATE INDEX "EscrowSettlement_escrowAccountId_idx" ON "EscrowSettlement"("escrowAccountId");
+
+-- AddForeignKey
+ALTER TABLE "EscrowSettlement" ADD CONSTRAINT "EscrowSettlement_escrowAccountId_fkey" FOREIGN KEY ("escrowAccountId") REFERENCES "escrow_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
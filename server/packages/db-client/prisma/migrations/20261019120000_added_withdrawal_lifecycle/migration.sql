@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "WithdrawalStatus" ADD VALUE 'FAILED';
+ALTER TYPE "WithdrawalStatus" ADD VALUE 'CANCELED';
+
+-- AlterEnum
+ALTER TYPE "LedgerAccountType" ADD VALUE 'WALLET_RESERVED';
+
+-- AlterEnum
+ALTER TYPE "LedgerEntryType" ADD VALUE 'WITHDRAWAL_RESERVE';
+ALTER TYPE "LedgerEntryType" ADD VALUE 'WITHDRAWAL_RETURN';
+
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN     "reserved_balance" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Withdrawal" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "payoutDetails" JSONB,
+ADD COLUMN     "providerReference" TEXT,
+ADD COLUMN     "reviewedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Withdrawal_freelancerId_requestedAt_idx" ON "Withdrawal"("freelancerId", "requestedAt");
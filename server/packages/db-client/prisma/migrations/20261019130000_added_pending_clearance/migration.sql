@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "TrustLevel" AS ENUM ('NEW', 'VERIFIED', 'ESTABLISHED');
+
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN     "clearedAt" TIMESTAMP(3),
+ADD COLUMN     "clearsAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ClearingPolicy" (
+    "id" TEXT NOT NULL,
+    "country" "CountryCode",
+    "trustLevel" "TrustLevel",
+    "holdDays" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClearingPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_type_clearedAt_clearsAt_idx" ON "WalletTransaction"("type", "clearedAt", "clearsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClearingPolicy_country_trustLevel_key" ON "ClearingPolicy"("country", "trustLevel");
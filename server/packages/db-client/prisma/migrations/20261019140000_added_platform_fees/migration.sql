@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "FeeChargeType" AS ENUM ('FREELANCER_COMMISSION', 'CLIENT_PROCESSING');
+
+-- CreateTable
+CREATE TABLE "PlatformFeeSchedule" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "tiers" JSONB NOT NULL,
+    "fixedFee" INTEGER NOT NULL DEFAULT 0,
+    "clientProcessingFeeBps" INTEGER NOT NULL DEFAULT 0,
+    "clientProcessingFixedFee" INTEGER NOT NULL DEFAULT 0,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlatformFeeSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlatformFeeCharge" (
+    "id" TEXT NOT NULL,
+    "type" "FeeChargeType" NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "escrowAccountId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "freelancerId" TEXT NOT NULL,
+    "grossAmount" INTEGER NOT NULL,
+    "percentageFee" INTEGER NOT NULL,
+    "fixedFee" INTEGER NOT NULL,
+    "totalFee" INTEGER NOT NULL,
+    "lifetimeBillingsBefore" INTEGER,
+    "breakdown" JSONB NOT NULL,
+    "journalEntryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlatformFeeCharge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlatformFeeSchedule_version_key" ON "PlatformFeeSchedule"("version");
+
+-- CreateIndex
+CREATE INDEX "PlatformFeeSchedule_effectiveFrom_idx" ON "PlatformFeeSchedule"("effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "PlatformFeeCharge_clientId_freelancerId_type_idx" ON "PlatformFeeCharge"("clientId", "freelancerId", "type");
+
+-- CreateIndex
+CREATE INDEX "PlatformFeeCharge_contractId_idx" ON "PlatformFeeCharge"("contractId");
+
+-- AddForeignKey
+ALTER TABLE "PlatformFeeCharge" ADD CONSTRAINT "PlatformFeeCharge_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "PlatformFeeSchedule"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlatformFeeCharge" ADD CONSTRAINT "PlatformFeeCharge_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed: النسخة الأولى من جدول العمولات (10% بدون رسوم ثابتة أو رسوم معالجة)
+INSERT INTO "PlatformFeeSchedule" ("id", "version", "tiers")
+VALUES (gen_random_uuid()::text, 1, '[{"fromAmount": 0, "percentageBps": 1000}]');
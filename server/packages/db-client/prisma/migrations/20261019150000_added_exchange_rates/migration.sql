@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "EscrowTransaction" ADD COLUMN     "fxRate" DECIMAL(18,8),
+ADD COLUMN     "originalAmount" INTEGER,
+ADD COLUMN     "originalCurrency" TEXT;
+
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN     "fxRate" DECIMAL(18,8),
+ADD COLUMN     "originalAmount" INTEGER,
+ADD COLUMN     "originalCurrency" TEXT;
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL DEFAULT 'USD',
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "source" TEXT,
+    "createdById" TEXT,
+    "effectiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_baseCurrency_quoteCurrency_effectiveAt_idx" ON "ExchangeRate"("baseCurrency", "quoteCurrency", "effectiveAt");
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "PaymentType" AS ENUM ('CONTRACT', 'WALLET_TOP_UP');
+
+-- AlterEnum
+ALTER TYPE "LedgerEntryType" ADD VALUE 'WALLET_TOP_UP';
+
+-- DropForeignKey
+ALTER TABLE "Payment" DROP CONSTRAINT "Payment_contractId_fkey";
+
+-- DropIndex
+DROP INDEX "Payment_contractId_key";
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "checkoutUrl" TEXT,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "fxRate" DECIMAL(18,8),
+ADD COLUMN     "journalEntryId" TEXT,
+ADD COLUMN     "settlementAmount" INTEGER,
+ADD COLUMN     "type" "PaymentType" NOT NULL DEFAULT 'CONTRACT',
+ADD COLUMN     "userId" TEXT,
+ADD COLUMN     "walletId" TEXT,
+ALTER COLUMN "contractId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Payment_contractId_idx" ON "Payment"("contractId");
+
+-- CreateIndex
+CREATE INDEX "Payment_userId_createdAt_idx" ON "Payment"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_method_providerId_key" ON "Payment"("method", "providerId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
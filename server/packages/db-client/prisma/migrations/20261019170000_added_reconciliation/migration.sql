@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationSubject" AS ENUM ('WALLET', 'ESCROW');
+
+-- CreateEnum
+CREATE TYPE "DiscrepancyStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN     "frozen_at" TIMESTAMP(3),
+ADD COLUMN     "frozen_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "trigger" "ReconciliationTrigger" NOT NULL,
+    "triggeredById" TEXT,
+    "status" "ReconciliationStatus" NOT NULL DEFAULT 'RUNNING',
+    "freezeWallets" BOOLEAN NOT NULL DEFAULT false,
+    "walletsChecked" INTEGER NOT NULL DEFAULT 0,
+    "escrowsChecked" INTEGER NOT NULL DEFAULT 0,
+    "discrepancyCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReconciliationDiscrepancy" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "subjectType" "ReconciliationSubject" NOT NULL,
+    "walletId" TEXT,
+    "escrowAccountId" TEXT,
+    "field" TEXT NOT NULL,
+    "recordedAmount" INTEGER NOT NULL,
+    "expectedAmount" INTEGER NOT NULL,
+    "difference" INTEGER NOT NULL,
+    "status" "DiscrepancyStatus" NOT NULL DEFAULT 'OPEN',
+    "lastDetectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationDiscrepancy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_startedAt_idx" ON "ReconciliationRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationDiscrepancy_status_subjectType_idx" ON "ReconciliationDiscrepancy"("status", "subjectType");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationDiscrepancy_walletId_status_idx" ON "ReconciliationDiscrepancy"("walletId", "status");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationDiscrepancy_escrowAccountId_status_idx" ON "ReconciliationDiscrepancy"("escrowAccountId", "status");
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationDiscrepancy" ADD CONSTRAINT "ReconciliationDiscrepancy_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ReconciliationRun"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationDiscrepancy" ADD CONSTRAINT "ReconciliationDiscrepancy_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationDiscrepancy" ADD CONSTRAINT "ReconciliationDiscrepancy_escrowAccountId_fkey" FOREIGN KEY ("escrowAccountId") REFERENCES "escrow_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
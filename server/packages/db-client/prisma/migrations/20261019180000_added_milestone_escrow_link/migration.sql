@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "EscrowTransaction" ADD COLUMN     "milestoneId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EscrowTransaction_milestoneId_idx" ON "EscrowTransaction"("milestoneId");
+
+-- AddForeignKey
+ALTER TABLE "EscrowTransaction" ADD CONSTRAINT "EscrowTransaction_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "Milestone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "InvoiceType" AS ENUM ('CLIENT_INVOICE', 'RECEIPT', 'FEE_INVOICE');
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "type" "InvoiceType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "milestoneId" TEXT,
+    "escrowTransactionId" TEXT,
+    "feeChargeId" TEXT,
+    "issuedToId" TEXT NOT NULL,
+    "seller" JSONB NOT NULL,
+    "buyer" JSONB NOT NULL,
+    "lines" JSONB NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "subtotal" INTEGER NOT NULL,
+    "taxName" TEXT,
+    "taxRate" DECIMAL(5,2),
+    "taxCountry" "CountryCode",
+    "taxAmount" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL,
+    "pdfKey" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceSequence" (
+    "id" TEXT NOT NULL,
+    "type" "InvoiceType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "InvoiceSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_number_key" ON "Invoice"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_escrowTransactionId_key" ON "Invoice"("escrowTransactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_feeChargeId_key" ON "Invoice"("feeChargeId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_contractId_issuedAt_idx" ON "Invoice"("contractId", "issuedAt");
+
+-- CreateIndex
+CREATE INDEX "Invoice_issuedToId_issuedAt_idx" ON "Invoice"("issuedToId", "issuedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_type_year_sequence_key" ON "Invoice"("type", "year", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceSequence_type_year_key" ON "InvoiceSequence"("type", "year");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_escrowTransactionId_fkey" FOREIGN KEY ("escrowTransactionId") REFERENCES "EscrowTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_feeChargeId_fkey" FOREIGN KEY ("feeChargeId") REFERENCES "PlatformFeeCharge"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,85 @@
+-- CreateEnum
+CREATE TYPE "ContractType" AS ENUM ('FIXED', 'HOURLY');
+
+-- CreateEnum
+CREATE TYPE "TimeEntrySource" AS ENUM ('MANUAL', 'TIMER');
+
+-- CreateEnum
+CREATE TYPE "TimeEntryStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "TimesheetStatus" AS ENUM ('OPEN', 'IN_REVIEW', 'BILLING', 'BILLED', 'PAYMENT_FAILED');
+
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "hourlyRate" DOUBLE PRECISION,
+ADD COLUMN     "type" "ContractType" NOT NULL DEFAULT 'FIXED',
+ADD COLUMN     "weeklyHourCap" INTEGER;
+
+-- AlterTable
+ALTER TABLE "EscrowTransaction" ADD COLUMN     "timesheetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TimeEntry" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "timesheetId" TEXT NOT NULL,
+    "source" "TimeEntrySource" NOT NULL,
+    "description" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "minutes" INTEGER NOT NULL DEFAULT 0,
+    "status" "TimeEntryStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TimeEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Timesheet" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "weekStart" TIMESTAMP(3) NOT NULL,
+    "weekEnd" TIMESTAMP(3) NOT NULL,
+    "status" "TimesheetStatus" NOT NULL DEFAULT 'OPEN',
+    "reviewEndsAt" TIMESTAMP(3),
+    "billedMinutes" INTEGER,
+    "hourlyRate" DOUBLE PRECISION,
+    "amount" DOUBLE PRECISION,
+    "escrowTransactionId" TEXT,
+    "failureReason" TEXT,
+    "billedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Timesheet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EscrowTransaction_timesheetId_idx" ON "EscrowTransaction"("timesheetId");
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_contractId_startedAt_idx" ON "TimeEntry"("contractId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_timesheetId_idx" ON "TimeEntry"("timesheetId");
+
+-- CreateIndex
+CREATE INDEX "Timesheet_status_reviewEndsAt_idx" ON "Timesheet"("status", "reviewEndsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Timesheet_contractId_weekStart_key" ON "Timesheet"("contractId", "weekStart");
+
+-- AddForeignKey
+ALTER TABLE "EscrowTransaction" ADD CONSTRAINT "EscrowTransaction_timesheetId_fkey" FOREIGN KEY ("timesheetId") REFERENCES "Timesheet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimeEntry" ADD CONSTRAINT "TimeEntry_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimeEntry" ADD CONSTRAINT "TimeEntry_timesheetId_fkey" FOREIGN KEY ("timesheetId") REFERENCES "Timesheet"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Timesheet" ADD CONSTRAINT "Timesheet_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- Money columns move from Float major units to Int minor units (see @rizlax/money).
+-- Scale factor per currency = 10 ^ ISO 4217 minor-unit exponent.
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ALTER COLUMN "budget" SET DATA TYPE INTEGER USING ROUND("budget" * 100);
+
+-- AlterTable
+ALTER TABLE "Proposal" ALTER COLUMN "proposedRate" SET DATA TYPE INTEGER USING ROUND("proposedRate" * 100);
+
+-- AlterTable
+ALTER TABLE "Contract" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * CASE
+    WHEN "currency" IN ('KWD', 'BHD', 'OMR', 'JOD', 'IQD', 'TND', 'LYD') THEN 1000
+    WHEN "currency" = 'DJF' THEN 1
+    ELSE 100 END),
+ALTER COLUMN "totalPaid" SET DATA TYPE INTEGER USING ROUND("totalPaid" * CASE
+    WHEN "currency" IN ('KWD', 'BHD', 'OMR', 'JOD', 'IQD', 'TND', 'LYD') THEN 1000
+    WHEN "currency" = 'DJF' THEN 1
+    ELSE 100 END),
+ALTER COLUMN "hourlyRate" SET DATA TYPE INTEGER USING ROUND("hourlyRate" * CASE
+    WHEN "currency" IN ('KWD', 'BHD', 'OMR', 'JOD', 'IQD', 'TND', 'LYD') THEN 1000
+    WHEN "currency" = 'DJF' THEN 1
+    ELSE 100 END);
+
+-- AlterTable
+ALTER TABLE "Milestone" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * CASE
+    WHEN "currency" IN ('KWD', 'BHD', 'OMR', 'JOD', 'IQD', 'TND', 'LYD') THEN 1000
+    WHEN "currency" = 'DJF' THEN 1
+    ELSE 100 END);
+
+-- AlterTable (withdrawals are always USD)
+ALTER TABLE "Withdrawal" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100);
+
+-- AlterTable (timesheets are in their contract's currency, which a USING clause can't look up)
+ALTER TABLE "Timesheet" ADD COLUMN     "hourlyRateMinor" INTEGER,
+ADD COLUMN     "amountMinor" INTEGER;
+
+UPDATE "Timesheet" t SET
+    "hourlyRateMinor" = ROUND(t."hourlyRate" * s.factor),
+    "amountMinor" = ROUND(t."amount" * s.factor)
+FROM (
+    SELECT "id", CASE
+        WHEN "currency" IN ('KWD', 'BHD', 'OMR', 'JOD', 'IQD', 'TND', 'LYD') THEN 1000
+        WHEN "currency" = 'DJF' THEN 1
+        ELSE 100 END AS factor
+    FROM "Contract"
+) s
+WHERE s."id" = t."contractId";
+
+ALTER TABLE "Timesheet" DROP COLUMN "hourlyRate",
+DROP COLUMN "amount";
+
+ALTER TABLE "Timesheet" RENAME COLUMN "hourlyRateMinor" TO "hourlyRate";
+ALTER TABLE "Timesheet" RENAME COLUMN "amountMinor" TO "amount";
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "ContractActorRole" AS ENUM ('CLIENT', 'FREELANCER', 'ADMIN', 'SYSTEM');
+
+-- CreateEnum
+CREATE TYPE "ContractEventType" AS ENUM ('CONTRACT_CREATED', 'CONTRACT_STATUS_CHANGED', 'MILESTONE_CREATED', 'MILESTONE_UPDATED', 'MILESTONE_STATUS_CHANGED', 'MILESTONE_DELETION_REQUESTED', 'MILESTONE_DELETED');
+
+-- CreateTable
+CREATE TABLE "ContractEvent" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "milestoneId" TEXT,
+    "actorId" TEXT,
+    "actorRole" "ContractActorRole" NOT NULL,
+    "type" "ContractEventType" NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT,
+    "note" TEXT,
+    "attachments" JSONB,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContractEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContractEvent_contractId_createdAt_idx" ON "ContractEvent"("contractId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ContractEvent_milestoneId_createdAt_idx" ON "ContractEvent"("milestoneId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ContractEvent" ADD CONSTRAINT "ContractEvent_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Append-only: events can be inserted but never changed or removed
+CREATE FUNCTION "ContractEvent_append_only"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'ContractEvent rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ContractEvent_append_only"
+BEFORE UPDATE OR DELETE ON "ContractEvent"
+FOR EACH ROW EXECUTE FUNCTION "ContractEvent_append_only"();
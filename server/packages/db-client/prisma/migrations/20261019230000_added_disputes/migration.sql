@@ -0,0 +1,97 @@
+-- AlterEnum
+ALTER TYPE "ContractEventType" ADD VALUE 'DISPUTE_OPENED';
+ALTER TYPE "ContractEventType" ADD VALUE 'DISPUTE_EVIDENCE_ADDED';
+ALTER TYPE "ContractEventType" ADD VALUE 'DISPUTE_ESCALATED';
+ALTER TYPE "ContractEventType" ADD VALUE 'DISPUTE_WITHDRAWN';
+ALTER TYPE "ContractEventType" ADD VALUE 'DISPUTE_RESOLVED';
+
+-- AlterEnum
+ALTER TYPE "SettlementType" ADD VALUE 'RELEASE';
+
+-- CreateEnum
+CREATE TYPE "DisputeReason" AS ENUM ('WORK_NOT_DELIVERED', 'QUALITY_ISSUES', 'SCOPE_DISAGREEMENT', 'MISSED_DEADLINE', 'PAYMENT_ISSUE', 'UNRESPONSIVE_PARTY', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('AWAITING_RESPONSE', 'UNDER_REVIEW', 'RESOLVING', 'RESOLVED', 'WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "DisputeOutcome" AS ENUM ('RELEASE', 'REFUND', 'SPLIT');
+
+-- CreateEnum
+CREATE TYPE "DisputeEvidenceType" AS ENUM ('MESSAGE', 'FILE');
+
+-- AlterTable
+ALTER TABLE "EscrowSettlement" ADD COLUMN "disputeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Dispute" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "milestoneId" TEXT,
+    "openedById" TEXT NOT NULL,
+    "openedByRole" "ContractActorRole" NOT NULL,
+    "respondentId" TEXT NOT NULL,
+    "reason" "DisputeReason" NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL DEFAULT 'AWAITING_RESPONSE',
+    "previousStatus" TEXT NOT NULL,
+    "responseDueAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "escalatedAt" TIMESTAMP(3),
+    "outcome" "DisputeOutcome",
+    "releasePercent" INTEGER,
+    "resolutionNote" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "escrowSettlementId" TEXT,
+    "withdrawnAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DisputeEvidence" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "authorRole" "ContractActorRole" NOT NULL,
+    "type" "DisputeEvidenceType" NOT NULL,
+    "message" TEXT,
+    "fileKey" TEXT,
+    "fileUrl" TEXT,
+    "fileName" TEXT,
+    "fileType" TEXT,
+    "fileSize" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeEvidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EscrowSettlement_disputeId_key" ON "EscrowSettlement"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_contractId_status_idx" ON "Dispute"("contractId", "status");
+
+-- CreateIndex
+CREATE INDEX "Dispute_milestoneId_idx" ON "Dispute"("milestoneId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_responseDueAt_idx" ON "Dispute"("status", "responseDueAt");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_createdAt_idx" ON "Dispute"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DisputeEvidence_disputeId_createdAt_idx" ON "DisputeEvidence"("disputeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "Milestone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- AlterEnum
+ALTER TYPE "MilestoneStatus" ADD VALUE 'REVISION_REQUESTED';
+
+-- CreateEnum
+CREATE TYPE "MilestoneSubmissionStatus" AS ENUM ('PENDING_REVIEW', 'REVISION_REQUESTED', 'ACCEPTED');
+
+-- AlterTable
+ALTER TABLE "Milestone" ADD COLUMN     "revisionCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "revisionLimit" INTEGER NOT NULL DEFAULT 2;
+
+-- CreateTable
+CREATE TABLE "MilestoneSubmission" (
+    "id" TEXT NOT NULL,
+    "milestoneId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "submittedById" TEXT NOT NULL,
+    "note" TEXT,
+    "links" TEXT[],
+    "status" "MilestoneSubmissionStatus" NOT NULL DEFAULT 'PENDING_REVIEW',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "revisionComment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MilestoneSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MilestoneSubmissionFile" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileType" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MilestoneSubmissionFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MilestoneSubmission_milestoneId_version_key" ON "MilestoneSubmission"("milestoneId", "version");
+
+-- CreateIndex
+CREATE INDEX "MilestoneSubmissionFile_submissionId_idx" ON "MilestoneSubmissionFile"("submissionId");
+
+-- AddForeignKey
+ALTER TABLE "MilestoneSubmission" ADD CONSTRAINT "MilestoneSubmission_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "Milestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MilestoneSubmissionFile" ADD CONSTRAINT "MilestoneSubmissionFile_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "MilestoneSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- نقل رابط التسليم القديم (submissionUrl) كنسخة أولى قبل حذف العمود
+INSERT INTO "MilestoneSubmission" ("id", "milestoneId", "version", "submittedById", "links", "status", "createdAt")
+SELECT gen_random_uuid()::text, m."id", 1, c."freelancerId", ARRAY[m."submissionUrl"],
+       CASE WHEN m."status" IN ('APPROVED', 'PAID', 'COMPLETED') THEN 'ACCEPTED'::"MilestoneSubmissionStatus"
+            ELSE 'PENDING_REVIEW'::"MilestoneSubmissionStatus" END,
+       COALESCE(m."submittedAt", m."updatedAt")
+FROM "Milestone" m
+JOIN "Contract" c ON c."id" = m."contractId"
+WHERE m."submissionUrl" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Milestone" DROP COLUMN "submissionUrl";
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "ContractEventType" ADD VALUE 'AUTO_APPROVAL_WARNING';
+
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "autoApprovalDays" INTEGER NOT NULL DEFAULT 14,
+ADD COLUMN     "autoApprovalWarnedAt" TIMESTAMP(3),
+ADD COLUMN     "autoApproveAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Milestone" ADD COLUMN     "autoApprovalWarnedAt" TIMESTAMP(3),
+ADD COLUMN     "autoApproveAt" TIMESTAMP(3);
+
+-- العمل المسلم قبل هذه الميزة تبدأ مهلته الآن، حتى لا يُوافق عليه دون تنبيه العميل
+UPDATE "Contract" SET "autoApproveAt" = CURRENT_TIMESTAMP + INTERVAL '14 days'
+WHERE "status" = 'REVIEW_PENDING';
+
+UPDATE "Milestone" SET "autoApproveAt" = CURRENT_TIMESTAMP + INTERVAL '14 days'
+WHERE "status" = 'SUBMITTED';
+
+-- CreateIndex
+CREATE INDEX "Contract_status_autoApproveAt_idx" ON "Contract"("status", "autoApproveAt");
+
+-- CreateIndex
+CREATE INDEX "Milestone_status_autoApproveAt_idx" ON "Milestone"("status", "autoApproveAt");
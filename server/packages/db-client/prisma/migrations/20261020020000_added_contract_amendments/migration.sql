@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "ContractEventType" ADD VALUE 'AMENDMENT_PROPOSED';
+ALTER TYPE "ContractEventType" ADD VALUE 'AMENDMENT_APPLIED';
+ALTER TYPE "ContractEventType" ADD VALUE 'AMENDMENT_REJECTED';
+ALTER TYPE "ContractEventType" ADD VALUE 'AMENDMENT_CANCELED';
+
+-- CreateEnum
+CREATE TYPE "AmendmentStatus" AS ENUM ('PENDING', 'APPLYING', 'APPLIED', 'REJECTED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "ContractAmendment" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "proposedById" TEXT NOT NULL,
+    "proposedByRole" "ContractActorRole" NOT NULL,
+    "respondentId" TEXT NOT NULL,
+    "status" "AmendmentStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "newAmount" INTEGER,
+    "newEndDate" TIMESTAMP(3),
+    "milestoneChanges" JSONB,
+    "responseNote" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "escrowAdjustedAt" TIMESTAMP(3),
+    "escrowAdjustment" JSONB,
+    "appliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContractAmendment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContractAmendment_contractId_status_idx" ON "ContractAmendment"("contractId", "status");
+
+-- AddForeignKey
+ALTER TABLE "ContractAmendment" ADD CONSTRAINT "ContractAmendment_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
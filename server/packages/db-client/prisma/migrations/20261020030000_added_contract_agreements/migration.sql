@@ -0,0 +1,47 @@
+-- AlterEnum
+ALTER TYPE "ContractEventType" ADD VALUE 'AGREEMENT_GENERATED';
+ALTER TYPE "ContractEventType" ADD VALUE 'AGREEMENT_SIGNED';
+
+-- CreateTable
+CREATE TABLE "ContractAgreement" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "terms" JSONB NOT NULL,
+    "termsHash" TEXT NOT NULL,
+    "documentHash" TEXT NOT NULL,
+    "pdfKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContractAgreement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ContractSignature" (
+    "id" TEXT NOT NULL,
+    "agreementId" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "signerId" TEXT NOT NULL,
+    "signerRole" "ContractActorRole" NOT NULL,
+    "documentHash" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "signedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContractSignature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractAgreement_contractId_version_key" ON "ContractAgreement"("contractId", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractSignature_agreementId_signerId_key" ON "ContractSignature"("agreementId", "signerId");
+
+-- CreateIndex
+CREATE INDEX "ContractSignature_contractId_idx" ON "ContractSignature"("contractId");
+
+-- AddForeignKey
+ALTER TABLE "ContractAgreement" ADD CONSTRAINT "ContractAgreement_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContractSignature" ADD CONSTRAINT "ContractSignature_agreementId_fkey" FOREIGN KEY ("agreementId") REFERENCES "ContractAgreement"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
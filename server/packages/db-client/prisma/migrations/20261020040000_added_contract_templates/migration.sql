@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ContractTemplate" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContractTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ContractTemplateMilestone" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "percentage" DECIMAL(5,2) NOT NULL,
+    "dueInDays" INTEGER NOT NULL,
+    "revisionLimit" INTEGER,
+
+    CONSTRAINT "ContractTemplateMilestone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContractTemplate_clientId_idx" ON "ContractTemplate"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractTemplateMilestone_templateId_position_key" ON "ContractTemplateMilestone"("templateId", "position");
+
+-- AddForeignKey
+ALTER TABLE "ContractTemplateMilestone" ADD CONSTRAINT "ContractTemplateMilestone_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ContractTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
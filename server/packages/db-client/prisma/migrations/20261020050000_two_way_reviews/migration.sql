@@ -0,0 +1,71 @@
+-- AlterEnum
+ALTER TYPE "ContractEventType" ADD VALUE 'REVIEW_SUBMITTED';
+ALTER TYPE "ContractEventType" ADD VALUE 'REVIEWS_PUBLISHED';
+
+-- CreateEnum
+CREATE TYPE "ReviewDirection" AS ENUM ('CLIENT_TO_FREELANCER', 'FREELANCER_TO_CLIENT');
+
+-- DropIndex
+DROP INDEX "Review_contractId_key";
+
+-- DropIndex
+DROP INDEX "Review_freelancerId_idx";
+
+-- AlterTable
+ALTER TABLE "Contract" DROP COLUMN "reviewId";
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "ratingAverage" DOUBLE PRECISION,
+ADD COLUMN     "ratingCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Freelancer" ADD COLUMN     "ratingAverage" DOUBLE PRECISION,
+ADD COLUMN     "ratingCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "direction" "ReviewDirection" NOT NULL DEFAULT 'CLIENT_TO_FREELANCER',
+ADD COLUMN     "reviewerId" TEXT,
+ADD COLUMN     "clientId" TEXT,
+ADD COLUMN     "subRatings" JSONB,
+ADD COLUMN     "blindUntil" TIMESTAMP(3),
+ADD COLUMN     "publishedAt" TIMESTAMP(3);
+
+-- التقييمات السابقة كانت من العميل للمستقل وظاهرة منذ إنشائها
+UPDATE "Review" r
+SET "reviewerId" = c."clientId",
+    "clientId" = c."clientId",
+    "blindUntil" = r."createdAt",
+    "publishedAt" = r."createdAt"
+FROM "Contract" c
+WHERE c."id" = r."contractId";
+
+ALTER TABLE "Review" ALTER COLUMN "direction" DROP DEFAULT,
+ALTER COLUMN "reviewerId" SET NOT NULL,
+ALTER COLUMN "clientId" SET NOT NULL,
+ALTER COLUMN "blindUntil" SET NOT NULL;
+
+-- متوسط التقييمات الحالية للمستقلين
+UPDATE "Freelancer" f
+SET "ratingAverage" = s."average",
+    "ratingCount" = s."count"
+FROM (
+    SELECT "freelancerId", AVG("rating")::DOUBLE PRECISION AS "average", COUNT(*)::INTEGER AS "count"
+    FROM "Review"
+    GROUP BY "freelancerId"
+) s
+WHERE f."id" = s."freelancerId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_contractId_direction_key" ON "Review"("contractId", "direction");
+
+-- CreateIndex
+CREATE INDEX "Review_freelancerId_direction_publishedAt_idx" ON "Review"("freelancerId", "direction", "publishedAt");
+
+-- CreateIndex
+CREATE INDEX "Review_clientId_direction_publishedAt_idx" ON "Review"("clientId", "direction", "publishedAt");
+
+-- CreateIndex
+CREATE INDEX "Review_publishedAt_blindUntil_idx" ON "Review"("publishedAt", "blindUntil");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
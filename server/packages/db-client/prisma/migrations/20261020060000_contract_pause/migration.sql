@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "ContractStatus" ADD VALUE 'PAUSED';
+
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "pauseReason" TEXT,
+ADD COLUMN     "pausedAt" TIMESTAMP(3);
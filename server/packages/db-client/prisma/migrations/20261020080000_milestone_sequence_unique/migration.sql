@@ -0,0 +1,19 @@
+-- إعادة ترقيم مراحل العقود التي تكرر فيها رقم المرحلة، بترتيبها الحالي
+UPDATE "Milestone" AS m
+SET "sequence" = numbered."rowNumber"
+FROM (
+    SELECT "id",
+           ROW_NUMBER() OVER (
+               PARTITION BY "contractId" ORDER BY "sequence", "createdAt", "id"
+           ) AS "rowNumber"
+    FROM "Milestone"
+    WHERE "contractId" IN (
+        SELECT "contractId" FROM "Milestone"
+        GROUP BY "contractId", "sequence"
+        HAVING COUNT(*) > 1
+    )
+) AS numbered
+WHERE m."id" = numbered."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Milestone_contractId_sequence_key" ON "Milestone"("contractId", "sequence");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Milestone" ADD COLUMN     "releaseRequestedAt" TIMESTAMP(3);
+
+-- المراحل المعتمدة سابقاً تبقى بدون طلب تحرير: قد يكون اعتمادها من المستقل،
+-- فلا يدفعها المجدول تلقائياً، واعتماد العميل لها يعيد محاولة التحرير
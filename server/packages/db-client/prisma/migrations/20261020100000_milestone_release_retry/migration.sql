@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Milestone" ADD COLUMN     "releaseAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "releaseRetryAt" TIMESTAMP(3);
+
+-- التحريرات المطلوبة حالياً تُعاد محاولتها في التشغيل التالي للمجدول
+UPDATE "Milestone" SET "releaseRetryAt" = "releaseRequestedAt"
+WHERE "status" = 'APPROVED' AND "releaseRequestedAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Milestone_status_releaseRetryAt_idx" ON "Milestone"("status", "releaseRetryAt");
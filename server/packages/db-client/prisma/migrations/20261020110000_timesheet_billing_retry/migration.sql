@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Timesheet" ADD COLUMN     "billingAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextBillingAt" TIMESTAMP(3);
+
+-- الأسابيع التي فشلت فوترتها سابقاً تُعاد محاولتها في التشغيل التالي
+UPDATE "Timesheet" SET "billingAttempts" = 1, "nextBillingAt" = "updatedAt"
+WHERE "status" = 'PAYMENT_FAILED';
+
+-- CreateIndex
+CREATE INDEX "Timesheet_status_nextBillingAt_idx" ON "Timesheet"("status", "nextBillingAt");
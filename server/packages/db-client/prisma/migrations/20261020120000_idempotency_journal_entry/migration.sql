@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "IdempotencyKey" ADD COLUMN     "journalEntryId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IdempotencyKey_journalEntryId_key" ON "IdempotencyKey"("journalEntryId");
+
+-- AddForeignKey
+ALTER TABLE "IdempotencyKey" ADD CONSTRAINT "IdempotencyKey_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+export * from "./src/currency.ts";
+export * from "./src/Money.ts";
+export * from "./src/validators.ts";
@@ -0,0 +1,95 @@
+import {
+  currencyDecimals,
+  fromMinorUnits,
+  hasValidPrecision,
+  toMinorUnits,
+} from "./currency.ts";
+
+/**
+ * An amount in the currency's minor unit. `amount` is always an integer;
+ * every helper below keeps it that way.
+ */
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export const money = (amount: number, currency: string): Money => {
+  if (!Number.isSafeInteger(amount)) {
+    throw new Error(`Invalid money amount: ${amount} is not an integer.`);
+  }
+  currencyDecimals(currency);
+  return { amount, currency };
+};
+
+// Strict conversion from user input: rejects digits the currency can't hold
+export const moneyFromMajor = (amount: number, currency: string): Money => {
+  if (!Number.isFinite(amount) || !hasValidPrecision(amount, currency)) {
+    throw new Error(
+      `Invalid money amount: ${amount} has more than ${currencyDecimals(currency)} decimal(s) for ${currency}.`
+    );
+  }
+  return money(toMinorUnits(amount, currency), currency);
+};
+
+export const toMajorUnits = (value: Money): number =>
+  fromMinorUnits(value.amount, value.currency);
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(
+      `Invalid money operation: ${a.currency} and ${b.currency} differ.`
+    );
+  }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+};
+
+export const isSameMoney = (a: Money, b: Money): boolean =>
+  a.currency === b.currency && a.amount === b.amount;
+
+// Rate/percentage/hours multiplication, rounded half away from zero
+export const multiplyMoney = (value: Money, factor: number): Money => {
+  const product = value.amount * factor;
+  return money(
+    Math.sign(product) * Math.round(Math.abs(product)),
+    value.currency
+  );
+};
+
+/**
+ * Splits an amount by ratios without losing a minor unit: the remainder
+ * left by rounding down goes to the first parts.
+ */
+export const allocateMoney = (value: Money, ratios: number[]): Money[] => {
+  const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  if (ratios.length === 0 || total <= 0 || ratios.some((r) => r < 0)) {
+    throw new Error("Invalid allocation ratios.");
+  }
+
+  const parts = ratios.map((ratio) =>
+    Math.floor((value.amount * ratio) / total)
+  );
+  let remainder = value.amount - parts.reduce((sum, part) => sum + part, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % parts.length) {
+    parts[i]++;
+    remainder--;
+  }
+
+  return parts.map((part) => money(part, value.currency));
+};
+
+// "1,250.50 USD"
+export const formatMoney = (value: Money): string =>
+  `${toMajorUnits(value).toLocaleString("en-US", {
+    minimumFractionDigits: currencyDecimals(value.currency),
+    maximumFractionDigits: currencyDecimals(value.currency),
+  })} ${value.currency}`;
@@ -0,0 +1,59 @@
+// Minor-unit exponent of every supported currency (ISO 4217)
+export const CURRENCY_DECIMALS: Record<string, number> = {
+  USD: 2,
+  EGP: 2,
+  SAR: 2,
+  AED: 2,
+  KWD: 3,
+  QAR: 2,
+  BHD: 3,
+  OMR: 3,
+  JOD: 3,
+  LBP: 2,
+  IQD: 3,
+  SYP: 2,
+  ILS: 2,
+  YER: 2,
+  MAD: 2,
+  DZD: 2,
+  TND: 3,
+  LYD: 3,
+  SDG: 2,
+  MRU: 2,
+  SOS: 2,
+  DJF: 0,
+  PKR: 2,
+  IDR: 2,
+  TRY: 2,
+  IRR: 2,
+};
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const isSupportedCurrency = (currency: string): boolean =>
+  currency in CURRENCY_DECIMALS;
+
+export const currencyDecimals = (currency: string): number => {
+  const decimals = CURRENCY_DECIMALS[currency];
+  if (decimals === undefined) {
+    throw new Error(`Invalid currency: ${currency} is not supported.`);
+  }
+  return decimals;
+};
+
+// True when a major-unit amount has no more decimals than the currency allows
+export const hasValidPrecision = (amount: number, currency: string): boolean => {
+  const scaled = amount * 10 ** currencyDecimals(currency);
+  // tolerate binary float noise (e.g. 0.1 + 0.2), not real extra digits
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+};
+
+// Major units (12.5 EGP) -> minor units (1250 piastres), rounded half away from zero
+export const toMinorUnits = (amount: number, currency: string): number => {
+  const scaled = amount * 10 ** currencyDecimals(currency);
+  return Math.sign(scaled) * Math.round(Math.abs(scaled));
+};
+
+// Minor units -> major units, for display only
+export const fromMinorUnits = (amount: number, currency: string): number =>
+  amount / 10 ** currencyDecimals(currency);
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import {
+  currencyDecimals,
+  hasValidPrecision,
+  isSupportedCurrency,
+  toMinorUnits,
+} from "./currency.ts";
+
+interface AmountBounds {
+  min?: number; // in major units, inclusive
+  max?: number;
+}
+
+export const currencySchema = z
+  .string()
+  .transform((c) => c.toUpperCase())
+  .refine(isSupportedCurrency, { message: "Unsupported currency" });
+
+/**
+ * API input in major units (e.g. 12.50) -> integer minor units (1250).
+ * Amounts with more decimals than the currency has are rejected, not rounded.
+ */
+export const majorAmountSchema = (
+  currency: string,
+  bounds: AmountBounds = {}
+) =>
+  z
+    .number()
+    .min(bounds.min ?? 0)
+    .max(bounds.max ?? Number.MAX_SAFE_INTEGER)
+    .refine((amount) => hasValidPrecision(amount, currency), {
+      message: `Amount can have at most ${currencyDecimals(currency)} decimal(s) in ${currency}`,
+    })
+    .transform((amount) => toMinorUnits(amount, currency));
+
+// Same as majorAmountSchema for query strings ("12.50")
+export const majorAmountQuerySchema = (
+  currency: string,
+  bounds: AmountBounds = {}
+) => z.coerce.number().pipe(majorAmountSchema(currency, bounds));
+
+// An amount that is already in minor units (internal APIs, stored values)
+export const minorAmountSchema = z.number().int().nonnegative();
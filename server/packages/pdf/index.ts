@@ -0,0 +1,2 @@
+export * from "./src/render.ts";
+export * from "./src/text.ts";
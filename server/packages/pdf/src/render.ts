@@ -0,0 +1,98 @@
+// Simple text PDF writer (built-in Helvetica fonts, A4 pages).
+// The built-in fonts only cover ASCII, other characters are replaced with "?".
+
+export interface PdfLine {
+  text: string | string[]; // array = cells drawn at the `columns` offsets
+  columns?: number[]; // offset of each cell from the left margin (points)
+  size?: number; // default 10
+  bold?: boolean;
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+// Splits the lines over pages, one content stream per page
+const layoutPages = (lines: PdfLine[]): string[] => {
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const advance = size * 1.4 + (line.spaceBefore ?? 0);
+
+    if (y - advance < MARGIN) {
+      pages.push(ops.join("\n"));
+      ops = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= advance;
+
+    const cells = Array.isArray(line.text) ? line.text : [line.text];
+    const font = line.bold ? "F2" : "F1";
+    cells.forEach((cell, index) => {
+      const x = MARGIN + (line.columns?.[index] ?? 0);
+      ops.push(
+        `BT /${font} ${size} Tf ${x} ${y.toFixed(2)} Td (${escapeText(cell)}) Tj ET`
+      );
+    });
+  }
+
+  pages.push(ops.join("\n"));
+  return pages;
+};
+
+/**
+ * Builds a PDF from a list of text lines, starting a new page when one is full.
+ */
+export const renderPdf = (lines: PdfLine[]): Buffer => {
+  const pages = layoutPages(lines);
+
+  // 1: Catalog, 2: Pages, 3-4: fonts, then a Page object and a content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((content, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output);
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output);
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+};
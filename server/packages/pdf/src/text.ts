@@ -0,0 +1,23 @@
+// Splits a paragraph into lines of at most `maxChars` characters, on word
+// boundaries where possible (the built-in fonts have no automatic wrapping).
+export const wrapText = (text: string, maxChars = 95): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      for (let i = 0; i < word.length; i += maxChars) {
+        const chunk = word.slice(i, i + maxChars);
+        if (line && line.length + 1 + chunk.length > maxChars) {
+          lines.push(line);
+          line = chunk;
+        } else {
+          line = line ? `${line} ${chunk}` : chunk;
+        }
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
@@ -0,0 +1,170 @@
+import { DomainError } from "@rizlax/common-middleware";
+import logger from "@rizlax/logs";
+
+export interface TransitionEvent<S extends string, R extends string, C> {
+  machine: string;
+  from: S;
+  to: S;
+  role: R;
+  context: C;
+}
+
+export type TransitionHook<S extends string, R extends string, C> = (
+  event: TransitionEvent<S, R, C>
+) => void | Promise<void>;
+
+export interface TransitionRule<S extends string, R extends string, C> {
+  from: S | readonly S[];
+  to: S | readonly S[];
+  // who may make the move, any role when omitted
+  roles?: readonly R[];
+  before?: TransitionHook<S, R, C>;
+  after?: TransitionHook<S, R, C>;
+}
+
+export interface StateMachineConfig<S extends string, R extends string, C> {
+  name: string;
+  states: readonly S[];
+  transitions: readonly TransitionRule<S, R, C>[];
+  // run for every transition, around the rule's own hooks
+  before?: TransitionHook<S, R, C>[];
+  after?: TransitionHook<S, R, C>[];
+}
+
+const toList = <T>(value: T | readonly T[]): readonly T[] =>
+  Array.isArray(value) ? value : [value as T];
+
+/**
+ * Allowed status transitions of one kind of entity, with role guards, hooks
+ * and listeners. The machine holds no state itself: callers pass the current
+ * status in and write the new one (see `transition`).
+ */
+export class StateMachine<S extends string, R extends string, C = undefined> {
+  public readonly name: string;
+  private config: StateMachineConfig<S, R, C>;
+  private rules = new Map<S, Map<S, TransitionRule<S, R, C>>>();
+  private listeners = new Set<TransitionHook<S, R, C>>();
+
+  constructor(config: StateMachineConfig<S, R, C>) {
+    this.name = config.name;
+    this.config = config;
+
+    for (const state of config.states) this.rules.set(state, new Map());
+    for (const rule of config.transitions) {
+      for (const from of toList(rule.from)) {
+        for (const to of toList(rule.to)) {
+          const targets = this.rules.get(from);
+          if (!targets || !config.states.includes(to)) {
+            throw new Error(
+              `Invalid ${this.name} state machine: unknown state in ${from} -> ${to}`
+            );
+          }
+          if (targets.has(to)) {
+            throw new Error(
+              `Invalid ${this.name} state machine: ${from} -> ${to} is defined twice`
+            );
+          }
+          targets.set(to, rule);
+        }
+      }
+    }
+  }
+
+  private allows(rule: TransitionRule<S, R, C>, role?: R): boolean {
+    return !rule.roles || (role !== undefined && rule.roles.includes(role));
+  }
+
+  public can(from: S, to: S, role?: R): boolean {
+    const rule = this.rules.get(from)?.get(to);
+    return rule !== undefined && this.allows(rule, role);
+  }
+
+  // States reachable from `from`, optionally only those `role` may move to
+  public nextStates(from: S, role?: R): S[] {
+    const targets = this.rules.get(from) ?? new Map();
+    return [...targets]
+      .filter(([, rule]) => role === undefined || this.allows(rule, role))
+      .map(([to]) => to);
+  }
+
+  public isFinal(state: S): boolean {
+    return (this.rules.get(state)?.size ?? 0) === 0;
+  }
+
+  public assertTransition(from: S, to: S, role?: R): void {
+    const rule = this.rules.get(from)?.get(to);
+    const code = this.name.toUpperCase().replace(/\W+/g, "_");
+
+    if (!rule) {
+      throw new DomainError(
+        `Invalid ${this.name} status transition from ${from} to ${to}`,
+        `INVALID_${code}_STATUS_TRANSITION`,
+        400
+      );
+    }
+    if (!this.allows(rule, role)) {
+      throw new DomainError(
+        `Moving a ${this.name} from ${from} to ${to} is forbidden for ${role ?? "this user"}`,
+        `${code}_TRANSITION_FORBIDDEN`,
+        403
+      );
+    }
+  }
+
+  // Runs an after hook or listener; the change has been made by then, so an
+  // error is logged instead of failing the transition
+  private async notify(
+    hook: TransitionHook<S, R, C>,
+    event: TransitionEvent<S, R, C>
+  ): Promise<void> {
+    try {
+      await hook(event);
+    } catch (error) {
+      logger.error(
+        `[StateMachine] ${this.name} ${event.from} -> ${event.to} hook failed:`,
+        { error }
+      );
+    }
+  }
+
+  /**
+   * Checks the move, runs the before hooks, `apply` (which writes the new
+   * status and returns whatever the caller needs), the after hooks and
+   * finally the listeners. A throwing before hook cancels the transition;
+   * after hook and listener errors are logged and swallowed, the change has
+   * been made by then.
+   */
+  public async transition<T>(
+    event: Omit<TransitionEvent<S, R, C>, "machine">,
+    apply: () => Promise<T>
+  ): Promise<T> {
+    this.assertTransition(event.from, event.to, event.role);
+    const rule = this.rules.get(event.from)!.get(event.to)!;
+    const full: TransitionEvent<S, R, C> = { ...event, machine: this.name };
+
+    for (const hook of this.config.before ?? []) await hook(full);
+    if (rule.before) await rule.before(full);
+
+    const result = await apply();
+
+    if (rule.after) await this.notify(rule.after, full);
+    for (const hook of this.config.after ?? []) await this.notify(hook, full);
+    for (const listener of this.listeners) await this.notify(listener, full);
+
+    return result;
+  }
+
+  // Subscribes to completed transitions, returns the unsubscribe function
+  public on(listener: TransitionHook<S, R, C>): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+export const createStateMachine = <
+  S extends string,
+  R extends string,
+  C = undefined,
+>(
+  config: StateMachineConfig<S, R, C>
+): StateMachine<S, R, C> => new StateMachine(config);
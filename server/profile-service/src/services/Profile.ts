@@ -45,6 +45,7 @@ interface PublicFreelancerProfile {
   }>;
   contractsCount: number;
   reviewsCount: number;
+  ratingAverage: number | null;
 }
 
 interface CreatePortfolioProjectInput {
@@ -234,7 +235,7 @@ class ProfileService {
         portfolioLinks: true,
         user: { select: { name: true } },
         _count: {
-          select: { contracts: true, reviews: true },
+          select: { contracts: true },
         },
       },
     });
@@ -253,7 +254,9 @@ class ProfileService {
         liveUrl: link.liveUrl || "",
       })),
       contractsCount: profile._count.contracts,
-      reviewsCount: profile._count.reviews,
+      // التقييمات المنشورة فقط، تُحدَّث في contract-service عند نشر المراجعات
+      reviewsCount: profile.ratingCount,
+      ratingAverage: profile.ratingAverage,
     };
   }
 